@@ -2,12 +2,20 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "./LPToken.sol";
+import "./interfaces/IAMMCallee.sol";
+import "./interfaces/IAMMFactory.sol";
 
 /**
  * @title AMM
  * @dev Minimal constant-product automated market maker (similar to Uniswap V2)
- * @notice Implements add/remove liquidity and token swaps with 0.3% fee
+ * @notice Implements add/remove liquidity and token swaps with a per-pool fee. When the deploying
+ * factory sets `feeTo`, one sixth of the fee growth is minted to it as LP tokens. `flashSwap`
+ * lends reserves within a transaction against repayment in either token. Reserves are
+ * reconciled against `balanceOf(this)` after every operation, so fee-on-transfer tokens are
+ * credited with what actually arrives. The factory's `guardian` can pause swaps and deposits
+ * during an incident; withdrawals stay open.
  */
 contract AMM {
     /// @dev Address of the first token in the pair
@@ -19,13 +27,40 @@ contract AMM {
     uint112 private reserve0;
     /// @dev Reserve of token1 in the pool
     uint112 private reserve1;
+    /// @dev Timestamp (mod 2**32) of the last reserve update, packed with the reserves
+    uint32 public blockTimestampLast;
+
+    /// @dev Time-weighted sum of token0's price in token1, as UQ112x112 seconds (wraps on overflow)
+    uint256 public price0CumulativeLast;
+    /// @dev Time-weighted sum of token1's price in token0, as UQ112x112 seconds (wraps on overflow)
+    uint256 public price1CumulativeLast;
 
     /// @dev LP token contract representing liquidity provider shares
     LPToken public immutable lpToken;
 
-    /// @dev Constant for 0.3% fee (997/1000 = 99.7% of input goes to reserves)
-    uint256 private constant FEE_DENOMINATOR = 1000;
-    uint256 private constant FEE_NUMERATOR = 997;
+    /// @dev Deployer of the pool, queried for the protocol fee recipient
+    address public immutable factory;
+
+    /// @dev Swap fee in basis points of the input amount (30 == 0.3%)
+    uint256 public immutable swapFee;
+    /// @dev Denominator for `swapFee`
+    uint256 public constant FEE_DENOMINATOR = 10_000;
+    /// @dev Highest swap fee a pool can be deployed with (10%)
+    uint256 public constant MAX_SWAP_FEE = 1_000;
+
+    /// @dev LP tokens locked forever by the first deposit, so the share price cannot be inflated
+    uint256 public constant MINIMUM_LIQUIDITY = 1_000;
+    /// @dev Holder of the locked liquidity; OpenZeppelin's ERC20 refuses to mint to address(0)
+    address public constant LIQUIDITY_LOCK = address(0xdead);
+
+    /// @dev reserve0 * reserve1 after the last liquidity event, or 0 while the protocol fee is off
+    uint256 public kLast;
+
+    /// @dev Reentrancy lock shared by every state-changing entry point
+    uint256 private unlocked = 1;
+
+    /// @dev Whether swaps, flash swaps and deposits are halted; withdrawals are never paused
+    bool public paused;
 
     /**
      * @dev Emitted when liquidity is added to the pool
@@ -43,16 +78,18 @@ contract AMM {
 
     /**
      * @dev Emitted when liquidity is removed from the pool
-     * @param provider Address that removed liquidity
+     * @param provider Address whose LP tokens were burned
      * @param amount0 Amount of token0 removed
      * @param amount1 Amount of token1 removed
      * @param liquidityBurned Amount of LP tokens burned
+     * @param recipient Address that received the removed tokens
      */
     event LiquidityRemoved(
         address indexed provider,
         uint256 amount0,
         uint256 amount1,
-        uint256 liquidityBurned
+        uint256 liquidityBurned,
+        address recipient
     );
 
     /**
@@ -62,23 +99,93 @@ contract AMM {
      * @param amountIn Amount of input token
      * @param tokenOut Address of the output token
      * @param amountOut Amount of output token
+     * @param recipient Address that received the output
      */
     event SwapExecuted(
         address indexed trader,
         address indexed tokenIn,
         uint256 amountIn,
         address indexed tokenOut,
-        uint256 amountOut
+        uint256 amountOut,
+        address recipient
     );
 
     /**
-     * @dev Constructor that initializes the AMM with two tokens
+     * @dev Emitted on every reserve update, before the event of the operation that caused it
+     * @notice Indexers can follow the reserves from these events alone, including updates that
+     * emit nothing else, such as `sync`
+     * @param reserve0 Reserve of token0 after the update
+     * @param reserve1 Reserve of token1 after the update
+     */
+    event Sync(uint112 reserve0, uint112 reserve1);
+
+    /**
+     * @dev Emitted when a flash swap settles
+     * @param sender Address that called `flashSwap`
+     * @param to Address that received the borrowed tokens
+     * @param amount0In Amount of token0 paid back to the pool
+     * @param amount1In Amount of token1 paid back to the pool
+     * @param amount0Out Amount of token0 sent out
+     * @param amount1Out Amount of token1 sent out
+     */
+    event FlashSwap(
+        address indexed sender,
+        address indexed to,
+        uint256 amount0In,
+        uint256 amount1In,
+        uint256 amount0Out,
+        uint256 amount1Out
+    );
+
+    /**
+     * @dev Emitted when the guardian pauses or unpauses the pool
+     * @param guardian Address that made the change
+     * @param paused Whether swaps and deposits are now halted
+     */
+    event PauseUpdated(address indexed guardian, bool paused);
+
+    /**
+     * @dev Rejects calls made while another entry point of the pool is executing, e.g. from a
+     * flash swap callback or a token's transfer hook, whose reserves do not yet reflect the tokens
+     * that were sent out
+     */
+    modifier lock() {
+        _lock();
+        _;
+        unlocked = 1;
+    }
+
+    /**
+     * @dev Reverts once the transaction is mined after `deadline`
+     * @param deadline Unix timestamp after which the call is rejected
+     */
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "AMM: expired");
+        _;
+    }
+
+    /**
+     * @dev Rejects swaps and deposits while the guardian has paused the pool
+     */
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    /**
+     * @dev Constructor that initializes the AMM with two tokens and a swap fee
+     * @notice The deployer becomes `factory`. Pools deployed by an account without a `feeTo()`
+     * function never charge the protocol fee.
      * @param _token0 Address of the first token
      * @param _token1 Address of the second token
+     * @param _swapFee Swap fee in basis points (at most MAX_SWAP_FEE)
      */
-    constructor(address _token0, address _token1) {
+    constructor(address _token0, address _token1, uint256 _swapFee) {
         require(_token0 != address(0) && _token1 != address(0), "AMM: zero address");
         require(_token0 != _token1, "AMM: identical tokens");
+        require(_swapFee <= MAX_SWAP_FEE, "AMM: fee too high");
+        factory = msg.sender;
+        swapFee = _swapFee;
         
         // Ensure token0 < token1 for consistency
         if (_token0 < _token1) {
@@ -89,7 +196,13 @@ contract AMM {
             token1 = _token0;
         }
         
-        lpToken = new LPToken("Minimal AMM LP", "MALP", address(this));
+        // LP token is named after the pair, e.g. "Minimal AMM LP WETH-USDC" / "MALP-WETH-USDC"
+        string memory pair = string.concat(_symbolOf(token0), "-", _symbolOf(token1));
+        lpToken = new LPToken(
+            string.concat("Minimal AMM LP ", pair),
+            string.concat("MALP-", pair),
+            address(this)
+        );
     }
 
     /**
@@ -102,15 +215,416 @@ contract AMM {
     }
 
     /**
-     * @dev Adds liquidity to the pool and mints LP tokens
-     * @param amount0 Amount of token0 to add
-     * @param amount1 Amount of token1 to add
+     * @dev Returns the current recipient of the protocol fee
+     * @return Address from the factory's `feeTo()`, or the zero address if the fee is off or the
+     * pool was not deployed by a factory
+     */
+    function feeTo() public view returns (address) {
+        return _factoryAddress(IAMMFactory.feeTo.selector, address(0));
+    }
+
+    /**
+     * @dev Returns the account allowed to pause the pool
+     * @return Address from the factory's `guardian()`, or the deployer itself if it has no such
+     * function, e.g. an account that deployed the pool directly
+     */
+    function guardian() public view returns (address) {
+        return _factoryAddress(IAMMFactory.guardian.selector, factory);
+    }
+
+    /**
+     * @dev Pauses or unpauses swaps, flash swaps and deposits
+     * @notice Only the guardian can call it. Withdrawals, `sync` and `skim` stay open while the
+     * pool is paused, so LPs can always exit.
+     * @param _paused Whether to halt swaps and deposits
+     */
+    function setPaused(bool _paused) external lock {
+        require(msg.sender == guardian(), "AMM: forbidden");
+        paused = _paused;
+        emit PauseUpdated(msg.sender, _paused);
+    }
+
+    /**
+     * @dev Adds liquidity to the pool at the current reserve ratio and mints LP tokens
+     * @notice One of the desired amounts is used in full; only the matching amount of the other
+     * token is pulled from the caller. The first deposit uses both amounts and sets the ratio.
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @return amount0 Amount of token0 pulled from the caller
+     * @return amount1 Amount of token1 pulled from the caller
      * @return liquidity Amount of LP tokens minted
      */
     function addLiquidity(
+        uint256 amount0Desired,
+        uint256 amount1Desired
+    ) external lock whenNotPaused returns (uint256 amount0, uint256 amount1, uint256 liquidity) {
+        (amount0, amount1) = _optimalAmounts(amount0Desired, amount1Desired, 0, 0);
+        liquidity = _addLiquidity(amount0, amount1);
+    }
+
+    /**
+     * @dev Adds liquidity at the current reserve ratio with slippage limits and a deadline
+     * @notice The minimums bound the amounts actually deposited, protecting against the reserve
+     * ratio moving before the transaction is mined
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @param amount0Min Least token0 to add
+     * @param amount1Min Least token1 to add
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 pulled from the caller
+     * @return amount1 Amount of token1 pulled from the caller
+     * @return liquidity Amount of LP tokens minted
+     */
+    function addLiquidityWithLimits(
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    )
+        external
+        lock
+        whenNotPaused
+        ensure(deadline)
+        returns (uint256 amount0, uint256 amount1, uint256 liquidity)
+    {
+        (amount0, amount1) = _optimalAmounts(
+            amount0Desired,
+            amount1Desired,
+            amount0Min,
+            amount1Min
+        );
+        liquidity = _addLiquidity(amount0, amount1);
+    }
+
+    /**
+     * @dev Removes liquidity from the pool and burns LP tokens
+     * @param liquidity Amount of LP tokens to burn
+     * @return amount0 Amount of token0 returned
+     * @return amount1 Amount of token1 returned
+     */
+    function removeLiquidity(
+        uint256 liquidity
+    ) external lock returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, 0, 0, msg.sender);
+    }
+
+    /**
+     * @dev Removes liquidity with slippage limits and a deadline
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 returned
+     * @return amount1 Amount of token1 returned
+     */
+    function removeLiquidityWithLimits(
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, amount0Min, amount1Min, msg.sender);
+    }
+
+    /**
+     * @dev Removes liquidity with slippage limits and a deadline, sending the tokens to `to`
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param to Address to receive the withdrawn tokens
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 sent to `to`
+     * @return amount1 Amount of token1 sent to `to`
+     */
+    function removeLiquidityTo(
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, amount0Min, amount1Min, to);
+    }
+
+    /**
+     * @dev Removes `owner`'s liquidity with an EIP-2612 permit, sending the tokens to `to`
+     * @notice The permit approves the caller, e.g. a router or relayer, to spend `liquidity` of
+     * the owner's LP tokens; the approval is used up by the burn. Its deadline also bounds the
+     * removal.
+     * @param owner Holder of the LP tokens, who signed the permit
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param to Address to receive the withdrawn tokens
+     * @param deadline Unix timestamp after which the permit and the call expire
+     * @param v Recovery byte of the permit signature
+     * @param r First half of the permit signature
+     * @param s Second half of the permit signature
+     * @return amount0 Amount of token0 sent to `to`
+     * @return amount1 Amount of token1 sent to `to`
+     */
+    function removeLiquidityWithPermit(
+        address owner,
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        lpToken.permit(owner, msg.sender, liquidity, deadline, v, r, s);
+        return _removeLiquidity(owner, liquidity, amount0Min, amount1Min, to);
+    }
+
+    /**
+     * @dev Swaps tokens using constant-product formula with the pool's swap fee
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token to swap
+     * @return amountOut Amount of output token received
+     */
+    function swap(
+        address tokenIn,
+        uint256 amountIn
+    ) external lock whenNotPaused returns (uint256 amountOut) {
+        return _swapExactIn(tokenIn, amountIn);
+    }
+
+    /**
+     * @dev Swaps an exact input amount, reverting if the output falls below `minAmountOut`
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token to swap
+     * @param minAmountOut Minimum amount of output token to receive
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amountOut Amount of output token received
+     */
+    function swapExactTokensForTokens(
+        address tokenIn,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external lock whenNotPaused ensure(deadline) returns (uint256 amountOut) {
+        amountOut = _swapExactIn(tokenIn, amountIn);
+        require(amountOut >= minAmountOut, "AMM: insufficient output amount");
+    }
+
+    /**
+     * @dev Swaps for an exact output amount, paying at most `maxAmountIn` of the input token
+     * @notice Any output the input would buy beyond `amountOut` because of rounding stays in the
+     * pool, so the trader never receives more than requested
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Exact amount of output token to receive
+     * @param maxAmountIn Maximum amount of input token to pay
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amountIn Amount of input token paid
+     */
+    function swapTokensForExactTokens(
+        address tokenIn,
+        uint256 amountOut,
+        uint256 maxAmountIn,
+        uint256 deadline
+    ) external lock whenNotPaused ensure(deadline) returns (uint256 amountIn) {
+        amountIn = _swapExactOut(tokenIn, amountOut);
+        require(amountIn <= maxAmountIn, "AMM: excessive input amount");
+    }
+
+    /**
+     * @dev Sends tokens out first, optionally calls back into `to`, then requires repayment
+     * @notice Repayment can be made in either token, as long as the reserves after the call satisfy
+     * the constant-product invariant with the swap fee charged on every input. Borrowing x and
+     * repaying the same token costs ceil(x * FEE_DENOMINATOR / (FEE_DENOMINATOR - swapFee)).
+     * @param amount0Out Amount of token0 to send to `to`
+     * @param amount1Out Amount of token1 to send to `to`
+     * @param to Recipient of the tokens; receives the `IAMMCallee.ammCall` callback if `data` is
+     * non-empty
+     * @param data Arbitrary data forwarded to the callback
+     */
+    function flashSwap(
+        uint256 amount0Out,
+        uint256 amount1Out,
+        address to,
+        bytes calldata data
+    ) external lock whenNotPaused {
+        require(amount0Out > 0 || amount1Out > 0, "AMM: invalid amount");
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
+        require(amount0Out < _reserve0 && amount1Out < _reserve1, "AMM: insufficient liquidity");
+        require(to != token0 && to != token1, "AMM: invalid to");
+
+        // Optimistic transfers: the receiver holds the tokens before paying anything
+        if (amount0Out > 0) {
+            IERC20(token0).transfer(to, amount0Out);
+        }
+        if (amount1Out > 0) {
+            IERC20(token1).transfer(to, amount1Out);
+        }
+        if (data.length > 0) {
+            IAMMCallee(to).ammCall(msg.sender, amount0Out, amount1Out, data);
+        }
+
+        (uint256 amount0In, uint256 amount1In) = _settle(
+            _reserve0,
+            _reserve1,
+            amount0Out,
+            amount1Out
+        );
+
+        emit FlashSwap(msg.sender, to, amount0In, amount1In, amount0Out, amount1Out);
+    }
+
+    /**
+     * @dev Sets the reserves to the pool's token balances
+     * @notice Recovers from balances drifting away from the reserves, e.g. after one of the tokens
+     * rebases. Any surplus becomes part of the pool and accrues to LPs.
+     */
+    function sync() external lock {
+        _updateReserves(
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+    }
+
+    /**
+     * @dev Sends the pool's token balances in excess of the reserves to `to`
+     * @notice Recovers tokens transferred to the pool directly. Anyone can call it, so a donation
+     * belongs to whoever skims it first.
+     * @param to Recipient of the excess tokens
+     */
+    function skim(address to) external lock {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        if (balance0 > reserve0) {
+            IERC20(token0).transfer(to, balance0 - reserve0);
+        }
+        if (balance1 > reserve1) {
+            IERC20(token1).transfer(to, balance1 - reserve1);
+        }
+    }
+
+    /**
+     * @dev Output of an exact-input swap against the given reserves, after the pool's swap fee
+     * @notice amountInWithFee = amountIn * (FEE_DENOMINATOR - swapFee) / FEE_DENOMINATOR and
+     * amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee)
+     * @param amountIn Amount of input token
+     * @param reserveIn Reserve of the input token
+     * @param reserveOut Reserve of the output token
+     * @return amountOut Amount of output token the swap yields
+     */
+    function getAmountOut(
+        uint256 amountIn,
+        uint256 reserveIn,
+        uint256 reserveOut
+    ) public view returns (uint256 amountOut) {
+        require(amountIn > 0, "AMM: invalid amount");
+        require(reserveIn > 0 && reserveOut > 0, "AMM: insufficient liquidity");
+
+        uint256 amountInWithFee = (amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+        amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee);
+        require(amountOut > 0 && amountOut < reserveOut, "AMM: insufficient output");
+    }
+
+    /**
+     * @dev Smallest input that buys at least `amountOut` against the given reserves
+     * @notice Inverts getAmountOut including both of its floor divisions, so
+     * getAmountOut(getAmountIn(x)) >= x and getAmountOut(getAmountIn(x) - 1) < x
+     * @param amountOut Desired amount of output token
+     * @param reserveIn Reserve of the input token
+     * @param reserveOut Reserve of the output token
+     * @return amountIn Amount of input token required
+     */
+    function getAmountIn(
+        uint256 amountOut,
+        uint256 reserveIn,
+        uint256 reserveOut
+    ) public view returns (uint256 amountIn) {
+        require(amountOut > 0, "AMM: invalid amount");
+        require(reserveIn > 0 && amountOut < reserveOut, "AMM: insufficient liquidity");
+
+        // Smallest fee-adjusted input whose output rounds down to at least amountOut
+        uint256 amountInWithFee = _ceilDiv(amountOut * reserveIn, reserveOut - amountOut);
+        // Smallest input whose fee-adjusted amount rounds down to at least amountInWithFee
+        amountIn = _ceilDiv(amountInWithFee * FEE_DENOMINATOR, FEE_DENOMINATOR - swapFee);
+    }
+
+    /**
+     * @dev Internal function that takes the reentrancy lock, shared by `lock` so the check is not
+     * inlined into every entry point
+     */
+    function _lock() internal {
+        require(unlocked == 1, "AMM: locked");
+        unlocked = 0;
+    }
+
+    /**
+     * @dev Internal function that reverts while the pool is paused, shared by `whenNotPaused` for
+     * the same reason as `_lock`
+     */
+    function _requireNotPaused() internal view {
+        require(!paused, "AMM: paused");
+    }
+
+    /**
+     * @dev Internal function that reads an address from the deployer, which may not be a factory
+     * @param selector Selector of a parameterless IAMMFactory getter
+     * @param fallbackValue Address returned if the deployer does not implement the getter
+     * @return Address the getter returned, or `fallbackValue`
+     */
+    function _factoryAddress(
+        bytes4 selector,
+        address fallbackValue
+    ) internal view returns (address) {
+        (bool success, bytes memory data) = factory.staticcall(abi.encodeWithSelector(selector));
+        return success && data.length == 32 ? abi.decode(data, (address)) : fallbackValue;
+    }
+
+    /**
+     * @dev Internal function that sizes a deposit to the current reserve ratio
+     * @notice Uses all of one desired amount and `amount * reserveOther / reserve` of the other,
+     * whichever fits within both desired amounts
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @param amount0Min Least token0 to add
+     * @param amount1Min Least token1 to add
+     * @return amount0 Amount of token0 to deposit
+     * @return amount1 Amount of token1 to deposit
+     */
+    function _optimalAmounts(
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min
+    ) internal view returns (uint256 amount0, uint256 amount1) {
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
+        if (_reserve0 == 0 && _reserve1 == 0) {
+            return (amount0Desired, amount1Desired);
+        }
+
+        uint256 amount1Optimal = (amount0Desired * _reserve1) / _reserve0;
+        if (amount1Optimal <= amount1Desired) {
+            require(amount1Optimal >= amount1Min, "AMM: insufficient amount1");
+            return (amount0Desired, amount1Optimal);
+        }
+        uint256 amount0Optimal = (amount1Desired * _reserve0) / _reserve1;
+        // amount0Optimal <= amount0Desired, as amount1Optimal > amount1Desired
+        require(amount0Optimal >= amount0Min, "AMM: insufficient amount0");
+        return (amount0Optimal, amount1Desired);
+    }
+
+    /**
+     * @dev Internal function that transfers in a deposit and mints LP tokens
+     * @notice Liquidity is minted for the amounts that actually arrived, measured against the
+     * reserves, so fee-on-transfer tokens are credited net of their fee
+     * @param amount0 Amount of token0 to transfer in
+     * @param amount1 Amount of token1 to transfer in
+     * @return liquidity Amount of LP tokens minted
+     */
+    function _addLiquidity(
         uint256 amount0,
         uint256 amount1
-    ) external returns (uint256 liquidity) {
+    ) internal returns (uint256 liquidity) {
         require(amount0 > 0 && amount1 > 0, "AMM: invalid amounts");
 
         // Transfer tokens from sender to AMM
@@ -119,111 +633,218 @@ contract AMM {
 
         uint112 _reserve0 = reserve0;
         uint112 _reserve1 = reserve1;
+        uint256 received0 = _received(token0, _reserve0);
+        uint256 received1 = _received(token1, _reserve1);
+        bool feeOn = _mintFee(_reserve0, _reserve1);
 
         if (_reserve0 == 0 && _reserve1 == 0) {
-            // First liquidity provision: liquidity = sqrt(amount0 * amount1)
-            liquidity = _sqrt(amount0 * amount1);
-            require(liquidity > 0, "AMM: insufficient initial liquidity");
+            // First liquidity provision: liquidity = sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY.
+            // Locking MINIMUM_LIQUIDITY makes a donation that inflates the value of one LP token
+            // cost the attacker at least MINIMUM_LIQUIDITY times as much.
+            liquidity = _sqrt(received0 * received1);
+            require(liquidity > MINIMUM_LIQUIDITY, "AMM: insufficient initial liquidity");
+            liquidity -= MINIMUM_LIQUIDITY;
+            lpToken.mint(LIQUIDITY_LOCK, MINIMUM_LIQUIDITY);
         } else {
             // Subsequent liquidity: mint proportional to existing reserves
             uint256 totalSupply = lpToken.totalSupply();
-            uint256 liquidity0 = (amount0 * totalSupply) / _reserve0;
-            uint256 liquidity1 = (amount1 * totalSupply) / _reserve1;
+            uint256 liquidity0 = (received0 * totalSupply) / _reserve0;
+            uint256 liquidity1 = (received1 * totalSupply) / _reserve1;
             liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
             require(liquidity > 0, "AMM: insufficient liquidity minted");
         }
 
         lpToken.mint(msg.sender, liquidity);
 
-        uint256 newReserve0 = uint256(_reserve0) + amount0;
-        uint256 newReserve1 = uint256(_reserve1) + amount1;
-        _updateReserves(newReserve0, newReserve1);
+        _updateReserves(uint256(_reserve0) + received0, uint256(_reserve1) + received1);
+        if (feeOn) {
+            kLast = uint256(reserve0) * reserve1;
+        }
 
-        emit LiquidityAdded(msg.sender, amount0, amount1, liquidity);
+        emit LiquidityAdded(msg.sender, received0, received1, liquidity);
     }
 
     /**
-     * @dev Removes liquidity from the pool and burns LP tokens
+     * @dev Internal function that burns LP tokens and sends out the underlying tokens
+     * @notice Pays out a share of the pool's balances, so tokens donated or rebased in since the
+     * last update go to LPs pro rata. Burning from an account other than msg.sender spends the
+     * allowance it gave msg.sender.
+     * @param from Holder of the LP tokens to burn
      * @param liquidity Amount of LP tokens to burn
-     * @return amount0 Amount of token0 returned
-     * @return amount1 Amount of token1 returned
+     * @param amount0Min Minimum amount of token0 to send
+     * @param amount1Min Minimum amount of token1 to send
+     * @param to Address to receive the tokens
+     * @return amount0 Amount of token0 sent
+     * @return amount1 Amount of token1 sent
      */
-    function removeLiquidity(
-        uint256 liquidity
-    ) external returns (uint256 amount0, uint256 amount1) {
+    function _removeLiquidity(
+        address from,
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to
+    ) internal returns (uint256 amount0, uint256 amount1) {
         require(liquidity > 0, "AMM: zero liquidity");
+        require(to != address(0), "AMM: invalid to");
 
+        bool feeOn = _mintFee(reserve0, reserve1);
         uint256 _totalSupply = lpToken.totalSupply();
         require(_totalSupply > 0, "AMM: no liquidity");
 
         // Calculate proportional amounts to return
-        amount0 = (liquidity * reserve0) / _totalSupply;
-        amount1 = (liquidity * reserve1) / _totalSupply;
+        amount0 = (liquidity * IERC20(token0).balanceOf(address(this))) / _totalSupply;
+        amount1 = (liquidity * IERC20(token1).balanceOf(address(this))) / _totalSupply;
         require(amount0 > 0 && amount1 > 0, "AMM: zero amounts");
+        require(amount0 >= amount0Min, "AMM: insufficient amount0");
+        require(amount1 >= amount1Min, "AMM: insufficient amount1");
 
-        lpToken.burn(msg.sender, liquidity);
+        if (from == msg.sender) {
+            lpToken.burn(from, liquidity);
+        } else {
+            lpToken.burnFrom(from, msg.sender, liquidity);
+        }
 
-        // Transfer tokens back to sender
-        IERC20(token0).transfer(msg.sender, amount0);
-        IERC20(token1).transfer(msg.sender, amount1);
+        IERC20(token0).transfer(to, amount0);
+        IERC20(token1).transfer(to, amount1);
 
-        uint256 newReserve0 = uint256(reserve0) - amount0;
-        uint256 newReserve1 = uint256(reserve1) - amount1;
-        _updateReserves(newReserve0, newReserve1);
+        _updateReserves(
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+        if (feeOn) {
+            kLast = uint256(reserve0) * reserve1;
+        }
 
-        emit LiquidityRemoved(msg.sender, amount0, amount1, liquidity);
+        emit LiquidityRemoved(from, amount0, amount1, liquidity, to);
     }
 
     /**
-     * @dev Swaps tokens using constant-product formula with 0.3% fee
+     * @dev Internal function that executes an exact-input swap for msg.sender
+     * @notice The output is priced on the amount that arrived, so fee-on-transfer input tokens
+     * are supported
      * @param tokenIn Address of the input token (must be token0 or token1)
-     * @param amountIn Amount of input token to swap
-     * @return amountOut Amount of output token received
+     * @param amountIn Amount of input token to transfer in
+     * @return amountOut Amount of output token sent
      */
-    function swap(address tokenIn, uint256 amountIn) external returns (uint256 amountOut) {
+    function _swapExactIn(address tokenIn, uint256 amountIn) internal returns (uint256 amountOut) {
         require(amountIn > 0, "AMM: invalid amount");
-        require(tokenIn == token0 || tokenIn == token1, "AMM: unsupported token");
+        (uint256 reserveIn, uint256 reserveOut) = _swapReserves(tokenIn);
 
-        uint112 _reserve0 = reserve0;
-        uint112 _reserve1 = reserve1;
-        require(_reserve0 > 0 && _reserve1 > 0, "AMM: insufficient liquidity");
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        amountOut = getAmountOut(_received(tokenIn, reserveIn), reserveIn, reserveOut);
+        _swap(tokenIn, amountOut);
+    }
 
-        bool zeroForOne = tokenIn == token0;
-        uint256 reserveIn = zeroForOne ? _reserve0 : _reserve1;
-        uint256 reserveOut = zeroForOne ? _reserve1 : _reserve0;
+    /**
+     * @dev Internal function that executes an exact-output swap for msg.sender
+     * @notice Fee-on-transfer input tokens deliver less than `amountIn` and fail the invariant
+     * check; use exact-input swaps for them
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Exact amount of output token to send
+     * @return amountIn Amount of input token pulled from msg.sender
+     */
+    function _swapExactOut(address tokenIn, uint256 amountOut) internal returns (uint256 amountIn) {
+        require(amountOut > 0, "AMM: invalid amount");
+        (uint256 reserveIn, uint256 reserveOut) = _swapReserves(tokenIn);
+        amountIn = getAmountIn(amountOut, reserveIn, reserveOut);
 
-        // Transfer input token from sender
         IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        _swap(tokenIn, amountOut);
+    }
 
-        // Calculate output amount with 0.3% fee
-        // amountOut = (amountIn * 997 / 1000 * reserveOut) / (reserveIn + amountIn * 997 / 1000)
-        uint256 amountInWithFee = (amountIn * FEE_NUMERATOR) / FEE_DENOMINATOR;
-        amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee);
-        require(amountOut > 0 && amountOut < reserveOut, "AMM: insufficient output");
+    /**
+     * @dev Internal function that returns the reserves oriented for a swap from `tokenIn`
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @return reserveIn Reserve of the input token
+     * @return reserveOut Reserve of the output token
+     */
+    function _swapReserves(
+        address tokenIn
+    ) internal view returns (uint256 reserveIn, uint256 reserveOut) {
+        require(tokenIn == token0 || tokenIn == token1, "AMM: unsupported token");
+        require(reserve0 > 0 && reserve1 > 0, "AMM: insufficient liquidity");
+        (reserveIn, reserveOut) = tokenIn == token0 ? (reserve0, reserve1) : (reserve1, reserve0);
+    }
+
+    /**
+     * @dev Internal function that returns how much of `token` the pool holds beyond its reserve
+     * @param token Address of token0 or token1
+     * @param reserve Reserve of `token`
+     * @return Balance in excess of the reserve, e.g. a deposit that just arrived
+     */
+    function _received(address token, uint256 reserve) internal view returns (uint256) {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        require(balance > reserve, "AMM: insufficient input amount");
+        return balance - reserve;
+    }
+
+    /**
+     * @dev Internal function that pays out a swap whose input is already in the pool
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Amount of output token sent to msg.sender
+     */
+    function _swap(address tokenIn, uint256 amountOut) internal {
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
 
+        bool zeroForOne = tokenIn == token0;
         address tokenOut = zeroForOne ? token1 : token0;
         IERC20(tokenOut).transfer(msg.sender, amountOut);
 
-        // Update reserves and validate invariant
-        uint256 newReserve0;
-        uint256 newReserve1;
-        if (zeroForOne) {
-            newReserve0 = reserveIn + amountIn;
-            newReserve1 = reserveOut - amountOut;
-        } else {
-            newReserve0 = reserveOut - amountOut;
-            newReserve1 = reserveIn + amountIn;
-        }
+        // Validate the fee-adjusted invariant against what the pool now holds
+        (uint256 amount0In, uint256 amount1In) = _settle(
+            _reserve0,
+            _reserve1,
+            zeroForOne ? 0 : amountOut,
+            zeroForOne ? amountOut : 0
+        );
 
-        // Validate constant-product invariant: k_new >= k_old
+        emit SwapExecuted(
+            msg.sender,
+            tokenIn,
+            zeroForOne ? amount0In : amount1In,
+            tokenOut,
+            amountOut,
+            msg.sender
+        );
+    }
+
+    /**
+     * @dev Internal function that measures what a swap paid in and checks the invariant
+     * @notice Inputs are whatever the pool's balances gained over the reserves net of the amounts
+     * sent out. Only the part of each input left after the swap fee counts towards k.
+     * @param _reserve0 Reserve of token0 before the swap
+     * @param _reserve1 Reserve of token1 before the swap
+     * @param amount0Out Amount of token0 sent out
+     * @param amount1Out Amount of token1 sent out
+     * @return amount0In Amount of token0 paid in
+     * @return amount1In Amount of token1 paid in
+     */
+    function _settle(
+        uint112 _reserve0,
+        uint112 _reserve1,
+        uint256 amount0Out,
+        uint256 amount1Out
+    ) internal returns (uint256 amount0In, uint256 amount1In) {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        amount0In = balance0 > _reserve0 - amount0Out
+            ? balance0 - (_reserve0 - amount0Out)
+            : 0;
+        amount1In = balance1 > _reserve1 - amount1Out
+            ? balance1 - (_reserve1 - amount1Out)
+            : 0;
+        require(amount0In > 0 || amount1In > 0, "AMM: insufficient input amount");
+
+        uint256 balance0Adjusted = balance0 * FEE_DENOMINATOR - amount0In * swapFee;
+        uint256 balance1Adjusted = balance1 * FEE_DENOMINATOR - amount1In * swapFee;
         require(
-            newReserve0 * newReserve1 >= uint256(_reserve0) * uint256(_reserve1),
+            balance0Adjusted * balance1Adjusted >=
+                uint256(_reserve0) * _reserve1 * FEE_DENOMINATOR ** 2,
             "AMM: invariant violation"
         );
 
-        _updateReserves(newReserve0, newReserve1);
-
-        emit SwapExecuted(msg.sender, tokenIn, amountIn, tokenOut, amountOut);
+        _updateReserves(balance0, balance1);
     }
 
     /**
@@ -236,8 +857,83 @@ contract AMM {
             newReserve0 <= type(uint112).max && newReserve1 <= type(uint112).max,
             "AMM: reserve overflow"
         );
+
+        // Accumulate the prices that held since the last update, before they change. Only the
+        // first update in a block accrues, so prices set within a block are weighted by the time
+        // they survive rather than by how often they are touched.
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
+        uint32 blockTimestamp = uint32(block.timestamp % 2 ** 32);
+        unchecked {
+            // Overflow is desired: consumers difference cumulative values and timestamps
+            uint32 timeElapsed = blockTimestamp - blockTimestampLast;
+            if (timeElapsed > 0 && _reserve0 != 0 && _reserve1 != 0) {
+                price0CumulativeLast += ((uint256(_reserve1) << 112) / _reserve0) * timeElapsed;
+                price1CumulativeLast += ((uint256(_reserve0) << 112) / _reserve1) * timeElapsed;
+            }
+        }
+
         reserve0 = uint112(newReserve0);
         reserve1 = uint112(newReserve1);
+        blockTimestampLast = blockTimestamp;
+        emit Sync(reserve0, reserve1);
+    }
+
+    /**
+     * @dev Internal function that mints the protocol fee accrued since the last liquidity event
+     * @notice Swap fees grow sqrt(k); while `feeTo` is set it receives LP tokens worth one sixth
+     * of that growth, so LPs keep five sixths of the swap fee. Must run before totalSupply is read
+     * for a mint or burn.
+     * @param _reserve0 Reserve of token0 before the liquidity event
+     * @param _reserve1 Reserve of token1 before the liquidity event
+     * @return feeOn Whether the protocol fee is currently on
+     */
+    function _mintFee(uint112 _reserve0, uint112 _reserve1) internal returns (bool feeOn) {
+        address _feeTo = feeTo();
+        feeOn = _feeTo != address(0);
+        uint256 _kLast = kLast;
+        if (feeOn) {
+            if (_kLast != 0) {
+                uint256 rootK = _sqrt(uint256(_reserve0) * _reserve1);
+                uint256 rootKLast = _sqrt(_kLast);
+                if (rootK > rootKLast) {
+                    uint256 numerator = lpToken.totalSupply() * (rootK - rootKLast);
+                    uint256 denominator = rootK * 5 + rootKLast;
+                    uint256 liquidity = numerator / denominator;
+                    if (liquidity > 0) {
+                        lpToken.mint(_feeTo, liquidity);
+                    }
+                }
+            }
+        } else if (_kLast != 0) {
+            kLast = 0;
+        }
+    }
+
+    /**
+     * @dev Internal function that reads a token symbol, tolerating tokens without metadata
+     * @param token Address of the token
+     * @return Token symbol, or "???" if the token does not implement `symbol()`
+     */
+    function _symbolOf(address token) internal view returns (string memory) {
+        if (token.code.length == 0) {
+            return "???";
+        }
+        try IERC20Metadata(token).symbol() returns (string memory symbol) {
+            return symbol;
+        } catch {
+            return "???";
+        }
+    }
+
+    /**
+     * @dev Internal function for division rounding up
+     * @param a Dividend
+     * @param b Divisor (must be non-zero)
+     * @return Quotient rounded towards positive infinity
+     */
+    function _ceilDiv(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a == 0 ? 0 : (a - 1) / b + 1;
     }
 
     /**
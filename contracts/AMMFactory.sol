@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./AMM.sol";
+import "./interfaces/IAMMFactory.sol";
+
+/**
+ * @title AMMFactory
+ * @dev Deploys one AMM pool per token pair and keeps an enumerable registry of them
+ * @notice Pairs are keyed by sorted token addresses, so (A, B) and (B, A) are the same pool. Each
+ * pool is created with one of the enabled fee tiers. `feeToSetter` administers the tiers and the
+ * protocol fee recipient read by every pool. `guardian` can pause any of the pools; the role is
+ * handed over in two steps, each of which emits an event.
+ */
+contract AMMFactory is IAMMFactory {
+    /// @dev Pool address for a token pair, stored under both token orderings
+    mapping(address => mapping(address => address)) public getPool;
+    /// @dev Every pool created by this factory, in creation order
+    address[] public allPools;
+
+    /// @dev Recipient of the protocol fee on every pool; the zero address turns the fee off
+    address public feeTo;
+    /// @dev Admin allowed to change `feeTo`, itself and the enabled fee tiers
+    address public feeToSetter;
+    /// @dev Whether pools may be created with a given swap fee (in basis points)
+    mapping(uint256 => bool) public feeTierEnabled;
+    /// @dev Emergency role allowed to pause and unpause every pool of this factory
+    address public guardian;
+    /// @dev Address nominated by `guardian` to take over the role, until it accepts
+    address public pendingGuardian;
+
+    /**
+     * @dev Emitted when a new pool is created
+     * @param token0 Address of the lower-sorted token
+     * @param token1 Address of the higher-sorted token
+     * @param pool Address of the new AMM
+     * @param swapFee Fee tier of the new pool, in basis points
+     * @param poolCount Number of pools after creation
+     */
+    event PoolCreated(
+        address indexed token0,
+        address indexed token1,
+        address pool,
+        uint256 swapFee,
+        uint256 poolCount
+    );
+
+    /**
+     * @dev Emitted when a swap fee becomes available for new pools
+     * @param swapFee Swap fee in basis points
+     */
+    event FeeTierEnabled(uint256 swapFee);
+
+    /**
+     * @dev Emitted when the protocol fee recipient changes
+     * @param feeTo New recipient, or the zero address if the fee is off
+     */
+    event FeeToUpdated(address feeTo);
+
+    /**
+     * @dev Emitted when the admin changes
+     * @param feeToSetter New admin
+     */
+    event FeeToSetterUpdated(address feeToSetter);
+
+    /**
+     * @dev Emitted when the guardian nominates a successor
+     * @param guardian Current guardian
+     * @param pendingGuardian Nominated successor, or the zero address if the nomination is dropped
+     */
+    event GuardianTransferStarted(address indexed guardian, address indexed pendingGuardian);
+
+    /**
+     * @dev Emitted when a nominated successor accepts the guardian role
+     * @param previousGuardian Guardian before the handover
+     * @param newGuardian Guardian after the handover
+     */
+    event GuardianTransferred(address indexed previousGuardian, address indexed newGuardian);
+
+    /**
+     * @dev Restricts a function to `feeToSetter`
+     */
+    modifier onlyFeeToSetter() {
+        require(msg.sender == feeToSetter, "AMMFactory: forbidden");
+        _;
+    }
+
+    /**
+     * @dev Restricts a function to `guardian`
+     */
+    modifier onlyGuardian() {
+        require(msg.sender == guardian, "AMMFactory: forbidden");
+        _;
+    }
+
+    /**
+     * @dev Constructor that makes the deployer the admin and the guardian, and enables the 0.05%,
+     * 0.3% and 1% tiers
+     */
+    constructor() {
+        feeToSetter = msg.sender;
+        guardian = msg.sender;
+        emit GuardianTransferred(address(0), msg.sender);
+        _enableFeeTier(5);
+        _enableFeeTier(30);
+        _enableFeeTier(100);
+    }
+
+    /**
+     * @dev Returns the number of pools created by this factory
+     * @return Number of registered pools
+     */
+    function allPoolsLength() external view returns (uint256) {
+        return allPools.length;
+    }
+
+    /**
+     * @dev Deploys an AMM for a token pair
+     * @param tokenA Address of one token in the pair
+     * @param tokenB Address of the other token in the pair
+     * @param swapFee Swap fee of the pool in basis points (must be an enabled tier)
+     * @return pool Address of the new AMM
+     */
+    function createPool(
+        address tokenA,
+        address tokenB,
+        uint256 swapFee
+    ) external returns (address pool) {
+        require(tokenA != tokenB, "AMMFactory: identical tokens");
+        (address token0, address token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        require(token0 != address(0), "AMMFactory: zero address");
+        require(getPool[token0][token1] == address(0), "AMMFactory: pool exists");
+        require(feeTierEnabled[swapFee], "AMMFactory: fee tier not enabled");
+
+        pool = address(new AMM(token0, token1, swapFee));
+
+        getPool[token0][token1] = pool;
+        getPool[token1][token0] = pool;
+        allPools.push(pool);
+
+        emit PoolCreated(token0, token1, pool, swapFee, allPools.length);
+    }
+
+    /**
+     * @dev Makes a swap fee available for new pools; existing pools keep their fee
+     * @param swapFee Swap fee in basis points (at most AMM.MAX_SWAP_FEE)
+     */
+    function enableFeeTier(uint256 swapFee) external onlyFeeToSetter {
+        require(!feeTierEnabled[swapFee], "AMMFactory: fee tier enabled");
+        _enableFeeTier(swapFee);
+    }
+
+    /**
+     * @dev Sets the protocol fee recipient for every pool of this factory
+     * @param _feeTo New recipient, or the zero address to turn the fee off
+     */
+    function setFeeTo(address _feeTo) external onlyFeeToSetter {
+        feeTo = _feeTo;
+        emit FeeToUpdated(_feeTo);
+    }
+
+    /**
+     * @dev Hands the admin role to another address
+     * @param _feeToSetter New admin
+     */
+    function setFeeToSetter(address _feeToSetter) external onlyFeeToSetter {
+        require(_feeToSetter != address(0), "AMMFactory: zero address");
+        feeToSetter = _feeToSetter;
+        emit FeeToSetterUpdated(_feeToSetter);
+    }
+
+    /**
+     * @dev Nominates the next guardian, who takes over once it calls `acceptGuardian`
+     * @notice The current guardian keeps the role until then. Nominating another address replaces
+     * the nomination, and the zero address withdraws it.
+     * @param _pendingGuardian Nominated successor
+     */
+    function transferGuardian(address _pendingGuardian) external onlyGuardian {
+        pendingGuardian = _pendingGuardian;
+        emit GuardianTransferStarted(guardian, _pendingGuardian);
+    }
+
+    /**
+     * @dev Completes a handover started by `transferGuardian`
+     */
+    function acceptGuardian() external {
+        require(msg.sender == pendingGuardian, "AMMFactory: forbidden");
+        emit GuardianTransferred(guardian, msg.sender);
+        guardian = msg.sender;
+        pendingGuardian = address(0);
+    }
+
+    /**
+     * @dev Internal function that enables a fee tier
+     * @param swapFee Swap fee in basis points
+     */
+    function _enableFeeTier(uint256 swapFee) internal {
+        // Same bound as AMM.MAX_SWAP_FEE, checked here so a tier no pool accepts is never enabled
+        require(swapFee <= 1_000, "AMMFactory: fee too high");
+        feeTierEnabled[swapFee] = true;
+        emit FeeTierEnabled(swapFee);
+    }
+}
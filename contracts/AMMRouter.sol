@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./AMM.sol";
+import "./AMMFactory.sol";
+
+/**
+ * @title AMMRouter
+ * @dev Swaps along a path of factory pools (A -> B -> C) in a single transaction
+ * @notice Callers approve only the router for the first token in the path; intermediate tokens
+ * are held by the router between hops and never need user approvals
+ */
+contract AMMRouter {
+    /// @dev Factory whose pools the router trades through
+    AMMFactory public immutable factory;
+
+    /**
+     * @dev Reverts once the transaction is mined after `deadline`
+     * @param deadline Unix timestamp after which the call is rejected
+     */
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "AMMRouter: expired");
+        _;
+    }
+
+    /**
+     * @dev Constructor that binds the router to a factory
+     * @param _factory Address of the AMMFactory
+     */
+    constructor(address _factory) {
+        require(_factory != address(0), "AMMRouter: zero address");
+        factory = AMMFactory(_factory);
+    }
+
+    /**
+     * @dev Quotes every hop of an exact-input swap along `path`
+     * @param amountIn Amount of path[0] to swap
+     * @param path Token addresses to trade through, at least two
+     * @return amounts Input amount followed by the output of each hop
+     */
+    function getAmountsOut(
+        uint256 amountIn,
+        address[] calldata path
+    ) public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "AMMRouter: invalid path");
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            AMM pool = _poolFor(path[i], path[i + 1]);
+            (uint112 reserve0, uint112 reserve1) = pool.getReserves();
+            (uint256 reserveIn, uint256 reserveOut) = path[i] == pool.token0()
+                ? (reserve0, reserve1)
+                : (reserve1, reserve0);
+            amounts[i + 1] = pool.getAmountOut(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    /**
+     * @dev Swaps an exact amount of path[0] for as much of the last token as possible
+     * @notice Each hop swaps what the router actually received, so tokens that take a fee on
+     * transfer can sit anywhere in the path; they deliver less than `getAmountsOut` quotes
+     * @param amountIn Amount of path[0] to swap
+     * @param amountOutMin Minimum amount of the last token `to` must receive
+     * @param path Token addresses to trade through, at least two
+     * @param to Recipient of the output token
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amounts Input amount followed by the output of each hop, as the router received it
+     */
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256[] memory amounts) {
+        require(path.length >= 2, "AMMRouter: invalid path");
+        require(to != address(0), "AMMRouter: zero address");
+
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        uint256 balanceBefore = IERC20(path[0]).balanceOf(address(this));
+        IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn);
+        uint256 hopIn = IERC20(path[0]).balanceOf(address(this)) - balanceBefore;
+
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            AMM pool = _poolFor(path[i], path[i + 1]);
+            IERC20(path[i]).approve(address(pool), hopIn);
+            balanceBefore = IERC20(path[i + 1]).balanceOf(address(this));
+            pool.swap(path[i], hopIn);
+            hopIn = IERC20(path[i + 1]).balanceOf(address(this)) - balanceBefore;
+            amounts[i + 1] = hopIn;
+        }
+
+        IERC20 tokenOut = IERC20(path[path.length - 1]);
+        balanceBefore = tokenOut.balanceOf(to);
+        tokenOut.transfer(to, hopIn);
+        require(
+            tokenOut.balanceOf(to) - balanceBefore >= amountOutMin,
+            "AMMRouter: insufficient output amount"
+        );
+    }
+
+    /**
+     * @dev Internal function that looks up the factory pool for a hop
+     * @param tokenIn Address of the hop's input token
+     * @param tokenOut Address of the hop's output token
+     * @return pool AMM for the pair
+     */
+    function _poolFor(address tokenIn, address tokenOut) internal view returns (AMM pool) {
+        pool = AMM(factory.getPool(tokenIn, tokenOut));
+        require(address(pool) != address(0), "AMMRouter: pool not found");
+    }
+}
@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./AMM.sol";
+
+/**
+ * @title AMMZap
+ * @dev Adds and removes liquidity with a single token in one transaction
+ * @notice `zapIn` swaps the share of the input that leaves the rest at the pool's ratio after the
+ * swap, then deposits both sides. `zapOut` burns LP tokens and swaps the unwanted side. Callers
+ * approve the zap, not the pool; rounding dust left from a deposit is refunded to the caller.
+ */
+contract AMMZap {
+    /// @dev Denominator of `AMM.swapFee`
+    uint256 private constant FEE_DENOMINATOR = 10_000;
+
+    /**
+     * @dev Reverts once the transaction is mined after `deadline`
+     * @param deadline Unix timestamp after which the call is rejected
+     */
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "AMMZap: expired");
+        _;
+    }
+
+    /**
+     * @dev Amount of the input token to swap so that the remainder matches the reserve ratio the
+     * swap leaves behind
+     * @notice Swapping s of an input a into reserve r with fee f leaves (a - s) / (r + s) equal to
+     * the output's share of its reserve when (1 - f) * s^2 + r * (2 - f) * s - r * a = 0. The
+     * positive root is rounded down.
+     * @param reserveIn Reserve of the input token
+     * @param amountIn Amount of input token to zap in
+     * @param swapFee Swap fee of the pool in basis points
+     * @return swapAmount Amount of input token to swap
+     */
+    function getSwapAmount(
+        uint256 reserveIn,
+        uint256 amountIn,
+        uint256 swapFee
+    ) public pure returns (uint256 swapAmount) {
+        uint256 b = reserveIn * (2 * FEE_DENOMINATOR - swapFee);
+        uint256 discriminant = b * b +
+            4 * (FEE_DENOMINATOR - swapFee) * FEE_DENOMINATOR * reserveIn * amountIn;
+        swapAmount = (Math.sqrt(discriminant) - b) / (2 * (FEE_DENOMINATOR - swapFee));
+    }
+
+    /**
+     * @dev Swaps part of `amountIn` through `pool` and deposits the result as liquidity
+     * @param pool AMM to add liquidity to
+     * @param tokenIn Address of the input token (must be the pool's token0 or token1)
+     * @param amountIn Amount of input token to pull from the caller
+     * @param minLiquidity Minimum amount of LP tokens to receive
+     * @param to Recipient of the LP tokens
+     * @param deadline Unix timestamp after which the call reverts
+     * @return liquidity Amount of LP tokens sent to `to`
+     */
+    function zapIn(
+        AMM pool,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 minLiquidity,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 liquidity) {
+        require(to != address(0), "AMMZap: zero address");
+        (bool zeroForOne, address tokenOut) = _orient(pool, tokenIn);
+        uint256 swapAmount = _swapAmount(pool, zeroForOne, amountIn);
+
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).approve(address(pool), amountIn);
+        uint256 amountOut = pool.swap(tokenIn, swapAmount);
+
+        liquidity = _deposit(pool, zeroForOne, tokenOut, amountIn - swapAmount, amountOut);
+        require(liquidity >= minLiquidity, "AMMZap: insufficient liquidity minted");
+        pool.lpToken().transfer(to, liquidity);
+    }
+
+    /**
+     * @dev Burns LP tokens and swaps the withdrawn `tokenOut` counterpart into `tokenOut`
+     * @notice The caller approves the zap for `liquidity` of the pool's LP token
+     * @param pool AMM to remove liquidity from
+     * @param liquidity Amount of LP tokens to burn
+     * @param tokenOut Address of the token to receive (must be the pool's token0 or token1)
+     * @param amountOutMin Minimum amount of `tokenOut` to receive
+     * @param to Recipient of `tokenOut`
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amountOut Amount of `tokenOut` sent to `to`
+     */
+    function zapOut(
+        AMM pool,
+        uint256 liquidity,
+        address tokenOut,
+        uint256 amountOutMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountOut) {
+        require(to != address(0), "AMMZap: zero address");
+        (bool zeroForOne, address tokenIn) = _orient(pool, tokenOut);
+
+        pool.lpToken().transferFrom(msg.sender, address(this), liquidity);
+        (uint256 amount0, uint256 amount1) = pool.removeLiquidity(liquidity);
+        (uint256 kept, uint256 swapAmount) = zeroForOne ? (amount0, amount1) : (amount1, amount0);
+
+        IERC20(tokenIn).approve(address(pool), swapAmount);
+        amountOut = kept + pool.swap(tokenIn, swapAmount);
+        require(amountOut >= amountOutMin, "AMMZap: insufficient output amount");
+        IERC20(tokenOut).transfer(to, amountOut);
+    }
+
+    /**
+     * @dev Internal function that sizes the swap of a zap against the pool's current reserves
+     * @param pool AMM to add liquidity to
+     * @param zeroForOne Whether the zapped token is the pool's token0
+     * @param amountIn Amount of the zapped token
+     * @return Amount of the zapped token to swap
+     */
+    function _swapAmount(
+        AMM pool,
+        bool zeroForOne,
+        uint256 amountIn
+    ) internal view returns (uint256) {
+        (uint112 reserve0, uint112 reserve1) = pool.getReserves();
+        return getSwapAmount(zeroForOne ? reserve0 : reserve1, amountIn, pool.swapFee());
+    }
+
+    /**
+     * @dev Internal function that deposits the swapped tokens and refunds the rounding dust
+     * @param pool AMM to add liquidity to
+     * @param zeroForOne Whether the zapped token is the pool's token0
+     * @param tokenOut Address of the token the swap bought
+     * @param depositIn Amount of the zapped token left after the swap, already approved
+     * @param amountOut Amount of `tokenOut` the swap bought
+     * @return liquidity Amount of LP tokens minted to the zap
+     */
+    function _deposit(
+        AMM pool,
+        bool zeroForOne,
+        address tokenOut,
+        uint256 depositIn,
+        uint256 amountOut
+    ) internal returns (uint256 liquidity) {
+        IERC20(tokenOut).approve(address(pool), amountOut);
+        uint256 amount0;
+        uint256 amount1;
+        (amount0, amount1, liquidity) = zeroForOne
+            ? pool.addLiquidity(depositIn, amountOut)
+            : pool.addLiquidity(amountOut, depositIn);
+
+        // Whichever side the pool did not pull in full is rounding dust
+        (uint256 usedIn, uint256 usedOut) = zeroForOne ? (amount0, amount1) : (amount1, amount0);
+        if (depositIn > usedIn) {
+            IERC20(zeroForOne ? pool.token0() : pool.token1()).transfer(
+                msg.sender,
+                depositIn - usedIn
+            );
+        }
+        if (amountOut > usedOut) {
+            IERC20(tokenOut).transfer(msg.sender, amountOut - usedOut);
+        }
+    }
+
+    /**
+     * @dev Internal function that checks `token` belongs to `pool` and returns its counterpart
+     * @param pool AMM the token is traded in
+     * @param token Address of the pool's token0 or token1
+     * @return isToken0 Whether `token` is the pool's token0
+     * @return other Address of the pool's other token
+     */
+    function _orient(AMM pool, address token) internal view returns (bool isToken0, address other) {
+        address token0 = pool.token0();
+        address token1 = pool.token1();
+        require(token == token0 || token == token1, "AMMZap: unsupported token");
+        isToken0 = token == token0;
+        other = isToken0 ? token1 : token0;
+    }
+}
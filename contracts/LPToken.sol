@@ -2,13 +2,15 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title LPToken
  * @dev ERC20 token representing liquidity provider shares in the AMM pool
- * @notice Only the AMM contract can mint and burn LP tokens
+ * @notice Only the AMM contract can mint and burn LP tokens. Holders can approve spenders with
+ * an EIP-2612 `permit` signed off-chain; the EIP-712 domain uses the token name and version "1".
  */
-contract LPToken is ERC20 {
+contract LPToken is ERC20, ERC20Permit {
     address public immutable amm;
 
     /**
@@ -21,7 +23,7 @@ contract LPToken is ERC20 {
         string memory _name,
         string memory _symbol,
         address _amm
-    ) ERC20(_name, _symbol) {
+    ) ERC20(_name, _symbol) ERC20Permit(_name) {
         require(_amm != address(0), "LPToken: zero AMM address");
         amm = _amm;
     }
@@ -53,4 +55,17 @@ contract LPToken is ERC20 {
         require(balanceOf(from) >= amount, "LPToken: burn amount exceeds balance");
         _burn(from, amount);
     }
+
+    /**
+     * @dev Burns LP tokens on behalf of `from`, spending the allowance it gave `spender` (only
+     * callable by AMM)
+     * @param from Address to burn tokens from
+     * @param spender Address whose allowance is spent
+     * @param amount Amount of LP tokens to burn
+     */
+    function burnFrom(address from, address spender, uint256 amount) external onlyAMM {
+        _spendAllowance(from, spender, amount);
+        require(balanceOf(from) >= amount, "LPToken: burn amount exceeds balance");
+        _burn(from, amount);
+    }
 }
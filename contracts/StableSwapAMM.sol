@@ -0,0 +1,827 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "./LPToken.sol";
+
+/**
+ * @title StableSwapAMM
+ * @dev Two-token pool priced by the StableSwap invariant (as in Curve) for pairs that trade
+ * near 1:1, such as stablecoins or a token and its wrapped version
+ * @notice Keeps the reserves on A * 4 * (x + y) + D = A * 4 * D + D^3 / (4 * x * y), which is
+ * flat like x + y = D while the pool is balanced and bends towards x * y = k as it drains, so
+ * trades near the peg pay far less slippage than on `AMM`. Balances are scaled to 18 decimals
+ * before entering the invariant. Liquidity, swap and reserve functions have the signatures and
+ * events of `AMM`, and LP shares are an `LPToken`. Deposits and withdrawals are proportional to
+ * the reserves; there is no protocol fee, pause, price oracle or flash swap.
+ */
+contract StableSwapAMM {
+    /// @dev Address of the first token in the pair
+    address public immutable token0;
+    /// @dev Address of the second token in the pair
+    address public immutable token1;
+
+    /// @dev Reserve of token0 in the pool
+    uint112 private reserve0;
+    /// @dev Reserve of token1 in the pool
+    uint112 private reserve1;
+
+    /// @dev Multiplier scaling token0 amounts to 18 decimals
+    uint256 public immutable rate0;
+    /// @dev Multiplier scaling token1 amounts to 18 decimals
+    uint256 public immutable rate1;
+
+    /// @dev LP token contract representing liquidity provider shares
+    LPToken public immutable lpToken;
+
+    /// @dev Deployer of the pool
+    address public immutable factory;
+
+    /// @dev Swap fee in basis points of the input amount (4 == 0.04%)
+    uint256 public immutable swapFee;
+    /// @dev Denominator for `swapFee`
+    uint256 public constant FEE_DENOMINATOR = 10_000;
+    /// @dev Highest swap fee a pool can be deployed with (10%)
+    uint256 public constant MAX_SWAP_FEE = 1_000;
+
+    /// @dev Amplification coefficient A: the higher, the longer prices stay flat around the peg
+    uint256 public immutable amplification;
+    /// @dev Highest amplification a pool can be deployed with
+    uint256 public constant MAX_AMPLIFICATION = 10_000;
+
+    /// @dev LP tokens locked forever by the first deposit, so the share price cannot be inflated
+    uint256 public constant MINIMUM_LIQUIDITY = 1_000;
+    /// @dev Holder of the locked liquidity; OpenZeppelin's ERC20 refuses to mint to address(0)
+    address public constant LIQUIDITY_LOCK = address(0xdead);
+
+    /// @dev Newton iterations after which the invariant solvers give up
+    uint256 private constant MAX_ITERATIONS = 255;
+
+    /// @dev Reentrancy lock shared by every state-changing entry point
+    uint256 private unlocked = 1;
+
+    /**
+     * @dev Emitted when liquidity is added to the pool
+     * @param provider Address that provided liquidity
+     * @param amount0 Amount of token0 added
+     * @param amount1 Amount of token1 added
+     * @param liquidityMinted Amount of LP tokens minted
+     */
+    event LiquidityAdded(
+        address indexed provider,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 liquidityMinted
+    );
+
+    /**
+     * @dev Emitted when liquidity is removed from the pool
+     * @param provider Address whose LP tokens were burned
+     * @param amount0 Amount of token0 removed
+     * @param amount1 Amount of token1 removed
+     * @param liquidityBurned Amount of LP tokens burned
+     * @param recipient Address that received the removed tokens
+     */
+    event LiquidityRemoved(
+        address indexed provider,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 liquidityBurned,
+        address recipient
+    );
+
+    /**
+     * @dev Emitted when a swap is executed
+     * @param trader Address that executed the swap
+     * @param tokenIn Address of the input token
+     * @param amountIn Amount of input token
+     * @param tokenOut Address of the output token
+     * @param amountOut Amount of output token
+     * @param recipient Address that received the output
+     */
+    event SwapExecuted(
+        address indexed trader,
+        address indexed tokenIn,
+        uint256 amountIn,
+        address indexed tokenOut,
+        uint256 amountOut,
+        address recipient
+    );
+
+    /**
+     * @dev Emitted on every reserve update, before the event of the operation that caused it
+     * @param reserve0 Reserve of token0 after the update
+     * @param reserve1 Reserve of token1 after the update
+     */
+    event Sync(uint112 reserve0, uint112 reserve1);
+
+    /**
+     * @dev Rejects calls made while another entry point of the pool is executing
+     */
+    modifier lock() {
+        require(unlocked == 1, "StableSwapAMM: locked");
+        unlocked = 0;
+        _;
+        unlocked = 1;
+    }
+
+    /**
+     * @dev Reverts once the transaction is mined after `deadline`
+     * @param deadline Unix timestamp after which the call is rejected
+     */
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "StableSwapAMM: expired");
+        _;
+    }
+
+    /**
+     * @dev Constructor that initializes the pool with two tokens, a swap fee and an amplification
+     * @param _token0 Address of the first token
+     * @param _token1 Address of the second token
+     * @param _swapFee Swap fee in basis points (at most MAX_SWAP_FEE)
+     * @param _amplification Amplification coefficient (1 to MAX_AMPLIFICATION)
+     */
+    constructor(address _token0, address _token1, uint256 _swapFee, uint256 _amplification) {
+        require(_token0 != address(0) && _token1 != address(0), "StableSwapAMM: zero address");
+        require(_token0 != _token1, "StableSwapAMM: identical tokens");
+        require(_swapFee <= MAX_SWAP_FEE, "StableSwapAMM: fee too high");
+        require(
+            _amplification > 0 && _amplification <= MAX_AMPLIFICATION,
+            "StableSwapAMM: invalid amplification"
+        );
+        factory = msg.sender;
+        swapFee = _swapFee;
+        amplification = _amplification;
+
+        (token0, token1) = _token0 < _token1 ? (_token0, _token1) : (_token1, _token0);
+        rate0 = _rateOf(token0);
+        rate1 = _rateOf(token1);
+
+        // e.g. "Minimal AMM StableSwap LP DAI-USDC" / "MASLP-DAI-USDC"
+        string memory pair = string.concat(_symbolOf(token0), "-", _symbolOf(token1));
+        lpToken = new LPToken(
+            string.concat("Minimal AMM StableSwap LP ", pair),
+            string.concat("MASLP-", pair),
+            address(this)
+        );
+    }
+
+    /**
+     * @dev Returns the current reserves of both tokens
+     * @return _reserve0 Reserve of token0
+     * @return _reserve1 Reserve of token1
+     */
+    function getReserves() external view returns (uint112 _reserve0, uint112 _reserve1) {
+        return (reserve0, reserve1);
+    }
+
+    /**
+     * @dev Returns the invariant of the current reserves
+     * @return D, the pool's value in 18-decimal units when balanced
+     */
+    function getInvariant() external view returns (uint256) {
+        return getD(uint256(reserve0) * rate0, uint256(reserve1) * rate1);
+    }
+
+    /**
+     * @dev Adds liquidity to the pool at the current reserve ratio and mints LP tokens
+     * @notice One of the desired amounts is used in full; only the matching amount of the other
+     * token is pulled from the caller. The first deposit uses both amounts and sets the ratio.
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @return amount0 Amount of token0 pulled from the caller
+     * @return amount1 Amount of token1 pulled from the caller
+     * @return liquidity Amount of LP tokens minted
+     */
+    function addLiquidity(
+        uint256 amount0Desired,
+        uint256 amount1Desired
+    ) external lock returns (uint256 amount0, uint256 amount1, uint256 liquidity) {
+        (amount0, amount1) = _optimalAmounts(amount0Desired, amount1Desired, 0, 0);
+        liquidity = _addLiquidity(amount0, amount1);
+    }
+
+    /**
+     * @dev Adds liquidity at the current reserve ratio with slippage limits and a deadline
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @param amount0Min Least token0 to add
+     * @param amount1Min Least token1 to add
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 pulled from the caller
+     * @return amount1 Amount of token1 pulled from the caller
+     * @return liquidity Amount of LP tokens minted
+     */
+    function addLiquidityWithLimits(
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1, uint256 liquidity) {
+        (amount0, amount1) = _optimalAmounts(
+            amount0Desired,
+            amount1Desired,
+            amount0Min,
+            amount1Min
+        );
+        liquidity = _addLiquidity(amount0, amount1);
+    }
+
+    /**
+     * @dev Removes liquidity from the pool and burns LP tokens
+     * @param liquidity Amount of LP tokens to burn
+     * @return amount0 Amount of token0 returned
+     * @return amount1 Amount of token1 returned
+     */
+    function removeLiquidity(
+        uint256 liquidity
+    ) external lock returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, 0, 0, msg.sender);
+    }
+
+    /**
+     * @dev Removes liquidity with slippage limits and a deadline
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 returned
+     * @return amount1 Amount of token1 returned
+     */
+    function removeLiquidityWithLimits(
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, amount0Min, amount1Min, msg.sender);
+    }
+
+    /**
+     * @dev Removes liquidity with slippage limits and a deadline, sending the tokens to `to`
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param to Address to receive the withdrawn tokens
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amount0 Amount of token0 sent to `to`
+     * @return amount1 Amount of token1 sent to `to`
+     */
+    function removeLiquidityTo(
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        return _removeLiquidity(msg.sender, liquidity, amount0Min, amount1Min, to);
+    }
+
+    /**
+     * @dev Removes `owner`'s liquidity with an EIP-2612 permit, sending the tokens to `to`
+     * @notice The permit approves the caller to spend `liquidity` of the owner's LP tokens; the
+     * approval is used up by the burn. Its deadline also bounds the removal.
+     * @param owner Holder of the LP tokens, who signed the permit
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to receive
+     * @param amount1Min Minimum amount of token1 to receive
+     * @param to Address to receive the withdrawn tokens
+     * @param deadline Unix timestamp after which the permit and the call expire
+     * @param v Recovery byte of the permit signature
+     * @param r First half of the permit signature
+     * @param s Second half of the permit signature
+     * @return amount0 Amount of token0 sent to `to`
+     * @return amount1 Amount of token1 sent to `to`
+     */
+    function removeLiquidityWithPermit(
+        address owner,
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external lock ensure(deadline) returns (uint256 amount0, uint256 amount1) {
+        lpToken.permit(owner, msg.sender, liquidity, deadline, v, r, s);
+        return _removeLiquidity(owner, liquidity, amount0Min, amount1Min, to);
+    }
+
+    /**
+     * @dev Swaps tokens along the StableSwap invariant with the pool's swap fee
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token to swap
+     * @return amountOut Amount of output token received
+     */
+    function swap(address tokenIn, uint256 amountIn) external lock returns (uint256 amountOut) {
+        return _swapExactIn(tokenIn, amountIn);
+    }
+
+    /**
+     * @dev Swaps an exact input amount, reverting if the output falls below `minAmountOut`
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token to swap
+     * @param minAmountOut Minimum amount of output token to receive
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amountOut Amount of output token received
+     */
+    function swapExactTokensForTokens(
+        address tokenIn,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amountOut) {
+        amountOut = _swapExactIn(tokenIn, amountIn);
+        require(amountOut >= minAmountOut, "StableSwapAMM: insufficient output amount");
+    }
+
+    /**
+     * @dev Swaps for an exact output amount, paying at most `maxAmountIn` of the input token
+     * @notice Any output the input would buy beyond `amountOut` because of rounding stays in the
+     * pool, so the trader never receives more than requested
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Exact amount of output token to receive
+     * @param maxAmountIn Maximum amount of input token to pay
+     * @param deadline Unix timestamp after which the call reverts
+     * @return amountIn Amount of input token paid
+     */
+    function swapTokensForExactTokens(
+        address tokenIn,
+        uint256 amountOut,
+        uint256 maxAmountIn,
+        uint256 deadline
+    ) external lock ensure(deadline) returns (uint256 amountIn) {
+        amountIn = _swapExactOut(tokenIn, amountOut);
+        require(amountIn <= maxAmountIn, "StableSwapAMM: excessive input amount");
+    }
+
+    /**
+     * @dev Sets the reserves to the pool's token balances
+     * @notice Recovers from balances drifting away from the reserves, e.g. after one of the tokens
+     * rebases. Any surplus becomes part of the pool and accrues to LPs.
+     */
+    function sync() external lock {
+        _updateReserves(
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+    }
+
+    /**
+     * @dev Sends the pool's token balances in excess of the reserves to `to`
+     * @notice Recovers tokens transferred to the pool directly. Anyone can call it, so a donation
+     * belongs to whoever skims it first.
+     * @param to Recipient of the excess tokens
+     */
+    function skim(address to) external lock {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        if (balance0 > reserve0) {
+            IERC20(token0).transfer(to, balance0 - reserve0);
+        }
+        if (balance1 > reserve1) {
+            IERC20(token1).transfer(to, balance1 - reserve1);
+        }
+    }
+
+    /**
+     * @dev Output of an exact-input swap against the current reserves, after the swap fee
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token
+     * @return amountOut Amount of output token the swap yields
+     */
+    function getAmountOut(
+        address tokenIn,
+        uint256 amountIn
+    ) external view returns (uint256 amountOut) {
+        require(amountIn > 0, "StableSwapAMM: invalid amount");
+        return _getAmountOut(tokenIn == token0, amountIn);
+    }
+
+    /**
+     * @dev Input an exact-output swap needs against the current reserves, swap fee included
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Desired amount of output token
+     * @return amountIn Amount of input token required; `getAmountOut(tokenIn, amountIn)` is at
+     * least `amountOut`
+     */
+    function getAmountIn(
+        address tokenIn,
+        uint256 amountOut
+    ) external view returns (uint256 amountIn) {
+        require(amountOut > 0, "StableSwapAMM: invalid amount");
+        return _getAmountIn(tokenIn == token0, amountOut);
+    }
+
+    /**
+     * @dev StableSwap invariant of two balances, solved by Newton's method
+     * @notice Finds D with A * 4 * (x + y) + D = A * 4 * D + D^3 / (4 * x * y), iterating
+     * D = (A * 4 * S + 2 * D_P) * D / ((A * 4 - 1) * D + 3 * D_P) with D_P = D^3 / (4 * x * y)
+     * until two estimates differ by at most 1
+     * @param x Balance of token0, scaled to 18 decimals
+     * @param y Balance of token1, scaled to 18 decimals
+     * @return d Invariant D
+     */
+    function getD(uint256 x, uint256 y) public view returns (uint256 d) {
+        uint256 sum = x + y;
+        if (sum == 0) {
+            return 0;
+        }
+        uint256 ann = amplification * 4;
+        d = sum;
+        for (uint256 i = 0; i < MAX_ITERATIONS; i++) {
+            uint256 dP = (((d * d) / (x * 2)) * d) / (y * 2);
+            uint256 previous = d;
+            d = ((ann * sum + dP * 2) * d) / ((ann - 1) * d + dP * 3);
+            if (_within1(d, previous)) {
+                return d;
+            }
+        }
+        revert("StableSwapAMM: no convergence");
+    }
+
+    /**
+     * @dev Balance of one token that keeps the invariant at `d` given the other's balance
+     * @notice Solves y^2 + (x + D / (A * 4) - D) * y = D^3 / (A * 16 * x) by Newton's method,
+     * iterating y = (y^2 + c) / (2 * y + b - D)
+     * @param x Balance of the other token, scaled to 18 decimals
+     * @param d Invariant D
+     * @return y Balance of this token, scaled to 18 decimals
+     */
+    function getY(uint256 x, uint256 d) public view returns (uint256 y) {
+        uint256 ann = amplification * 4;
+        uint256 c = (((d * d) / (x * 2)) * d) / (ann * 2);
+        uint256 b = x + d / ann;
+        y = d;
+        for (uint256 i = 0; i < MAX_ITERATIONS; i++) {
+            uint256 previous = y;
+            y = (y * y + c) / (2 * y + b - d);
+            if (_within1(y, previous)) {
+                return y;
+            }
+        }
+        revert("StableSwapAMM: no convergence");
+    }
+
+    /**
+     * @dev Internal function that sizes a deposit to the current reserve ratio
+     * @param amount0Desired Most token0 to add
+     * @param amount1Desired Most token1 to add
+     * @param amount0Min Least token0 to add
+     * @param amount1Min Least token1 to add
+     * @return amount0 Amount of token0 to deposit
+     * @return amount1 Amount of token1 to deposit
+     */
+    function _optimalAmounts(
+        uint256 amount0Desired,
+        uint256 amount1Desired,
+        uint256 amount0Min,
+        uint256 amount1Min
+    ) internal view returns (uint256 amount0, uint256 amount1) {
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
+        if (_reserve0 == 0 && _reserve1 == 0) {
+            return (amount0Desired, amount1Desired);
+        }
+
+        uint256 amount1Optimal = (amount0Desired * _reserve1) / _reserve0;
+        if (amount1Optimal <= amount1Desired) {
+            require(amount1Optimal >= amount1Min, "StableSwapAMM: insufficient amount1");
+            return (amount0Desired, amount1Optimal);
+        }
+        uint256 amount0Optimal = (amount1Desired * _reserve0) / _reserve1;
+        require(amount0Optimal >= amount0Min, "StableSwapAMM: insufficient amount0");
+        return (amount0Optimal, amount1Desired);
+    }
+
+    /**
+     * @dev Internal function that transfers in a deposit and mints LP tokens
+     * @notice The first deposit mints D, the pool's value in 18-decimal units, less
+     * MINIMUM_LIQUIDITY. Later deposits are proportional and mint the same share of the supply.
+     * @param amount0 Amount of token0 to transfer in
+     * @param amount1 Amount of token1 to transfer in
+     * @return liquidity Amount of LP tokens minted
+     */
+    function _addLiquidity(
+        uint256 amount0,
+        uint256 amount1
+    ) internal returns (uint256 liquidity) {
+        require(amount0 > 0 && amount1 > 0, "StableSwapAMM: invalid amounts");
+
+        IERC20(token0).transferFrom(msg.sender, address(this), amount0);
+        IERC20(token1).transferFrom(msg.sender, address(this), amount1);
+
+        uint112 _reserve0 = reserve0;
+        uint112 _reserve1 = reserve1;
+        uint256 received0 = _received(token0, _reserve0);
+        uint256 received1 = _received(token1, _reserve1);
+
+        if (_reserve0 == 0 && _reserve1 == 0) {
+            liquidity = getD(received0 * rate0, received1 * rate1);
+            require(liquidity > MINIMUM_LIQUIDITY, "StableSwapAMM: insufficient initial liquidity");
+            liquidity -= MINIMUM_LIQUIDITY;
+            lpToken.mint(LIQUIDITY_LOCK, MINIMUM_LIQUIDITY);
+        } else {
+            uint256 totalSupply = lpToken.totalSupply();
+            uint256 liquidity0 = (received0 * totalSupply) / _reserve0;
+            uint256 liquidity1 = (received1 * totalSupply) / _reserve1;
+            liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+            require(liquidity > 0, "StableSwapAMM: insufficient liquidity minted");
+        }
+
+        lpToken.mint(msg.sender, liquidity);
+        _updateReserves(uint256(_reserve0) + received0, uint256(_reserve1) + received1);
+
+        emit LiquidityAdded(msg.sender, received0, received1, liquidity);
+    }
+
+    /**
+     * @dev Internal function that burns LP tokens and sends out a share of the pool
+     * @notice Burning from an account other than msg.sender spends the allowance it gave
+     * msg.sender.
+     * @param from Holder of the LP tokens to burn
+     * @param liquidity Amount of LP tokens to burn
+     * @param amount0Min Minimum amount of token0 to send
+     * @param amount1Min Minimum amount of token1 to send
+     * @param to Address to receive the tokens
+     * @return amount0 Amount of token0 sent
+     * @return amount1 Amount of token1 sent
+     */
+    function _removeLiquidity(
+        address from,
+        uint256 liquidity,
+        uint256 amount0Min,
+        uint256 amount1Min,
+        address to
+    ) internal returns (uint256 amount0, uint256 amount1) {
+        require(liquidity > 0, "StableSwapAMM: zero liquidity");
+        require(to != address(0), "StableSwapAMM: invalid to");
+        uint256 _totalSupply = lpToken.totalSupply();
+        require(_totalSupply > 0, "StableSwapAMM: no liquidity");
+
+        amount0 = (liquidity * IERC20(token0).balanceOf(address(this))) / _totalSupply;
+        amount1 = (liquidity * IERC20(token1).balanceOf(address(this))) / _totalSupply;
+        require(amount0 > 0 && amount1 > 0, "StableSwapAMM: zero amounts");
+        require(amount0 >= amount0Min, "StableSwapAMM: insufficient amount0");
+        require(amount1 >= amount1Min, "StableSwapAMM: insufficient amount1");
+
+        if (from == msg.sender) {
+            lpToken.burn(from, liquidity);
+        } else {
+            lpToken.burnFrom(from, msg.sender, liquidity);
+        }
+        IERC20(token0).transfer(to, amount0);
+        IERC20(token1).transfer(to, amount1);
+
+        _updateReserves(
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+
+        emit LiquidityRemoved(from, amount0, amount1, liquidity, to);
+    }
+
+    /**
+     * @dev Internal function that executes an exact-input swap for msg.sender
+     * @notice The output is priced on the amount that arrived, so fee-on-transfer input tokens
+     * are supported
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountIn Amount of input token to transfer in
+     * @return amountOut Amount of output token sent
+     */
+    function _swapExactIn(address tokenIn, uint256 amountIn) internal returns (uint256 amountOut) {
+        require(amountIn > 0, "StableSwapAMM: invalid amount");
+        bool zeroForOne = _isToken0(tokenIn);
+
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        uint256 received = _received(tokenIn, zeroForOne ? reserve0 : reserve1);
+        amountOut = _getAmountOut(zeroForOne, received);
+        _completeSwap(zeroForOne, received, amountOut);
+    }
+
+    /**
+     * @dev Internal function that executes an exact-output swap for msg.sender
+     * @notice Fee-on-transfer input tokens deliver less than the quoted input and revert; use
+     * exact-input swaps for them
+     * @param tokenIn Address of the input token (must be token0 or token1)
+     * @param amountOut Exact amount of output token to send
+     * @return amountIn Amount of input token pulled from msg.sender
+     */
+    function _swapExactOut(address tokenIn, uint256 amountOut) internal returns (uint256 amountIn) {
+        require(amountOut > 0, "StableSwapAMM: invalid amount");
+        bool zeroForOne = _isToken0(tokenIn);
+        amountIn = _getAmountIn(zeroForOne, amountOut);
+
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        require(
+            _received(tokenIn, zeroForOne ? reserve0 : reserve1) >= amountIn,
+            "StableSwapAMM: insufficient input amount"
+        );
+        _completeSwap(zeroForOne, amountIn, amountOut);
+    }
+
+    /**
+     * @dev Internal function that sends a swap's output to msg.sender, syncs the reserves and
+     * emits `SwapExecuted`
+     * @param zeroForOne Whether token0 is the input
+     * @param amountIn Amount of input token paid in
+     * @param amountOut Amount of output token to send
+     */
+    function _completeSwap(bool zeroForOne, uint256 amountIn, uint256 amountOut) internal {
+        (address tokenIn, address tokenOut) = zeroForOne ? (token0, token1) : (token1, token0);
+        IERC20(tokenOut).transfer(msg.sender, amountOut);
+        _updateReserves(
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+
+        emit SwapExecuted(msg.sender, tokenIn, amountIn, tokenOut, amountOut, msg.sender);
+    }
+
+    /**
+     * @dev Internal function that prices an exact-input swap against the current reserves
+     * @param zeroForOne Whether token0 is the input
+     * @param amountIn Amount of input token
+     * @return amountOut Amount of output token
+     */
+    function _getAmountOut(
+        bool zeroForOne,
+        uint256 amountIn
+    ) internal view returns (uint256 amountOut) {
+        (uint256 xIn, uint256 xOut, uint256 rateIn, uint256 rateOut) = _scaledReserves(zeroForOne);
+        require(xIn > 0 && xOut > 0, "StableSwapAMM: insufficient liquidity");
+
+        amountOut = _outputOf(amountIn, xIn, xOut, getD(xIn, xOut), rateIn, rateOut);
+        require(amountOut > 0 && amountOut * rateOut < xOut, "StableSwapAMM: insufficient output");
+    }
+
+    /**
+     * @dev Internal function that prices an exact-output swap against the current reserves
+     * @notice Solves the invariant backwards for the input balance that leaves `amountOut` after
+     * `_outputOf` rounds, adds the fee, then steps up one unit at a time while Newton's rounding
+     * leaves the forward quote short. Where the curve is steep, the solvers' tolerance of one unit
+     * can put the result a few units above the least input that would do.
+     * @param zeroForOne Whether token0 is the input
+     * @param amountOut Amount of output token
+     * @return amountIn Amount of input token, whose exact-input quote is at least `amountOut`
+     */
+    function _getAmountIn(
+        bool zeroForOne,
+        uint256 amountOut
+    ) internal view returns (uint256 amountIn) {
+        (uint256 xIn, uint256 xOut, uint256 rateIn, uint256 rateOut) = _scaledReserves(zeroForOne);
+        // The output balance left after `_outputOf` rounds it up by one must stay positive
+        require(xIn > 0 && amountOut * rateOut + 1 < xOut, "StableSwapAMM: insufficient liquidity");
+
+        uint256 d = getD(xIn, xOut);
+        {
+            // The invariant is symmetric, so getY also solves for the input balance
+            uint256 x = getY(xOut - amountOut * rateOut - 1, d);
+            uint256 amountInAfterFee = x > xIn ? _ceilDiv(x - xIn, rateIn) : 0;
+            amountIn = _ceilDiv(amountInAfterFee * FEE_DENOMINATOR, FEE_DENOMINATOR - swapFee);
+        }
+        for (uint256 i = 0; i < MAX_ITERATIONS; i++) {
+            if (_outputOf(amountIn, xIn, xOut, d, rateIn, rateOut) >= amountOut) {
+                return amountIn;
+            }
+            amountIn++;
+        }
+        revert("StableSwapAMM: no convergence");
+    }
+
+    /**
+     * @dev Internal function that computes the output of a swap along the invariant
+     * @notice The fee is taken from the input and stays in the pool, raising D. The new output
+     * balance is rounded up by one unit and the output scaled back down, so rounding never
+     * lowers D.
+     * @param amountIn Amount of input token
+     * @param xIn Reserve of the input token, scaled to 18 decimals
+     * @param xOut Reserve of the output token, scaled to 18 decimals
+     * @param d Invariant of the reserves
+     * @param rateIn Multiplier scaling the input token to 18 decimals
+     * @param rateOut Multiplier scaling the output token to 18 decimals
+     * @return Amount of output token, 0 if the input buys less than one unit
+     */
+    function _outputOf(
+        uint256 amountIn,
+        uint256 xIn,
+        uint256 xOut,
+        uint256 d,
+        uint256 rateIn,
+        uint256 rateOut
+    ) internal view returns (uint256) {
+        uint256 amountInAfterFee = (amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+        uint256 y = getY(xIn + amountInAfterFee * rateIn, d) + 1;
+        return y < xOut ? (xOut - y) / rateOut : 0;
+    }
+
+    /**
+     * @dev Internal function that returns the reserves oriented for a swap, scaled to 18 decimals
+     * @param zeroForOne Whether token0 is the input
+     * @return xIn Scaled reserve of the input token
+     * @return xOut Scaled reserve of the output token
+     * @return rateIn Multiplier scaling the input token to 18 decimals
+     * @return rateOut Multiplier scaling the output token to 18 decimals
+     */
+    function _scaledReserves(
+        bool zeroForOne
+    ) internal view returns (uint256 xIn, uint256 xOut, uint256 rateIn, uint256 rateOut) {
+        (rateIn, rateOut) = zeroForOne ? (rate0, rate1) : (rate1, rate0);
+        (uint256 reserveIn, uint256 reserveOut) = zeroForOne
+            ? (uint256(reserve0), uint256(reserve1))
+            : (uint256(reserve1), uint256(reserve0));
+        return (reserveIn * rateIn, reserveOut * rateOut, rateIn, rateOut);
+    }
+
+    /**
+     * @dev Internal function that validates a swap's input token
+     * @param tokenIn Address of the input token
+     * @return Whether `tokenIn` is token0
+     */
+    function _isToken0(address tokenIn) internal view returns (bool) {
+        require(tokenIn == token0 || tokenIn == token1, "StableSwapAMM: unsupported token");
+        return tokenIn == token0;
+    }
+
+    /**
+     * @dev Internal function that returns how much of `token` the pool holds beyond its reserve
+     * @param token Address of token0 or token1
+     * @param reserve Reserve of `token`
+     * @return Balance in excess of the reserve, e.g. a deposit that just arrived
+     */
+    function _received(address token, uint256 reserve) internal view returns (uint256) {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        require(balance > reserve, "StableSwapAMM: insufficient input amount");
+        return balance - reserve;
+    }
+
+    /**
+     * @dev Internal function to update reserves with overflow protection
+     * @param newReserve0 New reserve0 value
+     * @param newReserve1 New reserve1 value
+     */
+    function _updateReserves(uint256 newReserve0, uint256 newReserve1) internal {
+        require(
+            newReserve0 <= type(uint112).max && newReserve1 <= type(uint112).max,
+            "StableSwapAMM: reserve overflow"
+        );
+        reserve0 = uint112(newReserve0);
+        reserve1 = uint112(newReserve1);
+        emit Sync(reserve0, reserve1);
+    }
+
+    /**
+     * @dev Internal function that returns the multiplier scaling a token's amounts to 18 decimals
+     * @param token Address of the token
+     * @return 10^(18 - decimals), assuming 18 decimals for tokens without metadata
+     */
+    function _rateOf(address token) internal view returns (uint256) {
+        uint8 decimals = 18;
+        if (token.code.length > 0) {
+            try IERC20Metadata(token).decimals() returns (uint8 tokenDecimals) {
+                decimals = tokenDecimals;
+            } catch {}
+        }
+        require(decimals <= 18, "StableSwapAMM: unsupported decimals");
+        return 10 ** (18 - decimals);
+    }
+
+    /**
+     * @dev Internal function that reads a token symbol, tolerating tokens without metadata
+     * @param token Address of the token
+     * @return Token symbol, or "???" if the token does not implement `symbol()`
+     */
+    function _symbolOf(address token) internal view returns (string memory) {
+        if (token.code.length == 0) {
+            return "???";
+        }
+        try IERC20Metadata(token).symbol() returns (string memory symbol) {
+            return symbol;
+        } catch {
+            return "???";
+        }
+    }
+
+    /**
+     * @dev Internal function for division rounding up
+     * @param a Dividend
+     * @param b Divisor (must be non-zero)
+     * @return Quotient rounded towards positive infinity
+     */
+    function _ceilDiv(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a == 0 ? 0 : (a - 1) / b + 1;
+    }
+
+    /**
+     * @dev Internal function that tells whether two Newton estimates have converged
+     * @param a Current estimate
+     * @param b Previous estimate
+     * @return Whether `a` and `b` differ by at most 1
+     */
+    function _within1(uint256 a, uint256 b) internal pure returns (bool) {
+        return a > b ? a - b <= 1 : b - a <= 1;
+    }
+}
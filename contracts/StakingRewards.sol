@@ -0,0 +1,361 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+
+/**
+ * @title StakingRewards
+ * @dev Streams a reward token to holders of a staked token, pro rata to their stake, over fixed
+ * reward periods
+ * @notice Meant for liquidity mining on an AMM's LP token. `rewardsDistributor` funds a period
+ * with `notifyRewardAmount`, which releases the reward at a constant rate until `periodFinish`;
+ * funding again before then rolls the unreleased remainder into the new period. Every division
+ * rounds down, so the rewards paid out never exceed the rewards funded. Rewards released while
+ * nothing is staked are not paid to anyone; the admin can take them back with `recoverERC20`.
+ */
+contract StakingRewards {
+    /// @dev Scale of `rewardPerToken`
+    uint256 private constant PRECISION = 1e18;
+
+    /// @dev Token stakers deposit, typically an AMM's LP token
+    IERC20 public immutable stakingToken;
+    /// @dev Token paid out as rewards
+    IERC20 public immutable rewardsToken;
+
+    /// @dev Admin allowed to fund reward periods, set their duration and hand over the role
+    address public rewardsDistributor;
+    /// @dev Length in seconds of the next funded period
+    uint256 public rewardsDuration;
+    /// @dev Timestamp at which the current period stops releasing rewards
+    uint256 public periodFinish;
+    /// @dev Rewards released per second during the current period
+    uint256 public rewardRate;
+    /// @dev Timestamp up to which `rewardPerTokenStored` accounts for released rewards
+    uint256 public lastUpdateTime;
+    /// @dev Rewards released per staked token up to `lastUpdateTime`, scaled by 1e18
+    uint256 public rewardPerTokenStored;
+
+    /// @dev Total amount of staked tokens
+    uint256 public totalSupply;
+    /// @dev Amount staked by each account
+    mapping(address => uint256) public balanceOf;
+    /// @dev `rewardPerToken` as of each account's last update
+    mapping(address => uint256) public userRewardPerTokenPaid;
+    /// @dev Rewards each account earned up to its last update and has not claimed
+    mapping(address => uint256) public rewards;
+    /// @dev Rewards released up to `lastUpdateTime` while nothing was staked, and not recovered
+    uint256 public unallocatedRewards;
+
+    /// @dev Reentrancy guard state (1 = unlocked, 0 = locked)
+    uint256 private unlocked = 1;
+
+    /**
+     * @dev Emitted when a reward period is funded
+     * @param reward Amount of reward tokens received
+     * @param periodFinish Timestamp at which the period ends
+     */
+    event RewardAdded(uint256 reward, uint256 periodFinish);
+
+    /**
+     * @dev Emitted when an account stakes
+     * @param user Account that staked
+     * @param amount Amount of staking tokens deposited
+     */
+    event Staked(address indexed user, uint256 amount);
+
+    /**
+     * @dev Emitted when an account withdraws its stake
+     * @param user Account that withdrew
+     * @param amount Amount of staking tokens returned
+     */
+    event Withdrawn(address indexed user, uint256 amount);
+
+    /**
+     * @dev Emitted when an account claims its rewards
+     * @param user Account that claimed
+     * @param reward Amount of reward tokens paid
+     */
+    event RewardPaid(address indexed user, uint256 reward);
+
+    /**
+     * @dev Emitted when the duration of future periods changes
+     * @param rewardsDuration New period length in seconds
+     */
+    event RewardsDurationUpdated(uint256 rewardsDuration);
+
+    /**
+     * @dev Emitted when the admin changes
+     * @param rewardsDistributor New admin
+     */
+    event RewardsDistributorUpdated(address rewardsDistributor);
+
+    /**
+     * @dev Emitted when the admin recovers tokens no staker is owed
+     * @param token Address of the recovered token
+     * @param amount Amount sent to the admin
+     */
+    event Recovered(address indexed token, uint256 amount);
+
+    /**
+     * @dev Rejects calls made while another entry point is executing, e.g. from a reward token's
+     * transfer hook
+     */
+    modifier lock() {
+        require(unlocked == 1, "StakingRewards: locked");
+        unlocked = 0;
+        _;
+        unlocked = 1;
+    }
+
+    /**
+     * @dev Restricts a function to `rewardsDistributor`
+     */
+    modifier onlyRewardsDistributor() {
+        require(msg.sender == rewardsDistributor, "StakingRewards: forbidden");
+        _;
+    }
+
+    /**
+     * @dev Accrues the rewards released so far, and those earned by `account` unless it is the
+     * zero address, before the stake or the rate changes
+     * @param account Account whose rewards to bring up to date
+     */
+    modifier updateReward(address account) {
+        if (totalSupply == 0) {
+            unallocatedRewards += (lastTimeRewardApplicable() - lastUpdateTime) * rewardRate;
+        }
+        rewardPerTokenStored = rewardPerToken();
+        lastUpdateTime = lastTimeRewardApplicable();
+        if (account != address(0)) {
+            rewards[account] = earned(account);
+            userRewardPerTokenPaid[account] = rewardPerTokenStored;
+        }
+        _;
+    }
+
+    /**
+     * @dev Constructor that makes the deployer the admin
+     * @param _stakingToken Address of the token to stake
+     * @param _rewardsToken Address of the token to pay rewards in
+     * @param _rewardsDuration Length in seconds of each reward period
+     */
+    constructor(address _stakingToken, address _rewardsToken, uint256 _rewardsDuration) {
+        require(
+            _stakingToken != address(0) && _rewardsToken != address(0),
+            "StakingRewards: zero address"
+        );
+        require(_stakingToken != _rewardsToken, "StakingRewards: identical tokens");
+        require(_rewardsDuration > 0, "StakingRewards: zero duration");
+        stakingToken = IERC20(_stakingToken);
+        rewardsToken = IERC20(_rewardsToken);
+        rewardsDistributor = msg.sender;
+        rewardsDuration = _rewardsDuration;
+    }
+
+    /**
+     * @dev Returns the latest timestamp at which rewards were being released
+     * @return The current timestamp, or `periodFinish` once the period has ended
+     */
+    function lastTimeRewardApplicable() public view returns (uint256) {
+        return block.timestamp < periodFinish ? block.timestamp : periodFinish;
+    }
+
+    /**
+     * @dev Returns the rewards released per staked token since deployment
+     * @return Reward per staked token, scaled by 1e18
+     */
+    function rewardPerToken() public view returns (uint256) {
+        if (totalSupply == 0) {
+            return rewardPerTokenStored;
+        }
+        return
+            rewardPerTokenStored +
+            ((lastTimeRewardApplicable() - lastUpdateTime) * rewardRate * PRECISION) /
+            totalSupply;
+    }
+
+    /**
+     * @dev Returns the rewards an account can claim
+     * @param account Address of the staker
+     * @return Amount of reward tokens earned and not yet claimed
+     */
+    function earned(address account) public view returns (uint256) {
+        return
+            rewards[account] +
+            (balanceOf[account] * (rewardPerToken() - userRewardPerTokenPaid[account])) /
+            PRECISION;
+    }
+
+    /**
+     * @dev Returns the rewards the current period releases over its whole length
+     * @return Amount of reward tokens
+     */
+    function getRewardForDuration() external view returns (uint256) {
+        return rewardRate * rewardsDuration;
+    }
+
+    /**
+     * @dev Stakes tokens, pulling them from the caller
+     * @param amount Amount of staking tokens to deposit
+     */
+    function stake(uint256 amount) external lock updateReward(msg.sender) {
+        _stake(amount);
+    }
+
+    /**
+     * @dev Stakes tokens using an EIP-2612 permit instead of an approval
+     * @notice The permit must be signed by the caller for this contract and `amount`
+     * @param amount Amount of staking tokens to deposit
+     * @param deadline Unix timestamp after which the permit is invalid
+     * @param v Signature recovery byte
+     * @param r Signature r value
+     * @param s Signature s value
+     */
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external lock updateReward(msg.sender) {
+        IERC20Permit(address(stakingToken)).permit(
+            msg.sender,
+            address(this),
+            amount,
+            deadline,
+            v,
+            r,
+            s
+        );
+        _stake(amount);
+    }
+
+    /**
+     * @dev Withdraws staked tokens, leaving earned rewards to claim
+     * @param amount Amount of staking tokens to withdraw
+     */
+    function withdraw(uint256 amount) external lock updateReward(msg.sender) {
+        _withdraw(amount);
+    }
+
+    /**
+     * @dev Pays the caller the rewards it has earned
+     */
+    function getReward() external lock updateReward(msg.sender) {
+        _getReward();
+    }
+
+    /**
+     * @dev Withdraws the caller's whole stake and pays its rewards
+     */
+    function exit() external lock updateReward(msg.sender) {
+        _withdraw(balanceOf[msg.sender]);
+        _getReward();
+    }
+
+    /**
+     * @dev Funds a reward period starting now, pulling `reward` from the caller
+     * @notice A period still running is replaced: its unreleased rewards are added to `reward`
+     * and released over a full `rewardsDuration` from now. The rate is measured on the tokens
+     * that arrived, so a fee-on-transfer reward token cannot promise more than it delivered.
+     * @param reward Amount of reward tokens to add
+     */
+    function notifyRewardAmount(
+        uint256 reward
+    ) external lock onlyRewardsDistributor updateReward(address(0)) {
+        uint256 balanceBefore = rewardsToken.balanceOf(address(this));
+        rewardsToken.transferFrom(msg.sender, address(this), reward);
+        uint256 received = rewardsToken.balanceOf(address(this)) - balanceBefore;
+
+        uint256 unreleased = 0;
+        if (block.timestamp < periodFinish) {
+            unreleased = (periodFinish - block.timestamp) * rewardRate;
+        }
+        rewardRate = (received + unreleased) / rewardsDuration;
+        require(rewardRate > 0, "StakingRewards: reward rate is zero");
+
+        lastUpdateTime = block.timestamp;
+        periodFinish = block.timestamp + rewardsDuration;
+        emit RewardAdded(received, periodFinish);
+    }
+
+    /**
+     * @dev Sets the length of the next reward period
+     * @param _rewardsDuration Period length in seconds
+     */
+    function setRewardsDuration(uint256 _rewardsDuration) external onlyRewardsDistributor {
+        require(block.timestamp > periodFinish, "StakingRewards: period not finished");
+        require(_rewardsDuration > 0, "StakingRewards: zero duration");
+        rewardsDuration = _rewardsDuration;
+        emit RewardsDurationUpdated(_rewardsDuration);
+    }
+
+    /**
+     * @dev Hands the admin role to another address
+     * @param _rewardsDistributor New admin
+     */
+    function setRewardsDistributor(address _rewardsDistributor) external onlyRewardsDistributor {
+        require(_rewardsDistributor != address(0), "StakingRewards: zero address");
+        rewardsDistributor = _rewardsDistributor;
+        emit RewardsDistributorUpdated(_rewardsDistributor);
+    }
+
+    /**
+     * @dev Sends tokens no staker is owed to the admin
+     * @notice Of the reward token, only `unallocatedRewards` can be recovered; the staking token
+     * belongs to the stakers and cannot be recovered at all. Other tokens sent here by mistake can
+     * be recovered in full.
+     * @param token Address of the token to recover
+     * @param amount Amount to send to the admin
+     */
+    function recoverERC20(
+        address token,
+        uint256 amount
+    ) external lock onlyRewardsDistributor updateReward(address(0)) {
+        require(token != address(stakingToken), "StakingRewards: cannot recover staking token");
+        if (token == address(rewardsToken)) {
+            require(amount <= unallocatedRewards, "StakingRewards: exceeds unallocated rewards");
+            unallocatedRewards -= amount;
+        }
+        IERC20(token).transfer(msg.sender, amount);
+        emit Recovered(token, amount);
+    }
+
+    /**
+     * @dev Internal function that pulls a stake from the caller
+     * @param amount Amount of staking tokens to deposit
+     */
+    function _stake(uint256 amount) internal {
+        require(amount > 0, "StakingRewards: zero amount");
+        totalSupply += amount;
+        balanceOf[msg.sender] += amount;
+        stakingToken.transferFrom(msg.sender, address(this), amount);
+        emit Staked(msg.sender, amount);
+    }
+
+    /**
+     * @dev Internal function that returns part of the caller's stake
+     * @param amount Amount of staking tokens to withdraw
+     */
+    function _withdraw(uint256 amount) internal {
+        require(amount > 0, "StakingRewards: zero amount");
+        require(balanceOf[msg.sender] >= amount, "StakingRewards: insufficient balance");
+        totalSupply -= amount;
+        balanceOf[msg.sender] -= amount;
+        stakingToken.transfer(msg.sender, amount);
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @dev Internal function that pays the caller's earned rewards, if any
+     */
+    function _getReward() internal {
+        uint256 reward = rewards[msg.sender];
+        if (reward > 0) {
+            rewards[msg.sender] = 0;
+            rewardsToken.transfer(msg.sender, reward);
+            emit RewardPaid(msg.sender, reward);
+        }
+    }
+}
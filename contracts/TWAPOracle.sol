@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./AMM.sol";
+
+/**
+ * @title TWAPOracle
+ * @dev Fixed-window time-weighted average price oracle for any number of AMM pools
+ * @notice Anyone may call `update` once per `period`; `consult` then prices amounts at the
+ * average over the last completed window. A price pushed within a single block only counts for
+ * the seconds it survives, so moving the average costs far more than moving the spot price.
+ */
+contract TWAPOracle {
+    /// @dev Minimum number of seconds between two observations of a pool
+    uint256 public immutable period;
+
+    /**
+     * @dev Per-pool oracle state
+     * @param price0Cumulative Pool price0 accumulator at the last observation
+     * @param price1Cumulative Pool price1 accumulator at the last observation
+     * @param timestamp Timestamp (mod 2**32) of the last observation
+     * @param price0Average Average price of token0 in token1 over the last window, as UQ112x112
+     * @param price1Average Average price of token1 in token0 over the last window, as UQ112x112
+     */
+    struct Observation {
+        uint256 price0Cumulative;
+        uint256 price1Cumulative;
+        uint32 timestamp;
+        uint224 price0Average;
+        uint224 price1Average;
+    }
+
+    /// @dev Latest observation for each pool
+    mapping(address => Observation) public observations;
+
+    /**
+     * @dev Emitted when a pool's averages are recomputed
+     * @param pool Address of the AMM
+     * @param price0Average Average price of token0 in token1, as UQ112x112
+     * @param price1Average Average price of token1 in token0, as UQ112x112
+     * @param timeElapsed Length of the window the averages cover
+     */
+    event OracleUpdated(
+        address indexed pool,
+        uint224 price0Average,
+        uint224 price1Average,
+        uint32 timeElapsed
+    );
+
+    /**
+     * @dev Constructor that sets the averaging window
+     * @param _period Minimum window length in seconds
+     */
+    constructor(uint256 _period) {
+        require(_period > 0, "TWAPOracle: zero period");
+        period = _period;
+    }
+
+    /**
+     * @dev Returns the pool's price accumulators as of the current block, including the time
+     * elapsed since the pool's last reserve update
+     * @param pool Address of the AMM
+     * @return price0Cumulative Current price0 accumulator
+     * @return price1Cumulative Current price1 accumulator
+     * @return blockTimestamp Current block timestamp (mod 2**32)
+     */
+    function currentCumulativePrices(address pool)
+        public
+        view
+        returns (uint256 price0Cumulative, uint256 price1Cumulative, uint32 blockTimestamp)
+    {
+        AMM amm = AMM(pool);
+        blockTimestamp = uint32(block.timestamp % 2 ** 32);
+        price0Cumulative = amm.price0CumulativeLast();
+        price1Cumulative = amm.price1CumulativeLast();
+
+        uint32 timestampLast = amm.blockTimestampLast();
+        if (timestampLast != blockTimestamp) {
+            (uint112 reserve0, uint112 reserve1) = amm.getReserves();
+            if (reserve0 != 0 && reserve1 != 0) {
+                unchecked {
+                    // Counterfactual accrual since the last update; overflow is desired
+                    uint32 timeElapsed = blockTimestamp - timestampLast;
+                    price0Cumulative += ((uint256(reserve1) << 112) / reserve0) * timeElapsed;
+                    price1Cumulative += ((uint256(reserve0) << 112) / reserve1) * timeElapsed;
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Records an observation of the pool and, after the first one, recomputes its averages
+     * @param pool Address of the AMM
+     */
+    function update(address pool) external {
+        (uint256 price0Cumulative, uint256 price1Cumulative, uint32 blockTimestamp) =
+            currentCumulativePrices(pool);
+        Observation storage observation = observations[pool];
+
+        if (observation.timestamp != 0) {
+            uint32 timeElapsed;
+            unchecked {
+                timeElapsed = blockTimestamp - observation.timestamp;
+            }
+            require(timeElapsed >= period, "TWAPOracle: period not elapsed");
+
+            unchecked {
+                observation.price0Average = uint224(
+                    (price0Cumulative - observation.price0Cumulative) / timeElapsed
+                );
+                observation.price1Average = uint224(
+                    (price1Cumulative - observation.price1Cumulative) / timeElapsed
+                );
+            }
+            emit OracleUpdated(
+                pool,
+                observation.price0Average,
+                observation.price1Average,
+                timeElapsed
+            );
+        }
+
+        observation.price0Cumulative = price0Cumulative;
+        observation.price1Cumulative = price1Cumulative;
+        observation.timestamp = blockTimestamp;
+    }
+
+    /**
+     * @dev Prices an amount of one pool token in the other at the last window's average
+     * @param pool Address of the AMM
+     * @param tokenIn Address of the token being priced (token0 or token1 of the pool)
+     * @param amountIn Amount of tokenIn
+     * @return amountOut Equivalent amount of the other token
+     */
+    function consult(
+        address pool,
+        address tokenIn,
+        uint256 amountIn
+    ) external view returns (uint256 amountOut) {
+        Observation memory observation = observations[pool];
+        require(observation.price0Average != 0, "TWAPOracle: not ready");
+
+        if (tokenIn == AMM(pool).token0()) {
+            amountOut = (observation.price0Average * amountIn) >> 112;
+        } else {
+            require(tokenIn == AMM(pool).token1(), "TWAPOracle: invalid token");
+            amountOut = (observation.price1Average * amountIn) >> 112;
+        }
+    }
+}
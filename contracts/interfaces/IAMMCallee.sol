@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title IAMMCallee
+ * @dev Callback implemented by contracts that receive flash swaps from an AMM
+ */
+interface IAMMCallee {
+    /**
+     * @dev Called by the pool after it has sent the requested tokens and before it checks repayment
+     * @notice Implementations must verify that msg.sender is a genuine pool and pay it back before
+     * returning
+     * @param sender Address that called `flashSwap`
+     * @param amount0Out Amount of token0 sent to the receiver
+     * @param amount1Out Amount of token1 sent to the receiver
+     * @param data Arbitrary data forwarded from `flashSwap`
+     */
+    function ammCall(
+        address sender,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        bytes calldata data
+    ) external;
+}
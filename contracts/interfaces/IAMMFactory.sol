@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title IAMMFactory
+ * @dev The part of AMMFactory that pools read back from their deployer
+ */
+interface IAMMFactory {
+    /**
+     * @dev Returns the recipient of the protocol fee
+     * @return Address receiving protocol-fee LP tokens, or the zero address if the fee is off
+     */
+    function feeTo() external view returns (address);
+
+    /**
+     * @dev Returns the account allowed to pause the factory's pools
+     * @return Address of the guardian
+     */
+    function guardian() external view returns (address);
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./TestToken.sol";
+
+/**
+ * @title DecimalsToken
+ * @dev TestToken with a configurable number of decimals, e.g. 6 like USDC
+ */
+contract DecimalsToken is TestToken {
+    /// @dev Decimals reported by `decimals()`
+    uint8 private immutable tokenDecimals;
+
+    /**
+     * @dev Constructor that sets token metadata and decimals
+     * @param _name Token name
+     * @param _symbol Token symbol
+     * @param _decimals Number of decimals
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint8 _decimals
+    ) TestToken(_name, _symbol) {
+        tokenDecimals = _decimals;
+    }
+
+    /**
+     * @dev Returns the configured number of decimals
+     */
+    function decimals() public view override returns (uint8) {
+        return tokenDecimals;
+    }
+}
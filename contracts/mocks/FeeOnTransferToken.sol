@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./TestToken.sol";
+
+/**
+ * @title FeeOnTransferToken
+ * @dev TestToken that burns a fixed share of every transfer
+ * @notice The recipient receives `amount - amount * feeBps / 10000`; mints and burns are exempt
+ */
+contract FeeOnTransferToken is TestToken {
+    /// @dev Share of each transfer that is burned, in basis points
+    uint256 public immutable feeBps;
+
+    /**
+     * @dev Constructor that sets token metadata and the transfer fee
+     * @param _name Token name
+     * @param _symbol Token symbol
+     * @param _feeBps Transfer fee in basis points
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint256 _feeBps
+    ) TestToken(_name, _symbol) {
+        require(_feeBps <= 10_000, "FeeOnTransferToken: fee too high");
+        feeBps = _feeBps;
+    }
+
+    /**
+     * @dev Burns the fee from the sender before moving the rest
+     * @param from Sender, or the zero address for mints
+     * @param to Recipient, or the zero address for burns
+     * @param value Amount debited from the sender
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+        uint256 fee = (value * feeBps) / 10_000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
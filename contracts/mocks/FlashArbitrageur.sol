@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../AMM.sol";
+import "../interfaces/IAMMCallee.sol";
+
+/**
+ * @title FlashArbitrageur
+ * @dev Example arbitrage bot that needs no capital of its own
+ * @notice Borrows a token from one pool, sells it on another pool of the same pair, repays the
+ * first pool in the other token and sends the difference to the caller
+ */
+contract FlashArbitrageur is IAMMCallee {
+    /**
+     * @dev Runs the arbitrage
+     * @param borrowPool Pool where `tokenBorrow` is cheap
+     * @param sellPool Pool of the same pair where `tokenBorrow` is expensive
+     * @param tokenBorrow Token to borrow from `borrowPool` and sell on `sellPool`
+     * @param amountBorrow Amount of `tokenBorrow` to borrow
+     * @return profit Amount of the other token sent to the caller
+     */
+    function arbitrage(
+        AMM borrowPool,
+        AMM sellPool,
+        address tokenBorrow,
+        uint256 amountBorrow
+    ) external returns (uint256 profit) {
+        bool borrowToken0 = tokenBorrow == borrowPool.token0();
+        borrowPool.flashSwap(
+            borrowToken0 ? amountBorrow : 0,
+            borrowToken0 ? 0 : amountBorrow,
+            address(this),
+            abi.encode(sellPool, tokenBorrow)
+        );
+
+        address tokenRepay = borrowToken0 ? borrowPool.token1() : borrowPool.token0();
+        profit = IERC20(tokenRepay).balanceOf(address(this));
+        IERC20(tokenRepay).transfer(msg.sender, profit);
+    }
+
+    /**
+     * @dev Flash swap callback: sells the borrowed tokens and repays in the other token
+     * @param sender Address that called `flashSwap`
+     * @param amount0Out Amount of token0 borrowed
+     * @param amount1Out Amount of token1 borrowed
+     * @param data Encoded sell pool and borrowed token
+     */
+    function ammCall(
+        address sender,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        bytes calldata data
+    ) external {
+        require(sender == address(this), "FlashArbitrageur: unknown initiator");
+        AMM borrowPool = AMM(msg.sender);
+        (AMM sellPool, address tokenBorrow) = abi.decode(data, (AMM, address));
+
+        uint256 amountBorrow = amount0Out + amount1Out;
+        IERC20(tokenBorrow).approve(address(sellPool), amountBorrow);
+        sellPool.swap(tokenBorrow, amountBorrow);
+
+        // Smallest repayment in the other token that satisfies the borrow pool's invariant
+        (uint112 reserve0, uint112 reserve1) = borrowPool.getReserves();
+        bool borrowToken0 = amount0Out > 0;
+        uint256 amountRepay = borrowToken0
+            ? borrowPool.getAmountIn(amountBorrow, reserve1, reserve0)
+            : borrowPool.getAmountIn(amountBorrow, reserve0, reserve1);
+        address tokenRepay = borrowToken0 ? borrowPool.token1() : borrowPool.token0();
+        IERC20(tokenRepay).transfer(msg.sender, amountRepay);
+    }
+}
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../AMM.sol";
+import "../interfaces/IAMMCallee.sol";
+
+/**
+ * @title FlashBorrower
+ * @dev Flash swap receiver for tests that pays back configurable amounts of either token
+ * @notice Must be pre-funded with whatever it repays beyond the borrowed tokens (e.g. the fee)
+ */
+contract FlashBorrower is IAMMCallee {
+    /// @dev What the callback does with the borrowed tokens
+    enum Action {
+        Repay,
+        Reenter
+    }
+
+    /// @dev Pool the borrower trusts callbacks from
+    AMM public immutable pool;
+
+    /// @dev token0 received in the last callback
+    uint256 public lastAmount0Out;
+    /// @dev token1 received in the last callback
+    uint256 public lastAmount1Out;
+    /// @dev Pool balance of token0 observed inside the last callback
+    uint256 public poolBalance0DuringCall;
+
+    /**
+     * @dev Constructor that binds the borrower to a pool
+     * @param _pool Address of the AMM to borrow from
+     */
+    constructor(address _pool) {
+        pool = AMM(_pool);
+    }
+
+    /**
+     * @dev Borrows from the pool and pays back the given amounts in the callback
+     * @param amount0Out Amount of token0 to borrow
+     * @param amount1Out Amount of token1 to borrow
+     * @param amount0Repay Amount of token0 to pay back
+     * @param amount1Repay Amount of token1 to pay back
+     */
+    function borrow(
+        uint256 amount0Out,
+        uint256 amount1Out,
+        uint256 amount0Repay,
+        uint256 amount1Repay
+    ) external {
+        pool.flashSwap(
+            amount0Out,
+            amount1Out,
+            address(this),
+            abi.encode(Action.Repay, amount0Repay, amount1Repay)
+        );
+    }
+
+    /**
+     * @dev Borrows token0 and tries to swap it back into the pool from inside the callback
+     * @param amount0Out Amount of token0 to borrow
+     */
+    function borrowAndReenter(uint256 amount0Out) external {
+        pool.flashSwap(amount0Out, 0, address(this), abi.encode(Action.Reenter, 0, 0));
+    }
+
+    /**
+     * @dev Flash swap callback
+     * @param sender Address that called `flashSwap`
+     * @param amount0Out Amount of token0 received
+     * @param amount1Out Amount of token1 received
+     * @param data Encoded action and repayment amounts
+     */
+    function ammCall(
+        address sender,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        bytes calldata data
+    ) external {
+        require(msg.sender == address(pool), "FlashBorrower: unknown pool");
+        require(sender == address(this), "FlashBorrower: unknown initiator");
+
+        lastAmount0Out = amount0Out;
+        lastAmount1Out = amount1Out;
+        poolBalance0DuringCall = IERC20(pool.token0()).balanceOf(address(pool));
+
+        (Action action, uint256 amount0Repay, uint256 amount1Repay) = abi.decode(
+            data,
+            (Action, uint256, uint256)
+        );
+        if (action == Action.Reenter) {
+            IERC20(pool.token0()).approve(address(pool), amount0Out);
+            pool.swap(pool.token0(), amount0Out);
+            return;
+        }
+        if (amount0Repay > 0) {
+            IERC20(pool.token0()).transfer(address(pool), amount0Repay);
+        }
+        if (amount1Repay > 0) {
+            IERC20(pool.token1()).transfer(address(pool), amount1Repay);
+        }
+    }
+}
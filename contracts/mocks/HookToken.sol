@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./TestToken.sol";
+
+/**
+ * @title ITokenHooks
+ * @dev Callbacks HookToken makes to the hooks its holders register, named after ERC-777's
+ */
+interface ITokenHooks {
+    /**
+     * @dev Called on the sender's hook before its balance is debited
+     * @param from Sender
+     * @param to Recipient
+     * @param value Amount being transferred
+     */
+    function tokensToSend(address from, address to, uint256 value) external;
+
+    /**
+     * @dev Called on the recipient's hook after its balance is credited
+     * @param from Sender
+     * @param to Recipient
+     * @param value Amount transferred
+     */
+    function tokensReceived(address from, address to, uint256 value) external;
+}
+
+/**
+ * @title HookToken
+ * @dev TestToken that calls back into its holders on every transfer, like an ERC-777 token
+ * @notice Any holder can register a hook for itself; a malicious one can use the callbacks to
+ * reenter the contract that moves its tokens. Mints and burns do not call hooks.
+ */
+contract HookToken is TestToken {
+    /// @dev Hook registered by each holder, or the zero address for none
+    mapping(address => address) public hookOf;
+
+    /**
+     * @dev Constructor that sets token name and symbol
+     * @param _name Token name
+     * @param _symbol Token symbol
+     */
+    constructor(string memory _name, string memory _symbol) TestToken(_name, _symbol) {}
+
+    /**
+     * @dev Registers the hook called when the caller sends or receives tokens
+     * @param hook Contract implementing ITokenHooks, or the zero address to remove it
+     */
+    function setHook(address hook) external {
+        hookOf[msg.sender] = hook;
+    }
+
+    /**
+     * @dev Calls the sender's hook, moves the tokens, then calls the recipient's hook
+     * @param from Sender, or the zero address for mints
+     * @param to Recipient, or the zero address for burns
+     * @param value Amount transferred
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        bool isTransfer = from != address(0) && to != address(0);
+        if (isTransfer && hookOf[from] != address(0)) {
+            ITokenHooks(hookOf[from]).tokensToSend(from, to, value);
+        }
+        super._update(from, to, value);
+        if (isTransfer && hookOf[to] != address(0)) {
+            ITokenHooks(hookOf[to]).tokensReceived(from, to, value);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./TestToken.sol";
+
+/**
+ * @title RebasingToken
+ * @dev TestToken whose balances all scale with a global index, like staking derivatives
+ * @notice Balances are stored as shares; `balanceOf` is `shares * index / 1e18`. Transfers round
+ * the shares down, so a recipient can receive a wei less than was sent.
+ */
+contract RebasingToken is TestToken {
+    /// @dev Fixed-point scale of `index`
+    uint256 public constant INDEX_SCALE = 1e18;
+    /// @dev Token amount per share, scaled by INDEX_SCALE
+    uint256 public index = INDEX_SCALE;
+
+    /**
+     * @dev Constructor that sets token metadata
+     * @param _name Token name
+     * @param _symbol Token symbol
+     */
+    constructor(string memory _name, string memory _symbol) TestToken(_name, _symbol) {}
+
+    /**
+     * @dev Scales every balance by `newIndex / index`
+     * @param newIndex New token amount per share, scaled by INDEX_SCALE
+     */
+    function rebase(uint256 newIndex) external {
+        require(newIndex > 0, "RebasingToken: zero index");
+        index = newIndex;
+    }
+
+    /**
+     * @dev Returns the token balance of `account` at the current index
+     * @param account Address to query
+     * @return Balance in tokens
+     */
+    function balanceOf(address account) public view override returns (uint256) {
+        return (super.balanceOf(account) * index) / INDEX_SCALE;
+    }
+
+    /**
+     * @dev Returns the total supply at the current index
+     * @return Total supply in tokens
+     */
+    function totalSupply() public view override returns (uint256) {
+        return (super.totalSupply() * index) / INDEX_SCALE;
+    }
+
+    /**
+     * @dev Converts token amounts to shares before moving them
+     * @param from Sender, or the zero address for mints
+     * @param to Recipient, or the zero address for burns
+     * @param value Amount in tokens
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        super._update(from, to, (value * INDEX_SCALE) / index);
+    }
+}
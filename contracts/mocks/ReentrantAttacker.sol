@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "../AMM.sol";
+import "./HookToken.sol";
+
+/**
+ * @title ReentrantAttacker
+ * @dev Trades on a pool and reenters it from HookToken callbacks
+ * @notice `arm` stores a call to make into the pool from the next callback. Reverts of the
+ * reentrant call, such as the pool's lock, bubble up and fail the outer call.
+ */
+contract ReentrantAttacker is ITokenHooks {
+    /// @dev Pool the attacker trades on and reenters
+    AMM public immutable pool;
+
+    /// @dev Call made into the pool from the next callback, empty when disarmed
+    bytes public reentry;
+    /// @dev Number of callbacks received
+    uint256 public callbacks;
+
+    /**
+     * @dev Constructor that approves the pool to pull any amount of either token
+     * @param _pool Address of the AMM to attack
+     */
+    constructor(address _pool) {
+        pool = AMM(_pool);
+        IERC20(pool.token0()).approve(_pool, type(uint256).max);
+        IERC20(pool.token1()).approve(_pool, type(uint256).max);
+    }
+
+    /**
+     * @dev Registers the attacker as its own hook on a HookToken
+     * @param token Address of the HookToken
+     */
+    function register(address token) external {
+        HookToken(token).setHook(address(this));
+    }
+
+    /**
+     * @dev Stores the call to make into the pool from the next callback
+     * @param data Calldata for the pool, e.g. an encoded `swap`
+     */
+    function arm(bytes calldata data) external {
+        reentry = data;
+    }
+
+    /**
+     * @dev Calls the pool, bubbling up its revert
+     * @param data Calldata for the pool
+     */
+    function execute(bytes calldata data) external {
+        Address.functionCall(address(pool), data);
+    }
+
+    /**
+     * @dev Sender callback, fired before the attacker's tokens move
+     */
+    function tokensToSend(address, address, uint256) external {
+        _reenter();
+    }
+
+    /**
+     * @dev Recipient callback, fired after the attacker receives tokens
+     */
+    function tokensReceived(address, address, uint256) external {
+        _reenter();
+    }
+
+    /**
+     * @dev Internal function that makes the armed call, once
+     */
+    function _reenter() internal {
+        callbacks++;
+        bytes memory data = reentry;
+        if (data.length > 0) {
+            delete reentry;
+            Address.functionCall(address(pool), data);
+        }
+    }
+}
@@ -1,74 +1,238 @@
-import { ethers } from "hardhat";
+import hre from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BaseContract, ContractTransactionResponse } from "ethers";
+import {
+  DeploymentRecord,
+  deploymentsDir,
+  Manifest,
+  manifestPath,
+  PoolRecord,
+  readManifest,
+  writeManifest,
+} from "../sdk/deployments";
 
-async function main() {
-  const [deployer] = await ethers.getSigners();
-  console.log(`Deploying contracts with account: ${deployer.address}`);
-  console.log(`Account balance: ${ethers.formatEther(await ethers.provider.getBalance(deployer.address))} ETH\n`);
+/** Inputs of a deployment; every field has a default taken from the environment. */
+export interface DeployOptions {
+  /** Existing pair to pool; mock tokens are deployed when omitted */
+  tokens?: [string, string];
+  /** Swap fee in basis points; must be an enabled factory tier (5, 30 or 100 by default) */
+  swapFee?: bigint;
+  /** Manifest directory */
+  dir?: string;
+  /** Progress output, `console.log` by default */
+  log?: (message: string) => void;
+}
 
-  let token0Address = process.env.TOKEN0_ADDRESS;
-  let token1Address = process.env.TOKEN1_ADDRESS;
+/** What a deployment produced, together with the manifest it was recorded in. */
+export interface DeployResult {
+  manifest: Manifest;
+  /** Name of the pool in `manifest.pools` */
+  poolName: string;
+  pool: PoolRecord;
+  /** Names of the contracts and pools deployed by this run; empty if everything was reused */
+  deployed: string[];
+}
 
-  let token0: any;
-  let token1: any;
+/**
+ * Deploys the mock tokens (if needed), factory, router and a pool, recording each step in the
+ * network's manifest as soon as it is mined. Steps whose manifest record still has code on-chain
+ * and the same constructor arguments are reused, so an interrupted or repeated run only sends the
+ * transactions that are missing.
+ * @param hre Hardhat runtime environment
+ * @param options Deployment inputs
+ */
+export const deploy = async (
+  hre: HardhatRuntimeEnvironment,
+  options: DeployOptions = {}
+): Promise<DeployResult> => {
+  const { ethers, network } = hre;
+  const dir = options.dir ?? deploymentsDir();
+  const log = options.log ?? console.log;
+  const swapFee = options.swapFee ?? 30n;
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
 
-  // Deploy test tokens if addresses not provided
-  if (!token0Address || !token1Address) {
-    console.log("TOKEN0_ADDRESS/TOKEN1_ADDRESS not provided. Deploying mock tokens...\n");
-    
-    const TestToken = await ethers.getContractFactory("TestToken");
-    
-    token0 = await TestToken.deploy("Mock Token A", "MTA");
-    await token0.waitForDeployment();
-    token0Address = await token0.getAddress();
-    console.log(`✓ Token0 (Mock Token A) deployed at: ${token0Address}`);
-
-    token1 = await TestToken.deploy("Mock Token B", "MTB");
-    await token1.waitForDeployment();
-    token1Address = await token1.getAddress();
-    console.log(`✓ Token1 (Mock Token B) deployed at: ${token1Address}\n`);
+  const manifest = readManifest(network.name, dir) ?? {
+    network: network.name,
+    chainId,
+    contracts: {},
+    pools: {},
+  };
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `Deployments: ${manifestPath(network.name, dir)} is for chain ${manifest.chainId}, ` +
+        `connected to ${chainId}`
+    );
+  }
+  const deployed: string[] = [];
+
+  const isLive = async (record: DeploymentRecord | undefined, args: string[]) =>
+    record !== undefined &&
+    record.args.join() === args.join() &&
+    (await ethers.provider.getCode(record.address)) !== "0x";
+
+  /** Deploys `contract` under `name` unless the manifest already has a live, identical copy. */
+  const step = async (name: string, contract: string, args: string[]): Promise<string> => {
+    const existing = manifest.contracts[name];
+    if (await isLive(existing, args)) {
+      log(`✓ ${name} reused at ${existing.address}`);
+      return existing.address;
+    }
+    const instance = await (await ethers.getContractFactory(contract)).deploy(...args);
+    const record = await recordOf(contract, args, instance);
+    manifest.contracts[name] = record;
+    writeManifest(manifest, dir);
+    deployed.push(name);
+    log(`✓ ${name} deployed at ${record.address}`);
+    return record.address;
+  };
+
+  let tokens = options.tokens;
+  if (!tokens) {
+    tokens = [
+      await step("MockTokenA", "TestToken", ["Mock Token A", "MTA"]),
+      await step("MockTokenB", "TestToken", ["Mock Token B", "MTB"]),
+    ];
+  }
+  const factoryAddress = await step("AMMFactory", "AMMFactory", []);
+  await step("AMMRouter", "AMMRouter", [factoryAddress]);
+
+  // The factory sorts the pair, and the pool records the sorted order
+  const [token0, token1] = BigInt(tokens[0]) < BigInt(tokens[1]) ? tokens : [tokens[1], tokens[0]];
+  const symbols = await Promise.all(
+    [token0, token1].map(token =>
+      ethers.getContractAt("IERC20Metadata", token).then(t => t.symbol())
+    )
+  );
+  const poolName = `${symbols[0]}-${symbols[1]}-${swapFee}`;
+  const poolArgs = [token0, token1, swapFee.toString()];
+  const factory = await ethers.getContractAt("AMMFactory", factoryAddress);
+
+  let pool = manifest.pools[poolName];
+  if (pool?.factory === factoryAddress && (await isLive(pool, poolArgs))) {
+    log(`✓ Pool ${poolName} reused at ${pool.address}`);
   } else {
-    console.log(`Using existing tokens:`);
-    console.log(`  Token0: ${token0Address}`);
-    console.log(`  Token1: ${token1Address}\n`);
+    let record: DeploymentRecord;
+    const existing = await factory.getPool(token0, token1);
+    if (existing !== ethers.ZeroAddress) {
+      // Created by a run that stopped before writing the manifest; recover it from the event
+      const [event] = await factory.queryFilter(factory.filters.PoolCreated(token0, token1));
+      if (!event) {
+        throw new Error(`Deployments: no PoolCreated event for ${token0}/${token1} at ${existing}`);
+      }
+      if (event.args.swapFee !== swapFee) {
+        throw new Error(
+          `Deployments: ${token0}/${token1} already has a pool with a ${event.args.swapFee} bps fee`
+        );
+      }
+      record = {
+        contract: "AMM",
+        address: existing,
+        args: poolArgs,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      };
+    } else {
+      const tx = await factory.createPool(token0, token1, swapFee);
+      const receipt = await tx.wait();
+      record = {
+        contract: "AMM",
+        address: await factory.getPool(token0, token1),
+        args: poolArgs,
+        txHash: tx.hash,
+        blockNumber: receipt!.blockNumber,
+      };
+      deployed.push(poolName);
+    }
+    const action = deployed.includes(poolName) ? "deployed" : "recovered";
+    log(`✓ Pool ${poolName} ${action} at ${record.address}`);
+    const amm = await ethers.getContractAt("AMM", record.address);
+    pool = {
+      ...record,
+      lpToken: await amm.lpToken(),
+      token0,
+      token1,
+      swapFee: swapFee.toString(),
+      factory: factoryAddress,
+    };
+    manifest.pools[poolName] = pool;
+    writeManifest(manifest, dir);
   }
 
-  // Ensure token0 < token1 for AMM constructor
-  if (token0Address > token1Address) {
-    [token0Address, token1Address] = [token1Address, token0Address];
-    console.log("Swapped token addresses to ensure token0 < token1\n");
+  return { manifest, poolName, pool, deployed };
+};
+
+/** Waits for a contract's creation and describes it for the manifest. */
+export const recordOf = async (
+  contract: string,
+  args: string[],
+  instance: BaseContract & { deploymentTransaction(): ContractTransactionResponse | null }
+): Promise<DeploymentRecord> => {
+  await instance.waitForDeployment();
+  const tx = instance.deploymentTransaction();
+  const receipt = await tx?.wait();
+  if (!tx || !receipt) {
+    throw new Error(`Deployments: no receipt for the ${contract} deployment`);
   }
+  return {
+    contract,
+    address: await instance.getAddress(),
+    args,
+    txHash: tx.hash,
+    blockNumber: receipt.blockNumber,
+  };
+};
+
+async function main() {
+  const { ethers } = hre;
+  const [deployer] = await ethers.getSigners();
+  console.log(`Deploying contracts with account: ${deployer.address}`);
+  console.log(
+    `Account balance: ${ethers.formatEther(await ethers.provider.getBalance(deployer.address))} ETH\n`
+  );
 
-  // Deploy AMM
-  console.log("Deploying AMM contract...");
-  const AMM = await ethers.getContractFactory("AMM");
-  const amm = await AMM.deploy(token0Address, token1Address);
-  await amm.waitForDeployment();
-  const ammAddress = await amm.getAddress();
-  console.log(`✓ AMM deployed at: ${ammAddress}`);
+  const token0Address = process.env.TOKEN0_ADDRESS;
+  const token1Address = process.env.TOKEN1_ADDRESS;
+  if (!token0Address || !token1Address) {
+    console.log("TOKEN0_ADDRESS/TOKEN1_ADDRESS not provided. Using mock tokens...\n");
+  }
 
-  // Get LP token address
-  const lpTokenAddress = await amm.lpToken();
-  console.log(`✓ LP Token deployed at: ${lpTokenAddress}\n`);
+  const { manifest, poolName, pool, deployed } = await deploy(hre, {
+    tokens: token0Address && token1Address ? [token0Address, token1Address] : undefined,
+    swapFee: BigInt(process.env.SWAP_FEE ?? "30"),
+  });
 
   // Print summary
-  console.log("=".repeat(60));
+  console.log("\n" + "=".repeat(60));
   console.log("DEPLOYMENT SUMMARY");
   console.log("=".repeat(60));
-  console.log(`Token0:     ${token0Address}`);
-  console.log(`Token1:     ${token1Address}`);
-  console.log(`AMM:        ${ammAddress}`);
-  console.log(`LP Token:   ${lpTokenAddress}`);
+  console.log(`Token0:     ${pool.token0}`);
+  console.log(`Token1:     ${pool.token1}`);
+  console.log(`Factory:    ${pool.factory}`);
+  console.log(`Router:     ${manifest.contracts.AMMRouter.address}`);
+  console.log(`AMM:        ${pool.address}`);
+  console.log(`LP Token:   ${pool.lpToken}`);
   console.log("=".repeat(60));
+  console.log(
+    `${deployed.length === 0 ? "Nothing to deploy; recorded in" : "Recorded in"} ` +
+      manifestPath(manifest.network)
+  );
+  const network = `--network ${hre.network.name}`;
   console.log("\nTo interact with the AMM:");
-  console.log(`  npx hardhat console`);
-  console.log(`  const amm = await ethers.getContractAt("AMM", "${ammAddress}");`);
-  console.log(`  await amm.getReserves();`);
+  console.log(`  npx hardhat amm:reserves ${network} --pool ${poolName}`);
+  console.log(
+    `  npx hardhat amm:add-liquidity ${network} --pool ${poolName} --amount0 1000 --amount1 1000`
+  );
+  console.log(
+    `  npx hardhat amm:swap ${network} --pool ${poolName} --token-in ${pool.token0} --amount-in 10 --dry-run`
+  );
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
-
+// Only deploy when run as a script, so tests can import the pipeline
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
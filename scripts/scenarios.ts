@@ -0,0 +1,222 @@
+import hre from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MaxUint256 } from "ethers";
+import { deploy } from "./deploy";
+import { getAmountOut } from "../sdk/math";
+import type { MonitorRule } from "../sdk/monitor";
+import type { AMM, TestToken } from "../typechain-types";
+
+/** The pool the scenarios play out on and the accounts that act in them. */
+export interface ScenarioContext {
+  hre: HardhatRuntimeEnvironment;
+  /** Name of the pool in the manifest */
+  poolName: string;
+  amm: AMM;
+  token0: TestToken;
+  token1: TestToken;
+  lp: HardhatEthersSigner;
+  attacker: HardhatEthersSigner;
+  victim: HardhatEthersSigner;
+}
+
+/** One transaction or batch of a scenario, and what a monitor polling after it should report. */
+export interface ScenarioStep {
+  description: string;
+  /** Rules a PoolMonitor with default thresholds raises for this step alone */
+  expect: MonitorRule[];
+  run: (context: ScenarioContext) => Promise<void>;
+}
+
+export interface Scenario {
+  name: string;
+  steps: ScenarioStep[];
+}
+
+/** Sends the transactions in order and mines them in one block, as a block builder could. */
+const inOneBlock = async (
+  { hre }: ScenarioContext,
+  sends: ((overrides: object) => Promise<unknown>)[]
+) => {
+  const { ethers, network } = hre;
+  await network.provider.send("evm_setAutomine", [false]);
+  try {
+    // Without automine, gas is not estimated; falling tips keep the transactions in order
+    for (const [i, send] of sends.entries()) {
+      await send({
+        gasLimit: 300_000n,
+        maxFeePerGas: ethers.parseUnits("100", "gwei"),
+        maxPriorityFeePerGas: ethers.parseUnits((sends.length - i).toString(), "gwei"),
+      });
+    }
+    await network.provider.send("evm_mine");
+  } finally {
+    await network.provider.send("evm_setAutomine", [true]);
+  }
+};
+
+/**
+ * Attacks and accidents a pool monitor should catch. Amounts are relative to the reserves, so the
+ * scenarios play out the same way on a fresh pool and on one with history.
+ */
+export const SCENARIOS: Scenario[] = [
+  {
+    name: "donation",
+    steps: [
+      {
+        description: "attacker sends 1% of reserve0 to the pool directly",
+        expect: ["reserveDrift"],
+        run: async ({ amm, token0, attacker }) => {
+          const [reserve0] = await amm.getReserves();
+          await (await token0.connect(attacker).transfer(amm, reserve0 / 100n)).wait();
+        },
+      },
+    ],
+  },
+  {
+    name: "price-crash",
+    steps: [
+      {
+        description: "attacker dumps token1 worth 30% of reserve1",
+        expect: ["priceMove"],
+        run: async ({ amm, token1, attacker }) => {
+          const [, reserve1] = await amm.getReserves();
+          await (await amm.connect(attacker).swap(token1, (reserve1 * 30n) / 100n)).wait();
+        },
+      },
+    ],
+  },
+  {
+    name: "sandwich",
+    steps: [
+      {
+        description: "attacker buys ahead of victim's token0 sale and sells right after it",
+        expect: ["sandwich"],
+        run: async context => {
+          const { amm, token0, token1, attacker, victim } = context;
+          const [reserve0, reserve1] = await amm.getReserves();
+          const frontIn = (reserve0 * 2n) / 100n;
+          const frontOut = getAmountOut(frontIn, reserve0, reserve1, await amm.swapFee());
+          await inOneBlock(context, [
+            overrides => amm.connect(attacker).swap(token0, frontIn, overrides),
+            overrides => amm.connect(victim).swap(token0, (reserve0 * 3n) / 100n, overrides),
+            overrides => amm.connect(attacker).swap(token1, frontOut, overrides),
+          ]);
+        },
+      },
+    ],
+  },
+  {
+    name: "liquidity-pull",
+    steps: [
+      {
+        description: "attacker deposits four times the reserves",
+        expect: [],
+        run: async ({ amm, attacker }) => {
+          const [reserve0, reserve1] = await amm.getReserves();
+          await (await amm.connect(attacker).addLiquidity(reserve0 * 4n, reserve1 * 4n)).wait();
+        },
+      },
+      {
+        description: "attacker withdraws the whole position at once",
+        expect: ["supplyCollapse"],
+        run: async ({ hre, amm, attacker }) => {
+          const lpToken = await hre.ethers.getContractAt("LPToken", await amm.lpToken());
+          const liquidity = await lpToken.balanceOf(attacker.address);
+          await (await amm.connect(attacker).removeLiquidity(liquidity)).wait();
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * Deploys the mock-token pool (or reuses the one in the manifest), funds the first three signers
+ * as LP, attacker and victim, and gives the pool liquidity if it has none
+ * @param hre Hardhat runtime environment
+ * @param options Manifest directory and progress output, as for `deploy`
+ */
+export const prepareScenarios = async (
+  hre: HardhatRuntimeEnvironment,
+  options: { dir?: string; log?: (message: string) => void } = {}
+): Promise<ScenarioContext> => {
+  const { ethers } = hre;
+  const { poolName, pool } = await deploy(hre, options);
+  const amm = await ethers.getContractAt("AMM", pool.address);
+  const token0 = await ethers.getContractAt("TestToken", pool.token0);
+  const token1 = await ethers.getContractAt("TestToken", pool.token1);
+  const [lp, attacker, victim] = await ethers.getSigners();
+
+  let [reserve0, reserve1] = await amm.getReserves();
+  if (reserve0 === 0n) {
+    [reserve0, reserve1] = [ethers.parseEther("1000"), ethers.parseEther("1000")];
+  }
+  for (const signer of [lp, attacker, victim]) {
+    for (const [token, reserve] of [
+      [token0, reserve0],
+      [token1, reserve1],
+    ] as const) {
+      await (await token.mint(signer.address, reserve * 10n)).wait();
+      await (await token.connect(signer).approve(amm, MaxUint256)).wait();
+    }
+  }
+  if ((await amm.getReserves())[0] === 0n) {
+    await (await amm.connect(lp).addLiquidity(reserve0, reserve1)).wait();
+  }
+  return { hre, poolName, amm, token0, token1, lp, attacker, victim };
+};
+
+/**
+ * Plays scenarios step by step
+ * @param context Prepared pool and accounts
+ * @param scenarios Scenarios to play, in order
+ * @param afterStep Called after every step, e.g. to wait for a monitor or poll one
+ */
+export const runScenarios = async (
+  context: ScenarioContext,
+  scenarios: Scenario[],
+  afterStep: (scenario: Scenario, step: ScenarioStep) => Promise<void>
+): Promise<void> => {
+  for (const scenario of scenarios) {
+    for (const step of scenario.steps) {
+      await step.run(context);
+      await afterStep(scenario, step);
+    }
+  }
+};
+
+async function main() {
+  const names = process.env.SCENARIOS?.split(",").map(name => name.trim());
+  const scenarios = names
+    ? names.map(name => {
+        const scenario = SCENARIOS.find(s => s.name === name);
+        if (!scenario) {
+          throw new Error(
+            `Scenarios: unknown scenario ${name}, expected one of ` +
+              SCENARIOS.map(s => s.name).join(", ")
+          );
+        }
+        return scenario;
+      })
+    : SCENARIOS;
+  // Long enough for a monitor polling every second to see each step on its own
+  const pauseMs = Number(process.env.SCENARIO_PAUSE_MS ?? "3000");
+
+  const context = await prepareScenarios(hre);
+  console.log(`\nPlaying ${scenarios.length} scenario(s) on ${context.poolName}`);
+  await runScenarios(context, scenarios, async (scenario, step) => {
+    const expected = step.expect.length > 0 ? step.expect.join(", ") : "no alert";
+    console.log(`✓ ${scenario.name}: ${step.description} (expect ${expected})`);
+    await new Promise(resolve => setTimeout(resolve, pauseMs));
+  });
+}
+
+// Only play when run as a script, so tests can import the scenarios
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,404 @@
+import hre from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { formatUnits, MaxUint256 } from "ethers";
+import { deploy, recordOf } from "./deploy";
+import {
+  deploymentsDir,
+  Manifest,
+  manifestPath,
+  readManifest,
+  writeManifest,
+} from "../sdk/deployments";
+import type { AMM, DecimalsToken, LPToken } from "../typechain-types";
+
+/** A mock token of the devnet market, priced in whole US dollars. */
+interface SeedToken {
+  name: string;
+  symbol: string;
+  decimals: number;
+  usd: bigint;
+}
+
+const TOKENS: SeedToken[] = [
+  { name: "Wrapped Ether", symbol: "WETH", decimals: 18, usd: 3_000n },
+  { name: "USD Coin", symbol: "USDC", decimals: 6, usd: 1n },
+  { name: "Dai Stablecoin", symbol: "DAI", decimals: 18, usd: 1n },
+  { name: "Wrapped BTC", symbol: "WBTC", decimals: 8, usd: 60_000n },
+];
+
+/** Pairs by symbol with their fee tier in basis points. */
+const PAIRS: [string, string, bigint][] = [
+  ["WETH", "USDC", 30n],
+  ["WBTC", "WETH", 30n],
+  ["USDC", "DAI", 5n],
+  ["DAI", "WETH", 100n],
+];
+
+/** Dollar value of each token minted to every account */
+const FUNDING_USD = 10_000_000n;
+/** Dollar value of each side of the deposit that opens a pool */
+const OPENING_USD = 1_000_000n;
+
+/** Inputs of a seeding run; every field has a default taken from the environment. */
+export interface SeedOptions {
+  /** Seed of the activity stream, `$DEVNET_SEED` or 1 */
+  seed?: number;
+  /** Number of swaps, deposits and withdrawals, `$DEVNET_STEPS` or 200 */
+  steps?: number;
+  /** Number of Hardhat accounts to fund and trade from, `$DEVNET_ACCOUNTS` or 10 */
+  accounts?: number;
+  /** Mean seconds between activity blocks, `$DEVNET_BLOCK_TIME` or 12 */
+  blockTime?: number;
+  /** Manifest directory */
+  dir?: string;
+  /** Progress output, `console.log` by default */
+  log?: (message: string) => void;
+}
+
+/** One transaction of the activity stream, mined in a block of its own. */
+export interface SeedOperation {
+  kind: "swap" | "add" | "remove";
+  /** Name of the pool in the manifest */
+  pool: string;
+  account: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+/** State of a pool after seeding. Amounts are in the tokens' smallest units. */
+export interface PoolSummary {
+  name: string;
+  address: string;
+  symbol0: string;
+  symbol1: string;
+  decimals0: number;
+  decimals1: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  lpSupply: bigint;
+  /** Seeded accounts holding LP tokens of the pool */
+  providers: number;
+  swaps: number;
+  adds: number;
+  removes: number;
+}
+
+/** What a seeding run produced, together with the manifest it was recorded in. */
+export interface SeedResult {
+  manifest: Manifest;
+  operations: SeedOperation[];
+  pools: PoolSummary[];
+}
+
+/** A pool as the seeding run trades on it. */
+interface SeedPool {
+  name: string;
+  amm: AMM;
+  lpToken: LPToken;
+  tokens: [SeedToken & { address: string }, SeedToken & { address: string }];
+}
+
+/** xorshift32 returning integers in [0, bound), so a run is reproduced from its seed alone. */
+const random = (seed: number) => {
+  let state = seed >>> 0 || 0x9e3779b9;
+  return (bound: number): number => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state % bound;
+  };
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Seed: ${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+/** Amount of `token` worth `usd` dollars at its reference price. */
+const worth = (token: SeedToken, usd: bigint): bigint =>
+  (usd * 10n ** BigInt(token.decimals)) / token.usd;
+
+/**
+ * Fills a local chain with a market to develop against: deploys mock tokens with different
+ * decimals and a pool for each pair through the deployment pipeline, funds the first `accounts`
+ * Hardhat accounts, opens every pool at the tokens' reference prices and has half the accounts
+ * provide liquidity. It then mines `steps` blocks of random swaps, deposits and partial
+ * withdrawals from random accounts, advancing the clock by about `blockTime` seconds per block.
+ * The stream is drawn from `seed` alone, so a run on a fresh chain is reproducible.
+ * @param hre Hardhat runtime environment
+ * @param options Seeding inputs
+ */
+export const seed = async (
+  hre: HardhatRuntimeEnvironment,
+  options: SeedOptions = {}
+): Promise<SeedResult> => {
+  const { ethers, network } = hre;
+  const dir = options.dir ?? deploymentsDir();
+  const log = options.log ?? console.log;
+  const steps = options.steps ?? envNumber("DEVNET_STEPS", 200);
+  const blockTime = options.blockTime ?? envNumber("DEVNET_BLOCK_TIME", 12);
+  const next = random(options.seed ?? envNumber("DEVNET_SEED", 1));
+
+  // Minting freely and setting timestamps only make sense on a local development chain
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  if (chainId !== 31337) {
+    throw new Error(
+      `Seed: refusing to seed chain ${chainId}, only local chains (31337) are seeded`
+    );
+  }
+  const signers = await ethers.getSigners();
+  const count = options.accounts ?? envNumber("DEVNET_ACCOUNTS", 10);
+  if (count < 2 || count > signers.length) {
+    throw new Error(`Seed: accounts must be between 2 and ${signers.length}, got ${count}`);
+  }
+  if (blockTime < 1) {
+    throw new Error("Seed: blockTime must be at least 1 second");
+  }
+  const accounts = signers.slice(0, count);
+  // The first half provides liquidity; everyone trades
+  const providers = accounts.slice(0, Math.ceil(count / 2));
+
+  // Tokens are recorded by symbol and reused like the rest of the pipeline's contracts
+  const manifest = readManifest(network.name, dir) ?? {
+    network: network.name,
+    chainId,
+    contracts: {},
+    pools: {},
+  };
+  if (manifest.chainId !== chainId) {
+    throw new Error(
+      `Seed: ${manifestPath(network.name, dir)} is for chain ${manifest.chainId}, ` +
+        `connected to ${chainId}`
+    );
+  }
+  const addresses: Record<string, string> = {};
+  for (const token of TOKENS) {
+    const args = [token.name, token.symbol, token.decimals.toString()];
+    const existing = manifest.contracts[token.symbol];
+    if (
+      existing?.args.join() === args.join() &&
+      (await ethers.provider.getCode(existing.address)) !== "0x"
+    ) {
+      log(`✓ ${token.symbol} reused at ${existing.address}`);
+    } else {
+      const factory = await ethers.getContractFactory("DecimalsToken");
+      const instance = await factory.deploy(token.name, token.symbol, token.decimals);
+      manifest.contracts[token.symbol] = await recordOf("DecimalsToken", args, instance);
+      writeManifest(manifest, dir);
+      log(`✓ ${token.symbol} deployed at ${manifest.contracts[token.symbol].address}`);
+    }
+    addresses[token.symbol] = manifest.contracts[token.symbol].address;
+  }
+
+  const pools: SeedPool[] = [];
+  for (const [a, b, swapFee] of PAIRS) {
+    const { poolName, pool } = await deploy(hre, {
+      tokens: [addresses[a], addresses[b]],
+      swapFee,
+      dir,
+      log,
+    });
+    const byAddress = (address: string) => {
+      const token = TOKENS.find(t => addresses[t.symbol] === address)!;
+      return { ...token, address };
+    };
+    pools.push({
+      name: poolName,
+      amm: await ethers.getContractAt("AMM", pool.address),
+      lpToken: await ethers.getContractAt("LPToken", pool.lpToken),
+      tokens: [byAddress(pool.token0), byAddress(pool.token1)],
+    });
+  }
+
+  log(`\nFunding ${count} accounts...`);
+  const contracts: Record<string, DecimalsToken> = {};
+  for (const token of TOKENS) {
+    contracts[token.symbol] = await ethers.getContractAt("DecimalsToken", addresses[token.symbol]);
+  }
+  for (const account of accounts) {
+    for (const token of TOKENS) {
+      await (await contracts[token.symbol].mint(account.address, worth(token, FUNDING_USD))).wait();
+    }
+    for (const pool of pools) {
+      for (const token of pool.tokens) {
+        const erc20 = contracts[token.symbol].connect(account);
+        await (await erc20.approve(await pool.amm.getAddress(), MaxUint256)).wait();
+      }
+    }
+  }
+
+  // Deposits are valued at the reference prices; the pool takes them at its current ratio
+  const deposit = async (pool: SeedPool, account: HardhatEthersSigner, usd: bigint) => {
+    const [token0, token1] = pool.tokens;
+    return pool.amm.connect(account).addLiquidity(worth(token0, usd), worth(token1, usd));
+  };
+
+  log("Providing liquidity...");
+  for (const pool of pools) {
+    const [reserve0] = await pool.amm.getReserves();
+    if (reserve0 === 0n) {
+      await (await deposit(pool, providers[0], OPENING_USD)).wait();
+    }
+    for (const provider of providers.slice(reserve0 === 0n ? 1 : 0)) {
+      await (await deposit(pool, provider, BigInt(50_000 + next(450_001)))).wait();
+    }
+  }
+
+  log(`Mining ${steps} blocks of activity...`);
+  const operations: SeedOperation[] = [];
+  let timestamp = await time.latest();
+  for (let i = 0; i < steps; i++) {
+    const pool = pools[next(pools.length)];
+    const roll = next(100);
+    let kind: SeedOperation["kind"] = roll < 80 ? "swap" : roll < 90 ? "add" : "remove";
+    let account = accounts[next(accounts.length)];
+
+    if (kind === "remove") {
+      const holders: HardhatEthersSigner[] = [];
+      for (const candidate of providers) {
+        if ((await pool.lpToken.balanceOf(candidate.address)) > 0n) {
+          holders.push(candidate);
+        }
+      }
+      if (holders.length === 0) {
+        kind = "swap";
+      } else {
+        account = holders[next(holders.length)];
+      }
+    } else if (kind === "add") {
+      account = providers[next(providers.length)];
+    }
+
+    timestamp += 1 + next(2 * blockTime);
+    await time.setNextBlockTimestamp(timestamp);
+    let tx;
+    if (kind === "swap") {
+      const zeroForOne = next(2) === 0;
+      const [reserve0, reserve1] = await pool.amm.getReserves();
+      // 0.01% to 2% of the input reserve, from dust trades to ones that move the price
+      const amountIn = ((zeroForOne ? reserve0 : reserve1) * BigInt(1 + next(200))) / 10_000n;
+      const tokenIn = pool.tokens[zeroForOne ? 0 : 1].address;
+      tx = await pool.amm.connect(account).swap(tokenIn, amountIn);
+    } else if (kind === "add") {
+      tx = await deposit(pool, account, BigInt(5_000 + next(95_001)));
+    } else {
+      const balance = await pool.lpToken.balanceOf(account.address);
+      const liquidity = (balance * BigInt(10 + next(41))) / 100n;
+      tx = await pool.amm.connect(account).removeLiquidity(liquidity);
+    }
+    const receipt = (await tx.wait())!;
+    operations.push({
+      kind,
+      pool: pool.name,
+      account: account.address,
+      txHash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      timestamp,
+    });
+  }
+
+  const summaries: PoolSummary[] = [];
+  for (const pool of pools) {
+    const [reserve0, reserve1] = await pool.amm.getReserves();
+    let holders = 0;
+    for (const account of accounts) {
+      if ((await pool.lpToken.balanceOf(account.address)) > 0n) {
+        holders++;
+      }
+    }
+    const ops = operations.filter(op => op.pool === pool.name);
+    summaries.push({
+      name: pool.name,
+      address: await pool.amm.getAddress(),
+      symbol0: pool.tokens[0].symbol,
+      symbol1: pool.tokens[1].symbol,
+      decimals0: pool.tokens[0].decimals,
+      decimals1: pool.tokens[1].decimals,
+      reserve0,
+      reserve1,
+      lpSupply: await pool.lpToken.totalSupply(),
+      providers: holders,
+      swaps: ops.filter(op => op.kind === "swap").length,
+      adds: ops.filter(op => op.kind === "add").length,
+      removes: ops.filter(op => op.kind === "remove").length,
+    });
+  }
+
+  return { manifest: readManifest(network.name, dir)!, operations, pools: summaries };
+};
+
+async function main() {
+  const { manifest, operations, pools } = await seed(hre);
+
+  const rows = pools.map(pool => {
+    const amount0 = Number(formatUnits(pool.reserve0, pool.decimals0));
+    const amount1 = Number(formatUnits(pool.reserve1, pool.decimals1));
+    return [
+      pool.name,
+      `${amount0.toFixed(2)} ${pool.symbol0}`,
+      `${amount1.toFixed(2)} ${pool.symbol1}`,
+      `${(amount1 / amount0).toPrecision(6)} ${pool.symbol1}/${pool.symbol0}`,
+      formatUnits(pool.lpSupply, 18),
+      pool.providers.toString(),
+      `${pool.swaps}/${pool.adds}/${pool.removes}`,
+    ];
+  });
+  const header = [
+    "Pool",
+    "Reserve0",
+    "Reserve1",
+    "Price",
+    "LP supply",
+    "LPs",
+    "Swaps/adds/removes",
+  ];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map(row => row[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SEED SUMMARY");
+  console.log("=".repeat(60));
+  console.log(line(header));
+  rows.forEach(row => console.log(line(row)));
+  console.log("=".repeat(60));
+  if (operations.length > 0) {
+    const first = operations[0];
+    const last = operations[operations.length - 1];
+    console.log(
+      `${operations.length} transactions in blocks ${first.blockNumber}-${last.blockNumber}, ` +
+        `${last.timestamp - first.timestamp} seconds of chain time`
+    );
+  }
+  console.log(`Recorded in ${manifestPath(manifest.network)}`);
+  const network = `--network ${hre.network.name}`;
+  console.log("\nTo inspect a pool:");
+  console.log(`  npx hardhat amm:reserves ${network} --pool ${pools[0].name}`);
+  console.log(`  npx hardhat amm:position ${network} --pool ${pools[0].name}`);
+}
+
+// Only seed when run as a script, so tests can import it
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
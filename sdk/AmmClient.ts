@@ -0,0 +1,770 @@
+import {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  dataLength,
+  isError,
+  Signer,
+  ZeroAddress,
+} from "ethers";
+import {
+  AMM,
+  AMM__factory,
+  IERC20,
+  IERC20__factory,
+  LPToken,
+  LPToken__factory,
+  StableSwapAMM__factory,
+} from "../typechain-types";
+import {
+  getAmountIn,
+  getAmountOut,
+  getAmountsForLiquidity,
+  getExecutionPrice,
+  getLiquidityMinted,
+  getOptimalDepositAmounts,
+  getPriceImpact,
+  getProtocolFeeLiquidity,
+  getSpotPrice,
+  getZapInSwapAmount,
+  MINIMUM_LIQUIDITY,
+  PRICE_SCALE,
+} from "./math";
+import { PermitSignature, signPermit } from "./permit";
+import {
+  getStableAmountIn,
+  getStableAmountOut,
+  getStableD,
+  getStableSpotPrice,
+} from "./stableswap";
+
+export interface PoolState {
+  reserve0: bigint;
+  reserve1: bigint;
+  /** token0 held by the pool, above reserve0 by any donation not yet synced */
+  balance0: bigint;
+  /** token1 held by the pool, above reserve1 by any donation not yet synced */
+  balance1: bigint;
+  totalSupply: bigint;
+  /** reserve0 * reserve1 after the last liquidity event, 0 while the protocol fee is off */
+  kLast: bigint;
+  /** Whether the factory currently sets a protocol fee recipient */
+  feeOn: boolean;
+}
+
+/** Curve of a `StableSwapAMM` pool, as read from the pool. */
+export interface StableSwapParams {
+  /** Amplification coefficient A */
+  amplification: bigint;
+  /** Multiplier scaling token0 amounts to 18 decimals */
+  rate0: bigint;
+  /** Multiplier scaling token1 amounts to 18 decimals */
+  rate1: bigint;
+}
+
+export interface SwapQuote {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Price of tokenIn in tokenOut before the trade, scaled by PRICE_SCALE */
+  spotPriceBefore: bigint;
+  /** Price of tokenIn in tokenOut after the trade, scaled by PRICE_SCALE */
+  spotPriceAfter: bigint;
+  /** amountOut / amountIn, scaled by PRICE_SCALE */
+  executionPrice: bigint;
+  /** Shortfall of executionPrice against spotPriceBefore, scaled by PRICE_SCALE */
+  priceImpact: bigint;
+}
+
+export interface AddLiquidityQuote {
+  /** Amount of token0 the pool will pull, at most the desired amount */
+  amount0: bigint;
+  /** Amount of token1 the pool will pull, at most the desired amount */
+  amount1: bigint;
+  liquidity: bigint;
+  /** Share of the LP supply held by the new liquidity after minting, scaled by PRICE_SCALE */
+  shareOfPool: bigint;
+}
+
+export interface RemoveLiquidityQuote {
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface ZapInQuote {
+  tokenIn: string;
+  amountIn: bigint;
+  /** Part of amountIn swapped for the other token */
+  swapAmount: bigint;
+  /** Amount of the other token the swap buys */
+  swapAmountOut: bigint;
+  /** Amount of token0 deposited */
+  amount0: bigint;
+  /** Amount of token1 deposited */
+  amount1: bigint;
+  liquidity: bigint;
+  /** Rounding dust of token0 refunded to the caller */
+  refund0: bigint;
+  /** Rounding dust of token1 refunded to the caller */
+  refund1: bigint;
+}
+
+export interface ZapOutQuote {
+  tokenOut: string;
+  liquidity: bigint;
+  /** Amount of token0 the burn withdraws */
+  amount0: bigint;
+  /** Amount of token1 the burn withdraws */
+  amount1: bigint;
+  /** Amount of tokenOut bought with the withdrawn other token */
+  swapAmountOut: bigint;
+  /** Total amount of tokenOut received */
+  amountOut: bigint;
+}
+
+export interface SwapOptions {
+  /** Minimum output accepted; the swap reverts below it */
+  minAmountOut?: bigint;
+  /** Unix timestamp after which the swap reverts, DEFAULT_DEADLINE_SECONDS from now if unset */
+  deadline?: bigint;
+}
+
+export interface LiquidityOptions {
+  /** Minimum token0 amount accepted */
+  amount0Min?: bigint;
+  /** Minimum token1 amount accepted */
+  amount1Min?: bigint;
+  /** Unix timestamp after which the call reverts, DEFAULT_DEADLINE_SECONDS from now if unset */
+  deadline?: bigint;
+}
+
+export interface RemoveLiquidityOptions extends LiquidityOptions {
+  /** Recipient of the withdrawn tokens, the signer if unset */
+  to?: string;
+}
+
+/** Deadline applied to limit orders that do not set one, relative to the latest block. */
+export const DEFAULT_DEADLINE_SECONDS = 1200n;
+
+/**
+ * Typed wrapper around a deployed AMM or StableSwapAMM pool.
+ *
+ * Quotes are computed off-chain with the same integer math as `AMM.sol` (see `./math`), or as
+ * `StableSwapAMM.sol` (see `./stableswap`) for a stable pool, so they match executed amounts
+ * exactly when the pool state does not change in between. Liquidity quotes include the protocol
+ * fee the pool mints before the deposit or withdrawal. Transaction helpers approve the pool for
+ * the required amount before sending.
+ */
+export class AmmClient {
+  private constructor(
+    readonly amm: AMM,
+    readonly lpToken: LPToken,
+    readonly token0: IERC20,
+    readonly token1: IERC20,
+    readonly address: string,
+    readonly token0Address: string,
+    readonly token1Address: string,
+    /** Swap fee of the pool in basis points */
+    readonly swapFee: bigint,
+    /** Curve of the pool if it is a StableSwapAMM, undefined for a constant-product AMM */
+    readonly stableSwap?: StableSwapParams
+  ) {}
+
+  /**
+   * Loads pool metadata and returns a client bound to `runner`. A StableSwapAMM shares the
+   * functions of AMM the client calls, and is recognized by its `amplification()`.
+   * @param ammAddress Address of a deployed AMM or StableSwapAMM
+   * @param runner Provider for read-only use, or a signer to send transactions
+   */
+  static async connect(ammAddress: string, runner: ContractRunner): Promise<AmmClient> {
+    const amm = AMM__factory.connect(ammAddress, runner);
+    const [token0Address, token1Address, lpTokenAddress, swapFee, stableSwap] = await Promise.all([
+      amm.token0(),
+      amm.token1(),
+      amm.lpToken(),
+      amm.swapFee(),
+      readStableSwapParams(ammAddress, runner),
+    ]);
+    return new AmmClient(
+      amm,
+      LPToken__factory.connect(lpTokenAddress, runner),
+      IERC20__factory.connect(token0Address, runner),
+      IERC20__factory.connect(token1Address, runner),
+      ammAddress,
+      token0Address,
+      token1Address,
+      swapFee,
+      stableSwap
+    );
+  }
+
+  /**
+   * Returns a client for the same pool bound to a different runner
+   * @param runner Provider or signer to use
+   */
+  withRunner(runner: ContractRunner): AmmClient {
+    return new AmmClient(
+      this.amm.connect(runner),
+      this.lpToken.connect(runner),
+      this.token0.connect(runner),
+      this.token1.connect(runner),
+      this.address,
+      this.token0Address,
+      this.token1Address,
+      this.swapFee,
+      this.stableSwap
+    );
+  }
+
+  async getPoolState(): Promise<PoolState> {
+    const [reserves, balance0, balance1, totalSupply, kLast, feeTo] = await Promise.all([
+      this.amm.getReserves(),
+      this.token0.balanceOf(this.address),
+      this.token1.balanceOf(this.address),
+      this.lpToken.totalSupply(),
+      // Stable pools charge no protocol fee
+      this.stableSwap ? 0n : this.amm.kLast(),
+      this.stableSwap ? ZeroAddress : this.amm.feeTo(),
+    ]);
+    const [reserve0, reserve1] = reserves;
+    return {
+      reserve0,
+      reserve1,
+      balance0,
+      balance1,
+      totalSupply,
+      kLast,
+      feeOn: feeTo !== ZeroAddress,
+    };
+  }
+
+  /**
+   * Spot prices of both tokens, scaled by PRICE_SCALE. `price0` is token0 denominated in token1,
+   * `price1` is token1 denominated in token0.
+   * @param state Pool state to price (defaults to the current on-chain state)
+   */
+  async getPrice(state?: PoolState): Promise<{ price0: bigint; price1: bigint }> {
+    const { reserve0, reserve1 } = state ?? (await this.getPoolState());
+    return {
+      price0: this.spotPrice(true, reserve0, reserve1),
+      price1: this.spotPrice(false, reserve1, reserve0),
+    };
+  }
+
+  /**
+   * Quotes an exact-input swap
+   * @param tokenIn Address of the input token
+   * @param amountIn Amount of input token
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteSwap(tokenIn: string, amountIn: bigint, state?: PoolState): Promise<SwapQuote> {
+    const zeroForOne = this.isToken0(tokenIn);
+    const [reserveIn, reserveOut] = orient(zeroForOne, state ?? (await this.getPoolState()));
+    const amountOut = this.quoteOut(zeroForOne, amountIn, reserveIn, reserveOut);
+    return this.buildSwapQuote(zeroForOne, amountIn, amountOut, reserveIn, reserveOut);
+  }
+
+  /**
+   * Quotes an exact-output swap
+   * @param tokenIn Address of the input token
+   * @param amountOut Exact amount of output token to receive
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteSwapExactOut(
+    tokenIn: string,
+    amountOut: bigint,
+    state?: PoolState
+  ): Promise<SwapQuote> {
+    const zeroForOne = this.isToken0(tokenIn);
+    const [reserveIn, reserveOut] = orient(zeroForOne, state ?? (await this.getPoolState()));
+    const amountIn = this.quoteIn(zeroForOne, amountOut, reserveIn, reserveOut);
+    return this.buildSwapQuote(zeroForOne, amountIn, amountOut, reserveIn, reserveOut);
+  }
+
+  /**
+   * Quotes the amounts deposited and LP tokens minted for a deposit
+   * @param amount0Desired Most token0 to deposit
+   * @param amount1Desired Most token1 to deposit
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteAddLiquidity(
+    amount0Desired: bigint,
+    amount1Desired: bigint,
+    state?: PoolState
+  ): Promise<AddLiquidityQuote> {
+    const poolState = state ?? (await this.getPoolState());
+    const { reserve0, reserve1 } = poolState;
+    const totalSupply = supplyAfterProtocolFee(poolState);
+    const [amount0, amount1] = getOptimalDepositAmounts(
+      amount0Desired,
+      amount1Desired,
+      reserve0,
+      reserve1
+    );
+    const liquidity =
+      this.stableSwap && reserve0 === 0n && reserve1 === 0n
+        ? initialStableLiquidity(amount0, amount1, this.stableSwap)
+        : getLiquidityMinted(amount0, amount1, reserve0, reserve1, totalSupply);
+    return {
+      amount0,
+      amount1,
+      liquidity,
+      shareOfPool: (liquidity * PRICE_SCALE) / (totalSupply + liquidity),
+    };
+  }
+
+  /**
+   * Quotes the token amounts returned for burning LP tokens. The pool pays a share of its
+   * balances, so unsynced donations go to the LPs who withdraw.
+   * @param liquidity Amount of LP tokens to burn
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteRemoveLiquidity(liquidity: bigint, state?: PoolState): Promise<RemoveLiquidityQuote> {
+    const poolState = state ?? (await this.getPoolState());
+    const { balance0, balance1 } = poolState;
+    const totalSupply = supplyAfterProtocolFee(poolState);
+    const [amount0, amount1] = getAmountsForLiquidity(liquidity, balance0, balance1, totalSupply);
+    return { liquidity, amount0, amount1 };
+  }
+
+  /**
+   * Quotes a single-token deposit through `AMMZap.zapIn`: the swap that balances the deposit, the
+   * amounts deposited at the reserves it leaves behind and the dust refunded
+   * @param tokenIn Address of the token to deposit
+   * @param amountIn Amount of `tokenIn` to deposit
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteZapIn(tokenIn: string, amountIn: bigint, state?: PoolState): Promise<ZapInQuote> {
+    this.requireConstantProduct();
+    const zeroForOne = this.isToken0(tokenIn);
+    const poolState = state ?? (await this.getPoolState());
+    const [reserveIn, reserveOut] = orient(zeroForOne, poolState);
+    const swapAmount = getZapInSwapAmount(amountIn, reserveIn, this.swapFee);
+    const swapAmountOut = getAmountOut(swapAmount, reserveIn, reserveOut, this.swapFee);
+
+    const [reserve0, reserve1] = zeroForOne
+      ? [reserveIn + swapAmount, reserveOut - swapAmountOut]
+      : [reserveOut - swapAmountOut, reserveIn + swapAmount];
+    const [desired0, desired1] = zeroForOne
+      ? [amountIn - swapAmount, swapAmountOut]
+      : [swapAmountOut, amountIn - swapAmount];
+    const { amount0, amount1, liquidity } = await this.quoteAddLiquidity(desired0, desired1, {
+      ...poolState,
+      reserve0,
+      reserve1,
+    });
+    return {
+      tokenIn,
+      amountIn,
+      swapAmount,
+      swapAmountOut,
+      amount0,
+      amount1,
+      liquidity,
+      refund0: desired0 - amount0,
+      refund1: desired1 - amount1,
+    };
+  }
+
+  /**
+   * Quotes a single-token withdrawal through `AMMZap.zapOut`: the burn, then a swap of the other
+   * token against the reserves the burn leaves behind
+   * @param liquidity Amount of LP tokens to burn
+   * @param tokenOut Address of the token to receive
+   * @param state Pool state to quote against (defaults to the current on-chain state)
+   */
+  async quoteZapOut(liquidity: bigint, tokenOut: string, state?: PoolState): Promise<ZapOutQuote> {
+    this.requireConstantProduct();
+    const zeroForOne = this.isToken0(tokenOut);
+    const poolState = state ?? (await this.getPoolState());
+    const { amount0, amount1 } = await this.quoteRemoveLiquidity(liquidity, poolState);
+    // The burn syncs the reserves to what the pool still holds
+    const reserve0 = poolState.balance0 - amount0;
+    const reserve1 = poolState.balance1 - amount1;
+    const swapAmountOut = zeroForOne
+      ? getAmountOut(amount1, reserve1, reserve0, this.swapFee)
+      : getAmountOut(amount0, reserve0, reserve1, this.swapFee);
+    return {
+      tokenOut,
+      liquidity,
+      amount0,
+      amount1,
+      swapAmountOut,
+      amountOut: (zeroForOne ? amount0 : amount1) + swapAmountOut,
+    };
+  }
+
+  /**
+   * Approves the pool to pull `amount` of `token` from the signer if the allowance is too low
+   * @param token Address of token0 or token1
+   * @param amount Amount the pool must be able to pull
+   */
+  async ensureAllowance(token: string, amount: bigint): Promise<void> {
+    const owner = await this.signer().getAddress();
+    const erc20 = this.isToken0(token) ? this.token0 : this.token1;
+    if ((await erc20.allowance(owner, this.address)) < amount) {
+      await wait(erc20.approve(this.address, amount));
+    }
+  }
+
+  /**
+   * Approves `tokenIn` if needed and executes an exact-input swap. Passing `options` routes the
+   * trade through `swapExactTokensForTokens` so the minimum output and deadline are enforced.
+   * @param tokenIn Address of the input token
+   * @param amountIn Amount of input token
+   * @param options Slippage limit and deadline
+   */
+  async swap(
+    tokenIn: string,
+    amountIn: bigint,
+    options?: SwapOptions
+  ): Promise<ContractTransactionReceipt> {
+    await this.ensureAllowance(tokenIn, amountIn);
+    if (options === undefined) {
+      return wait(this.amm.swap(tokenIn, amountIn));
+    }
+    return wait(
+      this.amm.swapExactTokensForTokens(
+        tokenIn,
+        amountIn,
+        options.minAmountOut ?? 0n,
+        await this.resolveDeadline(options.deadline)
+      )
+    );
+  }
+
+  /**
+   * Approves up to `maxAmountIn` of `tokenIn` if needed and swaps for exactly `amountOut`
+   * @param tokenIn Address of the input token
+   * @param amountOut Exact amount of output token to receive
+   * @param maxAmountIn Maximum amount of input token to pay
+   * @param deadline Unix timestamp after which the swap reverts (DEFAULT_DEADLINE_SECONDS from now)
+   */
+  async swapExactOut(
+    tokenIn: string,
+    amountOut: bigint,
+    maxAmountIn: bigint,
+    deadline?: bigint
+  ): Promise<ContractTransactionReceipt> {
+    await this.ensureAllowance(tokenIn, maxAmountIn);
+    return wait(
+      this.amm.swapTokensForExactTokens(
+        tokenIn,
+        amountOut,
+        maxAmountIn,
+        await this.resolveDeadline(deadline)
+      )
+    );
+  }
+
+  /**
+   * Approves both tokens if needed and adds liquidity. The pool pulls only the amounts that match
+   * its reserve ratio (see `quoteAddLiquidity`). Passing `options` routes the deposit through
+   * `addLiquidityWithLimits`.
+   * @param amount0Desired Most token0 to deposit
+   * @param amount1Desired Most token1 to deposit
+   * @param options Minimum amounts deposited and deadline
+   */
+  async addLiquidity(
+    amount0Desired: bigint,
+    amount1Desired: bigint,
+    options?: LiquidityOptions
+  ): Promise<ContractTransactionReceipt> {
+    await this.ensureAllowance(this.token0Address, amount0Desired);
+    await this.ensureAllowance(this.token1Address, amount1Desired);
+    if (options === undefined) {
+      return wait(this.amm.addLiquidity(amount0Desired, amount1Desired));
+    }
+    return wait(
+      this.amm.addLiquidityWithLimits(
+        amount0Desired,
+        amount1Desired,
+        options.amount0Min ?? 0n,
+        options.amount1Min ?? 0n,
+        await this.resolveDeadline(options.deadline)
+      )
+    );
+  }
+
+  /**
+   * Burns LP tokens held by the signer and withdraws the underlying tokens. Passing `options`
+   * routes the withdrawal through `removeLiquidityWithLimits`, or `removeLiquidityTo` if it sets
+   * a recipient.
+   * @param liquidity Amount of LP tokens to burn
+   * @param options Minimum amounts out, deadline and recipient
+   */
+  async removeLiquidity(
+    liquidity: bigint,
+    options?: RemoveLiquidityOptions
+  ): Promise<ContractTransactionReceipt> {
+    if (options === undefined) {
+      return wait(this.amm.removeLiquidity(liquidity));
+    }
+    if (options.to !== undefined) {
+      return wait(
+        this.amm.removeLiquidityTo(
+          liquidity,
+          options.amount0Min ?? 0n,
+          options.amount1Min ?? 0n,
+          options.to,
+          await this.resolveDeadline(options.deadline)
+        )
+      );
+    }
+    return wait(
+      this.amm.removeLiquidityWithLimits(
+        liquidity,
+        options.amount0Min ?? 0n,
+        options.amount1Min ?? 0n,
+        await this.resolveDeadline(options.deadline)
+      )
+    );
+  }
+
+  /**
+   * Signs a permit allowing `spender` to burn `liquidity` of the signer's LP tokens, e.g. for a
+   * relayer to submit with removeLiquidityWithPermit
+   * @param spender Account that will call `removeLiquidityWithPermit`
+   * @param liquidity Amount of LP tokens approved
+   * @param deadline Unix timestamp after which the permit expires (DEFAULT_DEADLINE_SECONDS from now)
+   */
+  async signRemoveLiquidityPermit(
+    spender: string,
+    liquidity: bigint,
+    deadline?: bigint
+  ): Promise<PermitSignature> {
+    return signPermit(
+      this.lpToken,
+      this.signer(),
+      spender,
+      liquidity,
+      await this.resolveDeadline(deadline)
+    );
+  }
+
+  /**
+   * Burns the LP tokens a permit approves the signer to spend and withdraws the underlying tokens
+   * @param permit Permit signed by the LP token holder for this client's signer
+   * @param options Minimum amounts out and recipient (the holder if unset); the permit's deadline
+   * applies
+   */
+  async removeLiquidityWithPermit(
+    permit: PermitSignature,
+    options: Omit<RemoveLiquidityOptions, "deadline"> = {}
+  ): Promise<ContractTransactionReceipt> {
+    return wait(
+      this.amm.removeLiquidityWithPermit(
+        permit.owner,
+        permit.value,
+        options.amount0Min ?? 0n,
+        options.amount1Min ?? 0n,
+        options.to ?? permit.owner,
+        permit.deadline,
+        permit.v,
+        permit.r,
+        permit.s
+      )
+    );
+  }
+
+  private buildSwapQuote(
+    zeroForOne: boolean,
+    amountIn: bigint,
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint
+  ): SwapQuote {
+    const spotPriceBefore = this.spotPrice(zeroForOne, reserveIn, reserveOut);
+    const executionPrice = getExecutionPrice(amountIn, amountOut);
+    return {
+      tokenIn: zeroForOne ? this.token0Address : this.token1Address,
+      tokenOut: zeroForOne ? this.token1Address : this.token0Address,
+      amountIn,
+      amountOut,
+      spotPriceBefore,
+      spotPriceAfter: this.spotPrice(zeroForOne, reserveIn + amountIn, reserveOut - amountOut),
+      executionPrice,
+      priceImpact: getPriceImpact(spotPriceBefore, executionPrice),
+    };
+  }
+
+  /** Output of an exact-input swap on this pool's curve. */
+  private quoteOut(
+    zeroForOne: boolean,
+    amountIn: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint
+  ): bigint {
+    if (!this.stableSwap) {
+      return getAmountOut(amountIn, reserveIn, reserveOut, this.swapFee);
+    }
+    const { amplification } = this.stableSwap;
+    const [rateIn, rateOut] = orientRates(zeroForOne, this.stableSwap);
+    return getStableAmountOut(
+      amountIn,
+      reserveIn,
+      reserveOut,
+      amplification,
+      this.swapFee,
+      rateIn,
+      rateOut
+    );
+  }
+
+  /** Input of an exact-output swap on this pool's curve. */
+  private quoteIn(
+    zeroForOne: boolean,
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint
+  ): bigint {
+    if (!this.stableSwap) {
+      return getAmountIn(amountOut, reserveIn, reserveOut, this.swapFee);
+    }
+    const { amplification } = this.stableSwap;
+    const [rateIn, rateOut] = orientRates(zeroForOne, this.stableSwap);
+    return getStableAmountIn(
+      amountOut,
+      reserveIn,
+      reserveOut,
+      amplification,
+      this.swapFee,
+      rateIn,
+      rateOut
+    );
+  }
+
+  /** Marginal price of the input token in the output token on this pool's curve. */
+  private spotPrice(zeroForOne: boolean, reserveIn: bigint, reserveOut: bigint): bigint {
+    if (!this.stableSwap) {
+      return getSpotPrice(reserveIn, reserveOut);
+    }
+    const [rateIn, rateOut] = orientRates(zeroForOne, this.stableSwap);
+    return getStableSpotPrice(
+      reserveIn,
+      reserveOut,
+      this.stableSwap.amplification,
+      rateIn,
+      rateOut
+    );
+  }
+
+  /** AMMZap sizes its swaps for x * y = k, so zap quotes would not match a stable pool. */
+  private requireConstantProduct(): void {
+    if (this.stableSwap) {
+      throw new Error("AmmClient: zaps need a constant-product pool");
+    }
+  }
+
+  private isToken0(token: string): boolean {
+    const normalized = token.toLowerCase();
+    if (normalized === this.token0Address.toLowerCase()) {
+      return true;
+    }
+    if (normalized === this.token1Address.toLowerCase()) {
+      return false;
+    }
+    throw new Error("AMM: unsupported token");
+  }
+
+  private async resolveDeadline(deadline?: bigint): Promise<bigint> {
+    if (deadline !== undefined) {
+      return deadline;
+    }
+    const block = await this.signer().provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("AmmClient: unable to read the latest block");
+    }
+    return BigInt(block.timestamp) + DEFAULT_DEADLINE_SECONDS;
+  }
+
+  private signer(): Signer {
+    const runner = this.amm.runner;
+    if (runner === null || typeof (runner as Signer).getAddress !== "function") {
+      throw new Error("AmmClient: a signer is required to send transactions");
+    }
+    return runner as Signer;
+  }
+}
+
+/** LP supply once the pool has minted the pending protocol fee, as it does before a mint or burn. */
+const supplyAfterProtocolFee = ({ reserve0, reserve1, totalSupply, kLast, feeOn }: PoolState) =>
+  feeOn
+    ? totalSupply + getProtocolFeeLiquidity(reserve0, reserve1, totalSupply, kLast)
+    : totalSupply;
+
+const orient = (zeroForOne: boolean, { reserve0, reserve1 }: PoolState): [bigint, bigint] =>
+  zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+
+const orientRates = (zeroForOne: boolean, { rate0, rate1 }: StableSwapParams): [bigint, bigint] =>
+  zeroForOne ? [rate0, rate1] : [rate1, rate0];
+
+/** LP tokens a stable pool mints for its first deposit: D less the locked minimum. */
+const initialStableLiquidity = (
+  amount0: bigint,
+  amount1: bigint,
+  { amplification, rate0, rate1 }: StableSwapParams
+): bigint => {
+  const liquidity = getStableD(amount0 * rate0, amount1 * rate1, amplification);
+  if (liquidity <= MINIMUM_LIQUIDITY) {
+    throw new Error("StableSwapAMM: insufficient initial liquidity");
+  }
+  return liquidity - MINIMUM_LIQUIDITY;
+};
+
+/**
+ * Reads the curve of a StableSwapAMM, or returns undefined for a pool without one. Like the AMM's
+ * factory probe, a call that reverts or returns anything but one word means there is no curve.
+ */
+const readStableSwapParams = async (
+  address: string,
+  runner: ContractRunner
+): Promise<StableSwapParams | undefined> => {
+  const provider = runner.provider;
+  if (!provider) {
+    throw new Error("AmmClient: a provider is required to read the pool");
+  }
+  const pool = StableSwapAMM__factory.connect(address, runner);
+  let data: string;
+  try {
+    data = await provider.call({
+      to: address,
+      data: pool.interface.encodeFunctionData("amplification"),
+    });
+  } catch (error) {
+    if (isRevert(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+  if (dataLength(data) !== 32) {
+    return undefined;
+  }
+  const [amplification] = pool.interface.decodeFunctionResult("amplification", data);
+  // A StableSwapAMM never has a zero amplification
+  if (amplification === 0n) {
+    return undefined;
+  }
+  const [rate0, rate1] = await Promise.all([pool.rate0(), pool.rate1()]);
+  return { amplification, rate0, rate1 };
+};
+
+/**
+ * Whether a call failed by reverting: ethers reports a CALL_EXCEPTION, while the in-process Hardhat
+ * network throws its own error carrying the revert data.
+ */
+const isRevert = (error: unknown): boolean =>
+  isError(error, "CALL_EXCEPTION") ||
+  (error instanceof Error && typeof (error as { data?: unknown }).data === "string");
+
+const wait = async (
+  tx: Promise<ContractTransactionResponse>
+): Promise<ContractTransactionReceipt> => {
+  const receipt = await (await tx).wait();
+  if (receipt === null) {
+    throw new Error("AmmClient: transaction was dropped");
+  }
+  return receipt;
+};
@@ -0,0 +1,287 @@
+import { ZeroAddress } from "ethers";
+import { IndexCheckpoint, IndexedEvent } from "./indexer";
+import { FEE_DENOMINATOR, PRICE_SCALE } from "./math";
+
+/** Pool state after the last event of a block. */
+export interface ReservePoint {
+  blockNumber: number;
+  timestamp: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  /** LP token supply */
+  totalSupply: bigint;
+  /** Spot price of token0 in token1, scaled by PRICE_SCALE (0 while the pool is empty) */
+  price0: bigint;
+  /** Spot price of token1 in token0, scaled by PRICE_SCALE (0 while the pool is empty) */
+  price1: bigint;
+}
+
+/** Trading over one period, with the pool's state at its last event. */
+export interface PeriodStats {
+  /** Unix timestamp the period starts at, a multiple of the period length */
+  start: number;
+  swapCount: number;
+  /** token0 paid into and taken out of the pool by swaps */
+  volume0: bigint;
+  /** token1 paid into and taken out of the pool by swaps */
+  volume1: bigint;
+  /** Swap fees charged on token0 inputs */
+  fees0: bigint;
+  /** Swap fees charged on token1 inputs */
+  fees1: bigint;
+  close: ReservePoint;
+}
+
+/** An LP's position at the end of a period. */
+export interface PositionPoint {
+  /** Start of the period */
+  timestamp: number;
+  liquidity: bigint;
+  /** Share of the LP supply, scaled by PRICE_SCALE */
+  share: bigint;
+  /** Profit and loss in token1, see LpPosition.pnl */
+  pnl: bigint;
+}
+
+export interface LpPosition {
+  account: string;
+  liquidity: bigint;
+  /** Share of the LP supply, scaled by PRICE_SCALE */
+  share: bigint;
+  /** token0 the position is redeemable for at the latest reserves */
+  amount0: bigint;
+  /** token1 the position is redeemable for at the latest reserves */
+  amount1: bigint;
+  /** token0 deposited, plus the value of LP tokens received from other accounts */
+  deposited0: bigint;
+  deposited1: bigint;
+  /** token0 withdrawn, plus the value of LP tokens sent to other accounts */
+  withdrawn0: bigint;
+  withdrawn1: bigint;
+  /** The position's pro-rata share of swap fees while it was held, before the protocol fee */
+  fees0: bigint;
+  fees1: bigint;
+  /**
+   * Redeemable plus withdrawn minus deposited amounts, valued in token1 at the latest spot price.
+   * Includes fees and impermanent loss.
+   */
+  pnl: bigint;
+  history: PositionPoint[];
+}
+
+export interface PoolAnalytics {
+  swapCount: number;
+  volume0: bigint;
+  volume1: bigint;
+  fees0: bigint;
+  fees1: bigint;
+  /** One point per block with events */
+  reserves: ReservePoint[];
+  periods: PeriodStats[];
+  /** Positions by account, including accounts that have exited */
+  positions: Record<string, LpPosition>;
+}
+
+/**
+ * Replays indexed events into volume, fee, reserve and LP position history.
+ *
+ * Reserves follow the pool's `Sync` events and LP balances its LP token transfers. LP tokens moved
+ * between accounts count as a withdrawal by the sender and a deposit by the receiver, at their
+ * value in the reserves at that point.
+ *
+ * @param pool Checkpoint of the store the events came from, for the pool's tokens and fee
+ * @param events Events in chain order, e.g. from FileEventStore.readEvents
+ * @param periodSeconds Length of the periods volume and positions are bucketed into
+ */
+export const computeAnalytics = (
+  pool: Pick<IndexCheckpoint, "token0" | "swapFee">,
+  events: IndexedEvent[],
+  periodSeconds = 86_400
+): PoolAnalytics => {
+  const swapFee = BigInt(pool.swapFee);
+  const result: PoolAnalytics = {
+    swapCount: 0,
+    volume0: 0n,
+    volume1: 0n,
+    fees0: 0n,
+    fees1: 0n,
+    reserves: [],
+    periods: [],
+    positions: {},
+  };
+  let reserve0 = 0n;
+  let reserve1 = 0n;
+  let totalSupply = 0n;
+  let period: PeriodStats | undefined;
+
+  const position = (account: string): LpPosition =>
+    (result.positions[account] ??= {
+      account,
+      liquidity: 0n,
+      share: 0n,
+      amount0: 0n,
+      amount1: 0n,
+      deposited0: 0n,
+      deposited1: 0n,
+      withdrawn0: 0n,
+      withdrawn1: 0n,
+      fees0: 0n,
+      fees1: 0n,
+      pnl: 0n,
+      history: [],
+    });
+
+  const snapshot = (event: IndexedEvent): ReservePoint => ({
+    blockNumber: event.blockNumber,
+    timestamp: event.timestamp,
+    reserve0,
+    reserve1,
+    totalSupply,
+    price0: reserve0 > 0n ? (reserve1 * PRICE_SCALE) / reserve0 : 0n,
+    price1: reserve1 > 0n ? (reserve0 * PRICE_SCALE) / reserve1 : 0n,
+  });
+
+  /** Marks every position to the current reserves. */
+  const revalue = (price0: bigint) => {
+    for (const lp of Object.values(result.positions)) {
+      lp.share = totalSupply > 0n ? (lp.liquidity * PRICE_SCALE) / totalSupply : 0n;
+      lp.amount0 = totalSupply > 0n ? (lp.liquidity * reserve0) / totalSupply : 0n;
+      lp.amount1 = totalSupply > 0n ? (lp.liquidity * reserve1) / totalSupply : 0n;
+      lp.pnl =
+        ((lp.amount0 + lp.withdrawn0 - lp.deposited0) * price0) / PRICE_SCALE +
+        (lp.amount1 + lp.withdrawn1 - lp.deposited1);
+    }
+  };
+
+  const closePeriod = (stats: PeriodStats | undefined) => {
+    if (!stats) {
+      return;
+    }
+    revalue(stats.close.price0);
+    for (const lp of Object.values(result.positions)) {
+      const { liquidity, share, pnl } = lp;
+      lp.history.push({ timestamp: stats.start, liquidity, share, pnl });
+    }
+    result.periods.push(stats);
+  };
+
+  /** Part of a swap input the pool keeps as fee, rounded the way `AMM.getAmountOut` rounds it. */
+  const feeOf = (amountIn: bigint) =>
+    amountIn - (amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+
+  /** Credits swap fees to the LPs holding liquidity, pro rata. */
+  const chargeFees = (stats: PeriodStats, fee0: bigint, fee1: bigint) => {
+    result.fees0 += fee0;
+    result.fees1 += fee1;
+    stats.fees0 += fee0;
+    stats.fees1 += fee1;
+    for (const lp of Object.values(result.positions)) {
+      if (lp.liquidity > 0n) {
+        lp.fees0 += (fee0 * lp.liquidity) / totalSupply;
+        lp.fees1 += (fee1 * lp.liquidity) / totalSupply;
+      }
+    }
+  };
+
+  const trade = (
+    stats: PeriodStats,
+    amount0In: bigint,
+    amount1In: bigint,
+    amount0Out: bigint,
+    amount1Out: bigint
+  ) => {
+    for (const totals of [result, stats]) {
+      totals.swapCount++;
+      totals.volume0 += amount0In + amount0Out;
+      totals.volume1 += amount1In + amount1Out;
+    }
+    chargeFees(stats, feeOf(amount0In), feeOf(amount1In));
+  };
+
+  events.forEach((event, i) => {
+    const start = event.timestamp - (event.timestamp % periodSeconds);
+    if (period?.start !== start) {
+      closePeriod(period);
+      period = {
+        start,
+        swapCount: 0,
+        volume0: 0n,
+        volume1: 0n,
+        fees0: 0n,
+        fees1: 0n,
+        close: snapshot(event),
+      };
+    }
+
+    const stats = period;
+    const { args } = event;
+    switch (event.name) {
+      case "Sync":
+        reserve0 = BigInt(args.reserve0);
+        reserve1 = BigInt(args.reserve1);
+        break;
+      case "Transfer": {
+        const value = BigInt(args.value);
+        if (args.from === ZeroAddress) {
+          totalSupply += value;
+        } else {
+          position(args.from).liquidity -= value;
+        }
+        if (args.to === ZeroAddress) {
+          totalSupply -= value;
+        } else {
+          position(args.to).liquidity += value;
+        }
+        if (args.from !== ZeroAddress && args.to !== ZeroAddress && totalSupply > 0n) {
+          const amount0 = (value * reserve0) / totalSupply;
+          const amount1 = (value * reserve1) / totalSupply;
+          position(args.from).withdrawn0 += amount0;
+          position(args.from).withdrawn1 += amount1;
+          position(args.to).deposited0 += amount0;
+          position(args.to).deposited1 += amount1;
+        }
+        break;
+      }
+      case "LiquidityAdded": {
+        const lp = position(args.provider);
+        lp.deposited0 += BigInt(args.amount0);
+        lp.deposited1 += BigInt(args.amount1);
+        break;
+      }
+      case "LiquidityRemoved": {
+        const lp = position(args.provider);
+        lp.withdrawn0 += BigInt(args.amount0);
+        lp.withdrawn1 += BigInt(args.amount1);
+        break;
+      }
+      case "SwapExecuted": {
+        const amountIn = BigInt(args.amountIn);
+        const amountOut = BigInt(args.amountOut);
+        if (args.tokenIn === pool.token0) {
+          trade(stats, amountIn, 0n, 0n, amountOut);
+        } else {
+          trade(stats, 0n, amountIn, amountOut, 0n);
+        }
+        break;
+      }
+      case "FlashSwap":
+        trade(
+          stats,
+          BigInt(args.amount0In),
+          BigInt(args.amount1In),
+          BigInt(args.amount0Out),
+          BigInt(args.amount1Out)
+        );
+        break;
+    }
+
+    if (events[i + 1]?.blockNumber !== event.blockNumber) {
+      const point = snapshot(event);
+      result.reserves.push(point);
+      stats.close = point;
+    }
+  });
+  closePeriod(period);
+
+  return result;
+};
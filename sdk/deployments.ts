@@ -0,0 +1,116 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+
+/**
+ * Directory manifests are read from and written to unless a function is given one:
+ * `$DEPLOYMENTS_DIR` if set, otherwise `deployments/` at the repository root
+ */
+export const deploymentsDir = (): string =>
+  process.env.DEPLOYMENTS_DIR ?? path.join(__dirname, "..", "deployments");
+
+/** One contract deployed by the pipeline. */
+export interface DeploymentRecord {
+  /** Contract name in the artifacts, e.g. "AMMFactory" */
+  contract: string;
+  address: string;
+  /** Constructor arguments, with integers as decimal strings */
+  args: string[];
+  /** Transaction that created the contract */
+  txHash: string;
+  blockNumber: number;
+}
+
+/** A pool created through the factory. */
+export interface PoolRecord extends DeploymentRecord {
+  lpToken: string;
+  token0: string;
+  token1: string;
+  /** Swap fee in basis points, as a decimal string */
+  swapFee: string;
+  /** Factory that created the pool */
+  factory: string;
+}
+
+/** Everything deployed on one network, stored as `<dir>/<network>.json`. */
+export interface Manifest {
+  network: string;
+  chainId: number;
+  /** Standalone contracts by deployment name, e.g. "Token0" or "AMMFactory" */
+  contracts: Record<string, DeploymentRecord>;
+  /** Pools by name, e.g. "MTA-MTB-30" */
+  pools: Record<string, PoolRecord>;
+}
+
+/**
+ * Path of a network's manifest
+ * @param network Hardhat network name
+ * @param dir Manifest directory
+ */
+export const manifestPath = (network: string, dir = deploymentsDir()): string =>
+  path.join(dir, `${network}.json`);
+
+/**
+ * Reads a network's manifest, or returns undefined if nothing was deployed there yet
+ * @param network Hardhat network name
+ * @param dir Manifest directory
+ */
+export const readManifest = (network: string, dir = deploymentsDir()): Manifest | undefined => {
+  const file = manifestPath(network, dir);
+  if (!existsSync(file)) {
+    return undefined;
+  }
+  const manifest = JSON.parse(readFileSync(file, "utf8")) as Manifest;
+  if (manifest.network !== network) {
+    throw new Error(`Deployments: ${file} belongs to network ${manifest.network}`);
+  }
+  return manifest;
+};
+
+/**
+ * Writes a manifest atomically, so an interrupted deployment never leaves a truncated file
+ * @param manifest Manifest to write
+ * @param dir Manifest directory
+ */
+export const writeManifest = (manifest: Manifest, dir = deploymentsDir()): void => {
+  mkdirSync(dir, { recursive: true });
+  const file = manifestPath(manifest.network, dir);
+  writeFileSync(`${file}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`);
+  renameSync(`${file}.tmp`, file);
+};
+
+/**
+ * Looks up a contract deployed by the pipeline
+ * @param network Hardhat network name
+ * @param name Deployment name, e.g. "AMMRouter"
+ * @param dir Manifest directory
+ */
+export const getDeployment = (
+  network: string,
+  name: string,
+  dir = deploymentsDir()
+): DeploymentRecord => {
+  const contracts = readManifest(network, dir)?.contracts ?? {};
+  if (!contracts[name]) {
+    throw new Error(`Deployments: no contract named ${name} on ${network}${known(contracts)}`);
+  }
+  return contracts[name];
+};
+
+/**
+ * Looks up a pool deployed by the pipeline
+ * @param network Hardhat network name
+ * @param name Pool name, e.g. "MTA-MTB-30"
+ * @param dir Manifest directory
+ */
+export const getPool = (network: string, name: string, dir = deploymentsDir()): PoolRecord => {
+  const pools = readManifest(network, dir)?.pools ?? {};
+  if (!pools[name]) {
+    throw new Error(`Deployments: no pool named ${name} on ${network}${known(pools)}`);
+  }
+  return pools[name];
+};
+
+const known = (records: Record<string, unknown>): string => {
+  const names = Object.keys(records);
+  return names.length > 0 ? ` (known: ${names.join(", ")})` : "";
+};
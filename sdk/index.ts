@@ -0,0 +1,11 @@
+export * from "./math";
+export * from "./AmmClient";
+export * from "./permit";
+export * from "./routing";
+export * from "./oracle";
+export * from "./deployments";
+export * from "./indexer";
+export * from "./analytics";
+export * from "./simulator";
+export * from "./stableswap";
+export * from "./monitor";
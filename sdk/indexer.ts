@@ -0,0 +1,254 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+import { ContractRunner, getAddress, Interface, Log } from "ethers";
+import { AMM__factory, LPToken__factory } from "../typechain-types";
+
+/**
+ * Events the indexer keeps: the pool's reserve updates, trading and liquidity events and LP token
+ * transfers. Together they are enough to rebuild the reserves and every LP balance.
+ */
+export const INDEXED_EVENTS = [
+  "Sync",
+  "LiquidityAdded",
+  "LiquidityRemoved",
+  "SwapExecuted",
+  "FlashSwap",
+  "Transfer",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+/** A decoded pool or LP token event, as stored on disk. */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  blockNumber: number;
+  /** Timestamp of the event's block */
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  /** Event arguments by name; addresses as checksummed strings, integers as decimal strings */
+  args: Record<string, string>;
+}
+
+/** Pool metadata and indexing progress, written after every page of events. */
+export interface IndexCheckpoint {
+  pool: string;
+  lpToken: string;
+  token0: string;
+  token1: string;
+  /** Swap fee in basis points, as a decimal string */
+  swapFee: string;
+  /** First block indexed */
+  startBlock: number;
+  /** Last block whose events are all in the store, startBlock - 1 before the first page */
+  lastBlock: number;
+  /** Number of events in the store up to lastBlock */
+  eventCount: number;
+}
+
+export interface IndexOptions {
+  /** Block to start from when the store is empty, e.g. the pool's deployment block (default 0) */
+  fromBlock?: number;
+  /** Last block to index (defaults to the latest block minus `confirmations`) */
+  toBlock?: number;
+  /** Blocks to stay behind the chain head when `toBlock` is not given (default 0) */
+  confirmations?: number;
+  /** Largest block range requested from the node at once (default 2000) */
+  pageSize?: number;
+}
+
+export interface IndexResult {
+  /** First block indexed by this call */
+  fromBlock: number;
+  /** Last block indexed, fromBlock - 1 if the store was already up to date */
+  toBlock: number;
+  /** Events added by this call */
+  newEvents: number;
+  checkpoint: IndexCheckpoint;
+}
+
+/**
+ * Append-only event store in a directory: `events.jsonl` holds one event per line and
+ * `checkpoint.json` records how many of them are complete. The checkpoint is written after the
+ * events, so lines past `eventCount` were left by an interrupted page and are dropped on load.
+ */
+export class FileEventStore {
+  readonly eventsFile: string;
+  readonly checkpointFile: string;
+
+  constructor(readonly dir: string) {
+    this.eventsFile = path.join(dir, "events.jsonl");
+    this.checkpointFile = path.join(dir, "checkpoint.json");
+  }
+
+  /** The store's checkpoint, or undefined if nothing was indexed yet. */
+  readCheckpoint(): IndexCheckpoint | undefined {
+    if (!existsSync(this.checkpointFile)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(this.checkpointFile, "utf8")) as IndexCheckpoint;
+  }
+
+  /** Every complete event, in chain order. */
+  readEvents(): IndexedEvent[] {
+    const checkpoint = this.readCheckpoint();
+    if (!checkpoint || !existsSync(this.eventsFile)) {
+      return [];
+    }
+    const lines = readFileSync(this.eventsFile, "utf8").split("\n").filter(Boolean);
+    if (lines.length < checkpoint.eventCount) {
+      throw new Error(`Indexer: ${this.eventsFile} is missing events, reindex from scratch`);
+    }
+    return lines.slice(0, checkpoint.eventCount).map(line => JSON.parse(line) as IndexedEvent);
+  }
+
+  /**
+   * Appends a page of events and advances the checkpoint past it
+   * @param events Events of the page, in chain order
+   * @param checkpoint Checkpoint covering the page
+   */
+  append(events: IndexedEvent[], checkpoint: IndexCheckpoint): void {
+    mkdirSync(this.dir, { recursive: true });
+    this.discardIncomplete();
+    if (events.length > 0) {
+      appendFileSync(this.eventsFile, events.map(event => `${JSON.stringify(event)}\n`).join(""));
+    }
+    writeFileSync(`${this.checkpointFile}.tmp`, `${JSON.stringify(checkpoint, null, 2)}\n`);
+    renameSync(`${this.checkpointFile}.tmp`, this.checkpointFile);
+  }
+
+  /** Truncates events written by a page whose checkpoint never made it to disk. */
+  private discardIncomplete(): void {
+    if (!existsSync(this.eventsFile)) {
+      return;
+    }
+    const complete = this.readCheckpoint()?.eventCount ?? 0;
+    const lines = readFileSync(this.eventsFile, "utf8").split("\n").filter(Boolean);
+    if (lines.length > complete) {
+      writeFileSync(
+        this.eventsFile,
+        lines
+          .slice(0, complete)
+          .map(line => `${line}\n`)
+          .join("")
+      );
+    }
+  }
+}
+
+/**
+ * Pages through a pool's events from the store's checkpoint up to `toBlock`, saving each page as
+ * it completes. An interrupted run resumes from the last saved page when called again.
+ * @param poolAddress Address of the AMM
+ * @param runner Provider or signer to read logs with
+ * @param store Where events and the checkpoint are kept
+ * @param options Block range and paging
+ */
+export const indexPool = async (
+  poolAddress: string,
+  runner: ContractRunner,
+  store: FileEventStore,
+  options: IndexOptions = {}
+): Promise<IndexResult> => {
+  const provider = runner.provider;
+  if (!provider) {
+    throw new Error("Indexer: a provider is required to read logs");
+  }
+  const pageSize = options.pageSize ?? 2000;
+  if (pageSize < 1) {
+    throw new Error("Indexer: page size must be at least one block");
+  }
+
+  let checkpoint = store.readCheckpoint();
+  if (!checkpoint) {
+    const amm = AMM__factory.connect(poolAddress, runner);
+    const [lpToken, token0, token1, swapFee] = await Promise.all([
+      amm.lpToken(),
+      amm.token0(),
+      amm.token1(),
+      amm.swapFee(),
+    ]);
+    const startBlock = options.fromBlock ?? 0;
+    checkpoint = {
+      pool: getAddress(poolAddress),
+      lpToken,
+      token0,
+      token1,
+      swapFee: swapFee.toString(),
+      startBlock,
+      lastBlock: startBlock - 1,
+      eventCount: 0,
+    };
+  } else if (checkpoint.pool.toLowerCase() !== poolAddress.toLowerCase()) {
+    throw new Error(`Indexer: ${store.dir} indexes pool ${checkpoint.pool}`);
+  }
+
+  const toBlock =
+    options.toBlock ?? (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+  const fromBlock = checkpoint.lastBlock + 1;
+  const ammInterface = AMM__factory.createInterface();
+  const lpInterface = LPToken__factory.createInterface();
+  let newEvents = 0;
+
+  for (let start = fromBlock; start <= toBlock; start += pageSize) {
+    const end = Math.min(start + pageSize - 1, toBlock);
+    const logs = await provider.getLogs({
+      address: [checkpoint.pool, checkpoint.lpToken],
+      fromBlock: start,
+      toBlock: end,
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(logs.map(log => log.blockNumber))) {
+      const block = await provider.getBlock(blockNumber);
+      if (!block) {
+        throw new Error(`Indexer: block ${blockNumber} not found`);
+      }
+      timestamps.set(blockNumber, block.timestamp);
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const isPool = log.address.toLowerCase() === checkpoint.pool.toLowerCase();
+      const event = decode(isPool ? ammInterface : lpInterface, log, timestamps);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    checkpoint = {
+      ...checkpoint,
+      lastBlock: end,
+      eventCount: checkpoint.eventCount + events.length,
+    };
+    store.append(events, checkpoint);
+    newEvents += events.length;
+  }
+
+  return { fromBlock, toBlock: checkpoint.lastBlock, newEvents, checkpoint };
+};
+
+/** Decodes an indexed event, or returns undefined for events the indexer does not keep. */
+const decode = (
+  contractInterface: Interface,
+  log: Log,
+  timestamps: Map<number, number>
+): IndexedEvent | undefined => {
+  const parsed = contractInterface.parseLog(log);
+  if (!parsed || !(INDEXED_EVENTS as readonly string[]).includes(parsed.name)) {
+    return undefined;
+  }
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = parsed.args[i].toString();
+  });
+  return {
+    name: parsed.name as IndexedEventName,
+    blockNumber: log.blockNumber,
+    timestamp: timestamps.get(log.blockNumber) as number,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    args,
+  };
+};
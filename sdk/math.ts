@@ -0,0 +1,244 @@
+/**
+ * Pure bigint mirrors of the integer math in `contracts/AMM.sol`.
+ *
+ * Every function rounds exactly like the contract so that quotes computed off-chain match the
+ * amounts the pool will actually transfer, to the wei.
+ */
+
+/** Denominator of `AMM.swapFee`; swap fees are expressed in basis points (30 == 0.3%). */
+export const FEE_DENOMINATOR = 10_000n;
+
+/** Fixed-point scale used for prices and price impact (1e18 == 1.0). */
+export const PRICE_SCALE = 10n ** 18n;
+
+/** LP tokens the first deposit locks forever, mirroring `AMM.MINIMUM_LIQUIDITY`. */
+export const MINIMUM_LIQUIDITY = 1_000n;
+
+export const UINT112_MAX = (1n << 112n) - 1n;
+
+/** Denominator for slippage tolerances expressed in basis points. */
+export const BPS_DENOMINATOR = 10_000n;
+
+/** Babylonian integer square root, identical to `AMM._sqrt`. */
+export const sqrt = (value: bigint): bigint => {
+  if (value === 0n) {
+    return 0n;
+  }
+  let z = (value + 1n) / 2n;
+  let y = value;
+  while (z < y) {
+    y = z;
+    z = (value / z + z) / 2n;
+  }
+  return y;
+};
+
+/**
+ * Output of an exact-input swap, identical to `AMM.getAmountOut`:
+ * amountInWithFee = amountIn * (FEE_DENOMINATOR - swapFee) / FEE_DENOMINATOR and
+ * amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee)
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const getAmountOut = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  swapFee: bigint
+): bigint => {
+  if (amountIn <= 0n) {
+    throw new Error("AMM: invalid amount");
+  }
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("AMM: insufficient liquidity");
+  }
+  const amountInWithFee = (amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+  const amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee);
+  if (amountOut <= 0n || amountOut >= reserveOut) {
+    throw new Error("AMM: insufficient output");
+  }
+  return amountOut;
+};
+
+/** Division rounding towards positive infinity, identical to `AMM._ceilDiv`. */
+export const ceilDiv = (a: bigint, b: bigint): bigint => (a === 0n ? 0n : (a - 1n) / b + 1n);
+
+/**
+ * Smallest input that buys at least `amountOut`, identical to `AMM.getAmountIn`. Inverts both
+ * floor divisions of getAmountOut, so getAmountOut(getAmountIn(x)) >= x and
+ * getAmountOut(getAmountIn(x) - 1) < x.
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const getAmountIn = (
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  swapFee: bigint
+): bigint => {
+  if (amountOut <= 0n) {
+    throw new Error("AMM: invalid amount");
+  }
+  if (reserveIn <= 0n || amountOut >= reserveOut) {
+    throw new Error("AMM: insufficient liquidity");
+  }
+  const amountInWithFee = ceilDiv(amountOut * reserveIn, reserveOut - amountOut);
+  return ceilDiv(amountInWithFee * FEE_DENOMINATOR, FEE_DENOMINATOR - swapFee);
+};
+
+/**
+ * Smallest same-token repayment for a flash loan of `amountOut`, following `AMM.flashSwap`: the
+ * borrowed amount plus the swap fee charged on the repayment itself. To repay in the other token,
+ * quote it with getAmountIn instead.
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const getFlashLoanRepayment = (amountOut: bigint, swapFee: bigint): bigint => {
+  if (amountOut <= 0n) {
+    throw new Error("AMM: invalid amount");
+  }
+  return ceilDiv(amountOut * FEE_DENOMINATOR, FEE_DENOMINATOR - swapFee);
+};
+
+/**
+ * LP tokens minted to `feeTo` at the start of the next liquidity event, following `AMM._mintFee`.
+ * Returns 0 when the protocol fee is off (`kLast` is 0) or k has not grown.
+ */
+export const getProtocolFeeLiquidity = (
+  reserve0: bigint,
+  reserve1: bigint,
+  totalSupply: bigint,
+  kLast: bigint
+): bigint => {
+  if (kLast === 0n) {
+    return 0n;
+  }
+  const rootK = sqrt(reserve0 * reserve1);
+  const rootKLast = sqrt(kLast);
+  if (rootK <= rootKLast) {
+    return 0n;
+  }
+  return (totalSupply * (rootK - rootKLast)) / (rootK * 5n + rootKLast);
+};
+
+/**
+ * Amounts `AMM.addLiquidity` actually deposits: all of one desired amount and the matching amount
+ * of the other at the reserve ratio, or both desired amounts into an empty pool.
+ */
+export const getOptimalDepositAmounts = (
+  amount0Desired: bigint,
+  amount1Desired: bigint,
+  reserve0: bigint,
+  reserve1: bigint
+): [bigint, bigint] => {
+  if (reserve0 === 0n && reserve1 === 0n) {
+    return [amount0Desired, amount1Desired];
+  }
+  const amount1Optimal = (amount0Desired * reserve1) / reserve0;
+  if (amount1Optimal <= amount1Desired) {
+    return [amount0Desired, amount1Optimal];
+  }
+  return [(amount1Desired * reserve0) / reserve1, amount1Desired];
+};
+
+/** LP tokens minted for depositing exactly `amount0` and `amount1`, as in `AMM._addLiquidity`. */
+export const getLiquidityMinted = (
+  amount0: bigint,
+  amount1: bigint,
+  reserve0: bigint,
+  reserve1: bigint,
+  totalSupply: bigint
+): bigint => {
+  if (amount0 <= 0n || amount1 <= 0n) {
+    throw new Error("AMM: invalid amounts");
+  }
+  if (reserve0 === 0n && reserve1 === 0n) {
+    const liquidity = sqrt(amount0 * amount1);
+    if (liquidity <= MINIMUM_LIQUIDITY) {
+      throw new Error("AMM: insufficient initial liquidity");
+    }
+    return liquidity - MINIMUM_LIQUIDITY;
+  }
+  const liquidity0 = (amount0 * totalSupply) / reserve0;
+  const liquidity1 = (amount1 * totalSupply) / reserve1;
+  const liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  if (liquidity <= 0n) {
+    throw new Error("AMM: insufficient liquidity minted");
+  }
+  return liquidity;
+};
+
+/** Token amounts returned for burning `liquidity`, following `AMM.removeLiquidity`. */
+export const getAmountsForLiquidity = (
+  liquidity: bigint,
+  reserve0: bigint,
+  reserve1: bigint,
+  totalSupply: bigint
+): [bigint, bigint] => {
+  if (liquidity <= 0n) {
+    throw new Error("AMM: zero liquidity");
+  }
+  if (totalSupply <= 0n) {
+    throw new Error("AMM: no liquidity");
+  }
+  const amount0 = (liquidity * reserve0) / totalSupply;
+  const amount1 = (liquidity * reserve1) / totalSupply;
+  if (amount0 <= 0n || amount1 <= 0n) {
+    throw new Error("AMM: zero amounts");
+  }
+  return [amount0, amount1];
+};
+
+/**
+ * Share of a single-token deposit to swap before adding liquidity, identical to
+ * `AMMZap.getSwapAmount`. Swapping s of amountIn into reserveIn leaves the remainder at the ratio
+ * of the reserves after the swap when (1 - f) * s^2 + reserveIn * (2 - f) * s = reserveIn *
+ * amountIn, for a fee f; the positive root is rounded down.
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const getZapInSwapAmount = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  swapFee: bigint
+): bigint => {
+  const b = reserveIn * (2n * FEE_DENOMINATOR - swapFee);
+  const discriminant =
+    b * b + 4n * (FEE_DENOMINATOR - swapFee) * FEE_DENOMINATOR * reserveIn * amountIn;
+  return (sqrt(discriminant) - b) / (2n * (FEE_DENOMINATOR - swapFee));
+};
+
+/** Marginal price of the input token in units of the output token, scaled by PRICE_SCALE. */
+export const getSpotPrice = (reserveIn: bigint, reserveOut: bigint): bigint => {
+  if (reserveIn <= 0n) {
+    throw new Error("AMM: insufficient liquidity");
+  }
+  return (reserveOut * PRICE_SCALE) / reserveIn;
+};
+
+/** Average price actually paid by a trade (amountOut per amountIn), scaled by PRICE_SCALE. */
+export const getExecutionPrice = (amountIn: bigint, amountOut: bigint): bigint => {
+  if (amountIn <= 0n) {
+    throw new Error("AMM: invalid amount");
+  }
+  return (amountOut * PRICE_SCALE) / amountIn;
+};
+
+/**
+ * Relative shortfall of the execution price against the spot price before the trade, scaled by
+ * PRICE_SCALE. Includes the swap fee, so even an infinitesimal trade reports the pool's fee.
+ */
+export const getPriceImpact = (spotPrice: bigint, executionPrice: bigint): bigint => {
+  if (spotPrice <= 0n || executionPrice >= spotPrice) {
+    return 0n;
+  }
+  return ((spotPrice - executionPrice) * PRICE_SCALE) / spotPrice;
+};
+
+/**
+ * Lowest acceptable amount for a slippage tolerance, rounding down like the quotes themselves.
+ * @param amount Quoted amount
+ * @param slippageBps Tolerance in basis points (50 == 0.5%)
+ */
+export const applySlippage = (amount: bigint, slippageBps: bigint): bigint => {
+  if (slippageBps < 0n || slippageBps > BPS_DENOMINATOR) {
+    throw new Error("AmmClient: slippage out of range");
+  }
+  return (amount * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+};
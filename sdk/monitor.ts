@@ -0,0 +1,576 @@
+import { BlockTag, ContractRunner, getAddress, Provider } from "ethers";
+import { AMM, IERC20, LPToken } from "../typechain-types";
+import { AmmClient, StableSwapParams } from "./AmmClient";
+import { BPS_DENOMINATOR, getSpotPrice } from "./math";
+import { getStableSpotPrice } from "./stableswap";
+
+/** Rules a PoolMonitor can evaluate; all of them run unless MonitorOptions.rules says otherwise. */
+export const MONITOR_RULES = ["reserveDrift", "supplyCollapse", "priceMove", "sandwich"] as const;
+
+export type MonitorRule = (typeof MONITOR_RULES)[number];
+
+export type AlertSeverity = "warning" | "critical";
+
+/** A rule that fired, in the shape written to JSON lines and webhooks. */
+export interface Alert {
+  rule: MonitorRule;
+  severity: AlertSeverity;
+  /** Address of the AMM */
+  pool: string;
+  /** Block the condition was observed at */
+  blockNumber: number;
+  timestamp: number;
+  message: string;
+  /** Details by name; addresses as checksummed strings, integers as decimal strings */
+  data: Record<string, string>;
+}
+
+/** What the rules read of a pool at the end of a block. */
+export interface HealthSnapshot {
+  blockNumber: number;
+  timestamp: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  /** token0 held by the pool according to the token */
+  balance0: bigint;
+  /** token1 held by the pool according to the token */
+  balance1: bigint;
+  /** LP token supply */
+  totalSupply: bigint;
+  /** Spot price of token0 in token1 on the pool's curve, scaled by PRICE_SCALE; 0 while empty */
+  price0: bigint;
+}
+
+/** A decoded `SwapExecuted` event. */
+export interface MonitoredSwap {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  trader: string;
+  tokenIn: string;
+  amountIn: bigint;
+  tokenOut: string;
+  amountOut: bigint;
+  recipient: string;
+}
+
+/** Thresholds of the rules, in basis points. */
+export interface MonitorThresholds {
+  /** Gap between a token's balance and its reserve, relative to the reserve (default 10) */
+  reserveDriftBps: number;
+  /** Fall of the LP supply between two polls, relative to the earlier supply (default 5000) */
+  supplyDropBps: number;
+  /** Move of token0's spot price between two polls, relative to the earlier price (default 1000) */
+  priceMoveBps: number;
+}
+
+export const DEFAULT_MONITOR_THRESHOLDS: MonitorThresholds = {
+  reserveDriftBps: 10,
+  supplyDropBps: 5000,
+  priceMoveBps: 1000,
+};
+
+export interface MonitorOptions extends Partial<MonitorThresholds> {
+  /** Rules to evaluate (default all of MONITOR_RULES) */
+  rules?: MonitorRule[];
+  /** First block to watch, compared against the state before it (defaults to the next block) */
+  fromBlock?: number;
+  /** Blocks to stay behind the chain head (default 0) */
+  confirmations?: number;
+}
+
+export interface WatchOptions {
+  /** Delay between polls in milliseconds (default 5000) */
+  intervalMs?: number;
+  /** Stops the watcher after the poll in progress */
+  signal?: AbortSignal;
+  /** Called with errors of a poll or a sink, after which watching goes on; rethrown if unset */
+  onError?: (error: unknown) => void;
+}
+
+/** Receives every alert, e.g. to print or forward it. */
+export type AlertSink = (alert: Alert) => void | Promise<void>;
+
+const exceedsBps = (difference: bigint, base: bigint, thresholdBps: number): boolean =>
+  difference * BPS_DENOMINATOR > base * BigInt(thresholdBps);
+
+const bpsOf = (difference: bigint, base: bigint): bigint =>
+  base === 0n ? 0n : (difference * BPS_DENOMINATOR) / base;
+
+const abs = (value: bigint): bigint => (value < 0n ? -value : value);
+
+/**
+ * Reserves that differ from the pool's token balances by more than `thresholdBps`. A surplus,
+ * such as a donation, is a warning because anyone can `skim` it; a shortfall, such as a negative
+ * rebase or fee-on-transfer accounting, is critical because the pool owes more than it holds.
+ * @param pool Address of the AMM
+ * @param snapshot Pool state to check
+ * @param thresholdBps Largest tolerated gap, relative to the reserve
+ */
+export const checkReserveDrift = (
+  pool: string,
+  snapshot: HealthSnapshot,
+  thresholdBps: number
+): Alert[] => {
+  const alerts: Alert[] = [];
+  const tokens = [
+    { index: 0, reserve: snapshot.reserve0, balance: snapshot.balance0 },
+    { index: 1, reserve: snapshot.reserve1, balance: snapshot.balance1 },
+  ];
+  for (const { index, reserve, balance } of tokens) {
+    const difference = balance - reserve;
+    if (difference === 0n || !exceedsBps(abs(difference), reserve, thresholdBps)) {
+      continue;
+    }
+    const surplus = difference > 0n;
+    alerts.push({
+      rule: "reserveDrift",
+      severity: surplus ? "warning" : "critical",
+      pool,
+      blockNumber: snapshot.blockNumber,
+      timestamp: snapshot.timestamp,
+      message: surplus
+        ? `pool holds ${difference} more token${index} than its reserve`
+        : `pool holds ${-difference} less token${index} than its reserve`,
+      data: {
+        token: `token${index}`,
+        reserve: reserve.toString(),
+        balance: balance.toString(),
+        difference: difference.toString(),
+        driftBps: bpsOf(abs(difference), reserve).toString(),
+      },
+    });
+  }
+  return alerts;
+};
+
+/**
+ * Flags an LP supply that fell by more than `thresholdBps` between two snapshots, e.g. liquidity
+ * pulled all at once ahead of an exploit or a rug
+ * @param pool Address of the AMM
+ * @param previous Earlier pool state
+ * @param current Later pool state
+ * @param thresholdBps Largest tolerated fall, relative to the earlier supply
+ */
+export const checkSupplyCollapse = (
+  pool: string,
+  previous: HealthSnapshot,
+  current: HealthSnapshot,
+  thresholdBps: number
+): Alert[] => {
+  const drop = previous.totalSupply - current.totalSupply;
+  if (drop <= 0n || !exceedsBps(drop, previous.totalSupply, thresholdBps)) {
+    return [];
+  }
+  const dropBps = bpsOf(drop, previous.totalSupply);
+  return [
+    {
+      rule: "supplyCollapse",
+      severity: "critical",
+      pool,
+      blockNumber: current.blockNumber,
+      timestamp: current.timestamp,
+      message: `LP supply fell by ${dropBps} bps since block ${previous.blockNumber}`,
+      data: {
+        previousBlock: previous.blockNumber.toString(),
+        previousSupply: previous.totalSupply.toString(),
+        totalSupply: current.totalSupply.toString(),
+        dropBps: dropBps.toString(),
+      },
+    },
+  ];
+};
+
+/**
+ * Flags a spot price of token0 that moved by more than `thresholdBps` between two snapshots.
+ * Snapshots of an empty pool have no price and are skipped.
+ * @param pool Address of the AMM
+ * @param previous Earlier pool state
+ * @param current Later pool state
+ * @param thresholdBps Largest tolerated move, relative to the earlier price
+ */
+export const checkPriceMove = (
+  pool: string,
+  previous: HealthSnapshot,
+  current: HealthSnapshot,
+  thresholdBps: number
+): Alert[] => {
+  const before = previous.price0;
+  const after = current.price0;
+  if (before === 0n || after === 0n) {
+    return [];
+  }
+  const move = after - before;
+  if (!exceedsBps(abs(move), before, thresholdBps)) {
+    return [];
+  }
+  const moveBps = bpsOf(abs(move), before);
+  const direction = move > 0n ? "rose" : "fell";
+  return [
+    {
+      rule: "priceMove",
+      severity: "warning",
+      pool,
+      blockNumber: current.blockNumber,
+      timestamp: current.timestamp,
+      message: `token0 price ${direction} by ${moveBps} bps since block ${previous.blockNumber}`,
+      data: {
+        previousBlock: previous.blockNumber.toString(),
+        previousPrice0: before.toString(),
+        price0: after.toString(),
+        moveBps: moveBps.toString(),
+      },
+    },
+  ];
+};
+
+/**
+ * Finds sandwiches: within one block, an account buys, one or more other accounts buy in the same
+ * direction, and the first account sells what it bought. Accounts are told apart by the swaps'
+ * recipients, so trades routed through a router are attributed to the trader and not the router.
+ * @param pool Address of the AMM
+ * @param swaps Swaps of the pool in chain order
+ * @return One alert per front-run and back-run pair, with the attacker's profit in the front-run's
+ * input token (negative if the attack lost money)
+ */
+export const findSandwiches = (pool: string, swaps: MonitoredSwap[]): Alert[] => {
+  const alerts: Alert[] = [];
+  const used = new Set<MonitoredSwap>();
+  swaps.forEach((front, i) => {
+    if (used.has(front)) {
+      return;
+    }
+    const attacker = front.recipient.toLowerCase();
+    for (let k = i + 1; k < swaps.length && swaps[k].blockNumber === front.blockNumber; k++) {
+      const back = swaps[k];
+      if (
+        used.has(back) ||
+        back.recipient.toLowerCase() !== attacker ||
+        back.tokenIn.toLowerCase() !== front.tokenOut.toLowerCase()
+      ) {
+        continue;
+      }
+      const victims = swaps
+        .slice(i + 1, k)
+        .filter(
+          swap =>
+            swap.recipient.toLowerCase() !== attacker &&
+            swap.tokenIn.toLowerCase() === front.tokenIn.toLowerCase()
+        );
+      if (victims.length === 0) {
+        continue;
+      }
+      used.add(front);
+      used.add(back);
+      const profit = back.amountOut - front.amountIn;
+      alerts.push({
+        rule: "sandwich",
+        severity: "warning",
+        pool,
+        blockNumber: front.blockNumber,
+        timestamp: front.timestamp,
+        message: `${front.recipient} sandwiched ${victims.length} swap(s)`,
+        data: {
+          attacker: front.recipient,
+          victims: victims.map(victim => victim.recipient).join(","),
+          frontRunTx: front.txHash,
+          backRunTx: back.txHash,
+          victimTxs: victims.map(victim => victim.txHash).join(","),
+          token: front.tokenIn,
+          profit: profit.toString(),
+        },
+      });
+      return;
+    }
+  });
+  return alerts;
+};
+
+/**
+ * Writes each alert as a line of JSON
+ * @param write Output for a line without its newline, stdout by default
+ */
+export const jsonLinesSink =
+  (write: (line: string) => void = line => process.stdout.write(`${line}\n`)): AlertSink =>
+  alert =>
+    write(JSON.stringify(alert));
+
+/**
+ * POSTs each alert as a JSON body, failing on a non-2xx response
+ * @param url Webhook endpoint
+ */
+export const webhookSink =
+  (url: string): AlertSink =>
+  async alert => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(alert),
+    });
+    if (!response.ok) {
+      throw new Error(`Monitor: webhook ${url} answered ${response.status}`);
+    }
+  };
+
+/** Resolves after `ms` milliseconds, or as soon as `signal` aborts. */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+/** The pool and the tokens a monitor reads, bound to its runner. */
+interface PoolContracts {
+  provider: Provider;
+  address: string;
+  amm: AMM;
+  lpToken: LPToken;
+  token0: IERC20;
+  token1: IERC20;
+  /** Curve of a StableSwapAMM, undefined for a constant-product AMM */
+  stableSwap?: StableSwapParams;
+}
+
+/** Spot price of token0 in token1 on the pool's curve, 0 while either reserve is empty. */
+const spotPrice0 = (reserve0: bigint, reserve1: bigint, stableSwap?: StableSwapParams) => {
+  if (reserve0 === 0n || reserve1 === 0n) {
+    return 0n;
+  }
+  return stableSwap
+    ? getStableSpotPrice(
+        reserve0,
+        reserve1,
+        stableSwap.amplification,
+        stableSwap.rate0,
+        stableSwap.rate1
+      )
+    : getSpotPrice(reserve0, reserve1);
+};
+
+const readSnapshot = async (
+  { provider, address, amm, lpToken, token0, token1, stableSwap }: PoolContracts,
+  blockNumber: number
+): Promise<HealthSnapshot> => {
+  const blockTag: BlockTag = blockNumber;
+  const [block, [reserve0, reserve1], balance0, balance1, totalSupply] = await Promise.all([
+    provider.getBlock(blockNumber),
+    amm.getReserves({ blockTag }),
+    token0.balanceOf(address, { blockTag }),
+    token1.balanceOf(address, { blockTag }),
+    lpToken.totalSupply({ blockTag }),
+  ]);
+  if (!block) {
+    throw new Error(`Monitor: block ${blockNumber} not found`);
+  }
+  return {
+    blockNumber,
+    timestamp: block.timestamp,
+    reserve0,
+    reserve1,
+    balance0,
+    balance1,
+    totalSupply,
+    price0: spotPrice0(reserve0, reserve1, stableSwap),
+  };
+};
+
+/**
+ * Watches a deployed AMM over JSON-RPC by polling. Each poll reads the pool's state at the latest
+ * block (minus `confirmations`) and the `SwapExecuted` events since the previous poll, and returns
+ * the alerts of the enabled rules. Price and supply rules compare against the previous poll, so a
+ * poll that covers many blocks compares across all of them. A reserve drift is reported once when
+ * it appears, and again only after it has cleared.
+ */
+export class PoolMonitor {
+  /** Drifts already reported and not yet cleared, as "token0" / "token1" */
+  private readonly drifting = new Set<string>();
+
+  private constructor(
+    private readonly contracts: PoolContracts,
+    readonly rules: MonitorRule[],
+    readonly thresholds: MonitorThresholds,
+    readonly confirmations: number,
+    /** State at the last polled block, the baseline of the next poll */
+    private previous: HealthSnapshot
+  ) {}
+
+  /**
+   * Loads pool metadata and the baseline state
+   * @param poolAddress Address of a deployed AMM or StableSwapAMM
+   * @param runner Provider to read the pool with
+   * @param options Rules, thresholds and where to start
+   */
+  static async connect(
+    poolAddress: string,
+    runner: ContractRunner,
+    options: MonitorOptions = {}
+  ): Promise<PoolMonitor> {
+    const provider = runner.provider;
+    if (!provider) {
+      throw new Error("Monitor: a provider is required to read the pool");
+    }
+    const rules = options.rules ?? [...MONITOR_RULES];
+    for (const rule of rules) {
+      if (!(MONITOR_RULES as readonly string[]).includes(rule)) {
+        throw new Error(`Monitor: unknown rule ${rule}, expected one of ${MONITOR_RULES.join()}`);
+      }
+    }
+    const thresholds: MonitorThresholds = {
+      reserveDriftBps: options.reserveDriftBps ?? DEFAULT_MONITOR_THRESHOLDS.reserveDriftBps,
+      supplyDropBps: options.supplyDropBps ?? DEFAULT_MONITOR_THRESHOLDS.supplyDropBps,
+      priceMoveBps: options.priceMoveBps ?? DEFAULT_MONITOR_THRESHOLDS.priceMoveBps,
+    };
+    for (const [name, value] of Object.entries(thresholds)) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Monitor: ${name} must be a non-negative integer, got ${value}`);
+      }
+    }
+    const confirmations = options.confirmations ?? 0;
+
+    const client = await AmmClient.connect(poolAddress, runner);
+    const baseline =
+      options.fromBlock !== undefined
+        ? options.fromBlock - 1
+        : (await provider.getBlockNumber()) - confirmations;
+    const contracts: PoolContracts = {
+      provider,
+      address: getAddress(poolAddress),
+      amm: client.amm,
+      lpToken: client.lpToken,
+      token0: client.token0,
+      token1: client.token1,
+      stableSwap: client.stableSwap,
+    };
+    const previous = await readSnapshot(contracts, Math.max(baseline, 0));
+    return new PoolMonitor(contracts, rules, thresholds, confirmations, previous);
+  }
+
+  /** Last block covered by a poll, or the block before `fromBlock` before the first poll. */
+  get lastBlock(): number {
+    return this.previous.blockNumber;
+  }
+
+  /** Address of the AMM */
+  get address(): string {
+    return this.contracts.address;
+  }
+
+  /**
+   * Reads what the rules look at as of the end of a block
+   * @param blockNumber Block to read
+   */
+  snapshot(blockNumber: number): Promise<HealthSnapshot> {
+    return readSnapshot(this.contracts, blockNumber);
+  }
+
+  /**
+   * Swaps of the pool in a block range, in chain order
+   * @param fromBlock First block
+   * @param toBlock Last block
+   */
+  async swaps(fromBlock: number, toBlock: number): Promise<MonitoredSwap[]> {
+    const events = await this.contracts.amm.queryFilter(
+      this.contracts.amm.filters.SwapExecuted(),
+      fromBlock,
+      toBlock
+    );
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set(events.map(event => event.blockNumber))) {
+      const block = await this.contracts.provider.getBlock(blockNumber);
+      if (!block) {
+        throw new Error(`Monitor: block ${blockNumber} not found`);
+      }
+      timestamps.set(blockNumber, block.timestamp);
+    }
+    return events.map(event => ({
+      blockNumber: event.blockNumber,
+      timestamp: timestamps.get(event.blockNumber) as number,
+      txHash: event.transactionHash,
+      logIndex: event.index,
+      trader: event.args.trader,
+      tokenIn: event.args.tokenIn,
+      amountIn: event.args.amountIn,
+      tokenOut: event.args.tokenOut,
+      amountOut: event.args.amountOut,
+      recipient: event.args.recipient,
+    }));
+  }
+
+  /**
+   * Evaluates the enabled rules over the blocks since the last poll
+   * @param toBlock Last block to cover (defaults to the latest block minus `confirmations`)
+   * @return Alerts in rule order; empty if there is no new block
+   */
+  async poll(toBlock?: number): Promise<Alert[]> {
+    const provider = this.contracts.provider;
+    const end = toBlock ?? (await provider.getBlockNumber()) - this.confirmations;
+    const previous = this.previous;
+    if (end <= previous.blockNumber) {
+      return [];
+    }
+    const current = await this.snapshot(end);
+    const { reserveDriftBps, supplyDropBps, priceMoveBps } = this.thresholds;
+    const alerts: Alert[] = [];
+
+    if (this.rules.includes("reserveDrift")) {
+      const drifts = checkReserveDrift(this.address, current, reserveDriftBps);
+      alerts.push(...drifts.filter(alert => !this.drifting.has(alert.data.token)));
+      this.drifting.clear();
+      drifts.forEach(alert => this.drifting.add(alert.data.token));
+    }
+    if (this.rules.includes("supplyCollapse")) {
+      alerts.push(...checkSupplyCollapse(this.address, previous, current, supplyDropBps));
+    }
+    if (this.rules.includes("priceMove")) {
+      alerts.push(...checkPriceMove(this.address, previous, current, priceMoveBps));
+    }
+    if (this.rules.includes("sandwich")) {
+      const swaps = await this.swaps(previous.blockNumber + 1, end);
+      alerts.push(...findSandwiches(this.address, swaps));
+    }
+
+    this.previous = current;
+    return alerts;
+  }
+
+  /**
+   * Polls until `signal` aborts, handing every alert to each sink in turn
+   * @param sinks Where alerts go, e.g. jsonLinesSink() and webhookSink(url)
+   * @param options Poll interval, cancellation and error handling
+   */
+  async watch(sinks: AlertSink[], options: WatchOptions = {}): Promise<void> {
+    const { intervalMs = 5000, signal, onError } = options;
+    const fail = (error: unknown) => {
+      if (!onError) {
+        throw error;
+      }
+      onError(error);
+    };
+    while (!signal?.aborted) {
+      let alerts: Alert[] = [];
+      try {
+        alerts = await this.poll();
+      } catch (error) {
+        fail(error);
+      }
+      // A failing sink must not keep the alert from the others
+      for (const alert of alerts) {
+        for (const sink of sinks) {
+          try {
+            await sink(alert);
+          } catch (error) {
+            fail(error);
+          }
+        }
+      }
+      await sleep(intervalMs, signal);
+    }
+  }
+}
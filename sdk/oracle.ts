@@ -0,0 +1,86 @@
+import { BlockTag } from "ethers";
+import { AMM } from "../typechain-types";
+import { PRICE_SCALE } from "./math";
+
+/** Fixed-point resolution of the pool's UQ112x112 price accumulators. */
+export const Q112 = 1n << 112n;
+
+const UINT256_MODULUS = 1n << 256n;
+const UINT32_MODULUS = 1n << 32n;
+
+export interface Observation {
+  /** Block timestamp (mod 2**32) the accumulators are valid for */
+  timestamp: bigint;
+  price0Cumulative: bigint;
+  price1Cumulative: bigint;
+}
+
+export interface Twap {
+  /** Average price of token0 in token1 over the window, scaled by PRICE_SCALE */
+  price0: bigint;
+  /** Average price of token1 in token0 over the window, scaled by PRICE_SCALE */
+  price1: bigint;
+  /** Window length in seconds */
+  timeElapsed: bigint;
+}
+
+/**
+ * Reads the pool's price accumulators as of a block, including the counterfactual accrual since
+ * the pool's last reserve update (the same computation as `TWAPOracle.currentCumulativePrices`)
+ * @param amm Pool to observe
+ * @param blockTag Block to observe at (defaults to the latest block)
+ */
+export const observe = async (amm: AMM, blockTag: BlockTag = "latest"): Promise<Observation> => {
+  const provider = amm.runner?.provider;
+  if (!provider) {
+    throw new Error("TWAP: a provider is required to observe a pool");
+  }
+  const block = await provider.getBlock(blockTag);
+  if (!block) {
+    throw new Error(`TWAP: block ${blockTag} not found`);
+  }
+
+  const overrides = { blockTag: block.number };
+  const [price0CumulativeLast, price1CumulativeLast, timestampLast, [reserve0, reserve1]] =
+    await Promise.all([
+      amm.price0CumulativeLast(overrides),
+      amm.price1CumulativeLast(overrides),
+      amm.blockTimestampLast(overrides),
+      amm.getReserves(overrides),
+    ]);
+
+  const timestamp = BigInt(block.timestamp) % UINT32_MODULUS;
+  let price0Cumulative = price0CumulativeLast;
+  let price1Cumulative = price1CumulativeLast;
+  const timeElapsed = (timestamp - timestampLast + UINT32_MODULUS) % UINT32_MODULUS;
+  if (timeElapsed > 0n && reserve0 !== 0n && reserve1 !== 0n) {
+    price0Cumulative =
+      (price0Cumulative + ((reserve1 * Q112) / reserve0) * timeElapsed) % UINT256_MODULUS;
+    price1Cumulative =
+      (price1Cumulative + ((reserve0 * Q112) / reserve1) * timeElapsed) % UINT256_MODULUS;
+  }
+
+  return { timestamp, price0Cumulative, price1Cumulative };
+};
+
+/**
+ * Time-weighted average prices between two observations of the same pool. Handles wrap-around
+ * of both the uint256 accumulators and the uint32 timestamps.
+ * @param older Observation at the start of the window
+ * @param newer Observation at the end of the window
+ */
+export const computeTwap = (older: Observation, newer: Observation): Twap => {
+  const timeElapsed = (newer.timestamp - older.timestamp + UINT32_MODULUS) % UINT32_MODULUS;
+  if (timeElapsed === 0n) {
+    throw new Error("TWAP: observations are from the same second");
+  }
+  const delta0 =
+    (newer.price0Cumulative - older.price0Cumulative + UINT256_MODULUS) % UINT256_MODULUS;
+  const delta1 =
+    (newer.price1Cumulative - older.price1Cumulative + UINT256_MODULUS) % UINT256_MODULUS;
+  return {
+    price0: (delta0 * PRICE_SCALE) / timeElapsed / Q112,
+    price1: (delta1 * PRICE_SCALE) / timeElapsed / Q112,
+    timeElapsed,
+  };
+};
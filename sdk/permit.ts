@@ -0,0 +1,81 @@
+import { Signature, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { LPToken } from "../typechain-types";
+
+/** EIP-2612 `Permit` struct, as `ERC20Permit` hashes it. */
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/** A signed permit, split into the arguments `permit` and `removeLiquidityWithPermit` take. */
+export interface PermitSignature {
+  owner: string;
+  spender: string;
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Builds the EIP-712 typed data of a permit for an LP token. The domain is read from the token
+ * (EIP-5267) and the nonce is the owner's current one, so the permit is only valid until the
+ * owner's next permit is used.
+ * @param lpToken LP token of the pool
+ * @param owner Holder of the LP tokens
+ * @param spender Account allowed to spend them, e.g. a router or relayer
+ * @param value Amount of LP tokens approved
+ * @param deadline Unix timestamp after which the permit is rejected
+ */
+export const buildPermit = async (
+  lpToken: LPToken,
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<{ domain: TypedDataDomain; types: typeof PERMIT_TYPES; message: PermitMessage }> => {
+  const [[, name, version, chainId, verifyingContract], nonce] = await Promise.all([
+    lpToken.eip712Domain(),
+    lpToken.nonces(owner),
+  ]);
+  return {
+    domain: { name, version, chainId, verifyingContract },
+    types: PERMIT_TYPES,
+    message: { owner, spender, value, nonce, deadline },
+  };
+};
+
+/**
+ * Signs a permit for an LP token with the holder's key
+ * @param lpToken LP token of the pool
+ * @param signer Holder of the LP tokens
+ * @param spender Account allowed to spend them, e.g. a router or relayer
+ * @param value Amount of LP tokens approved
+ * @param deadline Unix timestamp after which the permit is rejected
+ */
+export const signPermit = async (
+  lpToken: LPToken,
+  signer: Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitSignature> => {
+  const owner = await signer.getAddress();
+  const { domain, types, message } = await buildPermit(lpToken, owner, spender, value, deadline);
+  const { v, r, s } = Signature.from(await signer.signTypedData(domain, types, message));
+  return { owner, spender, value, deadline, v, r, s };
+};
@@ -0,0 +1,137 @@
+import { ContractRunner } from "ethers";
+import { AMM__factory, AMMFactory__factory } from "../typechain-types";
+import { getAmountOut } from "./math";
+
+export interface PoolSnapshot {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  /** Swap fee of the pool in basis points */
+  swapFee: bigint;
+}
+
+export interface Route {
+  /** Tokens traded through, starting with tokenIn and ending with tokenOut */
+  path: string[];
+  /** Pool used for each hop */
+  pools: string[];
+  /** Input amount followed by the output of each hop, as AMMRouter.getAmountsOut returns them */
+  amounts: bigint[];
+  amountOut: bigint;
+}
+
+/**
+ * Reads every pool registered in an AMMFactory together with its current reserves
+ * @param factoryAddress Address of a deployed AMMFactory
+ * @param runner Provider or signer to read with
+ */
+export const fetchPools = async (
+  factoryAddress: string,
+  runner: ContractRunner
+): Promise<PoolSnapshot[]> => {
+  const factory = AMMFactory__factory.connect(factoryAddress, runner);
+  const count = await factory.allPoolsLength();
+  const addresses = await Promise.all(
+    Array.from({ length: Number(count) }, (_, i) => factory.allPools(i))
+  );
+  return Promise.all(
+    addresses.map(async address => {
+      const pool = AMM__factory.connect(address, runner);
+      const [token0, token1, [reserve0, reserve1], swapFee] = await Promise.all([
+        pool.token0(),
+        pool.token1(),
+        pool.getReserves(),
+        pool.swapFee(),
+      ]);
+      return { address, token0, token1, reserve0, reserve1, swapFee };
+    })
+  );
+};
+
+/**
+ * Finds the exact-input route from `tokenIn` to `tokenOut` with the largest output.
+ *
+ * Every simple path of at most `maxHops` pools is priced with the same math as `AMM.sol`, so the
+ * returned amounts match what AMMRouter would execute against the same reserves. Ties go to the
+ * route with fewer hops.
+ *
+ * @param pools Pool snapshots, e.g. from fetchPools
+ * @param tokenIn Address of the input token
+ * @param tokenOut Address of the output token
+ * @param amountIn Amount of input token
+ * @param maxHops Maximum number of pools to trade through
+ * @return The best route, or undefined if no route can fill the trade
+ */
+export const findBestRoute = (
+  pools: PoolSnapshot[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  maxHops = 3
+): Route | undefined => {
+  if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+    return undefined;
+  }
+
+  const poolsByToken = new Map<string, PoolSnapshot[]>();
+  for (const pool of pools) {
+    for (const token of [pool.token0, pool.token1]) {
+      const key = token.toLowerCase();
+      poolsByToken.set(key, [...(poolsByToken.get(key) ?? []), pool]);
+    }
+  }
+
+  const target = tokenOut.toLowerCase();
+  let best: Route | undefined;
+
+  const visit = (token: string, route: Route, visited: Set<string>) => {
+    if (token.toLowerCase() === target) {
+      if (
+        best === undefined ||
+        route.amountOut > best.amountOut ||
+        (route.amountOut === best.amountOut && route.pools.length < best.pools.length)
+      ) {
+        best = route;
+      }
+      return;
+    }
+    if (route.pools.length === maxHops) {
+      return;
+    }
+    for (const pool of poolsByToken.get(token.toLowerCase()) ?? []) {
+      const zeroForOne = pool.token0.toLowerCase() === token.toLowerCase();
+      const next = zeroForOne ? pool.token1 : pool.token0;
+      if (visited.has(next.toLowerCase())) {
+        continue;
+      }
+      let amountOut: bigint;
+      try {
+        amountOut = zeroForOne
+          ? getAmountOut(route.amountOut, pool.reserve0, pool.reserve1, pool.swapFee)
+          : getAmountOut(route.amountOut, pool.reserve1, pool.reserve0, pool.swapFee);
+      } catch {
+        // Empty pool or output rounds to zero: the hop cannot be traded
+        continue;
+      }
+      visit(
+        next,
+        {
+          path: [...route.path, next],
+          pools: [...route.pools, pool.address],
+          amounts: [...route.amounts, amountOut],
+          amountOut,
+        },
+        new Set(visited).add(next.toLowerCase())
+      );
+    }
+  };
+
+  visit(
+    tokenIn,
+    { path: [tokenIn], pools: [], amounts: [amountIn], amountOut: amountIn },
+    new Set([tokenIn.toLowerCase()])
+  );
+  return best;
+};
@@ -0,0 +1,402 @@
+import { parseUnits } from "ethers";
+import { AmmClient } from "./AmmClient";
+import {
+  FEE_DENOMINATOR,
+  getAmountOut,
+  getExecutionPrice,
+  getPriceImpact,
+  getSpotPrice,
+  PRICE_SCALE,
+  sqrt,
+} from "./math";
+
+/** External price of token0 in token1 at a point in time. */
+export interface PricePoint {
+  /** Unix timestamp in seconds */
+  timestamp: number;
+  /** Price of token0 in token1, both in base units, scaled by PRICE_SCALE */
+  price: bigint;
+}
+
+/** The trade that moves a pool's price to an external price, and what the arbitrageur makes. */
+export interface ArbitrageTrade {
+  /** Whether token0 is sold to the pool */
+  zeroForOne: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Output minus input valued at the external price, in token1 */
+  profit: bigint;
+}
+
+export interface SimulatedTrade extends ArbitrageTrade {
+  /** Index of the price the trade arbitraged */
+  step: number;
+  timestamp: number;
+  /** Swap fee charged on the input, in the input token */
+  fee: bigint;
+  /** Reserves after the trade */
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/** Pool state and the liquidity provider's position after arbitraging one price. */
+export interface SimulationPoint {
+  timestamp: number;
+  /** External price of token0 in token1, scaled by PRICE_SCALE */
+  price: bigint;
+  /** Spot price of token0 in token1 in the pool, scaled by PRICE_SCALE */
+  poolPrice: bigint;
+  reserve0: bigint;
+  reserve1: bigint;
+  /** The pool's reserves valued in token1 at the external price */
+  lpValue: bigint;
+  /** The initial reserves, had they been held instead, valued in token1 at the external price */
+  hodlValue: bigint;
+  /** Fees earned so far, each valued in token1 at the price it was charged at */
+  feeValue: bigint;
+  /**
+   * Loss of a fee-less constant-product position against HODL, scaled by PRICE_SCALE and never
+   * positive: 2 * sqrt(p / p0) / (1 + p / p0) - 1 for a price move from p0 to p
+   */
+  impermanentLoss: bigint;
+  /** lpValue against hodlValue, scaled by PRICE_SCALE: impermanent loss net of fees */
+  netReturn: bigint;
+}
+
+/** A trade of `sizeBps` of the input reserve and its cost. */
+export interface SlippagePoint {
+  sizeBps: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Output per input, scaled by PRICE_SCALE */
+  executionPrice: bigint;
+  /** Shortfall of the execution price against the spot price including the fee, see getPriceImpact */
+  priceImpact: bigint;
+}
+
+export interface SlippageCurves {
+  /** Selling token0 */
+  zeroForOne: SlippagePoint[];
+  /** Selling token1 */
+  oneForZero: SlippagePoint[];
+}
+
+export interface SimulationOptions {
+  /** token0 the pool is seeded with */
+  reserve0: bigint;
+  /** token1 the pool is seeded with */
+  reserve1: bigint;
+  /** Swap fee in basis points */
+  swapFee: bigint;
+  /** Least profit in token1 the arbitrageur trades for, e.g. to cover gas (default 0) */
+  minProfit?: bigint;
+  /** Trade sizes of the slippage curves, in basis points of the input reserve */
+  slippageSizesBps?: bigint[];
+}
+
+export interface Simulation {
+  /** Initial reserves */
+  reserve0: bigint;
+  reserve1: bigint;
+  swapFee: bigint;
+  trades: SimulatedTrade[];
+  /** One point per price */
+  points: SimulationPoint[];
+  /** The last point */
+  final: SimulationPoint;
+  fees0: bigint;
+  fees1: bigint;
+  /** Total arbitrage profit in token1, what the LPs paid for keeping the pool at the market price */
+  arbitrageProfit: bigint;
+  slippage: { initial: SlippageCurves; final: SlippageCurves };
+}
+
+/** A replayed trade whose on-chain result differs from the simulation. */
+export interface ReplayMismatch {
+  /** Index into Simulation.trades, or -1 for the seeding deposit */
+  trade: number;
+  field: "amountOut" | "reserve0" | "reserve1";
+  simulated: bigint;
+  onChain: bigint;
+}
+
+export const DEFAULT_SLIPPAGE_SIZES_BPS = [10n, 50n, 100n, 500n, 1_000n];
+
+/**
+ * Parses a price series. Each line holds a timestamp and the price of token0 in token1 in whole
+ * tokens, e.g. `1700000000,2000.5`. An optional header names the columns: `timestamp` (or `time`,
+ * `date`) and `price`, in any order and among other columns. Timestamps are Unix seconds or
+ * dates `Date.parse` understands. Empty lines and lines starting with `#` are skipped.
+ * @param csv CSV text
+ * @param decimals0 Decimals of token0 (default 18)
+ * @param decimals1 Decimals of token1 (default 18)
+ */
+export const parsePriceCsv = (csv: string, decimals0 = 18, decimals1 = 18): PricePoint[] => {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((text, i) => ({ line: i + 1, cells: text.split(",").map(cell => cell.trim()) }))
+    .filter(({ cells }) => cells.join("") !== "" && !cells[0].startsWith("#"));
+
+  let timeColumn = 0;
+  let priceColumn = 1;
+  const header = rows[0]?.cells.map(cell => cell.toLowerCase());
+  if (header?.includes("price")) {
+    priceColumn = header.indexOf("price");
+    timeColumn = header.findIndex(name => ["timestamp", "time", "date"].includes(name));
+    if (timeColumn < 0) {
+      throw new Error("Simulator: the CSV header has no timestamp column");
+    }
+    rows.shift();
+  }
+  if (rows.length === 0) {
+    throw new Error("Simulator: no prices in CSV");
+  }
+
+  const points: PricePoint[] = [];
+  for (const { line, cells } of rows) {
+    const time = cells[timeColumn] ?? "";
+    const timestamp = /^\d+$/.test(time) ? Number(time) : Math.floor(Date.parse(time) / 1000);
+    if (!Number.isFinite(timestamp)) {
+      throw new Error(`Simulator: line ${line}: invalid timestamp "${time}"`);
+    }
+    if (points.length > 0 && timestamp < points[points.length - 1].timestamp) {
+      throw new Error(`Simulator: line ${line}: timestamps must not decrease`);
+    }
+
+    let price: bigint;
+    try {
+      // Base units of token1 per base unit of token0, scaled by PRICE_SCALE
+      price = parseUnits(cells[priceColumn] ?? "", 18 + decimals1 - decimals0);
+    } catch {
+      throw new Error(`Simulator: line ${line}: invalid price "${cells[priceColumn] ?? ""}"`);
+    }
+    if (price <= 0n) {
+      throw new Error(`Simulator: line ${line}: price must be positive`);
+    }
+    points.push({ timestamp, price });
+  }
+  return points;
+};
+
+/**
+ * The swap that brings the pool's price closest to `price` for the most profit, or undefined if
+ * the price is within the fee of the pool's. Trading stops where the output of the next unit of
+ * input, after the fee, is worth exactly that unit at the external price, which leaves the pool's
+ * spot price within the fee of `price`.
+ * @param reserve0 Reserve of token0
+ * @param reserve1 Reserve of token1
+ * @param price External price of token0 in token1, scaled by PRICE_SCALE
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const getArbitrageTrade = (
+  reserve0: bigint,
+  reserve1: bigint,
+  price: bigint,
+  swapFee: bigint
+): ArbitrageTrade | undefined => {
+  const k = reserve0 * reserve1;
+  const feeFactor = FEE_DENOMINATOR - swapFee;
+  const poolPrice = getSpotPrice(reserve0, reserve1);
+
+  let zeroForOne: boolean;
+  let amountIn: bigint;
+  if (poolPrice < price) {
+    // token0 is cheap in the pool: buy it with token1
+    const target1 = sqrt((k * price * feeFactor) / (PRICE_SCALE * FEE_DENOMINATOR));
+    zeroForOne = false;
+    amountIn = ((target1 - reserve1) * FEE_DENOMINATOR) / feeFactor;
+  } else {
+    // token0 is dear in the pool: sell it for token1
+    const target0 = sqrt((k * feeFactor * PRICE_SCALE) / (price * FEE_DENOMINATOR));
+    zeroForOne = true;
+    amountIn = ((target0 - reserve0) * FEE_DENOMINATOR) / feeFactor;
+  }
+  if (amountIn <= 0n) {
+    return undefined;
+  }
+
+  const [reserveIn, reserveOut] = zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+  let amountOut: bigint;
+  try {
+    amountOut = getAmountOut(amountIn, reserveIn, reserveOut, swapFee);
+  } catch {
+    return undefined;
+  }
+  const profit = zeroForOne
+    ? amountOut - (amountIn * price) / PRICE_SCALE
+    : (amountOut * price) / PRICE_SCALE - amountIn;
+  return { zeroForOne, amountIn, amountOut, profit };
+};
+
+/**
+ * Output, execution price and price impact of trades sized as fractions of the input reserve
+ * @param reserveIn Reserve of the input token
+ * @param reserveOut Reserve of the output token
+ * @param swapFee Swap fee of the pool in basis points
+ * @param sizesBps Trade sizes in basis points of reserveIn
+ */
+export const getSlippageCurve = (
+  reserveIn: bigint,
+  reserveOut: bigint,
+  swapFee: bigint,
+  sizesBps: bigint[] = DEFAULT_SLIPPAGE_SIZES_BPS
+): SlippagePoint[] => {
+  const spotPrice = getSpotPrice(reserveIn, reserveOut);
+  return sizesBps.map(sizeBps => {
+    const amountIn = (reserveIn * sizeBps) / FEE_DENOMINATOR;
+    const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, swapFee);
+    const executionPrice = getExecutionPrice(amountIn, amountOut);
+    return {
+      sizeBps,
+      amountIn,
+      amountOut,
+      executionPrice,
+      priceImpact: getPriceImpact(spotPrice, executionPrice),
+    };
+  });
+};
+
+/**
+ * Backtests a pool against a price series. The pool is seeded with the given reserves, all of
+ * them owned by one liquidity provider, and an arbitrageur trades it towards every price in turn
+ * whenever that makes more than `minProfit`. Trades use the same integer math as `AMM.sol`, so
+ * the trade list can be replayed against a deployed pool with replayTrades.
+ * @param prices External prices, e.g. from parsePriceCsv
+ * @param options Initial reserves, fee and arbitrage threshold
+ */
+export const simulate = (prices: PricePoint[], options: SimulationOptions): Simulation => {
+  const { swapFee } = options;
+  const minProfit = options.minProfit ?? 0n;
+  const sizes = options.slippageSizesBps ?? DEFAULT_SLIPPAGE_SIZES_BPS;
+  if (prices.length === 0) {
+    throw new Error("Simulator: no prices to simulate");
+  }
+  if (options.reserve0 <= 0n || options.reserve1 <= 0n) {
+    throw new Error("Simulator: both initial reserves must be positive");
+  }
+  if (swapFee < 0n || swapFee >= FEE_DENOMINATOR) {
+    throw new Error(`Simulator: swap fee must be below ${FEE_DENOMINATOR} bps`);
+  }
+
+  const curves = (reserve0: bigint, reserve1: bigint): SlippageCurves => ({
+    zeroForOne: getSlippageCurve(reserve0, reserve1, swapFee, sizes),
+    oneForZero: getSlippageCurve(reserve1, reserve0, swapFee, sizes),
+  });
+  const initial = curves(options.reserve0, options.reserve1);
+  const k0 = options.reserve0 * options.reserve1;
+
+  let { reserve0, reserve1 } = options;
+  let fees0 = 0n;
+  let fees1 = 0n;
+  let feeValue = 0n;
+  let arbitrageProfit = 0n;
+  const trades: SimulatedTrade[] = [];
+  const points: SimulationPoint[] = [];
+
+  prices.forEach(({ timestamp, price }, step) => {
+    const trade = getArbitrageTrade(reserve0, reserve1, price, swapFee);
+    if (trade && trade.profit > minProfit) {
+      // What AMM.getAmountOut keeps of the input, so the fee rounds up as it does on chain
+      const fee = trade.amountIn - (trade.amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+      if (trade.zeroForOne) {
+        reserve0 += trade.amountIn;
+        reserve1 -= trade.amountOut;
+        fees0 += fee;
+        feeValue += (fee * price) / PRICE_SCALE;
+      } else {
+        reserve0 -= trade.amountOut;
+        reserve1 += trade.amountIn;
+        fees1 += fee;
+        feeValue += fee;
+      }
+      arbitrageProfit += trade.profit;
+      trades.push({ ...trade, step, timestamp, fee, reserve0, reserve1 });
+    }
+
+    const lpValue = (reserve0 * price) / PRICE_SCALE + reserve1;
+    const hodlValue = (options.reserve0 * price) / PRICE_SCALE + options.reserve1;
+    const constantProductValue = 2n * sqrt((k0 * price) / PRICE_SCALE);
+    points.push({
+      timestamp,
+      price,
+      poolPrice: getSpotPrice(reserve0, reserve1),
+      reserve0,
+      reserve1,
+      lpValue,
+      hodlValue,
+      feeValue,
+      impermanentLoss: ((constantProductValue - hodlValue) * PRICE_SCALE) / hodlValue,
+      netReturn: ((lpValue - hodlValue) * PRICE_SCALE) / hodlValue,
+    });
+  });
+
+  return {
+    reserve0: options.reserve0,
+    reserve1: options.reserve1,
+    swapFee,
+    trades,
+    points,
+    final: points[points.length - 1],
+    fees0,
+    fees1,
+    arbitrageProfit,
+    slippage: { initial, final: curves(reserve0, reserve1) },
+  };
+};
+
+/**
+ * Replays a simulation's trades against a deployed pool to validate the model: seeds the pool
+ * with the simulation's initial reserves, then executes every trade as an exact-input swap and
+ * compares its output and the reserves after it with the simulated ones
+ * @param client Client for an empty pool with the simulation's fee, connected to a signer that
+ * holds the initial reserves plus every trade's input
+ * @param simulation Simulation to replay
+ * @return Every difference found, none if the model matched the pool to the wei
+ */
+export const replayTrades = async (
+  client: AmmClient,
+  simulation: Simulation
+): Promise<ReplayMismatch[]> => {
+  const state = await client.getPoolState();
+  if (state.reserve0 !== 0n || state.reserve1 !== 0n) {
+    throw new Error(`Simulator: ${client.address} already holds liquidity`);
+  }
+  if (client.swapFee !== simulation.swapFee) {
+    throw new Error(
+      `Simulator: ${client.address} charges ${client.swapFee} bps, ` +
+        `the simulation ${simulation.swapFee} bps`
+    );
+  }
+
+  const mismatches: ReplayMismatch[] = [];
+  const compareReserves = async (trade: number, reserve0: bigint, reserve1: bigint) => {
+    const onChain = await client.getPoolState();
+    if (onChain.reserve0 !== reserve0) {
+      mismatches.push({ trade, field: "reserve0", simulated: reserve0, onChain: onChain.reserve0 });
+    }
+    if (onChain.reserve1 !== reserve1) {
+      mismatches.push({ trade, field: "reserve1", simulated: reserve1, onChain: onChain.reserve1 });
+    }
+  };
+
+  await client.addLiquidity(simulation.reserve0, simulation.reserve1);
+  await compareReserves(-1, simulation.reserve0, simulation.reserve1);
+
+  for (const [i, trade] of simulation.trades.entries()) {
+    const tokenIn = trade.zeroForOne ? client.token0Address : client.token1Address;
+    const receipt = await client.swap(tokenIn, trade.amountIn);
+    for (const log of receipt.logs) {
+      const event = client.amm.interface.parseLog(log);
+      if (event?.name === "SwapExecuted" && event.args.amountOut !== trade.amountOut) {
+        mismatches.push({
+          trade: i,
+          field: "amountOut",
+          simulated: trade.amountOut,
+          onChain: event.args.amountOut,
+        });
+      }
+    }
+    await compareReserves(i, trade.reserve0, trade.reserve1);
+  }
+  return mismatches;
+};
@@ -0,0 +1,191 @@
+/**
+ * Reference implementation of the invariant in `contracts/StableSwapAMM.sol`.
+ *
+ * Balances enter the invariant scaled to 18 decimals by a per-token rate of 10^(18 - decimals).
+ * The solvers iterate and round exactly like the contract, so quotes match the pool to the wei.
+ */
+import { FEE_DENOMINATOR, PRICE_SCALE } from "./math";
+
+/** Newton iterations after which the solvers give up, as in the contract. */
+const MAX_ITERATIONS = 255;
+
+const within1 = (a: bigint, b: bigint): boolean => (a > b ? a - b <= 1n : b - a <= 1n);
+
+const ceilDiv = (a: bigint, b: bigint): bigint => (a === 0n ? 0n : (a - 1n) / b + 1n);
+
+/** Multiplier scaling amounts of a token with `decimals` decimals to 18 decimals. */
+export const getStableRate = (decimals: number | bigint): bigint => {
+  if (BigInt(decimals) > 18n) {
+    throw new Error("StableSwapAMM: unsupported decimals");
+  }
+  return 10n ** (18n - BigInt(decimals));
+};
+
+/**
+ * Invariant D of two scaled balances, identical to `StableSwapAMM.getD`: the solution of
+ * A * 4 * (x + y) + D = A * 4 * D + D^3 / (4 * x * y) by Newton's method
+ * @param amplification Amplification coefficient A of the pool
+ */
+export const getStableD = (x: bigint, y: bigint, amplification: bigint): bigint => {
+  const sum = x + y;
+  if (sum === 0n) {
+    return 0n;
+  }
+  const ann = amplification * 4n;
+  let d = sum;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const dP = (((d * d) / (x * 2n)) * d) / (y * 2n);
+    const previous = d;
+    d = ((ann * sum + dP * 2n) * d) / ((ann - 1n) * d + dP * 3n);
+    if (within1(d, previous)) {
+      return d;
+    }
+  }
+  throw new Error("StableSwapAMM: no convergence");
+};
+
+/**
+ * Scaled balance of one token that keeps the invariant at `d` given the other's scaled balance
+ * `x`, identical to `StableSwapAMM.getY`
+ * @param amplification Amplification coefficient A of the pool
+ */
+export const getStableY = (x: bigint, d: bigint, amplification: bigint): bigint => {
+  const ann = amplification * 4n;
+  const c = (((d * d) / (x * 2n)) * d) / (ann * 2n);
+  const b = x + d / ann;
+  let y = d;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const previous = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (within1(y, previous)) {
+      return y;
+    }
+  }
+  throw new Error("StableSwapAMM: no convergence");
+};
+
+/**
+ * Output of a swap along the invariant `d` of the scaled reserves, identical to
+ * `StableSwapAMM._outputOf`; 0 if the input buys less than one unit
+ */
+const outputOf = (
+  amountIn: bigint,
+  xIn: bigint,
+  xOut: bigint,
+  d: bigint,
+  amplification: bigint,
+  swapFee: bigint,
+  rateIn: bigint,
+  rateOut: bigint
+): bigint => {
+  const amountInAfterFee = (amountIn * (FEE_DENOMINATOR - swapFee)) / FEE_DENOMINATOR;
+  const y = getStableY(xIn + amountInAfterFee * rateIn, d, amplification) + 1n;
+  return y < xOut ? (xOut - y) / rateOut : 0n;
+};
+
+/**
+ * Output of an exact-input swap on a StableSwap pool, identical to `StableSwapAMM.getAmountOut`
+ * @param amountIn Amount of input token
+ * @param reserveIn Reserve of the input token
+ * @param reserveOut Reserve of the output token
+ * @param amplification Amplification coefficient A of the pool
+ * @param swapFee Swap fee of the pool in basis points
+ * @param rateIn Scaling rate of the input token, from `getStableRate`
+ * @param rateOut Scaling rate of the output token, from `getStableRate`
+ */
+export const getStableAmountOut = (
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amplification: bigint,
+  swapFee: bigint,
+  rateIn = 1n,
+  rateOut = 1n
+): bigint => {
+  if (amountIn <= 0n) {
+    throw new Error("StableSwapAMM: invalid amount");
+  }
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("StableSwapAMM: insufficient liquidity");
+  }
+  const xIn = reserveIn * rateIn;
+  const xOut = reserveOut * rateOut;
+  const d = getStableD(xIn, xOut, amplification);
+  const amountOut = outputOf(amountIn, xIn, xOut, d, amplification, swapFee, rateIn, rateOut);
+  if (amountOut <= 0n || amountOut >= reserveOut) {
+    throw new Error("StableSwapAMM: insufficient output");
+  }
+  return amountOut;
+};
+
+/**
+ * Input an exact-output swap on a StableSwap pool needs, identical to `StableSwapAMM.getAmountIn`:
+ * the invariant solved backwards, then stepped up one unit at a time until the exact-input quote
+ * reaches `amountOut`. Where the curve is steep it can exceed the least sufficient input by a few
+ * units.
+ * @param amountOut Desired amount of output token
+ * @param reserveIn Reserve of the input token
+ * @param reserveOut Reserve of the output token
+ * @param amplification Amplification coefficient A of the pool
+ * @param swapFee Swap fee of the pool in basis points
+ * @param rateIn Scaling rate of the input token, from `getStableRate`
+ * @param rateOut Scaling rate of the output token, from `getStableRate`
+ */
+export const getStableAmountIn = (
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amplification: bigint,
+  swapFee: bigint,
+  rateIn = 1n,
+  rateOut = 1n
+): bigint => {
+  if (amountOut <= 0n) {
+    throw new Error("StableSwapAMM: invalid amount");
+  }
+  const xIn = reserveIn * rateIn;
+  const xOut = reserveOut * rateOut;
+  if (xIn <= 0n || amountOut * rateOut + 1n >= xOut) {
+    throw new Error("StableSwapAMM: insufficient liquidity");
+  }
+  const d = getStableD(xIn, xOut, amplification);
+  // The invariant is symmetric, so getStableY also solves for the input balance
+  const x = getStableY(xOut - amountOut * rateOut - 1n, d, amplification);
+  const amountInAfterFee = x > xIn ? ceilDiv(x - xIn, rateIn) : 0n;
+  let amountIn = ceilDiv(amountInAfterFee * FEE_DENOMINATOR, FEE_DENOMINATOR - swapFee);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (outputOf(amountIn, xIn, xOut, d, amplification, swapFee, rateIn, rateOut) >= amountOut) {
+      return amountIn;
+    }
+    amountIn++;
+  }
+  throw new Error("StableSwapAMM: no convergence");
+};
+
+/**
+ * Marginal price of the input token in the output token on a StableSwap pool, before the fee,
+ * scaled by PRICE_SCALE. It is the slope of the invariant, which stays near the rates' ratio
+ * while the pool is balanced and tends to reserveOut / reserveIn as A falls.
+ * @param reserveIn Reserve of the input token
+ * @param reserveOut Reserve of the output token
+ * @param amplification Amplification coefficient A of the pool
+ * @param rateIn Scaling rate of the input token, from `getStableRate`
+ * @param rateOut Scaling rate of the output token, from `getStableRate`
+ */
+export const getStableSpotPrice = (
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amplification: bigint,
+  rateIn = 1n,
+  rateOut = 1n
+): bigint => {
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error("StableSwapAMM: insufficient liquidity");
+  }
+  const x = reserveIn * rateIn;
+  const y = reserveOut * rateOut;
+  const d3 = getStableD(x, y, amplification) ** 3n;
+  // -dy/dx of A * 4 * (x + y) + D = A * 4 * D + D^3 / (4 * x * y), times 4 * x^2 * y^2
+  const flat = amplification * 16n * x * x * y * y;
+  return (PRICE_SCALE * (flat + d3 * y) * rateIn) / ((flat + d3 * x) * rateOut);
+};
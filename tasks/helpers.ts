@@ -0,0 +1,214 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { AmmClient } from "../sdk";
+import { getPool } from "../sdk/deployments";
+
+/** Pool token as the tasks display it. */
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/** A pool client bound to the default signer, with both tokens' metadata. */
+export interface PoolContext {
+  client: AmmClient;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  signer: string;
+}
+
+/**
+ * Flat task output, printed as a table or as JSON with `--json`. Amounts are decimal strings in
+ * whole tokens; the pool's token symbols are part of every result.
+ */
+export type TaskResult = Record<string, string | boolean>;
+
+/** Slippage tolerance applied when a task is not given `--slippage`, in basis points. */
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+/**
+ * Connects to a pool with the network's first signer and loads token metadata. The SDK is
+ * imported lazily because it depends on typechain output, which does not exist until the config
+ * (and these tasks with it) has been loaded once to compile.
+ * @param hre Hardhat runtime environment
+ * @param pool Address of the AMM, or its name in the network's deployment manifest
+ */
+export const loadPool = async (
+  hre: HardhatRuntimeEnvironment,
+  pool: string
+): Promise<PoolContext> => {
+  const { ethers } = hre;
+  if (!ethers.isAddress(pool)) {
+    pool = getPool(hre.network.name, pool).address;
+  }
+  if ((await ethers.provider.getCode(pool)) === "0x") {
+    throw new Error(`Tasks: no contract at ${pool} on ${hre.network.name}`);
+  }
+
+  const { AmmClient } = await import("../sdk");
+  const [signer] = await ethers.getSigners();
+  const client = await AmmClient.connect(pool, signer);
+  const [token0, token1] = await Promise.all([
+    loadToken(hre, client.token0Address),
+    loadToken(hre, client.token1Address),
+  ]);
+  return { client, token0, token1, signer: signer.address };
+};
+
+const loadToken = async (hre: HardhatRuntimeEnvironment, address: string): Promise<TokenInfo> => {
+  const { IERC20Metadata__factory } = await import("../typechain-types");
+  const token = IERC20Metadata__factory.connect(address, hre.ethers.provider);
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { address, symbol, decimals: Number(decimals) };
+};
+
+/**
+ * Finds a pool token by address or (case-insensitive) symbol
+ * @param context Loaded pool
+ * @param token Address or symbol
+ * @return The token and the other token of the pair
+ */
+export const resolveToken = (context: PoolContext, token: string): [TokenInfo, TokenInfo] => {
+  const { token0, token1 } = context;
+  const matches = (info: TokenInfo) =>
+    info.address.toLowerCase() === token.toLowerCase() ||
+    info.symbol.toLowerCase() === token.toLowerCase();
+  if (matches(token0) && matches(token1)) {
+    throw new Error(`Tasks: ${token} is ambiguous, pass the token address`);
+  }
+  if (matches(token0)) {
+    return [token0, token1];
+  }
+  if (matches(token1)) {
+    return [token1, token0];
+  }
+  throw new Error(`Tasks: ${token} is not ${token0.symbol} or ${token1.symbol}`);
+};
+
+/**
+ * Parses a human-readable amount such as "1.5" into base units
+ * @param hre Hardhat runtime environment
+ * @param amount Decimal string
+ * @param decimals Token decimals
+ */
+export const parseAmount = (
+  hre: HardhatRuntimeEnvironment,
+  amount: string,
+  decimals: number
+): bigint => {
+  const parsed = hre.ethers.parseUnits(amount, decimals);
+  if (parsed <= 0n) {
+    throw new Error(`Tasks: amount must be positive, got ${amount}`);
+  }
+  return parsed;
+};
+
+/** Formats base units of `token` in whole tokens, e.g. "1.5". */
+export const formatAmount = (
+  hre: HardhatRuntimeEnvironment,
+  amount: bigint,
+  token: TokenInfo
+): string => hre.ethers.formatUnits(amount, token.decimals);
+
+/**
+ * Formats a PRICE_SCALE price of `base` in `quote`, both in base units, as whole `quote` tokens
+ * per whole `base` token
+ */
+export const formatPrice = (
+  hre: HardhatRuntimeEnvironment,
+  price: bigint,
+  base: TokenInfo,
+  quote: TokenInfo
+): string => {
+  const adjusted = (price * 10n ** BigInt(base.decimals)) / 10n ** BigInt(quote.decimals);
+  return hre.ethers.formatUnits(adjusted, 18);
+};
+
+/** Formats a PRICE_SCALE fraction as a percentage. */
+export const formatPercent = (hre: HardhatRuntimeEnvironment, fraction: bigint): string =>
+  `${hre.ethers.formatUnits(fraction * 100n, 18)}%`;
+
+/** Arguments shared by `amm:quote` and `amm:swap`. */
+export interface SwapArgs {
+  pool: string;
+  tokenIn: string;
+  amountIn?: string;
+  amountOut?: string;
+  slippage: number;
+  json: boolean;
+}
+
+/**
+ * Whether swap arguments ask for an exact-input trade; exactly one amount must be given
+ * @param args Parsed task arguments
+ */
+export const exactInput = ({ amountIn, amountOut }: Pick<SwapArgs, "amountIn" | "amountOut">) => {
+  if ((amountIn === undefined) === (amountOut === undefined)) {
+    throw new Error("Tasks: pass exactly one of --amount-in and --amount-out");
+  }
+  return amountIn !== undefined;
+};
+
+/**
+ * Upper limit for an input amount, the counterpart of the SDK's `applySlippage`
+ * @param amount Quoted input amount
+ * @param slippageBps Tolerance in basis points
+ */
+export const addSlippage = (amount: bigint, slippageBps: bigint): bigint =>
+  (amount * (10_000n + slippageBps)) / 10_000n;
+
+/**
+ * Validates a `--slippage` value in basis points
+ * @param slippage Tolerance in basis points
+ */
+export const parseSlippage = (slippage: number): bigint => {
+  if (!Number.isInteger(slippage) || slippage < 0 || slippage > 10_000) {
+    throw new Error(`Tasks: slippage must be between 0 and 10000 bps, got ${slippage}`);
+  }
+  return BigInt(slippage);
+};
+
+/**
+ * Unix timestamp `seconds` after the latest block
+ * @param hre Hardhat runtime environment
+ * @param seconds Validity window
+ */
+export const deadlineIn = async (hre: HardhatRuntimeEnvironment, seconds: number) => {
+  const block = await hre.ethers.provider.getBlock("latest");
+  if (!block) {
+    throw new Error("Tasks: unable to read the latest block");
+  }
+  return BigInt(block.timestamp + seconds);
+};
+
+/**
+ * Whether the signer has approved the pool for at least `amount` of `token`
+ * @param context Loaded pool
+ * @param token Token to check
+ * @param amount Amount the pool must be able to pull
+ */
+export const hasAllowance = async (
+  context: PoolContext,
+  token: TokenInfo,
+  amount: bigint
+): Promise<boolean> => {
+  const { client, signer } = context;
+  const erc20 = token.address === client.token0Address ? client.token0 : client.token1;
+  return (await erc20.allowance(signer, client.address)) >= amount;
+};
+
+/**
+ * Prints a task result as a two-column table, or as a single line of JSON
+ * @param result Values to print, already formatted
+ * @param json Whether `--json` was passed
+ */
+export const printResult = (result: TaskResult, json: boolean): void => {
+  if (json) {
+    console.log(JSON.stringify(result));
+    return;
+  }
+  const width = Math.max(...Object.keys(result).map(key => key.length));
+  for (const [key, value] of Object.entries(result)) {
+    console.log(`${key.padEnd(width)}  ${value}`);
+  }
+};
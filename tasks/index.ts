@@ -0,0 +1,4 @@
+import "./pool";
+import "./trade";
+import "./simulate";
+import "./monitor";
@@ -0,0 +1,88 @@
+import { task, types } from "hardhat/config";
+import type { Alert, AlertSink, MonitorRule } from "../sdk";
+import { loadPool } from "./helpers";
+
+interface MonitorArgs {
+  pool: string;
+  interval: number;
+  fromBlock?: number;
+  confirmations: number;
+  rules?: string;
+  driftBps?: number;
+  supplyDropBps?: number;
+  priceMoveBps?: number;
+  webhook?: string;
+  once: boolean;
+}
+
+task("amm:monitor", "Watches a pool and prints an alert per line of JSON when a rule fires")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addOptionalParam("interval", "Milliseconds between polls", 5000, types.int)
+  .addOptionalParam(
+    "fromBlock",
+    "First block to check (defaults to the next block)",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", 0, types.int)
+  .addOptionalParam("rules", "Comma-separated rules to evaluate (defaults to all)")
+  .addOptionalParam("driftBps", "Reserve drift threshold in basis points", undefined, types.int)
+  .addOptionalParam(
+    "supplyDropBps",
+    "LP supply drop threshold in basis points",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("priceMoveBps", "Price move threshold in basis points", undefined, types.int)
+  .addOptionalParam("webhook", "URL to POST every alert to as JSON")
+  .addFlag("once", "Check the blocks from --from-block to the latest one and exit")
+  .setAction(async (args: MonitorArgs, hre): Promise<Alert[]> => {
+    if (args.once && args.fromBlock === undefined) {
+      throw new Error("Tasks: --once needs --from-block");
+    }
+    const { jsonLinesSink, PoolMonitor, webhookSink } = await import("../sdk");
+    const { client } = await loadPool(hre, args.pool);
+    const monitor = await PoolMonitor.connect(client.address, hre.ethers.provider, {
+      rules: args.rules?.split(",").map(rule => rule.trim() as MonitorRule),
+      reserveDriftBps: args.driftBps,
+      supplyDropBps: args.supplyDropBps,
+      priceMoveBps: args.priceMoveBps,
+      fromBlock: args.fromBlock,
+      confirmations: args.confirmations,
+    });
+
+    // Alerts alone go to stdout, so it can be piped as JSON lines
+    const sinks: AlertSink[] = [jsonLinesSink(line => console.log(line))];
+    if (args.webhook) {
+      sinks.push(webhookSink(args.webhook));
+    }
+
+    if (args.once) {
+      const alerts = await monitor.poll();
+      for (const alert of alerts) {
+        for (const sink of sinks) {
+          await sink(alert);
+        }
+      }
+      return alerts;
+    }
+
+    console.error(
+      `Watching ${monitor.address} from block ${monitor.lastBlock + 1} ` +
+        `(${monitor.rules.join(", ")}), Ctrl-C to stop`
+    );
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.once("SIGINT", stop);
+    try {
+      await monitor.watch(sinks, {
+        intervalMs: args.interval,
+        signal: controller.signal,
+        onError: error =>
+          console.error(`Monitor: ${error instanceof Error ? error.message : String(error)}`),
+      });
+    } finally {
+      process.off("SIGINT", stop);
+    }
+    return [];
+  });
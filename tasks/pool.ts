@@ -0,0 +1,130 @@
+import { task, types } from "hardhat/config";
+import {
+  addSlippage,
+  DEFAULT_SLIPPAGE_BPS,
+  exactInput,
+  formatAmount,
+  formatPercent,
+  formatPrice,
+  loadPool,
+  parseAmount,
+  parseSlippage,
+  printResult,
+  resolveToken,
+  SwapArgs,
+  TaskResult,
+} from "./helpers";
+
+task("amm:reserves", "Prints a pool's tokens, reserves, prices and fees")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async ({ pool, json }: { pool: string; json: boolean }, hre) => {
+    const context = await loadPool(hre, pool);
+    const { client, token0, token1 } = context;
+    const state = await client.getPoolState();
+    const hasLiquidity = state.reserve0 > 0n && state.reserve1 > 0n;
+    const { price0, price1 } = hasLiquidity
+      ? await client.getPrice(state)
+      : { price0: 0n, price1: 0n };
+
+    const result: TaskResult = {
+      pool: client.address,
+      token0: token0.symbol,
+      token0Address: token0.address,
+      token1: token1.symbol,
+      token1Address: token1.address,
+      swapFeeBps: client.swapFee.toString(),
+      ...(client.stableSwap && { amplification: client.stableSwap.amplification.toString() }),
+      reserve0: formatAmount(hre, state.reserve0, token0),
+      reserve1: formatAmount(hre, state.reserve1, token1),
+      price0: hasLiquidity ? formatPrice(hre, price0, token0, token1) : "-",
+      price1: hasLiquidity ? formatPrice(hre, price1, token1, token0) : "-",
+      lpTotalSupply: hre.ethers.formatUnits(state.totalSupply, 18),
+      protocolFeeOn: state.feeOn,
+    };
+    printResult(result, json);
+    return result;
+  });
+
+task("amm:position", "Prints an account's LP balance and the tokens it is redeemable for")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addOptionalParam("account", "Account to inspect (defaults to the first signer)")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(
+    async ({ pool, account, json }: { pool: string; account?: string; json: boolean }, hre) => {
+      const context = await loadPool(hre, pool);
+      const { client, token0, token1 } = context;
+      const owner = account ?? context.signer;
+      const [liquidity, state] = await Promise.all([
+        client.lpToken.balanceOf(owner),
+        client.getPoolState(),
+      ]);
+      const { amount0, amount1 } =
+        liquidity > 0n
+          ? await client.quoteRemoveLiquidity(liquidity, state)
+          : { amount0: 0n, amount1: 0n };
+
+      const result: TaskResult = {
+        pool: client.address,
+        account: owner,
+        liquidity: hre.ethers.formatUnits(liquidity, 18),
+        shareOfPool: formatPercent(
+          hre,
+          state.totalSupply > 0n ? (liquidity * 10n ** 18n) / state.totalSupply : 0n
+        ),
+        token0: token0.symbol,
+        amount0: formatAmount(hre, amount0, token0),
+        token1: token1.symbol,
+        amount1: formatAmount(hre, amount1, token1),
+      };
+      printResult(result, json);
+      return result;
+    }
+  );
+
+task("amm:quote", "Quotes a swap against the current reserves without sending a transaction")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addParam("tokenIn", "Input token address or symbol")
+  .addOptionalParam("amountIn", "Exact amount to sell, in whole tokens")
+  .addOptionalParam("amountOut", "Exact amount to buy, in whole tokens")
+  .addOptionalParam(
+    "slippage",
+    "Tolerance for the reported limit, in basis points",
+    DEFAULT_SLIPPAGE_BPS,
+    types.int
+  )
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: SwapArgs, hre) => {
+    const context = await loadPool(hre, args.pool);
+    const [tokenIn, tokenOut] = resolveToken(context, args.tokenIn);
+    const slippage = parseSlippage(args.slippage);
+    const { applySlippage } = await import("../sdk");
+
+    const exactIn = exactInput(args);
+    const quote = exactIn
+      ? await context.client.quoteSwap(
+          tokenIn.address,
+          parseAmount(hre, args.amountIn as string, tokenIn.decimals)
+        )
+      : await context.client.quoteSwapExactOut(
+          tokenIn.address,
+          parseAmount(hre, args.amountOut as string, tokenOut.decimals)
+        );
+
+    const result: TaskResult = {
+      pool: context.client.address,
+      tokenIn: tokenIn.symbol,
+      tokenOut: tokenOut.symbol,
+      amountIn: formatAmount(hre, quote.amountIn, tokenIn),
+      amountOut: formatAmount(hre, quote.amountOut, tokenOut),
+      executionPrice: formatPrice(hre, quote.executionPrice, tokenIn, tokenOut),
+      priceImpact: formatPercent(hre, quote.priceImpact),
+    };
+    if (exactIn) {
+      result.minAmountOut = formatAmount(hre, applySlippage(quote.amountOut, slippage), tokenOut);
+    } else {
+      result.maxAmountIn = formatAmount(hre, addSlippage(quote.amountIn, slippage), tokenIn);
+    }
+    printResult(result, args.json);
+    return result;
+  });
@@ -0,0 +1,120 @@
+import { task, types } from "hardhat/config";
+import { readFileSync, writeFileSync } from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ReplayMismatch, Simulation, SlippagePoint } from "../sdk";
+import { formatPercent, parseAmount, printResult, TaskResult } from "./helpers";
+
+interface SimulateArgs {
+  prices: string;
+  reserve0: string;
+  reserve1: string;
+  fee: number;
+  minProfit: string;
+  out?: string;
+  validate: boolean;
+  json: boolean;
+}
+
+/** Formats a slippage curve as "size: price impact" pairs, e.g. "0.1%: 0.4% | 1%: 1.29%". */
+const formatCurve = (hre: HardhatRuntimeEnvironment, curve: SlippagePoint[]): string =>
+  curve
+    .map(point => `${Number(point.sizeBps) / 100}%: ${formatPercent(hre, point.priceImpact)}`)
+    .join(" | ");
+
+/**
+ * Deploys two test tokens and an empty pool with the simulation's fee, funds the first signer and
+ * replays the simulated trades on it
+ * @param hre Hardhat runtime environment
+ * @param simulation Simulation to validate
+ */
+const validate = async (
+  hre: HardhatRuntimeEnvironment,
+  simulation: Simulation
+): Promise<ReplayMismatch[]> => {
+  if (hre.network.name !== "hardhat") {
+    throw new Error("Tasks: --validate deploys test tokens and only runs on the hardhat network");
+  }
+  const { AmmClient, replayTrades } = await import("../sdk");
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const TestTokenFactory = await ethers.getContractFactory("TestToken");
+  const tokenA = await TestTokenFactory.deploy("Simulated Token A", "SIMA");
+  const tokenB = await TestTokenFactory.deploy("Simulated Token B", "SIMB");
+  const amm = await (
+    await ethers.getContractFactory("AMM")
+  ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), simulation.swapFee);
+
+  const client = await AmmClient.connect(await amm.getAddress(), signer);
+  let total0 = simulation.reserve0;
+  let total1 = simulation.reserve1;
+  for (const trade of simulation.trades) {
+    if (trade.zeroForOne) {
+      total0 += trade.amountIn;
+    } else {
+      total1 += trade.amountIn;
+    }
+  }
+  await (await ethers.getContractAt("TestToken", client.token0Address)).mint(signer, total0);
+  await (await ethers.getContractAt("TestToken", client.token1Address)).mint(signer, total1);
+  return replayTrades(client, simulation);
+};
+
+task("amm:simulate", "Backtests a pool against a CSV of prices traded by an arbitrageur")
+  .addParam("prices", "CSV of timestamps and prices of token0 in token1")
+  .addParam("reserve0", "token0 the pool starts with, in whole tokens")
+  .addParam("reserve1", "token1 the pool starts with, in whole tokens")
+  .addOptionalParam("fee", "Swap fee in basis points", 30, types.int)
+  .addOptionalParam("minProfit", "Least arbitrage profit to trade for, in whole token1", "0")
+  .addOptionalParam("out", "File to write every point, trade and slippage curve to, as JSON")
+  .addFlag("validate", "Replay the trades on a freshly deployed AMM and compare the results")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: SimulateArgs, hre) => {
+    const { parsePriceCsv, simulate } = await import("../sdk");
+    const { formatUnits } = hre.ethers;
+    const prices = parsePriceCsv(readFileSync(args.prices, "utf8"));
+    const simulation = simulate(prices, {
+      reserve0: parseAmount(hre, args.reserve0, 18),
+      reserve1: parseAmount(hre, args.reserve1, 18),
+      swapFee: BigInt(args.fee),
+      minProfit: hre.ethers.parseUnits(args.minProfit, 18),
+    });
+    const { final } = simulation;
+
+    const result: TaskResult = {
+      prices: prices.length.toString(),
+      trades: simulation.trades.length.toString(),
+      swapFeeBps: simulation.swapFee.toString(),
+      startPrice: formatUnits(prices[0].price, 18),
+      endPrice: formatUnits(final.price, 18),
+      endPoolPrice: formatUnits(final.poolPrice, 18),
+      reserve0: formatUnits(final.reserve0, 18),
+      reserve1: formatUnits(final.reserve1, 18),
+      fees0: formatUnits(simulation.fees0, 18),
+      fees1: formatUnits(simulation.fees1, 18),
+      feeValue: formatUnits(final.feeValue, 18),
+      lpValue: formatUnits(final.lpValue, 18),
+      hodlValue: formatUnits(final.hodlValue, 18),
+      impermanentLoss: formatPercent(hre, final.impermanentLoss),
+      netReturn: formatPercent(hre, final.netReturn),
+      arbitrageProfit: formatUnits(simulation.arbitrageProfit, 18),
+      slippage0For1: formatCurve(hre, simulation.slippage.final.zeroForOne),
+      slippage1For0: formatCurve(hre, simulation.slippage.final.oneForZero),
+    };
+    if (args.validate) {
+      const mismatches = await validate(hre, simulation);
+      result.validated = mismatches.length === 0;
+      result.mismatches = mismatches.length.toString();
+    }
+    if (args.out) {
+      writeFileSync(
+        args.out,
+        `${JSON.stringify(
+          simulation,
+          (_, value) => (typeof value === "bigint" ? value.toString() : value),
+          2
+        )}\n`
+      );
+    }
+    printResult(result, args.json);
+    return result;
+  });
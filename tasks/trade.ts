@@ -0,0 +1,278 @@
+import { task, types } from "hardhat/config";
+import { ContractTransactionReceipt, LogDescription } from "ethers";
+import {
+  addSlippage,
+  DEFAULT_SLIPPAGE_BPS,
+  deadlineIn,
+  exactInput,
+  formatAmount,
+  hasAllowance,
+  loadPool,
+  parseAmount,
+  parseSlippage,
+  PoolContext,
+  printResult,
+  resolveToken,
+  SwapArgs,
+  TaskResult,
+  TokenInfo,
+} from "./helpers";
+
+/** Seconds a transaction sent by a task stays valid when `--deadline` is not given. */
+const DEFAULT_DEADLINE = 1200;
+
+interface WriteArgs {
+  pool: string;
+  slippage: number;
+  deadline: number;
+  dryRun: boolean;
+  json: boolean;
+}
+
+task("amm:swap", "Swaps on a pool, approving the input token if needed")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addParam("tokenIn", "Input token address or symbol")
+  .addOptionalParam("amountIn", "Exact amount to sell, in whole tokens")
+  .addOptionalParam("amountOut", "Exact amount to buy, in whole tokens")
+  .addOptionalParam("slippage", "Tolerance in basis points", DEFAULT_SLIPPAGE_BPS, types.int)
+  .addOptionalParam("deadline", "Seconds the transaction stays valid", DEFAULT_DEADLINE, types.int)
+  .addFlag("dryRun", "Simulate with staticCall instead of sending transactions")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: SwapArgs & WriteArgs, hre) => {
+    const context = await loadPool(hre, args.pool);
+    const { client } = context;
+    const [tokenIn, tokenOut] = resolveToken(context, args.tokenIn);
+    const slippage = parseSlippage(args.slippage);
+    const deadline = await deadlineIn(hre, args.deadline);
+    const { applySlippage } = await import("../sdk");
+
+    let amountIn: bigint;
+    let amountOut: bigint;
+    let limit: bigint;
+    const result: TaskResult = { pool: client.address, tokenIn: tokenIn.symbol };
+
+    const exactIn = exactInput(args);
+    if (exactIn) {
+      amountIn = parseAmount(hre, args.amountIn as string, tokenIn.decimals);
+      const quote = await client.quoteSwap(tokenIn.address, amountIn);
+      limit = applySlippage(quote.amountOut, slippage);
+      amountOut = quote.amountOut;
+      result.minAmountOut = formatAmount(hre, limit, tokenOut);
+
+      if (!args.dryRun) {
+        const receipt = await client.swap(tokenIn.address, amountIn, {
+          minAmountOut: limit,
+          deadline,
+        });
+        amountOut = findEvent(context, receipt, "SwapExecuted").args.amountOut;
+        result.txHash = receipt.hash;
+      } else if (await hasAllowance(context, tokenIn, amountIn)) {
+        amountOut = await client.amm.swapExactTokensForTokens.staticCall(
+          tokenIn.address,
+          amountIn,
+          limit,
+          deadline
+        );
+      }
+    } else {
+      amountOut = parseAmount(hre, args.amountOut as string, tokenOut.decimals);
+      const quote = await client.quoteSwapExactOut(tokenIn.address, amountOut);
+      limit = addSlippage(quote.amountIn, slippage);
+      amountIn = quote.amountIn;
+      result.maxAmountIn = formatAmount(hre, limit, tokenIn);
+
+      if (!args.dryRun) {
+        const receipt = await client.swapExactOut(tokenIn.address, amountOut, limit, deadline);
+        amountIn = findEvent(context, receipt, "SwapExecuted").args.amountIn;
+        result.txHash = receipt.hash;
+      } else if (await hasAllowance(context, tokenIn, limit)) {
+        amountIn = await client.amm.swapTokensForExactTokens.staticCall(
+          tokenIn.address,
+          amountOut,
+          limit,
+          deadline
+        );
+      }
+    }
+
+    Object.assign(result, {
+      amountIn: formatAmount(hre, amountIn, tokenIn),
+      tokenOut: tokenOut.symbol,
+      amountOut: formatAmount(hre, amountOut, tokenOut),
+    });
+    if (args.dryRun) {
+      await describeDryRun(context, result, [[tokenIn, exactIn ? amountIn : limit]]);
+    }
+    printResult(result, args.json);
+    return result;
+  });
+
+task("amm:add-liquidity", "Adds liquidity at the pool's ratio, approving both tokens if needed")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addParam("amount0", "Most token0 to deposit, in whole tokens")
+  .addParam("amount1", "Most token1 to deposit, in whole tokens")
+  .addOptionalParam("slippage", "Tolerance in basis points", DEFAULT_SLIPPAGE_BPS, types.int)
+  .addOptionalParam("deadline", "Seconds the transaction stays valid", DEFAULT_DEADLINE, types.int)
+  .addFlag("dryRun", "Simulate with staticCall instead of sending transactions")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: WriteArgs & { amount0: string; amount1: string }, hre) => {
+    const context = await loadPool(hre, args.pool);
+    const { client, token0, token1 } = context;
+    const slippage = parseSlippage(args.slippage);
+    const deadline = await deadlineIn(hre, args.deadline);
+    const { applySlippage } = await import("../sdk");
+
+    const amount0Desired = parseAmount(hre, args.amount0, token0.decimals);
+    const amount1Desired = parseAmount(hre, args.amount1, token1.decimals);
+    const quote = await client.quoteAddLiquidity(amount0Desired, amount1Desired);
+    const amount0Min = applySlippage(quote.amount0, slippage);
+    const amount1Min = applySlippage(quote.amount1, slippage);
+    let { amount0, amount1, liquidity } = quote;
+    const result: TaskResult = { pool: client.address };
+
+    if (!args.dryRun) {
+      const receipt = await client.addLiquidity(amount0Desired, amount1Desired, {
+        amount0Min,
+        amount1Min,
+        deadline,
+      });
+      ({
+        amount0,
+        amount1,
+        liquidityMinted: liquidity,
+      } = findEvent(context, receipt, "LiquidityAdded").args);
+      result.txHash = receipt.hash;
+    } else if (
+      (await hasAllowance(context, token0, amount0Desired)) &&
+      (await hasAllowance(context, token1, amount1Desired))
+    ) {
+      [amount0, amount1, liquidity] = await client.amm.addLiquidityWithLimits.staticCall(
+        amount0Desired,
+        amount1Desired,
+        amount0Min,
+        amount1Min,
+        deadline
+      );
+    }
+
+    Object.assign(result, {
+      token0: token0.symbol,
+      amount0: formatAmount(hre, amount0, token0),
+      token1: token1.symbol,
+      amount1: formatAmount(hre, amount1, token1),
+      liquidity: hre.ethers.formatUnits(liquidity, 18),
+    });
+    if (args.dryRun) {
+      await describeDryRun(context, result, [
+        [token0, amount0Desired],
+        [token1, amount1Desired],
+      ]);
+    }
+    printResult(result, args.json);
+    return result;
+  });
+
+task("amm:remove-liquidity", "Burns LP tokens and withdraws the underlying tokens")
+  .addParam("pool", "Address of the AMM or its deployment name")
+  .addParam("liquidity", 'LP tokens to burn, in whole tokens, or "all"')
+  .addOptionalParam("slippage", "Tolerance in basis points", DEFAULT_SLIPPAGE_BPS, types.int)
+  .addOptionalParam("deadline", "Seconds the transaction stays valid", DEFAULT_DEADLINE, types.int)
+  .addFlag("dryRun", "Simulate with staticCall instead of sending transactions")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: WriteArgs & { liquidity: string }, hre) => {
+    const context = await loadPool(hre, args.pool);
+    const { client, token0, token1 } = context;
+    const slippage = parseSlippage(args.slippage);
+    const deadline = await deadlineIn(hre, args.deadline);
+    const { applySlippage } = await import("../sdk");
+
+    const liquidity =
+      args.liquidity === "all"
+        ? await client.lpToken.balanceOf(context.signer)
+        : parseAmount(hre, args.liquidity, 18);
+    const quote = await client.quoteRemoveLiquidity(liquidity);
+    const amount0Min = applySlippage(quote.amount0, slippage);
+    const amount1Min = applySlippage(quote.amount1, slippage);
+    let { amount0, amount1 } = quote;
+    const result: TaskResult = { pool: client.address };
+
+    if (args.dryRun) {
+      // Burning needs no approval, so the simulation always runs
+      [amount0, amount1] = await client.amm.removeLiquidityWithLimits.staticCall(
+        liquidity,
+        amount0Min,
+        amount1Min,
+        deadline
+      );
+      result.dryRun = true;
+      result.simulated = true;
+    } else {
+      const receipt = await client.removeLiquidity(liquidity, {
+        amount0Min,
+        amount1Min,
+        deadline,
+      });
+      ({ amount0, amount1 } = findEvent(context, receipt, "LiquidityRemoved").args);
+      result.txHash = receipt.hash;
+    }
+
+    Object.assign(result, {
+      liquidity: hre.ethers.formatUnits(liquidity, 18),
+      token0: token0.symbol,
+      amount0: formatAmount(hre, amount0, token0),
+      token1: token1.symbol,
+      amount1: formatAmount(hre, amount1, token1),
+    });
+    printResult(result, args.json);
+    return result;
+  });
+
+/**
+ * Returns the first event named `name` that the pool emitted in `receipt`
+ * @param context Loaded pool
+ * @param receipt Mined transaction
+ * @param name Event name
+ */
+const findEvent = (
+  context: PoolContext,
+  receipt: ContractTransactionReceipt,
+  name: string
+): LogDescription => {
+  const { amm, address } = context.client;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address.toLowerCase()) {
+      continue;
+    }
+    const parsed = amm.interface.parseLog(log);
+    if (parsed?.name === name) {
+      return parsed;
+    }
+  }
+  throw new Error(`Tasks: ${name} not found in ${receipt.hash}`);
+};
+
+/**
+ * Marks a dry-run result and records whether it was simulated on-chain. Without the approvals
+ * the pool would need, `staticCall` would revert, so the result falls back to the off-chain
+ * quote and lists the approvals a real run would send first.
+ * @param context Loaded pool
+ * @param result Result to annotate
+ * @param pulls Tokens and amounts the pool would pull from the signer
+ */
+const describeDryRun = async (
+  context: PoolContext,
+  result: TaskResult,
+  pulls: [TokenInfo, bigint][]
+): Promise<void> => {
+  const missing: string[] = [];
+  for (const [token, amount] of pulls) {
+    if (!(await hasAllowance(context, token, amount))) {
+      missing.push(token.symbol);
+    }
+  }
+  result.dryRun = true;
+  result.simulated = missing.length === 0;
+  if (missing.length > 0) {
+    result.approvalsRequired = missing.join(",");
+  }
+};
@@ -0,0 +1,231 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { AMM, FeeOnTransferToken, RebasingToken, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getAmountOut } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+const SWAP_FEE = 30n;
+const TRANSFER_FEE = 100n; // 1%
+
+describe("Balance Accounting", () => {
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let plain: TestToken;
+
+  /** Deploys a pool of `token` and `plain`, funds lp and trader, approves the pool for both. */
+  const deployPool = async (token: TestToken) => {
+    const amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await token.getAddress(), await plain.getAddress(), SWAP_FEE);
+    for (const user of [lp, trader]) {
+      for (const t of [token, plain]) {
+        await t.mint(user.address, toWei(100_000));
+        await t.connect(user).approve(await amm.getAddress(), ethers.MaxUint256);
+      }
+    }
+    return amm;
+  };
+
+  /** Reserves and pool balances keyed by token rather than by pool order. */
+  const poolState = async (amm: AMM, token: TestToken) => {
+    const [reserve0, reserve1] = await amm.getReserves();
+    const tokenIs0 = (await amm.token0()) === (await token.getAddress());
+    return {
+      reserve: tokenIs0 ? reserve0 : reserve1,
+      reservePlain: tokenIs0 ? reserve1 : reserve0,
+      balance: await token.balanceOf(await amm.getAddress()),
+      balancePlain: await plain.balanceOf(await amm.getAddress()),
+    };
+  };
+
+  /** Orders an amount of `token` and of `plain` as the pool's (amount0, amount1). */
+  const ordered = async (amm: AMM, token: TestToken, amount: bigint, amountPlain: bigint) =>
+    (await amm.token0()) === (await token.getAddress())
+      ? ([amount, amountPlain] as const)
+      : ([amountPlain, amount] as const);
+
+  const expectReservesMatchBalances = async (amm: AMM, token: TestToken) => {
+    const state = await poolState(amm, token);
+    expect(state.reserve).to.equal(state.balance);
+    expect(state.reservePlain).to.equal(state.balancePlain);
+  };
+
+  beforeEach(async () => {
+    [, lp, trader, recipient] = await ethers.getSigners();
+    plain = await (await ethers.getContractFactory("TestToken")).deploy("Plain", "PLN");
+  });
+
+  describe("Fee-on-transfer tokens", () => {
+    let token: FeeOnTransferToken;
+    let amm: AMM;
+
+    const afterFee = (amount: bigint) => amount - (amount * TRANSFER_FEE) / 10_000n;
+
+    beforeEach(async () => {
+      token = await (
+        await ethers.getContractFactory("FeeOnTransferToken")
+      ).deploy("Taxed", "TAX", TRANSFER_FEE);
+      amm = await deployPool(token);
+      const [amount0, amount1] = await ordered(amm, token, toWei(1000), toWei(1000));
+      await amm.connect(lp).addLiquidity(amount0, amount1);
+    });
+
+    it("should credit liquidity with the amount that arrived", async () => {
+      const state = await poolState(amm, token);
+      expect(state.reserve).to.equal(afterFee(toWei(1000)));
+      expect(state.reservePlain).to.equal(toWei(1000));
+      await expectReservesMatchBalances(amm, token);
+
+      // The plain amount is matched to the taxed amount requested, not to what arrives
+      const amountPlain = (toWei(100) * state.reservePlain) / state.reserve;
+      const [amount0, amount1] = await ordered(amm, token, toWei(100), toWei(200));
+      const [received0, received1] = await ordered(amm, token, afterFee(toWei(100)), amountPlain);
+      await expect(amm.connect(lp).addLiquidity(amount0, amount1))
+        .to.emit(amm, "LiquidityAdded")
+        .withArgs(lp.address, received0, received1, anyValue);
+      await expectReservesMatchBalances(amm, token);
+    });
+
+    it("should price exact-input swaps on the amount that arrived", async () => {
+      const { reserve, reservePlain } = await poolState(amm, token);
+      const expected = getAmountOut(afterFee(toWei(10)), reserve, reservePlain, SWAP_FEE);
+
+      const before = await plain.balanceOf(trader.address);
+      await amm.connect(trader).swap(await token.getAddress(), toWei(10));
+      expect((await plain.balanceOf(trader.address)) - before).to.equal(expected);
+      await expectReservesMatchBalances(amm, token);
+    });
+
+    it("should settle swaps and withdrawals that pay out the taxed token", async () => {
+      const { reserve, reservePlain } = await poolState(amm, token);
+      const amountOut = getAmountOut(toWei(10), reservePlain, reserve, SWAP_FEE);
+
+      const before = await token.balanceOf(trader.address);
+      await amm.connect(trader).swap(await plain.getAddress(), toWei(10));
+      // The pool sends the full quote; the recipient bears the transfer fee
+      expect((await token.balanceOf(trader.address)) - before).to.equal(afterFee(amountOut));
+      await expectReservesMatchBalances(amm, token);
+
+      const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      await amm.connect(lp).removeLiquidity((await lpToken.balanceOf(lp.address)) / 2n);
+      await expectReservesMatchBalances(amm, token);
+    });
+
+    it("should reject exact-output swaps paid in the taxed token", async () => {
+      await expect(
+        amm
+          .connect(trader)
+          .swapTokensForExactTokens(
+            await token.getAddress(),
+            toWei(10),
+            ethers.MaxUint256,
+            ethers.MaxUint256
+          )
+      ).to.be.revertedWith("AMM: invariant violation");
+    });
+  });
+
+  describe("sync and skim", () => {
+    let token: TestToken;
+    let amm: AMM;
+
+    beforeEach(async () => {
+      token = await (await ethers.getContractFactory("TestToken")).deploy("Token", "TKN");
+      amm = await deployPool(token);
+      await amm.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+    });
+
+    it("should skim a direct transfer to any recipient", async () => {
+      await token.connect(trader).transfer(await amm.getAddress(), toWei(5));
+      await plain.connect(trader).transfer(await amm.getAddress(), toWei(7));
+
+      await amm.skim(recipient.address);
+      expect(await token.balanceOf(recipient.address)).to.equal(toWei(5));
+      expect(await plain.balanceOf(recipient.address)).to.equal(toWei(7));
+      await expectReservesMatchBalances(amm, token);
+    });
+
+    it("should mint only for the balanced part of a deposit that includes a donation", async () => {
+      await token.connect(trader).transfer(await amm.getAddress(), toWei(500));
+
+      // The donation is swept into the reserves by the next deposit but earns it no extra LP
+      const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      const before = await lpToken.balanceOf(trader.address);
+      await amm.connect(trader).addLiquidity(toWei(100), toWei(100));
+      expect((await lpToken.balanceOf(trader.address)) - before).to.equal(toWei(100));
+    });
+
+    it("should sync a direct transfer into the reserves", async () => {
+      await token.connect(trader).transfer(await amm.getAddress(), toWei(5));
+
+      await expect(amm.sync())
+        .to.emit(amm, "Sync")
+        .withArgs(...(await ordered(amm, token, toWei(1005), toWei(1000))));
+      const state = await poolState(amm, token);
+      expect(state.reserve).to.equal(toWei(1005));
+      await expectReservesMatchBalances(amm, token);
+
+      // Nothing left to skim
+      await amm.skim(recipient.address);
+      expect(await token.balanceOf(recipient.address)).to.equal(0);
+    });
+  });
+
+  describe("Rebasing tokens", () => {
+    let token: RebasingToken;
+    let amm: AMM;
+
+    beforeEach(async () => {
+      token = await (await ethers.getContractFactory("RebasingToken")).deploy("Rebasing", "RBT");
+      amm = await deployPool(token);
+      await amm.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+    });
+
+    it("should let LPs withdraw a positive rebase", async () => {
+      await token.rebase(toWei("1.1"));
+      const state = await poolState(amm, token);
+      expect(state.balance).to.equal(toWei(1100));
+      expect(state.reserve).to.equal(toWei(1000));
+
+      // Withdrawals pay out a share of balances, not of the stale reserves
+      const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      const liquidity = (await lpToken.totalSupply()) / 10n;
+      const before = await token.balanceOf(lp.address);
+      await amm.connect(lp).removeLiquidity(liquidity);
+      expect((await token.balanceOf(lp.address)) - before).to.be.closeTo(toWei(110), 1n);
+      await expectReservesMatchBalances(amm, token);
+    });
+
+    it("should let anyone skim a positive rebase before it is synced", async () => {
+      await token.rebase(toWei(2));
+      await amm.skim(recipient.address);
+
+      expect(await token.balanceOf(recipient.address)).to.be.closeTo(toWei(1000), 1n);
+      const state = await poolState(amm, token);
+      expect(state.reserve).to.equal(toWei(1000));
+      expect(state.balance).to.be.closeTo(toWei(1000), 1n);
+    });
+
+    it("should need a sync before swapping after a negative rebase", async () => {
+      await token.rebase(toWei("0.5"));
+      // The deposit only refills part of the shortfall
+      await expect(
+        amm.connect(trader).swap(await token.getAddress(), toWei(10))
+      ).to.be.revertedWith("AMM: insufficient input amount");
+
+      // Skimming has nothing to take from a shortfall
+      await amm.skim(recipient.address);
+      expect(await token.balanceOf(recipient.address)).to.equal(0);
+
+      await amm.sync();
+      const state = await poolState(amm, token);
+      expect(state.reserve).to.equal(toWei(500));
+      await amm.connect(trader).swap(await token.getAddress(), toWei(10));
+      await expectReservesMatchBalances(amm, token);
+    });
+  });
+});
@@ -1,22 +1,20 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { AMM, LPToken, TestToken } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  applySlippage,
+  getAmountIn,
+  getAmountOut,
+  getAmountsForLiquidity,
+  MINIMUM_LIQUIDITY,
+  sqrt,
+} from "../sdk";
 
 const toWei = (value: string | number) => ethers.parseEther(value.toString());
 
-const sqrt = (value: bigint): bigint => {
-  if (value === 0n) {
-    return 0n;
-  }
-  let z = (value + 1n) / 2n;
-  let y = value;
-  while (z < y) {
-    y = z;
-    z = (value / z + z) / 2n;
-  }
-  return y;
-};
+const SWAP_FEE = 30n;
 
 describe("AMM", () => {
   let deployer: HardhatEthersSigner;
@@ -73,7 +71,7 @@ describe("AMM", () => {
       throw new Error(`Token order invalid: ${sortedToken0Addr} >= ${sortedToken1Addr}`);
     }
     
-    amm = await AMMFactory.deploy(sortedToken0Addr, sortedToken1Addr);
+    amm = await AMMFactory.deploy(sortedToken0Addr, sortedToken1Addr, SWAP_FEE);
     await amm.waitForDeployment();
 
     const lpTokenAddress = await amm.lpToken();
@@ -111,8 +109,9 @@ describe("AMM", () => {
     });
 
     it("should deploy LP token with correct name and symbol", async () => {
-      expect(await lpToken.name()).to.equal("Minimal AMM LP");
-      expect(await lpToken.symbol()).to.equal("MALP");
+      const pair = `${await token0.symbol()}-${await token1.symbol()}`;
+      expect(await lpToken.name()).to.equal(`Minimal AMM LP ${pair}`);
+      expect(await lpToken.symbol()).to.equal(`MALP-${pair}`);
       expect(await lpToken.totalSupply()).to.equal(0);
     });
 
@@ -120,14 +119,14 @@ describe("AMM", () => {
       const AMMFactory = await ethers.getContractFactory("AMM");
       const tokenAddress = await token0.getAddress();
       await expect(
-        AMMFactory.deploy(tokenAddress, tokenAddress)
+        AMMFactory.deploy(tokenAddress, tokenAddress, SWAP_FEE)
       ).to.be.revertedWith("AMM: identical tokens");
     });
 
     it("should revert if token address is zero", async () => {
       const AMMFactory = await ethers.getContractFactory("AMM");
       await expect(
-        AMMFactory.deploy(ethers.ZeroAddress, await token1.getAddress())
+        AMMFactory.deploy(ethers.ZeroAddress, await token1.getAddress(), SWAP_FEE)
       ).to.be.revertedWith("AMM: zero address");
     });
   });
@@ -137,7 +136,7 @@ describe("AMM", () => {
       const amount0 = toWei(1000);
       const amount1 = toWei(1000);
 
-      const expectedLiquidity = sqrt(amount0 * amount1);
+      const expectedLiquidity = sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY;
 
       await expect(amm.connect(lp1).addLiquidity(amount0, amount1))
         .to.emit(amm, "LiquidityAdded")
@@ -149,6 +148,10 @@ describe("AMM", () => {
 
       const balance = await lpToken.balanceOf(lp1.address);
       expect(balance).to.equal(expectedLiquidity);
+
+      // The rest of the supply is locked forever
+      expect(await lpToken.balanceOf(await amm.LIQUIDITY_LOCK())).to.equal(MINIMUM_LIQUIDITY);
+      expect(await lpToken.totalSupply()).to.equal(sqrt(amount0 * amount1));
     });
 
     it("should add liquidity proportionally for subsequent providers", async () => {
@@ -167,7 +170,8 @@ describe("AMM", () => {
       const totalSupply = await lpToken.totalSupply();
       const lp1Balance = await lpToken.balanceOf(lp1.address);
       const lp2Balance = await lpToken.balanceOf(lp2.address);
-      expect(lp1Balance + lp2Balance).to.equal(totalSupply);
+      expect(lp1Balance + lp2Balance + MINIMUM_LIQUIDITY).to.equal(totalSupply);
+      expect(lp2Balance).to.equal(totalSupply / 3n);
     });
 
     it("should calculate liquidity correctly for non-equal amounts", async () => {
@@ -180,7 +184,52 @@ describe("AMM", () => {
       expect(reserves[1]).to.equal(amount1);
 
       const liquidity = await lpToken.balanceOf(lp1.address);
-      expect(liquidity).to.equal(sqrt(amount0 * amount1));
+      expect(liquidity).to.equal(sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY);
+    });
+
+    it("should pull only the token1 that matches the reserve ratio", async () => {
+      await amm.connect(lp1).addLiquidity(toWei(1000), toWei(2000));
+
+      // 100 token0 only needs 200 token1; the other 300 stay with the depositor
+      const [used0, used1, liquidity] = await amm
+        .connect(lp2)
+        .addLiquidity.staticCall(toWei(100), toWei(500));
+      expect(used0).to.equal(toWei(100));
+      expect(used1).to.equal(toWei(200));
+
+      const before0 = await token0.balanceOf(lp2.address);
+      const before1 = await token1.balanceOf(lp2.address);
+      await amm.connect(lp2).addLiquidity(toWei(100), toWei(500));
+      expect(before0 - (await token0.balanceOf(lp2.address))).to.equal(used0);
+      expect(before1 - (await token1.balanceOf(lp2.address))).to.equal(used1);
+      expect(await lpToken.balanceOf(lp2.address)).to.equal(liquidity);
+
+      const reserves = await amm.getReserves();
+      expect(reserves[0]).to.equal(toWei(1100));
+      expect(reserves[1]).to.equal(toWei(2200));
+    });
+
+    it("should pull only the token0 that matches the reserve ratio", async () => {
+      await amm.connect(lp1).addLiquidity(toWei(1000), toWei(2000));
+
+      const [used0, used1] = await amm
+        .connect(lp2)
+        .addLiquidity.staticCall(toWei(500), toWei(100));
+      expect(used0).to.equal(toWei(50));
+      expect(used1).to.equal(toWei(100));
+    });
+
+    it("should return a skewed deposit in full on withdrawal", async () => {
+      await amm.connect(lp1).addLiquidity(toWei(1000), toWei(1000));
+
+      const before0 = await token0.balanceOf(lp2.address);
+      const before1 = await token1.balanceOf(lp2.address);
+      await amm.connect(lp2).addLiquidity(toWei(100), toWei(900));
+      await amm.connect(lp2).removeLiquidity(await lpToken.balanceOf(lp2.address));
+
+      // Nothing was gifted to lp1 beyond rounding dust
+      expect(before0 - (await token0.balanceOf(lp2.address))).to.be.lessThanOrEqual(1n);
+      expect(before1 - (await token1.balanceOf(lp2.address))).to.be.lessThanOrEqual(1n);
     });
 
     it("should revert when adding zero amounts", async () => {
@@ -216,12 +265,16 @@ describe("AMM", () => {
       const half = lpBalance / 2n;
 
       const reservesBefore = await amm.getReserves();
-      const expectedAmount0 = (half * reservesBefore[0]) / lpBalance;
-      const expectedAmount1 = (half * reservesBefore[1]) / lpBalance;
+      const [expectedAmount0, expectedAmount1] = getAmountsForLiquidity(
+        half,
+        reservesBefore[0],
+        reservesBefore[1],
+        await lpToken.totalSupply()
+      );
 
       await expect(amm.connect(lp1).removeLiquidity(half))
         .to.emit(amm, "LiquidityRemoved")
-        .withArgs(lp1.address, expectedAmount0, expectedAmount1, half);
+        .withArgs(lp1.address, expectedAmount0, expectedAmount1, half, lp1.address);
 
       const reservesAfter = await amm.getReserves();
       expect(reservesAfter[0]).to.equal(reservesBefore[0] - expectedAmount0);
@@ -231,13 +284,15 @@ describe("AMM", () => {
       expect(newBalance).to.equal(lpBalance - half);
     });
 
-    it("should remove all liquidity", async () => {
+    it("should remove all liquidity except the locked minimum", async () => {
       const lpBalance = await lpToken.balanceOf(lp1.address);
       await amm.connect(lp1).removeLiquidity(lpBalance);
 
+      // The locked LP tokens keep their share of the reserves
       const reserves = await amm.getReserves();
-      expect(reserves[0]).to.equal(0);
-      expect(reserves[1]).to.equal(0);
+      expect(reserves[0]).to.equal(MINIMUM_LIQUIDITY);
+      expect(reserves[1]).to.equal(MINIMUM_LIQUIDITY);
+      expect(await lpToken.totalSupply()).to.equal(MINIMUM_LIQUIDITY);
 
       const balance = await lpToken.balanceOf(lp1.address);
       expect(balance).to.equal(0);
@@ -267,11 +322,7 @@ describe("AMM", () => {
       const amountIn = toWei(10);
 
       // Calculate expected output with 0.3% fee
-      // amountOut = (amountIn * 997 / 1000 * reserveOut) / (reserveIn + amountIn * 997 / 1000)
-      const amountInWithFee = (amountIn * 997n) / 1000n;
-      const expectedOut =
-        (amountInWithFee * reservesBefore[1]) /
-        (reservesBefore[0] + amountInWithFee);
+      const expectedOut = getAmountOut(amountIn, reservesBefore[0], reservesBefore[1], SWAP_FEE);
 
       const token0BalanceBefore = await token1.balanceOf(trader.address);
 
@@ -282,7 +333,8 @@ describe("AMM", () => {
           await token0.getAddress(),
           amountIn,
           await token1.getAddress(),
-          expectedOut
+          expectedOut,
+          trader.address
         );
 
       const reservesAfter = await amm.getReserves();
@@ -297,10 +349,7 @@ describe("AMM", () => {
       const reservesBefore = await amm.getReserves();
       const amountIn = toWei(10);
 
-      const amountInWithFee = (amountIn * 997n) / 1000n;
-      const expectedOut =
-        (amountInWithFee * reservesBefore[0]) /
-        (reservesBefore[1] + amountInWithFee);
+      const expectedOut = getAmountOut(amountIn, reservesBefore[1], reservesBefore[0], SWAP_FEE);
 
       await expect(amm.connect(trader).swap(await token1.getAddress(), amountIn))
         .to.emit(amm, "SwapExecuted")
@@ -309,7 +358,8 @@ describe("AMM", () => {
           await token1.getAddress(),
           amountIn,
           await token0.getAddress(),
-          expectedOut
+          expectedOut,
+          trader.address
         );
 
       const reservesAfter = await amm.getReserves();
@@ -348,11 +398,15 @@ describe("AMM", () => {
     });
 
     it("should revert when insufficient liquidity", async () => {
-      const lpBalance = await lpToken.balanceOf(lp1.address);
-      await amm.connect(lp1).removeLiquidity(lpBalance);
+      const AMMFactory = await ethers.getContractFactory("AMM");
+      const empty = await AMMFactory.deploy(
+        await token0.getAddress(),
+        await token1.getAddress(),
+        SWAP_FEE
+      );
 
       await expect(
-        amm.connect(trader).swap(await token0.getAddress(), toWei(1))
+        empty.connect(trader).swap(await token0.getAddress(), toWei(1))
       ).to.be.revertedWith("AMM: insufficient liquidity");
     });
 
@@ -434,10 +488,7 @@ describe("AMM", () => {
     it("should calculate output correctly for small swaps", async () => {
       const amountIn = toWei(1);
       const reservesBefore = await amm.getReserves();
-      const amountInWithFee = (amountIn * 997n) / 1000n;
-      const expectedOut =
-        (amountInWithFee * reservesBefore[1]) /
-        (reservesBefore[0] + amountInWithFee);
+      const expectedOut = getAmountOut(amountIn, reservesBefore[0], reservesBefore[1], SWAP_FEE);
 
       await amm.connect(trader).swap(await token0.getAddress(), amountIn);
       const reservesAfter = await amm.getReserves();
@@ -449,10 +500,7 @@ describe("AMM", () => {
     it("should show price impact for large swaps", async () => {
       const amountIn = toWei(300);
       const reservesBefore = await amm.getReserves();
-      const amountInWithFee = (amountIn * 997n) / 1000n;
-      const expectedOut =
-        (amountInWithFee * reservesBefore[1]) /
-        (reservesBefore[0] + amountInWithFee);
+      const expectedOut = getAmountOut(amountIn, reservesBefore[0], reservesBefore[1], SWAP_FEE);
 
       await amm.connect(trader).swap(await token0.getAddress(), amountIn);
 
@@ -461,17 +509,323 @@ describe("AMM", () => {
       expect(reservesAfter[0]).to.be.gt(reservesAfter[1]);
       expect(reservesBefore[1] - reservesAfter[1]).to.equal(expectedOut);
     });
+
+    it("should execute a swap that meets its minimum output exactly", async () => {
+      const amountIn = toWei(10);
+      const reserves = await amm.getReserves();
+      const quoted = getAmountOut(amountIn, reserves[0], reserves[1], SWAP_FEE);
+      const deadline = (await time.latest()) + 60;
+
+      await expect(
+        amm
+          .connect(trader)
+          .swapExactTokensForTokens(await token0.getAddress(), amountIn, quoted, deadline)
+      )
+        .to.emit(amm, "SwapExecuted")
+        .withArgs(
+          trader.address,
+          await token0.getAddress(),
+          amountIn,
+          await token1.getAddress(),
+          quoted,
+          trader.address
+        );
+    });
+
+    it("should revert a swap front-run past its minimum output", async () => {
+      const attacker = lp2;
+      const amountIn = toWei(10);
+      const reserves = await amm.getReserves();
+      const minAmountOut = applySlippage(
+        getAmountOut(amountIn, reserves[0], reserves[1], SWAP_FEE),
+        50n
+      );
+      const deadline = (await time.latest()) + 60;
+
+      // Attacker buys token1 ahead of the victim, pushing its price up
+      await amm.connect(attacker).swap(await token0.getAddress(), toWei(50));
+
+      await expect(
+        amm
+          .connect(trader)
+          .swapExactTokensForTokens(await token0.getAddress(), amountIn, minAmountOut, deadline)
+      ).to.be.revertedWith("AMM: insufficient output amount");
+    });
+
+    it("should tolerate a front-run that stays within the slippage bound", async () => {
+      const amountIn = toWei(10);
+      const reserves = await amm.getReserves();
+      const minAmountOut = applySlippage(
+        getAmountOut(amountIn, reserves[0], reserves[1], SWAP_FEE),
+        100n
+      );
+      const deadline = (await time.latest()) + 60;
+
+      await amm.connect(lp2).swap(await token0.getAddress(), toWei(2));
+
+      const balanceBefore = await token1.balanceOf(trader.address);
+      await amm
+        .connect(trader)
+        .swapExactTokensForTokens(await token0.getAddress(), amountIn, minAmountOut, deadline);
+      const received = (await token1.balanceOf(trader.address)) - balanceBefore;
+      expect(received).to.be.at.least(minAmountOut);
+    });
+
+    it("should revert a swap mined after its deadline", async () => {
+      const deadline = (await time.latest()) + 60;
+      await time.increase(61);
+
+      await expect(
+        amm
+          .connect(trader)
+          .swapExactTokensForTokens(await token0.getAddress(), toWei(1), 0, deadline)
+      ).to.be.revertedWith("AMM: expired");
+    });
+
+    it("should revert a deposit whose matched amount drops below the minimums", async () => {
+      const attacker = lp2;
+      const deadline = (await time.latest()) + 60;
+      const amount0Min = applySlippage(toWei(100), 50n);
+      const amount1Min = applySlippage(toWei(100), 50n);
+
+      // Skewing the reserve ratio shrinks the token1 matched to 100 token0
+      await amm.connect(attacker).swap(await token0.getAddress(), toWei(100));
+
+      await expect(
+        amm
+          .connect(lp2)
+          .addLiquidityWithLimits(toWei(100), toWei(100), amount0Min, amount1Min, deadline)
+      ).to.be.revertedWith("AMM: insufficient amount1");
+    });
+
+    it("should add liquidity within limits when the ratio is unchanged", async () => {
+      const deadline = (await time.latest()) + 60;
+      const amount0Min = applySlippage(toWei(100), 10n);
+      const amount1Min = applySlippage(toWei(100), 10n);
+
+      await amm
+        .connect(lp2)
+        .addLiquidityWithLimits(toWei(100), toWei(100), amount0Min, amount1Min, deadline);
+
+      const reserves = await amm.getReserves();
+      expect(reserves[0]).to.equal(toWei(1100));
+      expect(reserves[1]).to.equal(toWei(1100));
+    });
+
+    it("should bound the matched token0 by its minimum", async () => {
+      const deadline = (await time.latest()) + 60;
+
+      // Once token1 is scarcer, 100 token1 match more than 150 token0
+      await amm.connect(lp2).swap(await token0.getAddress(), toWei(250));
+      const [reserve0, reserve1] = await amm.getReserves();
+      const matched0 = (toWei(100) * reserve0) / reserve1;
+      expect(matched0).to.be.greaterThan(toWei(150));
+
+      await expect(
+        amm
+          .connect(lp2)
+          .addLiquidityWithLimits(toWei(100), toWei(100), toWei(99), toWei(99), deadline)
+      ).to.be.revertedWith("AMM: insufficient amount1");
+
+      const [used0, used1] = await amm
+        .connect(lp2)
+        .addLiquidityWithLimits.staticCall(toWei(200), toWei(100), 0, toWei(100), deadline);
+      expect(used0).to.equal(matched0);
+      expect(used1).to.equal(toWei(100));
+      await expect(
+        amm
+          .connect(lp2)
+          .addLiquidityWithLimits(toWei(200), toWei(100), matched0 + 1n, toWei(100), deadline)
+      ).to.be.revertedWith("AMM: insufficient amount0");
+    });
+
+    it("should revert a withdrawal front-run past its minimums", async () => {
+      const lpBalance = await lpToken.balanceOf(lp1.address);
+      const [reserve0, reserve1] = await amm.getReserves();
+      const [expected0, expected1] = getAmountsForLiquidity(
+        lpBalance,
+        reserve0,
+        reserve1,
+        await lpToken.totalSupply()
+      );
+      const deadline = (await time.latest()) + 60;
+
+      // Draining token1 before the withdrawal leaves less of it to claim
+      await amm.connect(lp2).swap(await token0.getAddress(), toWei(100));
+
+      await expect(
+        amm
+          .connect(lp1)
+          .removeLiquidityWithLimits(
+            lpBalance,
+            applySlippage(expected0, 50n),
+            applySlippage(expected1, 50n),
+            deadline
+          )
+      ).to.be.revertedWith("AMM: insufficient amount1");
+    });
+
+    it("should enforce deadlines on liquidity operations", async () => {
+      const deadline = (await time.latest()) + 60;
+      await time.increase(61);
+
+      await expect(
+        amm.connect(lp2).addLiquidityWithLimits(toWei(1), toWei(1), 0, 0, deadline)
+      ).to.be.revertedWith("AMM: expired");
+      await expect(
+        amm.connect(lp1).removeLiquidityWithLimits(toWei(1), 0, 0, deadline)
+      ).to.be.revertedWith("AMM: expired");
+    });
+  });
+
+  describe("Exact-Output Swaps", () => {
+    beforeEach(async () => {
+      await amm.connect(lp1).addLiquidity(toWei(1000), toWei(2000));
+    });
+
+    it("should deliver exactly amountOut for the quoted input in both directions", async () => {
+      for (const [tokenIn, tokenOut, zeroForOne] of [
+        [token0, token1, true],
+        [token1, token0, false],
+      ] as const) {
+        const amountOut = toWei("12.345678901234567");
+        const [reserve0, reserve1] = await amm.getReserves();
+        const [reserveIn, reserveOut] = zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+        const expectedIn = getAmountIn(amountOut, reserveIn, reserveOut, SWAP_FEE);
+        expect(await amm.getAmountIn(amountOut, reserveIn, reserveOut)).to.equal(expectedIn);
+
+        const inBefore = await tokenIn.balanceOf(trader.address);
+        const outBefore = await tokenOut.balanceOf(trader.address);
+        const deadline = (await time.latest()) + 60;
+
+        await expect(
+          amm
+            .connect(trader)
+            .swapTokensForExactTokens(await tokenIn.getAddress(), amountOut, expectedIn, deadline)
+        )
+          .to.emit(amm, "SwapExecuted")
+          .withArgs(
+            trader.address,
+            await tokenIn.getAddress(),
+            expectedIn,
+            await tokenOut.getAddress(),
+            amountOut,
+            trader.address
+          );
+
+        expect(inBefore - (await tokenIn.balanceOf(trader.address))).to.equal(expectedIn);
+        expect((await tokenOut.balanceOf(trader.address)) - outBefore).to.equal(amountOut);
+      }
+    });
+
+    it("should never let the trader underpay through rounding", async () => {
+      const cases: [bigint, bigint][] = [
+        [toWei(1000), toWei(2000)],
+        [12_345n, 98_765_432n],
+        [98_765_432n, 12_345n],
+        [toWei(1), toWei(5_000_000)],
+        [1_000n, 1_001n],
+      ];
+      for (const [reserveIn, reserveOut] of cases) {
+        for (const divisor of [2n, 3n, 7n, 10n, 1_000n, 999_983n]) {
+          const amountOut = reserveOut / divisor;
+          if (amountOut === 0n) {
+            continue;
+          }
+          const amountIn = getAmountIn(amountOut, reserveIn, reserveOut, SWAP_FEE);
+          // Paying the quoted input always buys at least amountOut...
+          expect(getAmountOut(amountIn, reserveIn, reserveOut, SWAP_FEE)).to.be.at.least(
+            amountOut
+          );
+          // ...and one wei less never does, so the quote is the minimum
+          let outForOneLess = 0n;
+          try {
+            outForOneLess = getAmountOut(amountIn - 1n, reserveIn, reserveOut, SWAP_FEE);
+          } catch {
+            // Rounds to zero output, which the pool rejects outright
+          }
+          expect(outForOneLess).to.be.lessThan(amountOut);
+        }
+        expect(await amm.getAmountIn(reserveOut / 3n, reserveIn, reserveOut)).to.equal(
+          getAmountIn(reserveOut / 3n, reserveIn, reserveOut, SWAP_FEE)
+        );
+        expect(await amm.getAmountOut(reserveIn / 3n, reserveIn, reserveOut)).to.equal(
+          getAmountOut(reserveIn / 3n, reserveIn, reserveOut, SWAP_FEE)
+        );
+      }
+    });
+
+    it("should never decrease k across exact-output swaps", async () => {
+      let [reserve0, reserve1] = await amm.getReserves();
+      let lastK = reserve0 * reserve1;
+      const deadline = (await time.latest()) + 600;
+
+      for (const [tokenIn, amountOut] of [
+        [token0, 1n],
+        [token1, 999n],
+        [token0, toWei("333.333333333333333333")],
+        [token1, toWei(77)],
+        [token0, toWei("0.000000000000123457")],
+      ] as const) {
+        await amm
+          .connect(trader)
+          .swapTokensForExactTokens(
+            await tokenIn.getAddress(),
+            amountOut,
+            ethers.MaxUint256,
+            deadline
+          );
+        [reserve0, reserve1] = await amm.getReserves();
+        const k = reserve0 * reserve1;
+        expect(k).to.be.at.least(lastK);
+        lastK = k;
+      }
+    });
+
+    it("should revert when a front-run pushes the input above maxAmountIn", async () => {
+      const amountOut = toWei(20);
+      const [reserve0, reserve1] = await amm.getReserves();
+      const maxAmountIn = (getAmountIn(amountOut, reserve0, reserve1, SWAP_FEE) * 1005n) / 1000n;
+      const deadline = (await time.latest()) + 60;
+
+      await amm.connect(lp2).swap(await token0.getAddress(), toWei(50));
+
+      await expect(
+        amm
+          .connect(trader)
+          .swapTokensForExactTokens(await token0.getAddress(), amountOut, maxAmountIn, deadline)
+      ).to.be.revertedWith("AMM: excessive input amount");
+    });
+
+    it("should revert for invalid exact-output requests", async () => {
+      const [, reserve1] = await amm.getReserves();
+      const deadline = (await time.latest()) + 60;
+      const token0Address = await token0.getAddress();
+      const max = ethers.MaxUint256;
+
+      await expect(
+        amm.connect(trader).swapTokensForExactTokens(token0Address, 0, max, deadline)
+      ).to.be.revertedWith("AMM: invalid amount");
+      await expect(
+        amm.connect(trader).swapTokensForExactTokens(token0Address, reserve1, max, deadline)
+      ).to.be.revertedWith("AMM: insufficient liquidity");
+      await expect(
+        amm.connect(trader).swapTokensForExactTokens(token0Address, toWei(1), max, 0)
+      ).to.be.revertedWith("AMM: expired");
+    });
   });
 
   describe("Edge Cases", () => {
-    it("should handle very small liquidity amounts", async () => {
-      const amount0 = 1n;
-      const amount1 = 1n;
-      await amm.connect(lp1).addLiquidity(amount0, amount1);
+    it("should reject a first deposit too small to lock the minimum liquidity", async () => {
+      await expect(amm.connect(lp1).addLiquidity(1n, 1n)).to.be.revertedWith(
+        "AMM: insufficient initial liquidity"
+      );
+      await expect(
+        amm.connect(lp1).addLiquidity(MINIMUM_LIQUIDITY, MINIMUM_LIQUIDITY)
+      ).to.be.revertedWith("AMM: insufficient initial liquidity");
 
-      const reserves = await amm.getReserves();
-      expect(reserves[0]).to.equal(amount0);
-      expect(reserves[1]).to.equal(amount1);
+      await amm.connect(lp1).addLiquidity(MINIMUM_LIQUIDITY + 1n, MINIMUM_LIQUIDITY + 1n);
+      expect(await lpToken.balanceOf(lp1.address)).to.equal(1n);
     });
 
     it("should prevent complete reserve draining", async () => {
@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, applySlippage, getAmountOut, getSpotPrice, PRICE_SCALE } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("AmmClient", () => {
+  let lp1: HardhatEthersSigner;
+  let lp2: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let client: AmmClient;
+
+  beforeEach(async () => {
+    [, lp1, lp2, trader] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+
+    const AMMFactory = await ethers.getContractFactory("AMM");
+    amm = await AMMFactory.deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    await amm.waitForDeployment();
+
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    for (const user of [lp1, lp2, trader]) {
+      await token0.mint(user.address, toWei(10000));
+      await token1.mint(user.address, toWei(10000));
+    }
+
+    client = await AmmClient.connect(await amm.getAddress(), lp1);
+  });
+
+  describe("Metadata", () => {
+    it("should load token and LP token addresses from the pool", async () => {
+      expect(client.token0Address).to.equal(await amm.token0());
+      expect(client.token1Address).to.equal(await amm.token1());
+      expect(await client.lpToken.getAddress()).to.equal(await amm.lpToken());
+    });
+
+    it("should treat a pool without amplification() as constant-product", async () => {
+      expect(client.stableSwap).to.equal(undefined);
+
+      await client.addLiquidity(toWei(1000), toWei(2000));
+      const quote = await client.quoteSwap(client.token0Address, toWei(10));
+      expect(quote.amountOut).to.equal(getAmountOut(toWei(10), toWei(1000), toWei(2000), 30n));
+    });
+  });
+
+  describe("Liquidity", () => {
+    it("should approve and mint exactly the quoted initial liquidity", async () => {
+      const quote = await client.quoteAddLiquidity(toWei(2000), toWei(1000));
+      expect(quote.shareOfPool).to.equal(PRICE_SCALE);
+
+      await expect(client.addLiquidity(toWei(2000), toWei(1000)))
+        .to.emit(amm, "LiquidityAdded")
+        .withArgs(lp1.address, toWei(2000), toWei(1000), quote.liquidity);
+      expect(await client.lpToken.balanceOf(lp1.address)).to.equal(quote.liquidity);
+    });
+
+    it("should match on-chain minting for skewed follow-up deposits", async () => {
+      await client.addLiquidity(toWei(1000), toWei(3000));
+      await client.swap(client.token0Address, toWei(37));
+
+      const lp2Client = client.withRunner(lp2);
+      const quote = await lp2Client.quoteAddLiquidity(toWei(123), toWei(456));
+      expect(quote.amount0).to.equal(toWei(123));
+      expect(quote.amount1).to.be.lessThan(toWei(456));
+
+      await expect(lp2Client.addLiquidity(toWei(123), toWei(456)))
+        .to.emit(amm, "LiquidityAdded")
+        .withArgs(lp2.address, quote.amount0, quote.amount1, quote.liquidity);
+      expect(await client.lpToken.balanceOf(lp2.address)).to.equal(quote.liquidity);
+    });
+
+    it("should match on-chain amounts when removing liquidity", async () => {
+      await client.addLiquidity(toWei(1000), toWei(1000));
+      await client.withRunner(trader).swap(client.token1Address, toWei(77));
+
+      const burn = (await client.lpToken.balanceOf(lp1.address)) / 3n;
+      const quote = await client.quoteRemoveLiquidity(burn);
+
+      await expect(client.removeLiquidity(burn))
+        .to.emit(amm, "LiquidityRemoved")
+        .withArgs(lp1.address, quote.amount0, quote.amount1, burn, lp1.address);
+    });
+
+    it("should quote withdrawals from the pool's balances, donations included", async () => {
+      await client.addLiquidity(toWei(1000), toWei(1000));
+      await token0.connect(lp1).transfer(client.address, toWei(10));
+      await token1.connect(lp1).transfer(client.address, toWei(4));
+
+      const burn = (await client.lpToken.balanceOf(lp1.address)) / 3n;
+      const state = await client.getPoolState();
+      expect(state.balance0 - state.reserve0).to.equal(toWei(10));
+      expect(state.balance1 - state.reserve1).to.equal(toWei(4));
+      const quote = await client.quoteRemoveLiquidity(burn, state);
+
+      await expect(client.removeLiquidity(burn))
+        .to.emit(amm, "LiquidityRemoved")
+        .withArgs(lp1.address, quote.amount0, quote.amount1, burn, lp1.address);
+    });
+  });
+
+  describe("Swaps", () => {
+    beforeEach(async () => {
+      await client.addLiquidity(toWei(1000), toWei(2000));
+      client = client.withRunner(trader);
+    });
+
+    it("should quote exact outputs in both directions", async () => {
+      for (const [tokenIn, tokenOut] of [
+        [client.token0Address, client.token1Address],
+        [client.token1Address, client.token0Address],
+      ]) {
+        for (const amountIn of [1003n, 99_999n, toWei("0.1234567"), toWei(250)]) {
+          const quote = await client.quoteSwap(tokenIn, amountIn);
+          expect(quote.tokenOut).to.equal(tokenOut);
+
+          await expect(client.swap(tokenIn, amountIn))
+            .to.emit(amm, "SwapExecuted")
+            .withArgs(trader.address, tokenIn, amountIn, tokenOut, quote.amountOut, trader.address);
+        }
+      }
+    });
+
+    it("should report post-trade spot price matching the new reserves", async () => {
+      const quote = await client.quoteSwap(client.token0Address, toWei(100));
+      await client.swap(client.token0Address, toWei(100));
+
+      const [reserve0, reserve1] = await amm.getReserves();
+      expect(quote.spotPriceAfter).to.equal(getSpotPrice(reserve0, reserve1));
+      expect((await client.getPrice()).price0).to.equal(quote.spotPriceAfter);
+    });
+
+    it("should report price impact growing with trade size", async () => {
+      const small = await client.quoteSwap(client.token0Address, toWei(1));
+      const large = await client.quoteSwap(client.token0Address, toWei(300));
+
+      expect(small.spotPriceBefore).to.equal(2n * PRICE_SCALE);
+      expect(small.executionPrice).to.be.lessThan(small.spotPriceBefore);
+      // The 0.3% fee alone puts a floor under the impact of any trade
+      expect(small.priceImpact).to.be.at.least((3n * PRICE_SCALE) / 1000n);
+      expect(large.priceImpact).to.be.greaterThan(small.priceImpact);
+    });
+
+    it("should only approve when the allowance is insufficient", async () => {
+      await client.swap(client.token0Address, toWei(5));
+      expect(await token0.allowance(trader.address, await amm.getAddress())).to.equal(0);
+
+      await token0.connect(trader).approve(await amm.getAddress(), ethers.MaxUint256);
+      await client.swap(client.token0Address, toWei(5));
+      expect(await token0.allowance(trader.address, await amm.getAddress())).to.equal(
+        ethers.MaxUint256
+      );
+    });
+
+    it("should mirror contract revert reasons when quoting", async () => {
+      await expect(client.quoteSwap(client.token0Address, 0n)).to.be.rejectedWith(
+        "AMM: invalid amount"
+      );
+      await expect(client.quoteSwap(ethers.ZeroAddress, toWei(1))).to.be.rejectedWith(
+        "AMM: unsupported token"
+      );
+
+      // 1 wei rounds to zero after the fee, on-chain and off-chain alike
+      await expect(client.quoteSwap(client.token0Address, 1n)).to.be.rejectedWith(
+        "AMM: insufficient output"
+      );
+      await token0.connect(trader).approve(await amm.getAddress(), 1n);
+      await expect(amm.connect(trader).swap(client.token0Address, 1n)).to.be.revertedWith(
+        "AMM: insufficient output"
+      );
+    });
+
+    it("should enforce slippage options quoted before a front-run", async () => {
+      const quote = await client.quoteSwap(client.token0Address, toWei(10));
+      const minAmountOut = applySlippage(quote.amountOut, 30n);
+
+      await client.withRunner(lp2).swap(client.token0Address, toWei(40));
+
+      await expect(
+        client.swap(client.token0Address, toWei(10), { minAmountOut })
+      ).to.be.revertedWith("AMM: insufficient output amount");
+      await expect(
+        client.swap(client.token0Address, toWei(10), { deadline: BigInt(await time.latest()) - 1n })
+      ).to.be.revertedWith("AMM: expired");
+    });
+
+    it("should quote and execute exact-output swaps", async () => {
+      const quote = await client.quoteSwapExactOut(client.token1Address, toWei(42));
+      expect(quote.amountOut).to.equal(toWei(42));
+
+      await expect(client.swapExactOut(client.token1Address, toWei(42), quote.amountIn))
+        .to.emit(amm, "SwapExecuted")
+        .withArgs(
+          trader.address,
+          client.token1Address,
+          quote.amountIn,
+          client.token0Address,
+          toWei(42),
+          trader.address
+        );
+    });
+
+    it("should refuse to send transactions without a signer", async () => {
+      const readOnly = client.withRunner(ethers.provider);
+      await expect(readOnly.swap(client.token0Address, toWei(1))).to.be.rejectedWith(
+        "AmmClient: a signer is required to send transactions"
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { deploy } from "../scripts/deploy";
+import { getDeployment, getPool, Manifest, readManifest, writeManifest } from "../sdk";
+
+describe("Deployments", () => {
+  let dir: string;
+  const quiet = () => undefined;
+  const run = () => deploy(hre, { dir, log: quiet });
+  const nonce = async () => (await ethers.getSigners())[0].getNonce();
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "amm-deployments-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("deploy", () => {
+    it("should record every contract and the pool in the network's manifest", async () => {
+      const { manifest, poolName, pool, deployed } = await run();
+
+      // Named after the sorted pair, which depends on the mock tokens' addresses
+      const mtaIs0 = pool.token0 === manifest.contracts.MockTokenA.address;
+      expect(poolName).to.equal(mtaIs0 ? "MTA-MTB-30" : "MTB-MTA-30");
+      expect(deployed).to.deep.equal([
+        "MockTokenA",
+        "MockTokenB",
+        "AMMFactory",
+        "AMMRouter",
+        poolName,
+      ]);
+      expect(readManifest("hardhat", dir)).to.deep.equal(manifest);
+      expect(manifest.chainId).to.equal(31337);
+      expect(manifest.contracts.MockTokenA.args).to.deep.equal(["Mock Token A", "MTA"]);
+      expect(manifest.contracts.AMMRouter.args).to.deep.equal([
+        manifest.contracts.AMMFactory.address,
+      ]);
+
+      for (const record of [...Object.values(manifest.contracts), pool]) {
+        const receipt = await ethers.provider.getTransactionReceipt(record.txHash);
+        expect(receipt?.blockNumber).to.equal(record.blockNumber);
+      }
+
+      const amm = await ethers.getContractAt("AMM", pool.address);
+      expect(pool.contract).to.equal("AMM");
+      expect(pool.lpToken).to.equal(await amm.lpToken());
+      expect(pool.token0).to.equal(await amm.token0());
+      expect(pool.token1).to.equal(await amm.token1());
+      expect(pool.args).to.deep.equal([pool.token0, pool.token1, "30"]);
+      expect(pool.factory).to.equal(manifest.contracts.AMMFactory.address);
+    });
+
+    it("should send no transactions when everything is already deployed", async () => {
+      const first = await run();
+      const nonceBefore = await nonce();
+
+      const second = await run();
+      expect(second.deployed).to.deep.equal([]);
+      expect(second.manifest).to.deep.equal(first.manifest);
+      expect(await nonce()).to.equal(nonceBefore);
+    });
+
+    it("should resume an interrupted run from the last recorded step", async () => {
+      const first = await run();
+      // As if the run had stopped after creating the pool but before recording it
+      const partial: Manifest = JSON.parse(JSON.stringify(first.manifest));
+      delete partial.contracts.AMMRouter;
+      partial.pools = {};
+      writeManifest(partial, dir);
+
+      const second = await run();
+      expect(second.deployed).to.deep.equal(["AMMRouter"]);
+      expect(second.manifest.contracts.AMMFactory).to.deep.equal(
+        first.manifest.contracts.AMMFactory
+      );
+      // The pool already exists in the factory, so it is recovered rather than created again
+      expect(second.pool).to.deep.equal(first.pool);
+    });
+
+    it("should redeploy a step whose contract is gone, and everything that depends on it", async () => {
+      const first = await run();
+      const stale: Manifest = JSON.parse(JSON.stringify(first.manifest));
+      stale.contracts.AMMFactory.address = ethers.Wallet.createRandom().address;
+      writeManifest(stale, dir);
+
+      const second = await run();
+      expect(second.deployed).to.deep.equal(["AMMFactory", "AMMRouter", first.poolName]);
+      expect(second.pool.address).to.not.equal(first.pool.address);
+      expect(second.pool.factory).to.equal(second.manifest.contracts.AMMFactory.address);
+      expect(second.manifest.contracts.MockTokenA).to.deep.equal(
+        first.manifest.contracts.MockTokenA
+      );
+    });
+
+    it("should pool existing tokens and name the pool after them", async () => {
+      const TestTokenFactory = await ethers.getContractFactory("TestToken");
+      const weth = await TestTokenFactory.deploy("Wrapped Ether", "WETH");
+      const usdc = await TestTokenFactory.deploy("USD Coin", "USDC");
+      const tokens: [string, string] = [await weth.getAddress(), await usdc.getAddress()];
+
+      const { manifest, poolName, pool } = await deploy(hre, {
+        dir,
+        log: quiet,
+        tokens,
+        swapFee: 5n,
+      });
+      const symbols = BigInt(tokens[0]) < BigInt(tokens[1]) ? "WETH-USDC" : "USDC-WETH";
+      expect(poolName).to.equal(`${symbols}-5`);
+      expect(pool.swapFee).to.equal("5");
+      expect(manifest.contracts).to.not.have.property("MockTokenA");
+    });
+
+    it("should refuse a manifest written on another chain", async () => {
+      const { manifest } = await run();
+      writeManifest({ ...manifest, chainId: 1 }, dir);
+
+      await expect(run()).to.be.rejectedWith("is for chain 1, connected to 31337");
+    });
+  });
+
+  describe("Loader", () => {
+    it("should look up contracts and pools by network and name", async () => {
+      const { manifest, poolName, pool } = await run();
+
+      expect(getPool("hardhat", poolName, dir)).to.deep.equal(pool);
+      expect(getDeployment("hardhat", "AMMRouter", dir)).to.deep.equal(
+        manifest.contracts.AMMRouter
+      );
+      expect(() => getPool("hardhat", "MTA-MTB-5", dir)).to.throw(
+        `no pool named MTA-MTB-5 on hardhat (known: ${poolName})`
+      );
+      expect(() => getDeployment("sepolia", "AMMRouter", dir)).to.throw(
+        "no contract named AMMRouter on sepolia"
+      );
+    });
+
+    it("should let tasks take a pool by its deployment name", async () => {
+      const { poolName, pool } = await run();
+      process.env.DEPLOYMENTS_DIR = dir;
+      try {
+        const result = await hre.run("amm:position", { pool: poolName, json: true });
+        expect(result.pool).to.equal(pool.address);
+      } finally {
+        delete process.env.DEPLOYMENTS_DIR;
+      }
+    });
+  });
+});
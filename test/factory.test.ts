@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { AMMFactory, TestToken } from "../typechain-types";
+
+describe("AMMFactory", () => {
+  let factory: AMMFactory;
+  let weth: TestToken;
+  let usdc: TestToken;
+  let dai: TestToken;
+
+  beforeEach(async () => {
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    weth = await TestTokenFactory.deploy("Wrapped Ether", "WETH");
+    usdc = await TestTokenFactory.deploy("USD Coin", "USDC");
+    dai = await TestTokenFactory.deploy("Dai", "DAI");
+
+    factory = await (await ethers.getContractFactory("AMMFactory")).deploy();
+    await factory.waitForDeployment();
+  });
+
+  describe("createPool", () => {
+    it("should deploy a pool with sorted tokens and register it both ways", async () => {
+      const wethAddress = await weth.getAddress();
+      const usdcAddress = await usdc.getAddress();
+      const [sorted0, sorted1] =
+        BigInt(wethAddress) < BigInt(usdcAddress)
+          ? [wethAddress, usdcAddress]
+          : [usdcAddress, wethAddress];
+
+      await expect(factory.createPool(wethAddress, usdcAddress, 30)).to.emit(
+        factory,
+        "PoolCreated"
+      );
+
+      const poolAddress = await factory.getPool(wethAddress, usdcAddress);
+      expect(poolAddress).to.not.equal(ethers.ZeroAddress);
+      expect(await factory.getPool(usdcAddress, wethAddress)).to.equal(poolAddress);
+
+      const pool = await ethers.getContractAt("AMM", poolAddress);
+      expect(await pool.token0()).to.equal(sorted0);
+      expect(await pool.token1()).to.equal(sorted1);
+    });
+
+    it("should name each LP token after its pair", async () => {
+      await factory.createPool(await weth.getAddress(), await usdc.getAddress(), 30);
+      await factory.createPool(await dai.getAddress(), await usdc.getAddress(), 30);
+
+      const symbols: string[] = [];
+      for (let i = 0; i < 2; i++) {
+        const pool = await ethers.getContractAt("AMM", await factory.allPools(i));
+        const lpToken = await ethers.getContractAt("LPToken", await pool.lpToken());
+        const token0 = await ethers.getContractAt("TestToken", await pool.token0());
+        const token1 = await ethers.getContractAt("TestToken", await pool.token1());
+        const pair = `${await token0.symbol()}-${await token1.symbol()}`;
+
+        expect(await lpToken.name()).to.equal(`Minimal AMM LP ${pair}`);
+        expect(await lpToken.symbol()).to.equal(`MALP-${pair}`);
+        symbols.push(await lpToken.symbol());
+      }
+      expect(symbols[0]).to.not.equal(symbols[1]);
+    });
+
+    it("should enumerate pools in creation order", async () => {
+      await factory.createPool(await weth.getAddress(), await usdc.getAddress(), 30);
+      await factory.createPool(await weth.getAddress(), await dai.getAddress(), 30);
+      await factory.createPool(await dai.getAddress(), await usdc.getAddress(), 30);
+
+      expect(await factory.allPoolsLength()).to.equal(3);
+      expect(await factory.allPools(1)).to.equal(
+        await factory.getPool(await dai.getAddress(), await weth.getAddress())
+      );
+    });
+
+    it("should reject duplicate pairs in either order", async () => {
+      await factory.createPool(await weth.getAddress(), await usdc.getAddress(), 30);
+
+      await expect(
+        factory.createPool(await weth.getAddress(), await usdc.getAddress(), 30)
+      ).to.be.revertedWith("AMMFactory: pool exists");
+      await expect(
+        factory.createPool(await usdc.getAddress(), await weth.getAddress(), 30)
+      ).to.be.revertedWith("AMMFactory: pool exists");
+    });
+
+    it("should reject identical and zero-address tokens", async () => {
+      await expect(
+        factory.createPool(await weth.getAddress(), await weth.getAddress(), 30)
+      ).to.be.revertedWith("AMMFactory: identical tokens");
+      await expect(
+        factory.createPool(ethers.ZeroAddress, await weth.getAddress(), 30)
+      ).to.be.revertedWith("AMMFactory: zero address");
+    });
+  });
+
+  describe("Fee tiers", () => {
+    it("should create pools with the requested enabled tier", async () => {
+      const usdcAddress = await usdc.getAddress();
+      const daiAddress = await dai.getAddress();
+      const [sorted0, sorted1] =
+        BigInt(daiAddress) < BigInt(usdcAddress)
+          ? [daiAddress, usdcAddress]
+          : [usdcAddress, daiAddress];
+
+      await expect(factory.createPool(usdcAddress, daiAddress, 5))
+        .to.emit(factory, "PoolCreated")
+        .withArgs(sorted0, sorted1, anyValue, 5, 1);
+      await factory.createPool(await weth.getAddress(), usdcAddress, 100);
+
+      const stable = await ethers.getContractAt("AMM", await factory.allPools(0));
+      const exotic = await ethers.getContractAt("AMM", await factory.allPools(1));
+      expect(await stable.swapFee()).to.equal(5);
+      expect(await exotic.swapFee()).to.equal(100);
+      expect(await stable.factory()).to.equal(await factory.getAddress());
+    });
+
+    it("should reject tiers that are not enabled", async () => {
+      await expect(
+        factory.createPool(await weth.getAddress(), await usdc.getAddress(), 25)
+      ).to.be.revertedWith("AMMFactory: fee tier not enabled");
+    });
+
+    it("should let only the admin enable new tiers", async () => {
+      const [, other] = await ethers.getSigners();
+
+      await expect(factory.connect(other).enableFeeTier(25)).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+      await expect(factory.enableFeeTier(1_001)).to.be.revertedWith("AMMFactory: fee too high");
+      await expect(factory.enableFeeTier(30)).to.be.revertedWith("AMMFactory: fee tier enabled");
+
+      await expect(factory.enableFeeTier(25)).to.emit(factory, "FeeTierEnabled").withArgs(25);
+      await factory.createPool(await weth.getAddress(), await usdc.getAddress(), 25);
+    });
+  });
+
+  describe("Protocol fee admin", () => {
+    it("should let only feeToSetter change feeTo and hand over the role", async () => {
+      const [admin, other] = await ethers.getSigners();
+      expect(await factory.feeToSetter()).to.equal(admin.address);
+      expect(await factory.feeTo()).to.equal(ethers.ZeroAddress);
+
+      await expect(factory.connect(other).setFeeTo(other.address)).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+      await expect(factory.setFeeTo(other.address))
+        .to.emit(factory, "FeeToUpdated")
+        .withArgs(other.address);
+
+      await factory.setFeeToSetter(other.address);
+      await expect(factory.setFeeTo(admin.address)).to.be.revertedWith("AMMFactory: forbidden");
+      await factory.connect(other).setFeeTo(ethers.ZeroAddress);
+      expect(await factory.feeTo()).to.equal(ethers.ZeroAddress);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AMMFactory, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, getAmountOut, getProtocolFeeLiquidity, sqrt } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Fees", () => {
+  let admin: HardhatEthersSigner;
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let treasury: HardhatEthersSigner;
+  let factory: AMMFactory;
+
+  const createPool = async (swapFee: number) => {
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokens: TestToken[] = [
+      await TestTokenFactory.deploy("Token A", "TKA"),
+      await TestTokenFactory.deploy("Token B", "TKB"),
+    ];
+    for (const token of tokens) {
+      await token.mint(lp.address, toWei(1_000_000));
+      await token.mint(trader.address, toWei(1_000_000));
+    }
+    await factory.createPool(await tokens[0].getAddress(), await tokens[1].getAddress(), swapFee);
+    const client = await AmmClient.connect(
+      await factory.getPool(await tokens[0].getAddress(), await tokens[1].getAddress()),
+      lp
+    );
+    await client.addLiquidity(toWei(1000), toWei(1000));
+    return client;
+  };
+
+  const trade = async (client: AmmClient, rounds: number) => {
+    const traderClient = client.withRunner(trader);
+    for (let i = 0; i < rounds; i++) {
+      await traderClient.swap(client.token0Address, toWei(100));
+      await traderClient.swap(client.token1Address, toWei(100));
+    }
+  };
+
+  beforeEach(async () => {
+    [admin, lp, trader, treasury] = await ethers.getSigners();
+    factory = await (await ethers.getContractFactory("AMMFactory")).deploy();
+  });
+
+  describe("Swap fee tiers", () => {
+    it("should charge each pool its own fee, exactly as quoted off-chain", async () => {
+      const outputs: bigint[] = [];
+      for (const swapFee of [5, 30, 100]) {
+        const client = await createPool(swapFee);
+        const { reserve0, reserve1 } = await client.getPoolState();
+        const expected = getAmountOut(toWei(10), reserve0, reserve1, BigInt(swapFee));
+
+        const quote = await client.quoteSwap(client.token0Address, toWei(10));
+        expect(quote.amountOut).to.equal(expected);
+        expect(await client.amm.getAmountOut(toWei(10), reserve0, reserve1)).to.equal(expected);
+
+        const before = await client.token1.balanceOf(trader.address);
+        await client.withRunner(trader).swap(client.token0Address, toWei(10));
+        expect((await client.token1.balanceOf(trader.address)) - before).to.equal(expected);
+        outputs.push(expected);
+      }
+      expect(outputs[0]).to.be.greaterThan(outputs[1]);
+      expect(outputs[1]).to.be.greaterThan(outputs[2]);
+    });
+
+    it("should price exact-output swaps with the pool fee", async () => {
+      const client = await createPool(100);
+      const quote = await client.quoteSwapExactOut(client.token1Address, toWei(5));
+
+      const before = await client.token1.balanceOf(trader.address);
+      await client.withRunner(trader).swapExactOut(client.token1Address, toWei(5), quote.amountIn);
+      expect(before - (await client.token1.balanceOf(trader.address))).to.equal(quote.amountIn);
+    });
+
+    it("should reject fees above MAX_SWAP_FEE", async () => {
+      const TestTokenFactory = await ethers.getContractFactory("TestToken");
+      const tokenA = await TestTokenFactory.deploy("Token A", "TKA");
+      const tokenB = await TestTokenFactory.deploy("Token B", "TKB");
+      const AMM = await ethers.getContractFactory("AMM");
+
+      await expect(
+        AMM.deploy(await tokenA.getAddress(), await tokenB.getAddress(), 1_001)
+      ).to.be.revertedWith("AMM: fee too high");
+    });
+  });
+
+  describe("Protocol fee", () => {
+    it("should mint nothing while feeTo is unset", async () => {
+      const client = await createPool(30);
+      await trade(client, 5);
+      await client.removeLiquidity(toWei(1));
+
+      expect(await client.amm.kLast()).to.equal(0);
+      expect(await client.lpToken.balanceOf(treasury.address)).to.equal(0);
+    });
+
+    it("should mint one sixth of the growth in sqrt(k) to feeTo", async () => {
+      await factory.connect(admin).setFeeTo(treasury.address);
+      const client = await createPool(30);
+      const kLast = await client.amm.kLast();
+      expect(kLast).to.equal(toWei(1000) * toWei(1000));
+
+      await trade(client, 10);
+      const { reserve0, reserve1, totalSupply } = await client.getPoolState();
+      const expected = getProtocolFeeLiquidity(reserve0, reserve1, totalSupply, kLast);
+      expect(expected).to.be.greaterThan(0);
+
+      // The fee is only realised on the next liquidity event
+      await client.removeLiquidity(toWei(1));
+      expect(await client.lpToken.balanceOf(treasury.address)).to.equal(expected);
+
+      // Valued at the post-trade reserves, the minted LP is worth 1/6 of the growth in sqrt(k)
+      const rootK = sqrt(reserve0 * reserve1);
+      const feeValue = (expected * rootK) / (totalSupply + expected);
+      expect(feeValue).to.be.closeTo((rootK - sqrt(kLast)) / 6n, 1n);
+    });
+
+    it("should quote liquidity changes net of the pending protocol fee", async () => {
+      await factory.connect(admin).setFeeTo(treasury.address);
+      const client = await createPool(30);
+      await trade(client, 10);
+
+      const quote = await client.quoteRemoveLiquidity(toWei(100));
+      const before0 = await client.token0.balanceOf(lp.address);
+      const before1 = await client.token1.balanceOf(lp.address);
+      await client.removeLiquidity(toWei(100));
+      expect((await client.token0.balanceOf(lp.address)) - before0).to.equal(quote.amount0);
+      expect((await client.token1.balanceOf(lp.address)) - before1).to.equal(quote.amount1);
+
+      await trade(client, 10);
+      const addQuote = await client.quoteAddLiquidity(toWei(50), toWei(50));
+      const lpBefore = await client.lpToken.balanceOf(lp.address);
+      await client.addLiquidity(toWei(50), toWei(50));
+      expect((await client.lpToken.balanceOf(lp.address)) - lpBefore).to.equal(addQuote.liquidity);
+    });
+
+    it("should stop accruing once feeTo is cleared", async () => {
+      await factory.connect(admin).setFeeTo(treasury.address);
+      const client = await createPool(30);
+      await factory.connect(admin).setFeeTo(ethers.ZeroAddress);
+
+      await trade(client, 5);
+      await client.removeLiquidity(toWei(1));
+      expect(await client.amm.kLast()).to.equal(0);
+      expect(await client.lpToken.balanceOf(treasury.address)).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AMM, FlashBorrower, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, getAmountIn, getFlashLoanRepayment } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+const SWAP_FEE = 30n;
+
+describe("Flash Swaps", () => {
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let client: AmmClient;
+  let borrower: FlashBorrower;
+
+  const deployPool = async (tokenA: TestToken, tokenB: TestToken) =>
+    (await ethers.getContractFactory("AMM")).deploy(
+      await tokenA.getAddress(),
+      await tokenB.getAddress(),
+      SWAP_FEE
+    );
+
+  beforeEach(async () => {
+    [, lp, trader] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await deployPool(tokenA, tokenB);
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    for (const user of [lp, trader]) {
+      await token0.mint(user.address, toWei(100_000));
+      await token1.mint(user.address, toWei(100_000));
+    }
+
+    client = await AmmClient.connect(await amm.getAddress(), lp);
+    await client.addLiquidity(toWei(1000), toWei(1000));
+
+    borrower = await (
+      await ethers.getContractFactory("FlashBorrower")
+    ).deploy(await amm.getAddress());
+    // Enough to cover fees; the borrowed principal comes from the pool
+    await token0.mint(await borrower.getAddress(), toWei(10));
+    await token1.mint(await borrower.getAddress(), toWei(10));
+  });
+
+  describe("Repaying in the borrowed token", () => {
+    it("should lend optimistically and accept principal plus fee", async () => {
+      const amountOut = toWei(100);
+      const repayment = getFlashLoanRepayment(amountOut, SWAP_FEE);
+
+      await expect(borrower.borrow(amountOut, 0, repayment, 0))
+        .to.emit(amm, "FlashSwap")
+        .withArgs(
+          await borrower.getAddress(),
+          await borrower.getAddress(),
+          repayment,
+          0,
+          amountOut,
+          0
+        );
+
+      // The pool had already sent the tokens when the callback ran
+      expect(await borrower.lastAmount0Out()).to.equal(amountOut);
+      expect(await borrower.poolBalance0DuringCall()).to.equal(toWei(900));
+
+      const [reserve0, reserve1] = await amm.getReserves();
+      expect(reserve0).to.equal(toWei(1000) - amountOut + repayment);
+      expect(reserve1).to.equal(toWei(1000));
+      expect(await token0.balanceOf(await amm.getAddress())).to.equal(reserve0);
+    });
+
+    it("should revert when the repayment is one wei short", async () => {
+      const amountOut = toWei(100);
+      const repayment = getFlashLoanRepayment(amountOut, SWAP_FEE);
+
+      await expect(borrower.borrow(amountOut, 0, repayment - 1n, 0)).to.be.revertedWith(
+        "AMM: invariant violation"
+      );
+      // Returning only the principal does not pay the fee either
+      await expect(borrower.borrow(amountOut, 0, amountOut, 0)).to.be.revertedWith(
+        "AMM: invariant violation"
+      );
+    });
+
+    it("should revert when nothing is paid back", async () => {
+      await expect(borrower.borrow(toWei(100), 0, 0, 0)).to.be.revertedWith(
+        "AMM: insufficient input amount"
+      );
+    });
+
+    it("should lend both tokens at once", async () => {
+      const repayment = getFlashLoanRepayment(toWei(50), SWAP_FEE);
+      await borrower.borrow(toWei(50), toWei(50), repayment, repayment);
+
+      expect(await borrower.lastAmount1Out()).to.equal(toWei(50));
+      const [reserve0, reserve1] = await amm.getReserves();
+      expect(reserve0).to.equal(toWei(950) + repayment);
+      expect(reserve1).to.equal(toWei(950) + repayment);
+    });
+  });
+
+  describe("Repaying in the other token", () => {
+    it("should accept getAmountIn of the other token", async () => {
+      const amountOut = toWei(100);
+      const [reserve0, reserve1] = await amm.getReserves();
+      const repayment = getAmountIn(amountOut, reserve1, reserve0, SWAP_FEE);
+      await token1.mint(await borrower.getAddress(), repayment);
+
+      await borrower.borrow(amountOut, 0, 0, repayment);
+
+      const [newReserve0, newReserve1] = await amm.getReserves();
+      expect(newReserve0).to.equal(reserve0 - amountOut);
+      expect(newReserve1).to.equal(reserve1 + repayment);
+      expect(newReserve0 * newReserve1).to.be.greaterThan(reserve0 * reserve1);
+    });
+
+    it("should revert when the other token does not cover the fee", async () => {
+      const amountOut = toWei(100);
+      // The fee-free price of the borrowed tokens falls short once the fee is charged
+      const [reserve0, reserve1] = await amm.getReserves();
+      const feeFree = (amountOut * reserve1) / (reserve0 - amountOut) + 1n;
+      await token1.mint(await borrower.getAddress(), feeFree);
+
+      await expect(borrower.borrow(amountOut, 0, 0, feeFree)).to.be.revertedWith(
+        "AMM: invariant violation"
+      );
+    });
+
+    it("should let an arbitrageur profit between two pools without capital", async () => {
+      // A second pool of the same pair where token0 is twice as expensive
+      const expensive = await deployPool(token0, token1);
+      await AmmClient.connect(await expensive.getAddress(), lp).then(other =>
+        other.addLiquidity(toWei(1000), toWei(2000))
+      );
+
+      const arbitrageur = await (await ethers.getContractFactory("FlashArbitrageur")).deploy();
+      expect(await token1.balanceOf(await arbitrageur.getAddress())).to.equal(0);
+
+      const before = await token1.balanceOf(trader.address);
+      await arbitrageur
+        .connect(trader)
+        .arbitrage(
+          await amm.getAddress(),
+          await expensive.getAddress(),
+          await token0.getAddress(),
+          toWei(100)
+        );
+      const profit = (await token1.balanceOf(trader.address)) - before;
+
+      expect(profit).to.be.greaterThan(toWei(50));
+      expect(await token1.balanceOf(await arbitrageur.getAddress())).to.equal(0);
+      // The spread narrowed: token0 got dearer in the cheap pool and cheaper in the other
+      const [cheap0, cheap1] = await amm.getReserves();
+      const [dear0, dear1] = await expensive.getReserves();
+      expect(cheap1).to.be.greaterThan(cheap0);
+      expect(dear1).to.be.lessThan(2n * dear0);
+    });
+  });
+
+  describe("Safety checks", () => {
+    it("should settle a prepaid swap without a callback", async () => {
+      const amountOut = toWei(10);
+      const [reserve0, reserve1] = await amm.getReserves();
+      const amountIn = getAmountIn(amountOut, reserve1, reserve0, SWAP_FEE);
+
+      await token1.connect(trader).transfer(await amm.getAddress(), amountIn);
+      const before = await token0.balanceOf(trader.address);
+      await amm.connect(trader).flashSwap(amountOut, 0, trader.address, "0x");
+
+      expect((await token0.balanceOf(trader.address)) - before).to.equal(amountOut);
+    });
+
+    it("should reject reentering the pool from the callback", async () => {
+      await expect(borrower.borrowAndReenter(toWei(10))).to.be.revertedWith("AMM: locked");
+    });
+
+    it("should validate amounts and recipient", async () => {
+      await expect(amm.flashSwap(0, 0, trader.address, "0x")).to.be.revertedWith(
+        "AMM: invalid amount"
+      );
+      await expect(amm.flashSwap(toWei(1000), 0, trader.address, "0x")).to.be.revertedWith(
+        "AMM: insufficient liquidity"
+      );
+      await expect(amm.flashSwap(toWei(1), 0, await token0.getAddress(), "0x")).to.be.revertedWith(
+        "AMM: invalid to"
+      );
+    });
+
+    it("should only trust callbacks from its own pool", async () => {
+      await expect(borrower.ammCall(await borrower.getAddress(), 1, 0, "0x")).to.be.revertedWith(
+        "FlashBorrower: unknown pool"
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import {
+  deployPool,
+  Failure,
+  FuzzPool,
+  generateOperations,
+  parseCase,
+  Random,
+  runSequence,
+  serializeCase,
+  shrink,
+} from "./fuzz/harness";
+import { Operation, PoolModel } from "./fuzz/model";
+
+/*
+ * Stateful fuzzing of the AMM against the reference model in test/fuzz/model.ts.
+ *
+ *   FUZZ_SEED    seed of the first sequence, each further run adds one (default 1)
+ *   FUZZ_RUNS    sequences per fee tier (default 8)
+ *   FUZZ_STEPS   operations per sequence (default 40)
+ *   FUZZ_REPLAY  a case printed by a failed run, replayed instead of generating sequences
+ */
+const SEED = Number(process.env.FUZZ_SEED ?? 1);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 8);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 40);
+const SIGNERS = 3;
+
+const report = (
+  seed: number | undefined,
+  swapFee: bigint,
+  operations: Operation[],
+  failure: Failure
+) =>
+  [
+    `${failure.check} check failed at ${failure.message}`,
+    seed === undefined ? "" : `seed: ${seed}`,
+    `replay: FUZZ_REPLAY='${serializeCase(swapFee, operations)}' npx hardhat test test/fuzz.test.ts`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+describe("Fuzz", function () {
+  this.timeout(0);
+
+  const fuzz = async (pool: FuzzPool, seed: number) => {
+    const operations = generateOperations(new Random(seed), STEPS, SIGNERS, pool.swapFee);
+    const failure = await runSequence(pool, operations);
+    if (failure) {
+      const minimal = await shrink(operations, failure, ops => runSequence(pool, ops));
+      expect.fail(report(seed, pool.swapFee, minimal.operations, minimal.failure));
+    }
+  };
+
+  if (process.env.FUZZ_REPLAY) {
+    it("should pass the replayed case", async () => {
+      const { swapFee, operations } = parseCase(process.env.FUZZ_REPLAY as string);
+      const failure = await runSequence(await deployPool(swapFee, SIGNERS), operations);
+      if (failure) {
+        expect.fail(report(undefined, swapFee, operations, failure));
+      }
+    });
+    return;
+  }
+
+  for (const swapFee of [0n, 30n, 1000n]) {
+    it(`should match the model with a ${swapFee} bps fee over ${RUNS} sequences`, async () => {
+      const pool = await deployPool(swapFee, SIGNERS);
+      for (let run = 0; run < RUNS; run++) {
+        await fuzz(pool, SEED + run);
+      }
+    });
+  }
+
+  it("should generate the same sequence from the same seed", () => {
+    const generate = (seed: number) =>
+      serializeCase(30n, generateOperations(new Random(seed), STEPS, SIGNERS, 30n));
+    expect(generate(7)).to.equal(generate(7));
+    expect(generate(7)).to.not.equal(generate(8));
+  });
+
+  it("should exercise every operation and both outcomes", () => {
+    const model = new PoolModel(30n);
+    const seen = new Set<string>();
+    for (const op of generateOperations(new Random(SEED), STEPS * RUNS, SIGNERS, 30n)) {
+      seen.add(`${op.kind}:${model.apply(op).ok}`);
+    }
+    for (const kind of ["add", "remove", "swapIn", "swapOut"]) {
+      expect(seen).to.include(`${kind}:true`);
+      expect(seen).to.include(`${kind}:false`);
+    }
+  });
+
+  it("should shrink a failing sequence to a minimal replayable case", async () => {
+    const pool = await deployPool(30n, SIGNERS);
+    // A model charging one basis point more than the pool disagrees on the first successful swap
+    const buggy = () => new PoolModel(31n);
+    const replay = (ops: Operation[]) => runSequence(pool, ops, buggy());
+
+    const operations = generateOperations(new Random(SEED), STEPS, SIGNERS, 30n);
+    const failure = await replay(operations);
+    expect(failure?.check).to.equal("outcome");
+
+    const minimal = await shrink(operations, failure!, replay);
+    expect(minimal.operations.map(op => op.kind)).to.have.lengthOf(2);
+    expect(minimal.operations[0].kind).to.equal("add");
+    expect(minimal.operations[1].kind).to.match(/^swap/);
+    expect(minimal.operations.length).to.be.lessThan(failure!.step + 1);
+
+    const { operations: replayed } = parseCase(serializeCase(30n, minimal.operations));
+    expect(replayed).to.deep.equal(minimal.operations);
+    expect(await replay(replayed)).to.deep.equal(minimal.failure);
+    expect(await runSequence(pool, replayed)).to.be.undefined;
+  });
+});
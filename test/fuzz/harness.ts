@@ -0,0 +1,406 @@
+import { ethers } from "hardhat";
+import { MaxUint256 } from "ethers";
+import { SnapshotRestorer, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AMM, LPToken, TestToken } from "../../typechain-types";
+import { Account, LOCK, Operation, Outcome, PoolModel } from "./model";
+
+/** xorshift32, so a sequence is reproduced from its seed alone. */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0 || 0x9e3779b9;
+  }
+
+  next(): number {
+    this.state ^= this.state << 13;
+    this.state ^= this.state >>> 17;
+    this.state ^= this.state << 5;
+    this.state >>>= 0;
+    return this.state;
+  }
+
+  /** Integer in [0, bound) */
+  int(bound: number): number {
+    return this.next() % bound;
+  }
+
+  bool(): boolean {
+    return this.int(2) === 0;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+/**
+ * An amount on the scale of `reference`: mostly up to twice it, sometimes a few wei (often too
+ * small to trade) and sometimes anything from 1 wei to 10^30, far past what the pool holds.
+ */
+const amountNear = (random: Random, reference: bigint): bigint => {
+  const roll = random.int(10);
+  if (roll === 0) {
+    return BigInt(random.int(1000));
+  }
+  if (roll === 1 || reference === 0n) {
+    return BigInt(random.int(999) + 1) * 10n ** BigInt(random.int(28));
+  }
+  return (reference * BigInt(random.int(2000) + 1)) / 1000n;
+};
+
+const nextOperation = (random: Random, model: PoolModel, signers: number): Operation => {
+  const signer = random.int(signers);
+  const roll = random.int(100);
+  if (model.totalSupply === 0n || roll < 25) {
+    return {
+      kind: "add",
+      signer,
+      amount0: amountNear(random, model.reserve0),
+      amount1: amountNear(random, model.reserve1),
+    };
+  }
+  if (roll < 40) {
+    const share = random.pick([10_000, 1, random.int(10_000) + 1, random.int(10_000) + 1]);
+    return { kind: "remove", signer, share };
+  }
+  const zeroForOne = random.bool();
+  const [reserveIn, reserveOut] = zeroForOne
+    ? [model.reserve0, model.reserve1]
+    : [model.reserve1, model.reserve0];
+  if (roll < 70) {
+    return { kind: "swapIn", signer, zeroForOne, amountIn: amountNear(random, reserveIn) };
+  }
+  // Up to all of the output reserve, which the pool can never pay out
+  const amountOut =
+    random.int(20) === 0 ? reserveOut : (reserveOut * BigInt(random.int(1000))) / 1000n;
+  return { kind: "swapOut", signer, zeroForOne, amountOut };
+};
+
+/**
+ * Generates a random sequence of operations. Amounts are drawn relative to the state a model of
+ * the pool reaches along the way, so most operations succeed and the rest probe the reverts.
+ * @param random Source of randomness
+ * @param steps Number of operations
+ * @param signers Number of signers operations are spread over
+ * @param swapFee Swap fee of the pool in basis points
+ */
+export const generateOperations = (
+  random: Random,
+  steps: number,
+  signers: number,
+  swapFee: bigint
+): Operation[] => {
+  const model = new PoolModel(swapFee);
+  const operations: Operation[] = [];
+  for (let i = 0; i < steps; i++) {
+    const op = nextOperation(random, model, signers);
+    model.apply(op);
+    operations.push(op);
+  }
+  return operations;
+};
+
+export interface FuzzPool {
+  amm: AMM;
+  token0: TestToken;
+  token1: TestToken;
+  lpToken: LPToken;
+  signers: HardhatEthersSigner[];
+  swapFee: bigint;
+  /** State right after deployment, restored before every sequence */
+  snapshot: SnapshotRestorer;
+}
+
+/**
+ * Deploys an empty pool and funds `signers` signers with more of both tokens than any generated
+ * sequence can spend
+ * @param swapFee Swap fee of the pool in basis points
+ * @param signers Number of signers to fund
+ */
+export const deployPool = async (swapFee: bigint, signers: number): Promise<FuzzPool> => {
+  const accounts = (await ethers.getSigners()).slice(1, signers + 1);
+  const TestTokenFactory = await ethers.getContractFactory("TestToken");
+  const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+  const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+  const amm = await (
+    await ethers.getContractFactory("AMM")
+  ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), swapFee);
+
+  const token0 = await ethers.getContractAt("TestToken", await amm.token0());
+  const token1 = await ethers.getContractAt("TestToken", await amm.token1());
+  for (const signer of accounts) {
+    for (const token of [token0, token1]) {
+      await token.mint(signer.address, 1n << 120n);
+      await token.connect(signer).approve(await amm.getAddress(), MaxUint256);
+    }
+  }
+
+  return {
+    amm,
+    token0,
+    token1,
+    lpToken: await ethers.getContractAt("LPToken", await amm.lpToken()),
+    signers: accounts,
+    swapFee,
+    snapshot: await takeSnapshot(),
+  };
+};
+
+/** The first check a sequence failed. */
+export interface Failure {
+  /** Index of the operation after which the check failed */
+  step: number;
+  /** Which check failed: outcome, reserves, balance, supply, k or solvency */
+  check: string;
+  message: string;
+}
+
+const revertReason = (error: unknown): string => {
+  const message = (error as Error).message;
+  return /reverted with reason string '([^']*)'/.exec(message)?.[1] ?? message;
+};
+
+/** Sends an operation to the pool and reads back what it did from the pool's events. */
+const execute = async (pool: FuzzPool, op: Operation, liquidity: bigint): Promise<Outcome> => {
+  const amm = pool.amm.connect(pool.signers[op.signer]);
+  const tokenIn = async (zeroForOne: boolean) =>
+    (zeroForOne ? pool.token0 : pool.token1).getAddress();
+
+  let receipt;
+  try {
+    const tx =
+      op.kind === "add"
+        ? await amm.addLiquidity(op.amount0, op.amount1)
+        : op.kind === "remove"
+          ? await amm.removeLiquidity(liquidity)
+          : op.kind === "swapIn"
+            ? await amm.swap(await tokenIn(op.zeroForOne), op.amountIn)
+            : await amm.swapTokensForExactTokens(
+                await tokenIn(op.zeroForOne),
+                op.amountOut,
+                MaxUint256,
+                MaxUint256
+              );
+    receipt = await tx.wait();
+  } catch (error) {
+    return { ok: false, reason: revertReason(error) };
+  }
+
+  for (const log of receipt?.logs ?? []) {
+    const event = pool.amm.interface.parseLog(log);
+    if (event?.name === "LiquidityAdded" || event?.name === "LiquidityRemoved") {
+      const [, amount0, amount1, liquidityMoved] = event.args;
+      return { ok: true, amounts: [amount0, amount1], liquidity: liquidityMoved };
+    }
+    if (event?.name === "SwapExecuted") {
+      return { ok: true, amounts: [event.args.amountIn, event.args.amountOut], liquidity: 0n };
+    }
+  }
+  throw new Error(`Fuzz: ${op.kind} emitted no pool event`);
+};
+
+const describeOutcome = (outcome: Outcome): string =>
+  outcome.ok
+    ? `amounts [${outcome.amounts.join(", ")}] and liquidity ${outcome.liquidity}`
+    : `revert "${outcome.reason}"`;
+
+/**
+ * Runs operations against the pool from its freshly deployed state and against a model, stopping
+ * at the first step where they disagree or an invariant breaks
+ * @param pool Pool to run against, restored to its snapshot first
+ * @param operations Operations to run
+ * @param model Model of the same pool, fresh
+ * @return The first failed check, or undefined if the whole sequence passed
+ */
+export const runSequence = async (
+  pool: FuzzPool,
+  operations: Operation[],
+  model: PoolModel = new PoolModel(pool.swapFee)
+): Promise<Failure | undefined> => {
+  await pool.snapshot.restore();
+  const ammAddress = await pool.amm.getAddress();
+  const lock = await pool.amm.LIQUIDITY_LOCK();
+  const accounts: Account[] = [LOCK, ...pool.signers.map((_, i) => i)];
+  const addressOf = (account: Account) => (account === LOCK ? lock : pool.signers[account].address);
+
+  let [reserve0, reserve1] = [0n, 0n];
+  for (const [step, op] of operations.entries()) {
+    const fail = (check: string, message: string): Failure => ({
+      step,
+      check,
+      message: `step ${step} (${op.kind}): ${message}`,
+    });
+
+    const liquidity = op.kind === "remove" ? model.liquidityFor(op) : 0n;
+    const expected = model.apply(op);
+    const actual = await execute(pool, op, liquidity);
+    if (describeOutcome(actual) !== describeOutcome(expected)) {
+      return fail(
+        "outcome",
+        `${describeOutcome(actual)} on chain, ${describeOutcome(expected)} in the model`
+      );
+    }
+
+    const [reserve0After, reserve1After] = await pool.amm.getReserves();
+    if (reserve0After !== model.reserve0 || reserve1After !== model.reserve1) {
+      return fail(
+        "reserves",
+        `reserves ${reserve0After}/${reserve1After} on chain, ` +
+          `${model.reserve0}/${model.reserve1} in the model`
+      );
+    }
+    if (actual.ok && op.kind !== "add" && op.kind !== "remove") {
+      if (reserve0After * reserve1After < reserve0 * reserve1) {
+        return fail("k", `k fell from ${reserve0 * reserve1} to ${reserve0After * reserve1After}`);
+      }
+    }
+    [reserve0, reserve1] = [reserve0After, reserve1After];
+
+    let balanceSum = 0n;
+    for (const account of accounts) {
+      const balance = await pool.lpToken.balanceOf(addressOf(account));
+      if (balance !== model.balanceOf(account)) {
+        return fail(
+          "balance",
+          `LP balance of ${account === LOCK ? "the lock" : `signer ${account}`} is ${balance} ` +
+            `on chain, ${model.balanceOf(account)} in the model`
+        );
+      }
+      balanceSum += balance;
+    }
+    const totalSupply = await pool.lpToken.totalSupply();
+    if (totalSupply !== balanceSum || totalSupply !== model.totalSupply) {
+      return fail(
+        "supply",
+        `LP supply ${totalSupply} on chain, balances sum to ${balanceSum}, ` +
+          `${model.totalSupply} in the model`
+      );
+    }
+
+    const balance0 = await pool.token0.balanceOf(ammAddress);
+    const balance1 = await pool.token1.balanceOf(ammAddress);
+    if (balance0 < reserve0 || balance1 < reserve1) {
+      return fail("solvency", `pool holds ${balance0}/${balance1} for ${reserve0}/${reserve1}`);
+    }
+  }
+  return undefined;
+};
+
+/** Smaller versions of a value to try, simplest first. */
+const simpler = (value: bigint): bigint[] => {
+  const rounded = 10n ** BigInt(value.toString().length - 1);
+  return [0n, 1n, rounded, value / 2n].filter(
+    (candidate, i, all) => candidate < value && all.indexOf(candidate) === i
+  );
+};
+
+/** Variants of an operation with one field simplified. */
+const simplifications = (op: Operation): Operation[] => {
+  const variants: Operation[] = [];
+  if (op.signer !== 0) {
+    variants.push({ ...op, signer: 0 });
+  }
+  switch (op.kind) {
+    case "add":
+      simpler(op.amount0).forEach(amount0 => variants.push({ ...op, amount0 }));
+      simpler(op.amount1).forEach(amount1 => variants.push({ ...op, amount1 }));
+      break;
+    case "remove":
+      if (op.share !== 10_000) {
+        variants.push({ ...op, share: 10_000 });
+      }
+      break;
+    case "swapIn":
+      simpler(op.amountIn).forEach(amountIn => variants.push({ ...op, amountIn }));
+      break;
+    case "swapOut":
+      simpler(op.amountOut).forEach(amountOut => variants.push({ ...op, amountOut }));
+      break;
+  }
+  if (op.kind === "swapIn" || op.kind === "swapOut") {
+    if (!op.zeroForOne) {
+      variants.push({ ...op, zeroForOne: true });
+    }
+  }
+  return variants;
+};
+
+/**
+ * Shrinks a failing sequence: drops every operation after the failure, then removes chunks of
+ * operations and simplifies the remaining ones for as long as the same check keeps failing
+ * @param operations Sequence that failed
+ * @param failure How it failed
+ * @param replay Runs a candidate sequence, e.g. runSequence against the same pool and model
+ * @param budget Most candidate sequences to replay
+ * @return The smallest failing sequence found and its failure
+ */
+export const shrink = async (
+  operations: Operation[],
+  failure: Failure,
+  replay: (operations: Operation[]) => Promise<Failure | undefined>,
+  budget = 300
+): Promise<{ operations: Operation[]; failure: Failure }> => {
+  let best = { operations: operations.slice(0, failure.step + 1), failure };
+  const attempt = async (candidate: Operation[]): Promise<boolean> => {
+    if (budget <= 0) {
+      return false;
+    }
+    budget--;
+    const result = await replay(candidate);
+    if (result?.check !== failure.check) {
+      return false;
+    }
+    best = { operations: candidate.slice(0, result.step + 1), failure: result };
+    return true;
+  };
+
+  for (let size = Math.floor(best.operations.length / 2); size >= 1; size = Math.floor(size / 2)) {
+    for (let start = 0; start < best.operations.length; ) {
+      const ops = best.operations;
+      if (!(await attempt([...ops.slice(0, start), ...ops.slice(start + size)]))) {
+        start += size;
+      }
+    }
+  }
+
+  for (let improved = true; improved && budget > 0; ) {
+    improved = false;
+    for (let i = 0; i < best.operations.length; i++) {
+      for (const variant of simplifications(best.operations[i])) {
+        const ops = best.operations;
+        if (await attempt([...ops.slice(0, i), variant, ...ops.slice(i + 1)])) {
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+/** A sequence and the fee of the pool it ran against, as JSON with amounts as strings. */
+export const serializeCase = (swapFee: bigint, operations: Operation[]): string =>
+  JSON.stringify({ swapFee, operations }, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+
+/**
+ * Parses a case written by serializeCase
+ * @param json Serialized case
+ */
+export const parseCase = (json: string): { swapFee: bigint; operations: Operation[] } => {
+  const parsed = JSON.parse(json) as { swapFee: string; operations: Record<string, unknown>[] };
+  const amounts = ["amount0", "amount1", "amountIn", "amountOut"];
+  return {
+    swapFee: BigInt(parsed.swapFee),
+    operations: parsed.operations.map(op => {
+      const restored = { ...op };
+      for (const key of amounts.filter(key => key in op)) {
+        restored[key] = BigInt(op[key] as string);
+      }
+      return restored as Operation;
+    }),
+  };
+};
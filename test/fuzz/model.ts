@@ -0,0 +1,136 @@
+import {
+  getAmountIn,
+  getAmountOut,
+  getAmountsForLiquidity,
+  getLiquidityMinted,
+  getOptimalDepositAmounts,
+  MINIMUM_LIQUIDITY,
+  UINT112_MAX,
+} from "../../sdk";
+
+/** Index into the fuzzed signers; the LIQUIDITY_LOCK holder is LOCK. */
+export type Account = number;
+export const LOCK: Account = -1;
+
+export type Operation =
+  | { kind: "add"; signer: Account; amount0: bigint; amount1: bigint }
+  /** Burns `share` basis points of the signer's LP balance */
+  | { kind: "remove"; signer: Account; share: number }
+  | { kind: "swapIn"; signer: Account; zeroForOne: boolean; amountIn: bigint }
+  | { kind: "swapOut"; signer: Account; zeroForOne: boolean; amountOut: bigint };
+
+/**
+ * What an operation did: the token amounts it moved (deposited, withdrawn or swapped, in the
+ * order the pool's event reports them) and the LP tokens minted or burned, or its revert reason.
+ */
+export type Outcome =
+  | { ok: true; amounts: bigint[]; liquidity: bigint }
+  | { ok: false; reason: string };
+
+/**
+ * Pure TypeScript reference of an `AMM` without the protocol fee, built on the SDK math. Reserves
+ * always equal the pool's balances here, as the fuzzed operations never donate.
+ */
+export class PoolModel {
+  reserve0 = 0n;
+  reserve1 = 0n;
+  totalSupply = 0n;
+  readonly balances = new Map<Account, bigint>();
+
+  constructor(readonly swapFee: bigint) {}
+
+  balanceOf(account: Account): bigint {
+    return this.balances.get(account) ?? 0n;
+  }
+
+  /** LP tokens `remove` burns for `share` basis points of the signer's balance. */
+  liquidityFor(op: Extract<Operation, { kind: "remove" }>): bigint {
+    return (this.balanceOf(op.signer) * BigInt(op.share)) / 10_000n;
+  }
+
+  /**
+   * Applies an operation, leaving the state untouched if it reverts
+   * @param op Operation to apply
+   */
+  apply(op: Operation): Outcome {
+    try {
+      return { ok: true, ...this.execute(op) };
+    } catch (error) {
+      return { ok: false, reason: (error as Error).message };
+    }
+  }
+
+  private execute(op: Operation): { amounts: bigint[]; liquidity: bigint } {
+    switch (op.kind) {
+      case "add": {
+        const [amount0, amount1] = getOptimalDepositAmounts(
+          op.amount0,
+          op.amount1,
+          this.reserve0,
+          this.reserve1
+        );
+        const first = this.totalSupply === 0n;
+        const liquidity = getLiquidityMinted(
+          amount0,
+          amount1,
+          this.reserve0,
+          this.reserve1,
+          this.totalSupply
+        );
+        this.setReserves(this.reserve0 + amount0, this.reserve1 + amount1);
+        if (first) {
+          this.mint(LOCK, MINIMUM_LIQUIDITY);
+        }
+        this.mint(op.signer, liquidity);
+        return { amounts: [amount0, amount1], liquidity };
+      }
+      case "remove": {
+        const liquidity = this.liquidityFor(op);
+        const [amount0, amount1] = getAmountsForLiquidity(
+          liquidity,
+          this.reserve0,
+          this.reserve1,
+          this.totalSupply
+        );
+        this.balances.set(op.signer, this.balanceOf(op.signer) - liquidity);
+        this.totalSupply -= liquidity;
+        this.setReserves(this.reserve0 - amount0, this.reserve1 - amount1);
+        return { amounts: [amount0, amount1], liquidity };
+      }
+      case "swapIn":
+      case "swapOut": {
+        const [reserveIn, reserveOut] = op.zeroForOne
+          ? [this.reserve0, this.reserve1]
+          : [this.reserve1, this.reserve0];
+        const fee = this.swapFee;
+        const amountIn =
+          op.kind === "swapIn"
+            ? op.amountIn
+            : getAmountIn(op.amountOut, reserveIn, reserveOut, fee);
+        const amountOut =
+          op.kind === "swapOut"
+            ? op.amountOut
+            : getAmountOut(op.amountIn, reserveIn, reserveOut, fee);
+        if (op.zeroForOne) {
+          this.setReserves(this.reserve0 + amountIn, this.reserve1 - amountOut);
+        } else {
+          this.setReserves(this.reserve0 - amountOut, this.reserve1 + amountIn);
+        }
+        return { amounts: [amountIn, amountOut], liquidity: 0n };
+      }
+    }
+  }
+
+  private setReserves(reserve0: bigint, reserve1: bigint): void {
+    if (reserve0 > UINT112_MAX || reserve1 > UINT112_MAX) {
+      throw new Error("AMM: reserve overflow");
+    }
+    this.reserve0 = reserve0;
+    this.reserve1 = reserve1;
+  }
+
+  private mint(account: Account, liquidity: bigint): void {
+    this.balances.set(account, this.balanceOf(account) + liquidity);
+    this.totalSupply += liquidity;
+  }
+}
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { join } from "path";
+import { runBenchmarks } from "./gas/benchmark";
+import { compareSnapshots, formatDiff, readSnapshot, writeSnapshot } from "./gas/snapshot";
+
+/*
+ * Gas benchmarks of the canonical pool operations against the committed gas-snapshot.json.
+ *
+ *   GAS_SNAPSHOT=update   record the measurements as the new snapshot instead of comparing
+ *   GAS_THRESHOLD_BPS     increase tolerated per scenario before it fails (default 100, i.e. 1%)
+ */
+const SNAPSHOT_PATH = join(__dirname, "..", "gas-snapshot.json");
+const UPDATE = process.env.GAS_SNAPSHOT === "update";
+const THRESHOLD_BPS = Number(process.env.GAS_THRESHOLD_BPS ?? 100);
+
+describe("Gas", () => {
+  describe("Benchmarks", () => {
+    // Instrumented bytecode costs far more than the real contracts
+    const coverage = (hre as unknown as { __SOLIDITY_COVERAGE_RUNNING?: boolean })
+      .__SOLIDITY_COVERAGE_RUNNING;
+
+    (coverage ? it.skip : it)("should not regress against the snapshot", async () => {
+      const measured = await runBenchmarks();
+      if (UPDATE) {
+        writeSnapshot(SNAPSHOT_PATH, measured);
+        return;
+      }
+
+      const snapshot = readSnapshot(SNAPSHOT_PATH);
+      if (!snapshot) {
+        expect.fail(`no snapshot at ${SNAPSHOT_PATH}, record one with: npm run gas:snapshot`);
+      }
+      const changes = compareSnapshots(snapshot, measured, THRESHOLD_BPS);
+      if (changes.some(change => change.regression)) {
+        expect.fail(
+          [
+            `gas regressed beyond ${THRESHOLD_BPS} bps:`,
+            formatDiff(changes),
+            "if the increase is intended, record it with: npm run gas:snapshot",
+          ].join("\n")
+        );
+      }
+    });
+
+    (coverage ? it.skip : it)("should measure the same gas on every run", async () => {
+      expect(await runBenchmarks()).to.deep.equal(await runBenchmarks());
+    });
+  });
+
+  describe("compareSnapshots", () => {
+    const snapshot = { mint: 100_000, swap: 50_000 };
+
+    it("should flag increases beyond the threshold only", () => {
+      const changes = compareSnapshots(snapshot, { mint: 101_000, swap: 50_600 }, 100);
+      expect(changes.map(change => change.regression)).to.deep.equal([false, true]);
+    });
+
+    it("should let decreases through", () => {
+      const changes = compareSnapshots(snapshot, { mint: 60_000, swap: 50_000 }, 0);
+      expect(changes.some(change => change.regression)).to.equal(false);
+    });
+
+    it("should flag scenarios missing from either side", () => {
+      const changes = compareSnapshots(snapshot, { mint: 100_000, flash: 70_000 }, 100);
+      expect(changes).to.deep.equal([
+        { scenario: "mint", before: 100_000, after: 100_000, regression: false },
+        { scenario: "flash", before: undefined, after: 70_000, regression: true },
+        { scenario: "swap", before: 50_000, after: undefined, regression: true },
+      ]);
+    });
+  });
+
+  describe("formatDiff", () => {
+    it("should align the table and mark regressions", () => {
+      const diff = formatDiff(
+        compareSnapshots(
+          { mint: 100_000, swap: 50_000 },
+          { mint: 99_000, swap: 51_000, flash: 70_000 },
+          100
+        )
+      );
+      expect(diff.split("\n")).to.deep.equal([
+        "scenario  snapshot  measured          change",
+        "mint        100000     99000  -1000 (-1.00%)",
+        "swap         50000     51000  +1000 (+2.00%)  <- regression",
+        "flash            -     70000             new  <- regression",
+      ]);
+    });
+  });
+});
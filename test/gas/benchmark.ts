@@ -0,0 +1,75 @@
+import { ethers } from "hardhat";
+import { ContractTransactionResponse, MaxUint256, Wallet } from "ethers";
+import { setBalance, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { GasSnapshot } from "./snapshot";
+
+const toWei = (value: number) => ethers.parseEther(value.toString());
+
+/**
+ * Account with a fixed key. Its nonce starts at zero in every run, so the contracts it deploys
+ * land on the same addresses and calldata costs the same whatever ran before the benchmark.
+ */
+const account = async (label: string): Promise<Wallet> => {
+  const wallet = new Wallet(ethers.id(`minimal-amm gas benchmark: ${label}`), ethers.provider);
+  await setBalance(wallet.address, toWei(1000));
+  return wallet;
+};
+
+/**
+ * Measures the canonical pool operations on a fresh factory pool with a 30 bps fee and the
+ * protocol fee off, in the order a pool sees them: the first deposit, a second provider's
+ * deposit, a swap each way from a trader already holding both tokens, a partial withdrawal by
+ * the first provider and the second provider's exit. The chain is rolled back afterwards.
+ * @return Gas used by each transaction, intrinsic and calldata cost included
+ */
+export const runBenchmarks = async (): Promise<GasSnapshot> => {
+  const snapshot = await takeSnapshot();
+  const [deployer, alice, bob, trader] = await Promise.all(
+    ["deployer", "alice", "bob", "trader"].map(account)
+  );
+
+  const factory = await (await ethers.getContractFactory("AMMFactory", deployer)).deploy();
+  const TestTokenFactory = await ethers.getContractFactory("TestToken", deployer);
+  const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+  const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+  await factory.createPool(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+  const amm = await ethers.getContractAt(
+    "AMM",
+    await factory.getPool(await tokenA.getAddress(), await tokenB.getAddress())
+  );
+  const token0 = await ethers.getContractAt("TestToken", await amm.token0(), deployer);
+  const token1 = await ethers.getContractAt("TestToken", await amm.token1(), deployer);
+  const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+
+  for (const user of [alice, bob, trader]) {
+    for (const token of [token0, token1]) {
+      await token.mint(user.address, toWei(10_000));
+      await token.connect(user).approve(await amm.getAddress(), MaxUint256);
+    }
+  }
+
+  const results: GasSnapshot = {};
+  const measure = async (scenario: string, tx: Promise<ContractTransactionResponse>) => {
+    const receipt = await (await tx).wait();
+    results[scenario] = Number(receipt?.gasUsed);
+  };
+
+  await measure(
+    "addLiquidity: first mint",
+    amm.connect(alice).addLiquidity(toWei(1000), toWei(1000))
+  );
+  await measure("addLiquidity: later mint", amm.connect(bob).addLiquidity(toWei(100), toWei(100)));
+  await measure("swap: token0 -> token1", amm.connect(trader).swap(token0, toWei(10)));
+  await measure("swap: token1 -> token0", amm.connect(trader).swap(token1, toWei(10)));
+  await measure(
+    "removeLiquidity: partial",
+    amm.connect(alice).removeLiquidity((await lpToken.balanceOf(alice.address)) / 2n)
+  );
+  await measure(
+    "removeLiquidity: full",
+    amm.connect(bob).removeLiquidity(await lpToken.balanceOf(bob.address))
+  );
+
+  await snapshot.restore();
+  return results;
+};
@@ -0,0 +1,87 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+/** Gas used by each benchmark scenario, keyed by scenario name */
+export type GasSnapshot = Record<string, number>;
+
+export interface GasChange {
+  scenario: string;
+  /** Gas recorded in the snapshot, undefined for a scenario the snapshot lacks */
+  before?: number;
+  /** Gas measured now, undefined for a scenario that no longer runs */
+  after?: number;
+  /** Whether the change fails the check */
+  regression: boolean;
+}
+
+export const readSnapshot = (path: string): GasSnapshot | undefined =>
+  existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as GasSnapshot) : undefined;
+
+export const writeSnapshot = (path: string, snapshot: GasSnapshot) =>
+  writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`);
+
+/**
+ * Compares measured gas against a snapshot. A scenario regresses when it costs more than
+ * `thresholdBps` basis points over its snapshot, or when it is missing from either side, since
+ * the snapshot then no longer describes the suite.
+ * @param before Committed snapshot
+ * @param after Fresh measurements
+ * @param thresholdBps Increase tolerated before a scenario counts as a regression
+ * @return One change per scenario in either snapshot, measured scenarios first
+ */
+export const compareSnapshots = (
+  before: GasSnapshot,
+  after: GasSnapshot,
+  thresholdBps: number
+): GasChange[] => {
+  const scenarios = [
+    ...Object.keys(after),
+    ...Object.keys(before).filter(name => !(name in after)),
+  ];
+  return scenarios.map(scenario => {
+    const old = before[scenario];
+    const now = after[scenario];
+    const regression =
+      old === undefined || now === undefined || (now - old) * 10_000 > old * thresholdBps;
+    return { scenario, before: old, after: now, regression };
+  });
+};
+
+const formatChange = ({ before, after }: GasChange): string => {
+  if (before === undefined) {
+    return "new";
+  }
+  if (after === undefined) {
+    return "removed";
+  }
+  const delta = after - before;
+  const percent = ((delta / before) * 100).toFixed(2);
+  return delta === 0 ? "" : `${delta > 0 ? "+" : ""}${delta} (${delta > 0 ? "+" : ""}${percent}%)`;
+};
+
+/**
+ * Renders changes as an aligned table, marking the regressions
+ * @param changes Output of `compareSnapshots`
+ */
+export const formatDiff = (changes: GasChange[]): string => {
+  const rows = [
+    ["scenario", "snapshot", "measured", "change", ""],
+    ...changes.map(change => [
+      change.scenario,
+      change.before?.toString() ?? "-",
+      change.after?.toString() ?? "-",
+      formatChange(change),
+      change.regression ? "<- regression" : "",
+    ]),
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) =>
+          column === 0 ? cell.padEnd(widths[0]) : cell.padStart(widths[column])
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+};
@@ -0,0 +1,346 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  AmmClient,
+  computeAnalytics,
+  FEE_DENOMINATOR,
+  FileEventStore,
+  getFlashLoanRepayment,
+  indexPool,
+  PRICE_SCALE,
+} from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+const DAY = 86_400;
+
+describe("Indexer", () => {
+  let alice: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let dave: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let pool: string;
+  let deployBlock: number;
+  let dir: string;
+
+  const store = (name = "pool") => new FileEventStore(path.join(dir, name));
+  const balances = async (account: string) => [
+    await token0.balanceOf(account),
+    await token1.balanceOf(account),
+  ];
+
+  /**
+   * Day 1: Alice seeds the pool and the trader swaps both ways.
+   * Day 2: Carol joins, hands half her LP tokens to Dave, the trader swaps again and Alice exits.
+   */
+  const trade = async () => {
+    const client = async (signer: HardhatEthersSigner) => AmmClient.connect(pool, signer);
+    const traderClient = await client(trader);
+
+    await (await client(alice)).addLiquidity(toWei(1000), toWei(2000));
+    await traderClient.swap(await token0.getAddress(), toWei(50));
+    await traderClient.swap(await token1.getAddress(), toWei(30));
+    await time.increase(DAY);
+
+    await (await client(carol)).addLiquidity(toWei(500), toWei(5000));
+    const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+    await lpToken.connect(carol).transfer(dave.address, (await lpToken.balanceOf(carol)) / 2n);
+    await traderClient.swap(await token0.getAddress(), toWei(200));
+    await (await client(alice)).removeLiquidity(await lpToken.balanceOf(alice));
+  };
+
+  beforeEach(async () => {
+    [, alice, carol, dave, trader] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    pool = await amm.getAddress();
+    deployBlock = (await amm.deploymentTransaction()!.wait())!.blockNumber;
+
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    for (const user of [alice, carol, trader]) {
+      await token0.mint(user.address, toWei(10000));
+      await token1.mint(user.address, toWei(10000));
+    }
+
+    dir = mkdtempSync(path.join(tmpdir(), "amm-indexer-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("indexPool", () => {
+    it("should page through the pool's events and record a checkpoint", async () => {
+      await trade();
+      const latest = await ethers.provider.getBlockNumber();
+
+      const result = await indexPool(pool, ethers.provider, store(), {
+        fromBlock: deployBlock,
+        pageSize: 3,
+      });
+      expect(result.fromBlock).to.equal(deployBlock);
+      expect(result.toBlock).to.equal(latest);
+      expect(result.checkpoint.token0).to.equal(await token0.getAddress());
+      expect(result.checkpoint.swapFee).to.equal("30");
+
+      const events = store().readEvents();
+      expect(events).to.have.length(result.newEvents);
+      expect(events.filter(event => event.name === "SwapExecuted")).to.have.length(3);
+      expect(events.filter(event => event.name === "LiquidityAdded")).to.have.length(2);
+      // Two LP mints per first deposit (the locked minimum), one per later deposit, the Carol to
+      // Dave transfer and Alice's burn
+      expect(events.filter(event => event.name === "Transfer")).to.have.length(5);
+      const order = events.map(event => [event.blockNumber, event.logIndex]);
+      expect(order).to.deep.equal([...order].sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+
+      const again = await indexPool(pool, ethers.provider, store());
+      expect(again.newEvents).to.equal(0);
+      expect(again.toBlock).to.equal(latest);
+    });
+
+    it("should resume from the checkpoint with the same events as a single run", async () => {
+      await (await AmmClient.connect(pool, alice)).addLiquidity(toWei(1000), toWei(2000));
+      const middle = await ethers.provider.getBlockNumber();
+      await trade();
+
+      await indexPool(pool, ethers.provider, store("resumed"), {
+        fromBlock: deployBlock,
+        toBlock: middle,
+      });
+      const resumed = await indexPool(pool, ethers.provider, store("resumed"));
+      expect(resumed.fromBlock).to.equal(middle + 1);
+
+      await indexPool(pool, ethers.provider, store("single"), { fromBlock: deployBlock });
+      expect(store("resumed").readEvents()).to.deep.equal(store("single").readEvents());
+    });
+
+    it("should drop events written by a page that never checkpointed", async () => {
+      await trade();
+      const latest = await ethers.provider.getBlockNumber();
+      await indexPool(pool, ethers.provider, store(), {
+        fromBlock: deployBlock,
+        toBlock: latest - 2,
+      });
+      const complete = store().readEvents();
+
+      // As if the process died between appending a page and writing its checkpoint
+      appendFileSync(store().eventsFile, `${JSON.stringify(complete[0])}\n`);
+      expect(store().readEvents()).to.deep.equal(complete);
+
+      await indexPool(pool, ethers.provider, store());
+      await indexPool(pool, ethers.provider, store("single"), { fromBlock: deployBlock });
+      expect(store().readEvents()).to.deep.equal(store("single").readEvents());
+    });
+
+    it("should refuse a store that indexes another pool", async () => {
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock });
+      await expect(indexPool(token0.target as string, ethers.provider, store())).to.be.rejectedWith(
+        "indexes pool"
+      );
+    });
+  });
+
+  describe("computeAnalytics", () => {
+    it("should total volume and fees and bucket them by day", async () => {
+      await trade();
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock });
+      const analytics = computeAnalytics(store().readCheckpoint()!, store().readEvents());
+
+      let volume0 = 0n;
+      let volume1 = 0n;
+      let fees0 = 0n;
+      let fees1 = 0n;
+      for (const { args } of await amm.queryFilter(amm.filters.SwapExecuted())) {
+        const fee = args.amountIn - (args.amountIn * (FEE_DENOMINATOR - 30n)) / FEE_DENOMINATOR;
+        const zeroForOne = args.tokenIn === (await token0.getAddress());
+        volume0 += zeroForOne ? args.amountIn : args.amountOut;
+        volume1 += zeroForOne ? args.amountOut : args.amountIn;
+        fees0 += zeroForOne ? fee : 0n;
+        fees1 += zeroForOne ? 0n : fee;
+      }
+      expect(analytics.swapCount).to.equal(3);
+      expect(analytics.volume0).to.equal(volume0);
+      expect(analytics.volume1).to.equal(volume1);
+      expect(analytics.fees0).to.equal(fees0);
+      expect(analytics.fees1).to.equal(fees1);
+
+      expect(analytics.periods).to.have.length(2);
+      expect(analytics.periods.map(period => period.swapCount)).to.deep.equal([2, 1]);
+      expect(analytics.periods[1].start - analytics.periods[0].start).to.be.at.least(DAY);
+      expect(analytics.periods[0].volume0 + analytics.periods[1].volume0).to.equal(volume0);
+    });
+
+    it("should round fees up the way the pool does", async () => {
+      await (await AmmClient.connect(pool, alice)).addLiquidity(toWei(1000), toWei(1000));
+      // 0.3% of 10_001 wei is 30.003; the pool keeps all but floor(10_001 * 0.997) = 9_970
+      await (await AmmClient.connect(pool, trader)).swap(await token0.getAddress(), 10_001n);
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock });
+      const analytics = computeAnalytics(store().readCheckpoint()!, store().readEvents());
+      expect(analytics.fees0).to.equal(31n);
+    });
+
+    it("should rebuild the reserve and price history", async () => {
+      await trade();
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock });
+      const analytics = computeAnalytics(store().readCheckpoint()!, store().readEvents());
+
+      for (const point of analytics.reserves) {
+        const blockTag = point.blockNumber;
+        const [reserve0, reserve1] = await amm.getReserves({ blockTag });
+        expect([point.reserve0, point.reserve1]).to.deep.equal([reserve0, reserve1]);
+        expect(point.price0).to.equal((reserve1 * PRICE_SCALE) / reserve0);
+        const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+        expect(point.totalSupply).to.equal(await lpToken.totalSupply({ blockTag }));
+      }
+      expect(analytics.periods[1].close).to.deep.equal(
+        analytics.reserves[analytics.reserves.length - 1]
+      );
+    });
+
+    it("should track each LP's share, fees and P&L over time", async () => {
+      const [alice0, alice1] = await balances(alice.address);
+      await trade();
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock });
+      const analytics = computeAnalytics(store().readCheckpoint()!, store().readEvents());
+      const { positions } = analytics;
+      const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      const [reserve0, reserve1] = await amm.getReserves();
+      const supply = await lpToken.totalSupply();
+
+      for (const account of [carol.address, dave.address, await amm.LIQUIDITY_LOCK()]) {
+        const liquidity = await lpToken.balanceOf(account);
+        expect(positions[account].liquidity).to.equal(liquidity);
+        expect(positions[account].share).to.equal((liquidity * PRICE_SCALE) / supply);
+        expect(positions[account].amount0).to.equal((liquidity * reserve0) / supply);
+      }
+      // Carol's transfer moved half her position, and its cost basis, to Dave
+      expect(positions[carol.address].liquidity).to.equal(positions[dave.address].liquidity);
+      expect(positions[dave.address].deposited0).to.be.greaterThan(0n);
+      expect(positions[carol.address].withdrawn0).to.equal(positions[dave.address].deposited0);
+
+      // Alice has exited, so her P&L is her net token flow valued at the latest price
+      const alicePosition = positions[alice.address];
+      const [aliceNow0, aliceNow1] = await balances(alice.address);
+      const price0 = (reserve1 * PRICE_SCALE) / reserve0;
+      expect(alicePosition.liquidity).to.equal(0n);
+      expect(alicePosition.pnl).to.equal(
+        ((aliceNow0 - alice0) * price0) / PRICE_SCALE + (aliceNow1 - alice1)
+      );
+      expect(alicePosition.fees0).to.be.greaterThan(0n);
+      expect(alicePosition.fees1).to.be.greaterThan(0n);
+
+      // Alice held the whole pool on day 1 (less the locked minimum) and was out by the end of day 2
+      expect(alicePosition.history.map(point => point.liquidity > 0n)).to.deep.equal([true, false]);
+      expect(alicePosition.history[0].share).to.be.greaterThan((PRICE_SCALE * 999n) / 1000n);
+      expect(positions[carol.address].history).to.have.length(1);
+
+      // Fees are attributed pro rata, so the LPs' shares add up to the total less rounding
+      const attributed = Object.values(positions).reduce((sum, lp) => sum + lp.fees0, 0n);
+      expect(attributed).to.be.at.most(analytics.fees0);
+      expect(attributed).to.be.closeTo(analytics.fees0, 10n);
+    });
+  });
+
+  describe("Rebuilding state from logs", () => {
+    it("should match on-chain reserves and LP balances after random operations", async () => {
+      // xorshift32 with a fixed seed, so a failure reproduces
+      let seed = 0x2545f491;
+      const random = (n: number) => {
+        seed ^= seed << 13;
+        seed ^= seed >>> 17;
+        seed ^= seed << 5;
+        return (seed >>> 0) % n;
+      };
+      const randomAmount = (max: number) => toWei(random(max) + 1) / BigInt(random(1000) + 1);
+
+      const lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      const tokens = [token0, token1];
+      const borrower = await (await ethers.getContractFactory("FlashBorrower")).deploy(pool);
+      await token0.mint(await borrower.getAddress(), toWei(1000));
+      const clients = new Map<string, AmmClient>();
+      for (const signer of [alice, carol, trader]) {
+        clients.set(signer.address, await AmmClient.connect(pool, signer));
+      }
+      await clients.get(alice.address)!.addLiquidity(toWei(1000), toWei(3000));
+
+      const executed = new Set<number>();
+      for (let i = 0; i < 60; i++) {
+        const [reserve0, reserve1] = await amm.getReserves();
+        const lp = random(2) === 0 ? alice : carol;
+        const liquidity = await lpToken.balanceOf(lp);
+        const tokenIn = tokens[random(2)];
+        const donation = tokens[random(2)];
+        const kind = random(8);
+        if ((kind === 1 || kind === 6) && liquidity === 0n) {
+          continue;
+        }
+        executed.add(kind);
+
+        if (kind === 0) {
+          await clients.get(lp.address)!.addLiquidity(randomAmount(500), randomAmount(500));
+        } else if (kind === 1) {
+          await clients
+            .get(lp.address)!
+            .removeLiquidity((liquidity * BigInt(random(100) + 1)) / 100n);
+        } else if (kind === 2) {
+          await clients.get(trader.address)!.swap(await tokenIn.getAddress(), randomAmount(200));
+        } else if (kind === 3) {
+          const reserveOut = tokenIn === token0 ? reserve1 : reserve0;
+          const amountOut = reserveOut / BigInt(random(50) + 10);
+          await clients
+            .get(trader.address)!
+            .swapExactOut(await tokenIn.getAddress(), amountOut, ethers.MaxUint256);
+        } else if (kind === 4) {
+          await donation.mint(pool, randomAmount(50));
+          await amm.sync();
+        } else if (kind === 5) {
+          await donation.mint(pool, randomAmount(50));
+          await amm.skim(trader.address);
+        } else if (kind === 6) {
+          await lpToken.connect(lp).transfer(dave.address, liquidity / BigInt(random(4) + 2));
+        } else if (kind === 7) {
+          const amountOut = reserve0 / BigInt(random(50) + 10);
+          const repayment = getFlashLoanRepayment(amountOut, 30n) + BigInt(random(1000));
+          await borrower.borrow(amountOut, 0, repayment, 0);
+        }
+      }
+      // Every kind of operation ran
+      expect(executed.size).to.equal(8);
+
+      await indexPool(pool, ethers.provider, store(), { fromBlock: deployBlock, pageSize: 7 });
+      const analytics = computeAnalytics(store().readCheckpoint()!, store().readEvents());
+
+      for (const point of analytics.reserves) {
+        const blockTag = point.blockNumber;
+        expect([point.reserve0, point.reserve1]).to.deep.equal(
+          Array.from(await amm.getReserves({ blockTag }))
+        );
+        expect(point.totalSupply).to.equal(await lpToken.totalSupply({ blockTag }));
+      }
+      const latest = analytics.reserves[analytics.reserves.length - 1];
+      expect([latest.reserve0, latest.reserve1]).to.deep.equal(Array.from(await amm.getReserves()));
+      for (const account of [
+        alice.address,
+        carol.address,
+        dave.address,
+        await amm.LIQUIDITY_LOCK(),
+      ]) {
+        expect(analytics.positions[account].liquidity).to.equal(await lpToken.balanceOf(account));
+      }
+    });
+  });
+});
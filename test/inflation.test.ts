@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AMM, LPToken, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MINIMUM_LIQUIDITY } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Share Price Inflation", () => {
+  let attacker: HardhatEthersSigner;
+  let victim: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let lpToken: LPToken;
+
+  const balances = async (user: HardhatEthersSigner) => ({
+    amount0: await token0.balanceOf(user.address),
+    amount1: await token1.balanceOf(user.address),
+  });
+
+  beforeEach(async () => {
+    [, attacker, victim] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+
+    for (const user of [attacker, victim]) {
+      for (const token of [token0, token1]) {
+        await token.mint(user.address, toWei(100_000));
+        await token.connect(user).approve(await amm.getAddress(), ethers.MaxUint256);
+      }
+    }
+  });
+
+  it("should make the classic first-depositor attack cost the attacker, not the victim", async () => {
+    const attackerBefore = await balances(attacker);
+
+    // 1. Seed the pool with the smallest deposit it accepts, owning a single LP token
+    await amm.connect(attacker).addLiquidity(MINIMUM_LIQUIDITY + 1n, MINIMUM_LIQUIDITY + 1n);
+    expect(await lpToken.balanceOf(attacker.address)).to.equal(1n);
+
+    // 2. Donate straight to the pool and sync, so each LP token is worth ~10 tokens
+    const donation = toWei(10_000);
+    await token0.connect(attacker).transfer(await amm.getAddress(), donation);
+    await token1.connect(attacker).transfer(await amm.getAddress(), donation);
+    await amm.connect(attacker).sync();
+
+    // 3. The victim deposits. Without the locked liquidity the attacker would hold the only LP
+    // token, the victim would be minted floor(15000 / 10000) = 1 and lose a sixth of the deposit.
+    const deposit = toWei(15_000);
+    const victimBefore = await balances(victim);
+    await amm.connect(victim).addLiquidity(deposit, deposit);
+    const victimLiquidity = await lpToken.balanceOf(victim.address);
+    expect(victimLiquidity).to.be.greaterThan(1000n);
+
+    // Both walk away
+    await amm.connect(victim).removeLiquidity(victimLiquidity);
+    await amm.connect(attacker).removeLiquidity(1n);
+
+    // The victim loses at most the value of one LP token to rounding, under 0.1% of the deposit
+    const victimAfter = await balances(victim);
+    const victimLoss = victimBefore.amount0 - victimAfter.amount0;
+    expect(victimLoss).to.be.lessThan(deposit / 1000n);
+    expect(victimBefore.amount1 - victimAfter.amount1).to.equal(victimLoss);
+
+    // The attacker forfeits almost the whole donation to the locked liquidity
+    const attackerAfter = await balances(attacker);
+    const attackerLoss = attackerBefore.amount0 - attackerAfter.amount0;
+    expect(attackerLoss).to.be.greaterThan((donation * 99n) / 100n);
+    expect(attackerLoss).to.be.greaterThan(victimLoss * 1000n);
+  });
+
+  it("should keep the locked liquidity out of reach", async () => {
+    await amm.connect(attacker).addLiquidity(toWei(1), toWei(1));
+    const lock = await amm.LIQUIDITY_LOCK();
+    expect(await lpToken.balanceOf(lock)).to.equal(MINIMUM_LIQUIDITY);
+
+    // Withdrawing everything the attacker owns leaves the locked share, so the pool never empties
+    await amm.connect(attacker).removeLiquidity(await lpToken.balanceOf(attacker.address));
+    const [reserve0, reserve1] = await amm.getReserves();
+    expect(reserve0).to.equal(MINIMUM_LIQUIDITY);
+    expect(reserve1).to.equal(MINIMUM_LIQUIDITY);
+    expect(await lpToken.totalSupply()).to.equal(MINIMUM_LIQUIDITY);
+  });
+});
@@ -0,0 +1,436 @@
+import { expect } from "chai";
+import hre, { ethers, network } from "hardhat";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mkdtempSync, rmSync } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { AMM, TestToken } from "../typechain-types";
+import { Alert, getAmountOut, jsonLinesSink, PoolMonitor, webhookSink } from "../sdk";
+import { prepareScenarios, runScenarios, SCENARIOS } from "../scripts/scenarios";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Pool monitor", () => {
+  let lp: HardhatEthersSigner;
+  let attacker: HardhatEthersSigner;
+  let victim: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let pool: string;
+  let monitor: PoolMonitor;
+
+  const swap = (signer: HardhatEthersSigner, token: TestToken, amount: bigint, tipGwei = 1) =>
+    token.getAddress().then(address =>
+      amm.connect(signer).swap(address, amount, {
+        gasLimit: 300_000n,
+        maxFeePerGas: ethers.parseUnits("100", "gwei"),
+        maxPriorityFeePerGas: ethers.parseUnits(tipGwei.toString(), "gwei"),
+      })
+    );
+
+  /**
+   * Sends each transaction and mines them all in one block. Without automine, gas is not
+   * estimated, so each transaction names its own limit; decreasing tips keep them in order.
+   */
+  const inOneBlock = async (...sends: (() => Promise<unknown>)[]) => {
+    await network.provider.send("evm_setAutomine", [false]);
+    try {
+      for (const send of sends) {
+        await send();
+      }
+      await mine();
+    } finally {
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+  };
+
+  beforeEach(async () => {
+    [lp, attacker, victim] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token A", "TKA");
+    const tokenB = await TestTokenFactory.deploy("Token B", "TKB");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    pool = await amm.getAddress();
+    const a0 = (await amm.token0()) === (await tokenA.getAddress());
+    [token0, token1] = a0 ? [tokenA, tokenB] : [tokenB, tokenA];
+
+    for (const signer of [lp, attacker, victim]) {
+      for (const token of [token0, token1]) {
+        await token.mint(signer.address, toWei(100_000));
+        await token.connect(signer).approve(pool, ethers.MaxUint256);
+      }
+    }
+    await amm.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+
+    monitor = await PoolMonitor.connect(pool, ethers.provider);
+  });
+
+  describe("rules", () => {
+    it("should stay quiet during ordinary trading", async () => {
+      await swap(attacker, token0, toWei(5));
+      await swap(victim, token1, toWei(3));
+      await amm.connect(victim).addLiquidity(toWei(10), toWei(10));
+      await amm.connect(lp).removeLiquidity(toWei(100));
+
+      expect(await monitor.poll()).to.deep.equal([]);
+      expect(monitor.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("should report a donation once, and again only after it was skimmed", async () => {
+      await token0.connect(attacker).transfer(pool, toWei(10));
+      const [alert] = await monitor.poll();
+
+      const blockNumber = await ethers.provider.getBlockNumber();
+      const block = await ethers.provider.getBlock(blockNumber);
+      expect(alert).to.deep.equal({
+        rule: "reserveDrift",
+        severity: "warning",
+        pool,
+        blockNumber,
+        timestamp: block!.timestamp,
+        message: `pool holds ${toWei(10)} more token0 than its reserve`,
+        data: {
+          token: "token0",
+          reserve: toWei(1000).toString(),
+          balance: toWei(1010).toString(),
+          difference: toWei(10).toString(),
+          driftBps: "100",
+        },
+      });
+
+      await mine();
+      expect(await monitor.poll()).to.deep.equal([]);
+
+      await amm.skim(victim.address);
+      expect(await monitor.poll()).to.deep.equal([]);
+      await token0.connect(attacker).transfer(pool, toWei(10));
+      expect((await monitor.poll()).map(a => a.rule)).to.deep.equal(["reserveDrift"]);
+    });
+
+    it("should ignore drift within the threshold", async () => {
+      // 0.1% is the default threshold; 0.05% stays below it
+      await token1.connect(attacker).transfer(pool, toWei("0.5"));
+      expect(await monitor.poll()).to.deep.equal([]);
+    });
+
+    it("should flag a shortfall after a negative rebase as critical", async () => {
+      const rebasing = await (
+        await ethers.getContractFactory("RebasingToken")
+      ).deploy("Rebasing", "REB");
+      const rebasingAmm = await (
+        await ethers.getContractFactory("AMM")
+      ).deploy(await rebasing.getAddress(), await token1.getAddress(), 30);
+      const address = await rebasingAmm.getAddress();
+      await rebasing.mint(lp.address, toWei(1000));
+      await rebasing.connect(lp).approve(address, ethers.MaxUint256);
+      await token1.connect(lp).approve(address, ethers.MaxUint256);
+      await rebasingAmm.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+      const rebasingIs0 = (await rebasingAmm.token0()) === (await rebasing.getAddress());
+
+      const watcher = await PoolMonitor.connect(address, ethers.provider);
+      await rebasing.rebase(toWei("0.95"));
+      const alerts = await watcher.poll();
+
+      expect(alerts).to.have.length(1);
+      expect(alerts[0].severity).to.equal("critical");
+      expect(alerts[0].data).to.deep.include({
+        token: rebasingIs0 ? "token0" : "token1",
+        difference: (-toWei(50)).toString(),
+        driftBps: "500",
+      });
+    });
+
+    it("should flag a collapse of the LP supply", async () => {
+      const liquidity = await (
+        await ethers.getContractAt("LPToken", await amm.lpToken())
+      ).balanceOf(lp.address);
+      await amm.connect(lp).removeLiquidity((liquidity * 9n) / 10n);
+
+      const alerts = await monitor.poll();
+      expect(alerts.map(a => a.rule)).to.deep.equal(["supplyCollapse"]);
+      expect(alerts[0].severity).to.equal("critical");
+      expect(alerts[0].data.previousSupply).to.equal(toWei(1000).toString());
+      // The locked MINIMUM_LIQUIDITY keeps the drop just under 90%
+      expect(alerts[0].data.dropBps).to.equal("8999");
+    });
+
+    it("should flag an extreme price move in either direction", async () => {
+      await swap(attacker, token0, toWei(30));
+      expect(await monitor.poll()).to.deep.equal([]);
+
+      await swap(attacker, token0, toWei(200));
+      const [fell] = await monitor.poll();
+      expect(fell.rule).to.equal("priceMove");
+      expect(fell.message).to.match(/^token0 price fell by \d+ bps since block \d+$/);
+      expect(Number(fell.data.moveBps)).to.be.greaterThan(1000);
+
+      await swap(victim, token1, toWei(300));
+      const [rose] = await monitor.poll();
+      expect(rose.message).to.match(/^token0 price rose/);
+      expect(rose.data.previousPrice0).to.equal(fell.data.price0);
+    });
+
+    it("should price stable pools on their own curve", async () => {
+      const stable = await (
+        await ethers.getContractFactory("StableSwapAMM")
+      ).deploy(await token0.getAddress(), await token1.getAddress(), 4, 200);
+      for (const token of [token0, token1]) {
+        await token.connect(lp).approve(stable, ethers.MaxUint256);
+      }
+      await stable.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+      const stableMonitor = await PoolMonitor.connect(await stable.getAddress(), ethers.provider);
+
+      // Moves the reserve ratio by 85%, but the price by well under the 10% threshold
+      await stable.connect(lp).swap(token0, toWei(300));
+      expect(await stableMonitor.poll()).to.deep.equal([]);
+
+      await stable.connect(lp).swap(token0, toWei(650));
+      const [fell] = await stableMonitor.poll();
+      expect(fell.rule).to.equal("priceMove");
+    });
+
+    it("should flag a sandwich around another trader's swap", async () => {
+      const [reserve0, reserve1] = await amm.getReserves();
+      const frontIn = toWei(50);
+      const frontOut = getAmountOut(frontIn, reserve0, reserve1, 30n);
+      await inOneBlock(
+        () => swap(attacker, token0, frontIn, 3),
+        () => swap(victim, token0, toWei(100), 2),
+        () => swap(attacker, token1, frontOut, 1)
+      );
+
+      const alerts = (await monitor.poll()).filter(a => a.rule === "sandwich");
+      expect(alerts).to.have.length(1);
+      const { data } = alerts[0];
+      expect(data.attacker).to.equal(attacker.address);
+      expect(data.victims).to.equal(victim.address);
+      expect(data.token).to.equal(await token0.getAddress());
+
+      const swaps = await monitor.swaps(alerts[0].blockNumber, alerts[0].blockNumber);
+      expect([data.frontRunTx, data.victimTxs, data.backRunTx]).to.deep.equal(
+        swaps.map(s => s.txHash)
+      );
+      expect(BigInt(data.profit)).to.equal(swaps[2].amountOut - frontIn);
+      expect(BigInt(data.profit)).to.be.greaterThan(0n);
+    });
+
+    it("should not mistake round trips or opposite trades for sandwiches", async () => {
+      const [reserve0, reserve1] = await amm.getReserves();
+      const frontOut = getAmountOut(toWei(50), reserve0, reserve1, 30n);
+      // The same round trip spread over blocks, then one whose middle trade goes the other way
+      await swap(attacker, token0, toWei(50));
+      await swap(victim, token0, toWei(100));
+      await swap(attacker, token1, frontOut);
+      const [r0, r1] = await amm.getReserves();
+      await inOneBlock(
+        () => swap(attacker, token0, toWei(50), 3),
+        () => swap(victim, token1, toWei(10), 2),
+        () => swap(attacker, token1, getAmountOut(toWei(50), r0, r1, 30n), 1)
+      );
+
+      const alerts = await monitor.poll();
+      expect(alerts.filter(a => a.rule === "sandwich")).to.deep.equal([]);
+    });
+
+    it("should evaluate only the configured rules with the given thresholds", async () => {
+      const watcher = await PoolMonitor.connect(pool, ethers.provider, {
+        rules: ["priceMove"],
+        priceMoveBps: 100,
+      });
+      await swap(victim, token1, toWei(20));
+      await token0.connect(attacker).transfer(pool, toWei(100));
+
+      const alerts = await watcher.poll();
+      expect(alerts.map(a => a.rule)).to.deep.equal(["priceMove"]);
+      expect(watcher.thresholds).to.deep.equal({
+        reserveDriftBps: 10,
+        supplyDropBps: 5000,
+        priceMoveBps: 100,
+      });
+    });
+
+    it("should start at fromBlock and stay confirmations behind the head", async () => {
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await token0.connect(attacker).transfer(pool, toWei(10));
+      await mine();
+
+      const watcher = await PoolMonitor.connect(pool, ethers.provider, {
+        fromBlock,
+        confirmations: 3,
+      });
+      expect(watcher.lastBlock).to.equal(fromBlock - 1);
+      expect(await watcher.poll()).to.deep.equal([]);
+      await mine(2);
+      const alerts = await watcher.poll();
+      expect(alerts.map(a => [a.rule, a.blockNumber])).to.deep.equal([["reserveDrift", fromBlock]]);
+    });
+
+    it("should reject unknown rules and invalid thresholds", async () => {
+      await expect(
+        PoolMonitor.connect(pool, ethers.provider, { rules: ["rugPull" as "sandwich"] })
+      ).to.be.rejectedWith("Monitor: unknown rule rugPull");
+      await expect(
+        PoolMonitor.connect(pool, ethers.provider, { priceMoveBps: -1 })
+      ).to.be.rejectedWith("Monitor: priceMoveBps must be a non-negative integer");
+    });
+  });
+
+  describe("watching", () => {
+    let server: Server;
+    let url: string;
+    let received: Alert[];
+    let status: number;
+
+    beforeEach(async () => {
+      received = [];
+      status = 200;
+      server = createServer((request, response) => {
+        let body = "";
+        request.on("data", chunk => (body += chunk));
+        request.on("end", () => {
+          received.push(JSON.parse(body) as Alert);
+          response.writeHead(status).end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    /** Runs the watcher until `done` holds, making the changes in `act` once it is running. */
+    const watchUntil = async (
+      sinks: Parameters<PoolMonitor["watch"]>[0],
+      act: () => Promise<unknown>,
+      done: () => boolean,
+      onError?: (error: unknown) => void
+    ) => {
+      const controller = new AbortController();
+      let stopped = false;
+      // Settles with the watcher's error, so a rejection is never left unhandled while polling
+      const outcome = monitor
+        .watch(sinks, { intervalMs: 20, signal: controller.signal, onError })
+        .then(
+          () => undefined,
+          (error: unknown) => error
+        )
+        .finally(() => (stopped = true));
+      await act();
+      for (let i = 0; i < 200 && !done() && !stopped; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      controller.abort();
+      const error = await outcome;
+      if (error) {
+        throw error;
+      }
+    };
+
+    it("should write alerts as JSON lines and POST them to a webhook", async () => {
+      const lines: string[] = [];
+      await watchUntil(
+        [jsonLinesSink(line => lines.push(line)), webhookSink(url)],
+        () => token1.connect(attacker).transfer(pool, toWei(10)),
+        () => received.length > 0
+      );
+
+      expect(lines).to.have.length(1);
+      const alert = JSON.parse(lines[0]) as Alert;
+      expect(alert.rule).to.equal("reserveDrift");
+      expect(alert.data.token).to.equal("token1");
+      expect(received).to.deep.equal([alert]);
+    });
+
+    it("should keep watching when a sink fails", async () => {
+      status = 500;
+      const lines: string[] = [];
+      const errors: unknown[] = [];
+      await watchUntil(
+        [webhookSink(url), jsonLinesSink(line => lines.push(line))],
+        () => token1.connect(attacker).transfer(pool, toWei(10)),
+        () => lines.length > 0,
+        error => errors.push(error)
+      );
+
+      expect(lines).to.have.length(1);
+      expect((errors[0] as Error).message).to.equal(`Monitor: webhook ${url} answered 500`);
+    });
+
+    it("should rethrow errors without an error handler", async () => {
+      status = 404;
+      await expect(
+        watchUntil(
+          [webhookSink(url)],
+          () => token1.connect(attacker).transfer(pool, toWei(10)),
+          () => false
+        )
+      ).to.be.rejectedWith("answered 404");
+    });
+  });
+
+  describe("scenarios", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "amm-scenarios-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should raise exactly the expected alerts for each scripted step", async () => {
+      const context = await prepareScenarios(hre, { dir, log: () => undefined });
+      const watcher = await PoolMonitor.connect(await context.amm.getAddress(), ethers.provider);
+
+      const seen: string[][] = [];
+      await runScenarios(context, SCENARIOS, async (scenario, step) => {
+        const rules = (await watcher.poll()).map(alert => alert.rule);
+        expect(rules, `${scenario.name}: ${step.description}`).to.deep.equal(step.expect);
+        seen.push(rules);
+      });
+      expect(seen.flat()).to.have.members([
+        "reserveDrift",
+        "priceMove",
+        "sandwich",
+        "supplyCollapse",
+      ]);
+    });
+  });
+
+  describe("amm:monitor", () => {
+    it("should check a block range once and print each alert as JSON", async () => {
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      // Swaps set the reserves to the balances, so the donation comes last to stay visible
+      await swap(victim, token1, toWei(400));
+      await token0.connect(attacker).transfer(pool, toWei(10));
+
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...data: unknown[]) => lines.push(data.join(" "));
+      let alerts: Alert[];
+      try {
+        alerts = await hre.run("amm:monitor", { pool, fromBlock, once: true });
+      } finally {
+        console.log = log;
+      }
+      expect(alerts.map(a => a.rule)).to.deep.equal(["reserveDrift", "priceMove"]);
+      expect(lines.map(line => JSON.parse(line))).to.deep.equal(alerts);
+    });
+
+    it("should refuse --once without --from-block", async () => {
+      await expect(hre.run("amm:monitor", { pool, once: true })).to.be.rejectedWith(
+        "Tasks: --once needs --from-block"
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, TestToken, TWAPOracle } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, computeTwap, observe, PRICE_SCALE, Q112 } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+const PERIOD = 3600;
+
+describe("TWAP Oracle", () => {
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let attacker: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let client: AmmClient;
+  let oracle: TWAPOracle;
+
+  beforeEach(async () => {
+    [, lp, trader, attacker] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    for (const user of [lp, trader, attacker]) {
+      await token0.mint(user.address, toWei(1_000_000));
+      await token1.mint(user.address, toWei(1_000_000));
+    }
+
+    oracle = await (await ethers.getContractFactory("TWAPOracle")).deploy(PERIOD);
+    client = await AmmClient.connect(await amm.getAddress(), lp);
+    // 1 token0 = 2 token1
+    await client.addLiquidity(toWei(1000), toWei(2000));
+  });
+
+  describe("Accumulators", () => {
+    it("should start accruing only once the pool has reserves", async () => {
+      expect(await amm.price0CumulativeLast()).to.equal(0);
+      expect(await amm.price1CumulativeLast()).to.equal(0);
+      expect(await amm.blockTimestampLast()).to.equal(await time.latest());
+    });
+
+    it("should accrue the pre-update price for the time it held", async () => {
+      const start = Number(await amm.blockTimestampLast());
+      await token0.connect(trader).approve(await amm.getAddress(), ethers.MaxUint256);
+      await time.setNextBlockTimestamp(start + 100);
+      await client.withRunner(trader).swap(client.token0Address, toWei(10));
+
+      expect(await amm.blockTimestampLast()).to.equal(start + 100);
+      expect(await amm.price0CumulativeLast()).to.equal(
+        ((toWei(2000) * Q112) / toWei(1000)) * 100n
+      );
+      expect(await amm.price1CumulativeLast()).to.equal(
+        ((toWei(1000) * Q112) / toWei(2000)) * 100n
+      );
+    });
+
+    it("should accrue only once per block", async () => {
+      const start = Number(await amm.blockTimestampLast());
+      await token0.connect(trader).approve(await amm.getAddress(), ethers.MaxUint256);
+
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        await amm.connect(trader).swap(client.token0Address, toWei(10), { gasLimit: 500_000 });
+        await amm.connect(trader).swap(client.token0Address, toWei(10), { gasLimit: 500_000 });
+        await time.setNextBlockTimestamp(start + 50);
+        await ethers.provider.send("evm_mine", []);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+
+      // Both swaps landed in one block; the second saw timeElapsed == 0 and added nothing
+      expect((await amm.getReserves())[0]).to.equal(toWei(1020));
+      expect(await amm.blockTimestampLast()).to.equal(start + 50);
+      expect(await amm.price0CumulativeLast()).to.equal(((toWei(2000) * Q112) / toWei(1000)) * 50n);
+    });
+  });
+
+  describe("computeTwap", () => {
+    it("should average piecewise-constant prices weighted by duration", async () => {
+      await token1.connect(trader).approve(await amm.getAddress(), ethers.MaxUint256);
+      const older = await observe(amm);
+
+      // 1000 s at 2.0, then 3000 s at whatever price the swap leaves behind
+      await time.setNextBlockTimestamp(Number(older.timestamp) + 1000);
+      await client.withRunner(trader).swap(client.token1Address, toWei(500));
+      const [reserve0, reserve1] = await amm.getReserves();
+      await time.increaseTo(Number(older.timestamp) + 4000);
+
+      const twap = computeTwap(older, await observe(amm));
+      const expected0 =
+        ((((toWei(2000) * Q112) / toWei(1000)) * 1000n + ((reserve1 * Q112) / reserve0) * 3000n) *
+          PRICE_SCALE) /
+        4000n /
+        Q112;
+
+      expect(twap.timeElapsed).to.equal(4000);
+      expect(twap.price0).to.equal(expected0);
+      // Close to the duration-weighted mean of the real-valued prices
+      const realMean =
+        (2n * PRICE_SCALE * 1000n + (reserve1 * PRICE_SCALE * 3000n) / reserve0) / 4000n;
+      expect(twap.price0).to.be.closeTo(realMean, 10n);
+    });
+
+    it("should include accrual since the last update when observing", async () => {
+      const older = await observe(amm);
+      await time.increase(PERIOD);
+
+      const twap = computeTwap(older, await observe(amm));
+      expect(twap.price0).to.be.closeTo(2n * PRICE_SCALE, 1n);
+      expect(twap.price1).to.be.closeTo(PRICE_SCALE / 2n, 1n);
+    });
+
+    it("should survive accumulator and timestamp wrap-around", () => {
+      const twap = computeTwap(
+        {
+          timestamp: (1n << 32n) - 10n,
+          price0Cumulative: (1n << 256n) - 5n * Q112,
+          price1Cumulative: 0n,
+        },
+        { timestamp: 10n, price0Cumulative: 15n * Q112, price1Cumulative: 20n * Q112 }
+      );
+      expect(twap.timeElapsed).to.equal(20);
+      expect(twap.price0).to.equal(PRICE_SCALE);
+      expect(twap.price1).to.equal(PRICE_SCALE);
+    });
+
+    it("should barely move under a one-block manipulation", async () => {
+      const older = await observe(amm);
+      await time.increase(PERIOD - 2);
+
+      // Attacker quadruples the price of token0 and unwinds one second later
+      const attackerClient = client.withRunner(attacker);
+      await attackerClient.swap(client.token1Address, toWei(2000));
+      expect((await client.getPrice()).price0).to.be.greaterThan(7n * PRICE_SCALE);
+      await attackerClient.swap(
+        client.token0Address,
+        (await token0.balanceOf(attacker.address)) - toWei(1_000_000)
+      );
+
+      const twap = computeTwap(older, await observe(amm));
+      const drift = twap.price0 - 2n * PRICE_SCALE;
+      // Spot moved by >250%, the one-hour average by well under 1%
+      expect(drift).to.be.lessThan((2n * PRICE_SCALE) / 100n);
+    });
+  });
+
+  describe("TWAPOracle", () => {
+    it("should not report a price before a full window", async () => {
+      await oracle.update(await amm.getAddress());
+      await expect(
+        oracle.consult(await amm.getAddress(), client.token0Address, toWei(1))
+      ).to.be.revertedWith("TWAPOracle: not ready");
+
+      await time.increase(PERIOD / 2);
+      await expect(oracle.update(await amm.getAddress())).to.be.revertedWith(
+        "TWAPOracle: period not elapsed"
+      );
+    });
+
+    it("should match the off-chain TWAP for the same window", async () => {
+      await oracle.update(await amm.getAddress());
+      const older = await observe(amm);
+
+      await time.increase(PERIOD / 3);
+      await client.withRunner(trader).swap(client.token0Address, toWei(150));
+      await time.increase(PERIOD);
+      await oracle.update(await amm.getAddress());
+      const twap = computeTwap(older, await observe(amm));
+
+      const observation = await oracle.observations(await amm.getAddress());
+      expect((observation.price0Average * PRICE_SCALE) / Q112).to.equal(twap.price0);
+      expect(
+        await oracle.consult(await amm.getAddress(), client.token0Address, PRICE_SCALE)
+      ).to.equal((observation.price0Average * PRICE_SCALE) >> 112n);
+      expect(
+        await oracle.consult(await amm.getAddress(), client.token1Address, PRICE_SCALE)
+      ).to.equal((observation.price1Average * PRICE_SCALE) >> 112n);
+    });
+
+    it("should keep windows independent per pool", async () => {
+      const TestTokenFactory = await ethers.getContractFactory("TestToken");
+      const other = await (
+        await ethers.getContractFactory("AMM")
+      ).deploy(
+        await (await TestTokenFactory.deploy("A", "A")).getAddress(),
+        await (await TestTokenFactory.deploy("B", "B")).getAddress(),
+        30
+      );
+
+      await oracle.update(await amm.getAddress());
+      await time.increase(PERIOD);
+      await oracle.update(await amm.getAddress());
+
+      await expect(
+        oracle.consult(await other.getAddress(), await other.token0(), toWei(1))
+      ).to.be.revertedWith("TWAPOracle: not ready");
+      await expect(
+        oracle.consult(await amm.getAddress(), await other.token0(), toWei(1))
+      ).to.be.revertedWith("TWAPOracle: invalid token");
+    });
+  });
+});
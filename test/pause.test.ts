@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, AMMFactory, FlashBorrower, LPToken, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Pause and Guardian", () => {
+  let admin: HardhatEthersSigner;
+  let lp: HardhatEthersSigner;
+  let newGuardian: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let factory: AMMFactory;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let lpToken: LPToken;
+  let borrower: FlashBorrower;
+
+  const deadline = async () => (await time.latest()) + 60;
+
+  beforeEach(async () => {
+    [admin, lp, newGuardian, other] = await ethers.getSigners();
+
+    factory = await (await ethers.getContractFactory("AMMFactory")).deploy();
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    await factory.createPool(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    amm = await ethers.getContractAt(
+      "AMM",
+      await factory.getPool(await tokenA.getAddress(), await tokenB.getAddress())
+    );
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+
+    for (const token of [token0, token1]) {
+      await token.mint(lp.address, toWei(10_000));
+      await token.connect(lp).approve(await amm.getAddress(), ethers.MaxUint256);
+    }
+    await amm.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+
+    borrower = await (
+      await ethers.getContractFactory("FlashBorrower")
+    ).deploy(await amm.getAddress());
+    await token0.mint(await borrower.getAddress(), toWei(1));
+  });
+
+  describe("setPaused", () => {
+    it("should let the factory's guardian pause and unpause", async () => {
+      expect(await amm.guardian()).to.equal(admin.address);
+      expect(await amm.paused()).to.equal(false);
+
+      await expect(amm.setPaused(true)).to.emit(amm, "PauseUpdated").withArgs(admin.address, true);
+      expect(await amm.paused()).to.equal(true);
+      await expect(amm.setPaused(false))
+        .to.emit(amm, "PauseUpdated")
+        .withArgs(admin.address, false);
+      expect(await amm.paused()).to.equal(false);
+    });
+
+    it("should reject everyone else", async () => {
+      await expect(amm.connect(other).setPaused(true)).to.be.revertedWith("AMM: forbidden");
+      await amm.setPaused(true);
+      await expect(amm.connect(lp).setPaused(false)).to.be.revertedWith("AMM: forbidden");
+    });
+
+    it("should be guarded by the deployer of a pool without a factory", async () => {
+      const direct = await (await ethers.getContractFactory("AMM"))
+        .connect(other)
+        .deploy(await token0.getAddress(), await token1.getAddress(), 30);
+
+      expect(await direct.guardian()).to.equal(other.address);
+      await expect(direct.connect(admin).setPaused(true)).to.be.revertedWith("AMM: forbidden");
+      await direct.connect(other).setPaused(true);
+      expect(await direct.paused()).to.equal(true);
+    });
+
+    it("should keep the guardian separate from the fee admin", async () => {
+      await factory.setFeeToSetter(other.address);
+      expect(await amm.guardian()).to.equal(admin.address);
+      await expect(amm.connect(other).setPaused(true)).to.be.revertedWith("AMM: forbidden");
+    });
+  });
+
+  describe("While paused", () => {
+    beforeEach(async () => {
+      await amm.setPaused(true);
+    });
+
+    it("should halt swaps", async () => {
+      const trader = amm.connect(lp);
+      await expect(trader.swap(token0, toWei(1))).to.be.revertedWith("AMM: paused");
+      await expect(
+        trader.swapExactTokensForTokens(token0, toWei(1), 0, await deadline())
+      ).to.be.revertedWith("AMM: paused");
+      await expect(
+        trader.swapTokensForExactTokens(token0, toWei(1), toWei(2), await deadline())
+      ).to.be.revertedWith("AMM: paused");
+      await expect(borrower.borrow(toWei(1), 0, toWei(2), 0)).to.be.revertedWith("AMM: paused");
+    });
+
+    it("should halt deposits", async () => {
+      const provider = amm.connect(lp);
+      await expect(provider.addLiquidity(toWei(1), toWei(1))).to.be.revertedWith("AMM: paused");
+      await expect(
+        provider.addLiquidityWithLimits(toWei(1), toWei(1), 0, 0, await deadline())
+      ).to.be.revertedWith("AMM: paused");
+    });
+
+    it("should keep withdrawals open", async () => {
+      const provider = amm.connect(lp);
+      const liquidity = await lpToken.balanceOf(lp.address);
+      await provider.removeLiquidity(liquidity / 4n);
+      await provider.removeLiquidityWithLimits(liquidity / 4n, 0, 0, await deadline());
+      await provider.removeLiquidityTo(liquidity / 4n, 0, 0, other.address, await deadline());
+      expect(await lpToken.balanceOf(lp.address)).to.equal(liquidity - 3n * (liquidity / 4n));
+      expect(await token0.balanceOf(other.address)).to.be.gt(0n);
+    });
+
+    it("should keep sync and skim open", async () => {
+      await token0.mint(await amm.getAddress(), toWei(1));
+      await amm.skim(other.address);
+      expect(await token0.balanceOf(other.address)).to.equal(toWei(1));
+
+      await token1.mint(await amm.getAddress(), toWei(1));
+      await expect(amm.sync()).to.emit(amm, "Sync");
+    });
+
+    it("should resume trading once unpaused", async () => {
+      await amm.setPaused(false);
+      await expect(amm.connect(lp).swap(token0, toWei(1))).to.emit(amm, "SwapExecuted");
+      await expect(amm.connect(lp).addLiquidity(toWei(1), toWei(1))).to.emit(amm, "LiquidityAdded");
+    });
+  });
+
+  describe("Guardian handover", () => {
+    it("should record the first guardian at deployment", async () => {
+      await expect(factory.deploymentTransaction())
+        .to.emit(factory, "GuardianTransferred")
+        .withArgs(ethers.ZeroAddress, admin.address);
+    });
+
+    it("should hand over in two steps", async () => {
+      await expect(factory.transferGuardian(newGuardian.address))
+        .to.emit(factory, "GuardianTransferStarted")
+        .withArgs(admin.address, newGuardian.address);
+      // The current guardian keeps the role until the nominee accepts
+      expect(await factory.guardian()).to.equal(admin.address);
+      expect(await factory.pendingGuardian()).to.equal(newGuardian.address);
+      await amm.setPaused(true);
+
+      await expect(factory.connect(newGuardian).acceptGuardian())
+        .to.emit(factory, "GuardianTransferred")
+        .withArgs(admin.address, newGuardian.address);
+      expect(await factory.guardian()).to.equal(newGuardian.address);
+      expect(await factory.pendingGuardian()).to.equal(ethers.ZeroAddress);
+
+      // Every pool follows the factory
+      expect(await amm.guardian()).to.equal(newGuardian.address);
+      await expect(amm.setPaused(false)).to.be.revertedWith("AMM: forbidden");
+      await amm.connect(newGuardian).setPaused(false);
+    });
+
+    it("should only let the guardian nominate and the nominee accept", async () => {
+      await expect(factory.connect(other).transferGuardian(other.address)).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+
+      await factory.transferGuardian(newGuardian.address);
+      await expect(factory.connect(other).acceptGuardian()).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+      await expect(factory.acceptGuardian()).to.be.revertedWith("AMMFactory: forbidden");
+    });
+
+    it("should let the guardian replace or withdraw a nomination", async () => {
+      await factory.transferGuardian(newGuardian.address);
+      await factory.transferGuardian(other.address);
+      await expect(factory.connect(newGuardian).acceptGuardian()).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+
+      await expect(factory.transferGuardian(ethers.ZeroAddress))
+        .to.emit(factory, "GuardianTransferStarted")
+        .withArgs(admin.address, ethers.ZeroAddress);
+      await expect(factory.connect(other).acceptGuardian()).to.be.revertedWith(
+        "AMMFactory: forbidden"
+      );
+      expect(await factory.guardian()).to.equal(admin.address);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, LPToken, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, buildPermit, getAmountsForLiquidity, signPermit } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Permit", () => {
+  let holder: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let lpToken: LPToken;
+  let client: AmmClient;
+
+  const deadlineIn = async (seconds: number) => BigInt((await time.latest()) + seconds);
+
+  /** Amounts burning `liquidity` pays out at the current reserves. */
+  const expectedAmounts = async (liquidity: bigint) => {
+    const [reserve0, reserve1] = await amm.getReserves();
+    return getAmountsForLiquidity(liquidity, reserve0, reserve1, await lpToken.totalSupply());
+  };
+
+  beforeEach(async () => {
+    [, holder, relayer, recipient, other] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+
+    await token0.mint(holder.address, toWei(10_000));
+    await token1.mint(holder.address, toWei(10_000));
+    client = await AmmClient.connect(await amm.getAddress(), holder);
+    await client.addLiquidity(toWei(1000), toWei(4000));
+  });
+
+  describe("LPToken", () => {
+    it("should sign permits in the token's EIP-712 domain", async () => {
+      const deadline = await deadlineIn(3600);
+      const { domain, message } = await buildPermit(
+        lpToken,
+        holder.address,
+        relayer.address,
+        toWei(5),
+        deadline
+      );
+      // The pair is named in sorted address order, which depends on deployment order
+      expect(domain).to.deep.equal({
+        name: await lpToken.name(),
+        version: "1",
+        chainId: 31337n,
+        verifyingContract: await lpToken.getAddress(),
+      });
+      expect(message.nonce).to.equal(0n);
+      expect(domain.name).to.match(/^Minimal AMM LP TK[01]-TK[01]$/);
+
+      const permit = await signPermit(lpToken, holder, relayer.address, toWei(5), deadline);
+      await lpToken.permit(
+        holder.address,
+        relayer.address,
+        toWei(5),
+        deadline,
+        permit.v,
+        permit.r,
+        permit.s
+      );
+      expect(await lpToken.allowance(holder.address, relayer.address)).to.equal(toWei(5));
+      expect(await lpToken.nonces(holder.address)).to.equal(1n);
+    });
+
+    it("should only let the pool burn from an allowance", async () => {
+      await expect(
+        lpToken.connect(relayer).burnFrom(holder.address, relayer.address, 1n)
+      ).to.be.revertedWith("LPToken: only AMM");
+    });
+  });
+
+  describe("removeLiquidityWithPermit", () => {
+    it("should let a relayer remove liquidity for the holder", async () => {
+      const liquidity = (await lpToken.balanceOf(holder.address)) / 4n;
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, liquidity);
+      const [amount0, amount1] = await expectedAmounts(liquidity);
+      const holderBalance = await lpToken.balanceOf(holder.address);
+
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit(permit, { to: recipient.address })
+      )
+        .to.emit(amm, "LiquidityRemoved")
+        .withArgs(holder.address, amount0, amount1, liquidity, recipient.address);
+
+      expect(await lpToken.balanceOf(holder.address)).to.equal(holderBalance - liquidity);
+      expect(await lpToken.allowance(holder.address, relayer.address)).to.equal(0n);
+      expect(await token0.balanceOf(recipient.address)).to.equal(amount0);
+      expect(await token1.balanceOf(recipient.address)).to.equal(amount1);
+      expect(await token0.balanceOf(relayer.address)).to.equal(0n);
+    });
+
+    it("should pay the holder when no recipient is given", async () => {
+      const liquidity = toWei(1);
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, liquidity);
+      const [amount0] = await expectedAmounts(liquidity);
+      const balance = await token0.balanceOf(holder.address);
+
+      await client.withRunner(relayer).removeLiquidityWithPermit(permit);
+      expect(await token0.balanceOf(holder.address)).to.equal(balance + amount0);
+    });
+
+    it("should enforce the minimum amounts", async () => {
+      const liquidity = toWei(1);
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, liquidity);
+      const [amount0, amount1] = await expectedAmounts(liquidity);
+
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit(permit, { amount0Min: amount0 + 1n })
+      ).to.be.revertedWith("AMM: insufficient amount0");
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit(permit, { amount1Min: amount1 + 1n })
+      ).to.be.revertedWith("AMM: insufficient amount1");
+    });
+
+    it("should reject expired permits", async () => {
+      const deadline = await deadlineIn(60);
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, toWei(1), deadline);
+      await time.increaseTo(deadline + 1n);
+
+      await expect(client.withRunner(relayer).removeLiquidityWithPermit(permit)).to.be.revertedWith(
+        "AMM: expired"
+      );
+      await expect(
+        lpToken.permit(
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        )
+      ).to.be.revertedWithCustomError(lpToken, "ERC2612ExpiredSignature");
+    });
+
+    it("should reject a replayed signature", async () => {
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, toWei(1));
+      await client.withRunner(relayer).removeLiquidityWithPermit(permit);
+
+      // The nonce moved on, so the same signature now recovers to a different signer
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit(permit)
+      ).to.be.revertedWithCustomError(lpToken, "ERC2612InvalidSigner");
+    });
+
+    it("should reject a permit used by another caller or for another amount", async () => {
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, toWei(1));
+
+      await expect(
+        client.withRunner(other).removeLiquidityWithPermit(permit)
+      ).to.be.revertedWithCustomError(lpToken, "ERC2612InvalidSigner");
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit({ ...permit, value: toWei(2) })
+      ).to.be.revertedWithCustomError(lpToken, "ERC2612InvalidSigner");
+
+      // Still usable as signed
+      await client.withRunner(relayer).removeLiquidityWithPermit(permit);
+    });
+
+    it("should replace an existing allowance with the permitted amount", async () => {
+      // permit sets the allowance rather than adding to it
+      await lpToken.connect(holder).approve(relayer.address, toWei(100));
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, toWei(1));
+      await client.withRunner(relayer).removeLiquidityWithPermit(permit);
+
+      expect(await lpToken.allowance(holder.address, relayer.address)).to.equal(0n);
+    });
+  });
+
+  describe("removeLiquidityTo", () => {
+    it("should send the withdrawn tokens to the recipient", async () => {
+      const liquidity = toWei(10);
+      const [amount0, amount1] = await expectedAmounts(liquidity);
+
+      await expect(client.removeLiquidity(liquidity, { to: recipient.address }))
+        .to.emit(amm, "LiquidityRemoved")
+        .withArgs(holder.address, amount0, amount1, liquidity, recipient.address);
+      expect(await token0.balanceOf(recipient.address)).to.equal(amount0);
+      expect(await token1.balanceOf(recipient.address)).to.equal(amount1);
+    });
+
+    it("should reject the zero address and expired deadlines", async () => {
+      const deadline = await deadlineIn(60);
+      await expect(
+        amm.connect(holder).removeLiquidityTo(toWei(1), 0, 0, ethers.ZeroAddress, deadline)
+      ).to.be.revertedWith("AMM: invalid to");
+
+      await time.increaseTo(deadline + 1n);
+      await expect(
+        amm.connect(holder).removeLiquidityTo(toWei(1), 0, 0, recipient.address, deadline)
+      ).to.be.revertedWith("AMM: expired");
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { FunctionFragment, Interface, ParamType } from "ethers";
+import { AMM, HookToken, ReentrantAttacker, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("Reentrancy", () => {
+  let lp: HardhatEthersSigner;
+  let hookToken: HookToken;
+  let plainToken: TestToken;
+  let amm: AMM;
+  let attacker: ReentrantAttacker;
+  let attackerAddress: string;
+  let hookAddress: string;
+
+  /** Placeholder argument of each type; the lock rejects the call before any of them is read. */
+  const placeholder = (param: ParamType): unknown => {
+    if (param.type === "address") {
+      return attackerAddress;
+    }
+    if (param.type === "bool") {
+      return true;
+    }
+    if (param.type === "bytes") {
+      return "0x";
+    }
+    if (param.type === "bytes32") {
+      return ethers.ZeroHash;
+    }
+    return 1n;
+  };
+
+  /** Every state-changing entry point of the pool, encoded with placeholder arguments. */
+  const entryPoints = () => {
+    const pool: Interface = amm.interface;
+    return pool.fragments
+      .filter(
+        (fragment): fragment is FunctionFragment =>
+          fragment.type === "function" && !(fragment as FunctionFragment).constant
+      )
+      .map(fragment => ({
+        name: fragment.format(),
+        data: pool.encodeFunctionData(fragment, fragment.inputs.map(placeholder)),
+      }));
+  };
+
+  beforeEach(async () => {
+    [, lp] = await ethers.getSigners();
+
+    hookToken = await (await ethers.getContractFactory("HookToken")).deploy("Hook Token", "HOOK");
+    hookAddress = await hookToken.getAddress();
+    plainToken = await (await ethers.getContractFactory("TestToken")).deploy("Plain", "PLN");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(hookAddress, await plainToken.getAddress(), 30);
+
+    for (const token of [hookToken, plainToken]) {
+      await token.mint(lp.address, toWei(10_000));
+    }
+    await (
+      await AmmClient.connect(await amm.getAddress(), lp)
+    ).addLiquidity(toWei(1000), toWei(1000));
+
+    attacker = await (
+      await ethers.getContractFactory("ReentrantAttacker")
+    ).deploy(await amm.getAddress());
+    attackerAddress = await attacker.getAddress();
+    for (const token of [hookToken, plainToken]) {
+      await token.mint(attackerAddress, toWei(1000));
+    }
+    await attacker.register(hookAddress);
+    await attacker.execute(
+      amm.interface.encodeFunctionData("addLiquidity", [toWei(100), toWei(100)])
+    );
+  });
+
+  /** Calls during which the pool moves hook tokens from or to the attacker, keyed by name. */
+  const outerCalls = (): Record<string, string> => ({
+    swap: amm.interface.encodeFunctionData("swap", [hookAddress, toWei(1)]),
+    addLiquidity: amm.interface.encodeFunctionData("addLiquidity", [toWei(1), toWei(1)]),
+    removeLiquidity: amm.interface.encodeFunctionData("removeLiquidity", [toWei(1)]),
+  });
+
+  it("should call the attacker's hooks on ordinary trades", async () => {
+    const before = await attacker.callbacks();
+    // swap and addLiquidity call the sender hook, removeLiquidity the recipient hook
+    for (const data of Object.values(outerCalls())) {
+      await attacker.execute(data);
+    }
+    expect(await attacker.callbacks()).to.equal(before + 3n);
+  });
+
+  for (const outer of ["swap", "addLiquidity", "removeLiquidity"]) {
+    it(`should reject reentry into every entry point during ${outer}`, async () => {
+      const data = outerCalls()[outer];
+      for (const inner of entryPoints()) {
+        await attacker.arm(inner.data);
+        await expect(attacker.execute(data), inner.name).to.be.revertedWith("AMM: locked");
+      }
+      // Nothing was left half-done: the same call goes through once disarmed
+      await attacker.arm("0x");
+      await attacker.execute(data);
+    });
+  }
+
+  it("should cover every state-changing entry point", async () => {
+    expect(entryPoints().map(({ name }) => name.split("(")[0])).to.have.members([
+      "addLiquidity",
+      "addLiquidityWithLimits",
+      "flashSwap",
+      "removeLiquidity",
+      "removeLiquidityTo",
+      "removeLiquidityWithLimits",
+      "removeLiquidityWithPermit",
+      "setPaused",
+      "skim",
+      "swap",
+      "swapExactTokensForTokens",
+      "swapTokensForExactTokens",
+      "sync",
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMMFactory, AMMRouter, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, fetchPools, findBestRoute, getAmountOut } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+const SWAP_FEE = 30n;
+
+describe("AMMRouter", () => {
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let factory: AMMFactory;
+  let router: AMMRouter;
+  let tokenA: TestToken;
+  let tokenB: TestToken;
+  let tokenC: TestToken;
+  let tokenD: TestToken;
+
+  const seedPool = async (x: TestToken, y: TestToken, amountX: bigint, amountY: bigint) => {
+    await factory.createPool(await x.getAddress(), await y.getAddress(), SWAP_FEE);
+    const client = await AmmClient.connect(
+      await factory.getPool(await x.getAddress(), await y.getAddress()),
+      lp
+    );
+    const xIsToken0 = client.token0Address === (await x.getAddress());
+    await (xIsToken0
+      ? client.addLiquidity(amountX, amountY)
+      : client.addLiquidity(amountY, amountX));
+  };
+
+  beforeEach(async () => {
+    [, lp, trader] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    tokenA = await TestTokenFactory.deploy("Token A", "TKA");
+    tokenB = await TestTokenFactory.deploy("Token B", "TKB");
+    tokenC = await TestTokenFactory.deploy("Token C", "TKC");
+    tokenD = await TestTokenFactory.deploy("Token D", "TKD");
+    for (const token of [tokenA, tokenB, tokenC, tokenD]) {
+      await token.mint(lp.address, toWei(1_000_000));
+      await token.mint(trader.address, toWei(10_000));
+    }
+
+    factory = await (await ethers.getContractFactory("AMMFactory")).deploy();
+    router = await (
+      await ethers.getContractFactory("AMMRouter")
+    ).deploy(await factory.getAddress());
+
+    // Deep A-B and B-C pools, and a shallow direct A-C pool
+    await seedPool(tokenA, tokenB, toWei(10_000), toWei(10_000));
+    await seedPool(tokenB, tokenC, toWei(10_000), toWei(10_000));
+    await seedPool(tokenA, tokenC, toWei(100), toWei(100));
+  });
+
+  const pathOf = async (...tokens: TestToken[]) =>
+    Promise.all(tokens.map(token => token.getAddress()));
+
+  describe("swapExactTokensForTokens", () => {
+    it("should swap A -> B -> C with a single approval", async () => {
+      const path = await pathOf(tokenA, tokenB, tokenC);
+      const amountIn = toWei(50);
+      const quoted = await router.getAmountsOut(amountIn, path);
+      const deadline = (await time.latest()) + 60;
+
+      await tokenA.connect(trader).approve(await router.getAddress(), amountIn);
+      const cBefore = await tokenC.balanceOf(trader.address);
+      await router
+        .connect(trader)
+        .swapExactTokensForTokens(amountIn, quoted[2], path, trader.address, deadline);
+
+      expect((await tokenC.balanceOf(trader.address)) - cBefore).to.equal(quoted[2]);
+      // Nothing is left behind in the router
+      for (const token of [tokenA, tokenB, tokenC]) {
+        expect(await token.balanceOf(await router.getAddress())).to.equal(0);
+      }
+    });
+
+    it("should quote each hop with the pool math", async () => {
+      const path = await pathOf(tokenA, tokenB, tokenC);
+      const amountIn = toWei(50);
+      const hop1 = getAmountOut(amountIn, toWei(10_000), toWei(10_000), SWAP_FEE);
+      const hop2 = getAmountOut(hop1, toWei(10_000), toWei(10_000), SWAP_FEE);
+
+      expect(await router.getAmountsOut(amountIn, path)).to.deep.equal([amountIn, hop1, hop2]);
+    });
+
+    it("should send the output to a separate recipient", async () => {
+      const [, , , recipient] = await ethers.getSigners();
+      const path = await pathOf(tokenA, tokenB);
+      const quoted = await router.getAmountsOut(toWei(1), path);
+      const deadline = (await time.latest()) + 60;
+
+      await tokenA.connect(trader).approve(await router.getAddress(), toWei(1));
+      await router
+        .connect(trader)
+        .swapExactTokensForTokens(toWei(1), 0, path, recipient.address, deadline);
+
+      expect(await tokenB.balanceOf(recipient.address)).to.equal(quoted[1]);
+    });
+
+    it("should enforce the overall minimum output", async () => {
+      const path = await pathOf(tokenA, tokenB, tokenC);
+      const quoted = await router.getAmountsOut(toWei(50), path);
+      const deadline = (await time.latest()) + 60;
+
+      await tokenA.connect(trader).approve(await router.getAddress(), toWei(50));
+      await expect(
+        router
+          .connect(trader)
+          .swapExactTokensForTokens(toWei(50), quoted[2] + 1n, path, trader.address, deadline)
+      ).to.be.revertedWith("AMMRouter: insufficient output amount");
+    });
+
+    it("should swap what arrives when a token in the path takes a fee on transfer", async () => {
+      const taxed = await (
+        await ethers.getContractFactory("FeeOnTransferToken")
+      ).deploy("Taxed", "TAX", 100);
+      await taxed.mint(lp.address, toWei(1_000_000));
+      await seedPool(tokenA, taxed, toWei(10_000), toWei(10_000));
+      await seedPool(taxed, tokenC, toWei(10_000), toWei(10_000));
+      const afterFee = (amount: bigint) => amount - amount / 100n;
+      const reservesOf = async (tokenIn: string, tokenOut: string) => {
+        const pool = await ethers.getContractAt("AMM", await factory.getPool(tokenIn, tokenOut));
+        const [reserve0, reserve1] = await pool.getReserves();
+        return tokenIn === (await pool.token0()) ? [reserve0, reserve1] : [reserve1, reserve0];
+      };
+      const [a, tax, c] = await pathOf(tokenA, taxed, tokenC);
+      const deadline = (await time.latest()) + 60;
+
+      // The router receives the taxed output less the fee and pays the fee again to the next pool
+      const [aReserve, taxIn] = await reservesOf(a, tax);
+      const hop1 = getAmountOut(toWei(50), aReserve, taxIn, SWAP_FEE);
+      const [taxReserve, cReserve] = await reservesOf(tax, c);
+      const hop2 = getAmountOut(afterFee(afterFee(hop1)), taxReserve, cReserve, SWAP_FEE);
+      await tokenA.connect(trader).approve(await router.getAddress(), toWei(50));
+      const cBefore = await tokenC.balanceOf(trader.address);
+      await router
+        .connect(trader)
+        .swapExactTokensForTokens(toWei(50), hop2, [a, tax, c], trader.address, deadline);
+      expect((await tokenC.balanceOf(trader.address)) - cBefore).to.equal(hop2);
+
+      // The minimum applies to what the recipient receives, after the last transfer's fee
+      const [reserveIn, reserveOut] = await reservesOf(a, tax);
+      const quoted = getAmountOut(toWei(1), reserveIn, reserveOut, SWAP_FEE);
+      await tokenA.connect(trader).approve(await router.getAddress(), toWei(2));
+      await expect(
+        router
+          .connect(trader)
+          .swapExactTokensForTokens(toWei(1), quoted, [a, tax], trader.address, deadline)
+      ).to.be.revertedWith("AMMRouter: insufficient output amount");
+      const taxBefore = await taxed.balanceOf(trader.address);
+      await router
+        .connect(trader)
+        .swapExactTokensForTokens(
+          toWei(1),
+          afterFee(afterFee(quoted)),
+          [a, tax],
+          trader.address,
+          deadline
+        );
+      expect((await taxed.balanceOf(trader.address)) - taxBefore).to.equal(
+        afterFee(afterFee(quoted))
+      );
+      for (const token of [tokenA, taxed, tokenC]) {
+        expect(await token.balanceOf(await router.getAddress())).to.equal(0);
+      }
+    });
+
+    it("should revert on expired deadlines, short paths and missing pools", async () => {
+      const deadline = (await time.latest()) + 60;
+      await tokenA.connect(trader).approve(await router.getAddress(), toWei(1));
+
+      await expect(
+        router
+          .connect(trader)
+          .swapExactTokensForTokens(toWei(1), 0, await pathOf(tokenA, tokenB), trader.address, 0)
+      ).to.be.revertedWith("AMMRouter: expired");
+      await expect(
+        router
+          .connect(trader)
+          .swapExactTokensForTokens(toWei(1), 0, await pathOf(tokenA), trader.address, deadline)
+      ).to.be.revertedWith("AMMRouter: invalid path");
+      await expect(
+        router
+          .connect(trader)
+          .swapExactTokensForTokens(
+            toWei(1),
+            0,
+            await pathOf(tokenA, tokenD),
+            trader.address,
+            deadline
+          )
+      ).to.be.revertedWith("AMMRouter: pool not found");
+    });
+  });
+
+  describe("findBestRoute", () => {
+    it("should prefer the deep two-hop route over a shallow direct pool", async () => {
+      const pools = await fetchPools(await factory.getAddress(), ethers.provider);
+      expect(pools).to.have.length(3);
+
+      const amountIn = toWei(50);
+      const route = findBestRoute(
+        pools,
+        await tokenA.getAddress(),
+        await tokenC.getAddress(),
+        amountIn
+      );
+
+      expect(route?.path).to.deep.equal(await pathOf(tokenA, tokenB, tokenC));
+      expect(route?.amounts).to.deep.equal(
+        await router.getAmountsOut(amountIn, await pathOf(tokenA, tokenB, tokenC))
+      );
+    });
+
+    it("should pick the direct pool for trades small enough to beat the extra fee", async () => {
+      const pools = await fetchPools(await factory.getAddress(), ethers.provider);
+      const route = findBestRoute(
+        pools,
+        await tokenA.getAddress(),
+        await tokenC.getAddress(),
+        toWei("0.01")
+      );
+
+      expect(route?.path).to.deep.equal(await pathOf(tokenA, tokenC));
+    });
+
+    it("should return the amount the router actually delivers", async () => {
+      const pools = await fetchPools(await factory.getAddress(), ethers.provider);
+      const route = findBestRoute(
+        pools,
+        await tokenC.getAddress(),
+        await tokenA.getAddress(),
+        toWei(75)
+      )!;
+      const deadline = (await time.latest()) + 60;
+
+      await tokenC.connect(trader).approve(await router.getAddress(), toWei(75));
+      const aBefore = await tokenA.balanceOf(trader.address);
+      await router
+        .connect(trader)
+        .swapExactTokensForTokens(toWei(75), route.amountOut, route.path, trader.address, deadline);
+
+      expect((await tokenA.balanceOf(trader.address)) - aBefore).to.equal(route.amountOut);
+    });
+
+    it("should return undefined when the tokens are not connected", async () => {
+      const pools = await fetchPools(await factory.getAddress(), ethers.provider);
+      expect(
+        findBestRoute(pools, await tokenA.getAddress(), await tokenD.getAddress(), toWei(1))
+      ).to.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { SnapshotRestorer, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { seed, SeedOptions, SeedResult } from "../scripts/seed";
+
+describe("Devnet seeding", () => {
+  let dir: string;
+  let result: SeedResult;
+  let fresh: SnapshotRestorer;
+  const quiet = () => undefined;
+  const options: SeedOptions = { seed: 7, steps: 40, accounts: 4, blockTime: 12 };
+  const run = (overrides: SeedOptions = {}) =>
+    seed(hre, { ...options, dir, log: quiet, ...overrides });
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "amm-seed-"));
+    fresh = await takeSnapshot();
+    result = await run();
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should deploy tokens with different decimals and a pool for each pair", async () => {
+    const { manifest, pools } = result;
+    const decimals: Record<string, number> = {};
+    for (const symbol of ["WETH", "USDC", "DAI", "WBTC"]) {
+      const token = await ethers.getContractAt(
+        "IERC20Metadata",
+        manifest.contracts[symbol].address
+      );
+      decimals[symbol] = Number(await token.decimals());
+    }
+    expect(decimals).to.deep.equal({ WETH: 18, USDC: 6, DAI: 18, WBTC: 8 });
+
+    expect(pools).to.have.length(4);
+    for (const pool of pools) {
+      expect(manifest.pools[pool.name].address).to.equal(pool.address);
+      expect(pool.decimals0).to.equal(decimals[pool.symbol0]);
+      expect(pool.decimals1).to.equal(decimals[pool.symbol1]);
+    }
+  });
+
+  it("should give every pool liquidity from several providers", async () => {
+    for (const pool of result.pools) {
+      const amm = await ethers.getContractAt("AMM", pool.address);
+      const [reserve0, reserve1] = await amm.getReserves();
+      expect([reserve0, reserve1]).to.deep.equal([pool.reserve0, pool.reserve1]);
+      expect(pool.providers).to.be.greaterThan(1);
+      expect(pool.lpSupply).to.be.greaterThan(0n);
+    }
+  });
+
+  it("should open pools near the tokens' reference prices", async () => {
+    // WETH is $3000 and USDC $1, so the WETH-USDC pool prices WETH within a few percent of 3000
+    const pool = result.pools.find(p => [p.symbol0, p.symbol1].sort().join() === "USDC,WETH")!;
+    const [weth, usdc] =
+      pool.symbol0 === "WETH" ? [pool.reserve0, pool.reserve1] : [pool.reserve1, pool.reserve0];
+    const price = (usdc * 10n ** 12n * 100n) / weth;
+    expect(price).to.be.within(2_700n * 100n, 3_300n * 100n);
+  });
+
+  it("should mine one operation per block with advancing timestamps", async () => {
+    const { operations } = result;
+    expect(operations).to.have.length(options.steps!);
+    for (let i = 1; i < operations.length; i++) {
+      expect(operations[i].blockNumber).to.equal(operations[i - 1].blockNumber + 1);
+      const gap = operations[i].timestamp - operations[i - 1].timestamp;
+      expect(gap).to.be.within(1, 2 * options.blockTime!);
+    }
+    for (const op of operations) {
+      const block = await ethers.provider.getBlock(op.blockNumber);
+      expect(block!.timestamp).to.equal(op.timestamp);
+      expect(block!.transactions).to.deep.equal([op.txHash]);
+    }
+  });
+
+  it("should trade from several accounts and report the operations of each pool", async () => {
+    const { operations, pools } = result;
+    expect(new Set(operations.map(op => op.account)).size).to.be.greaterThan(1);
+    expect(operations.some(op => op.kind === "swap")).to.equal(true);
+
+    const fromBlock = operations[0].blockNumber;
+    for (const pool of pools) {
+      const amm = await ethers.getContractAt("AMM", pool.address);
+      const count = async (event: "SwapExecuted" | "LiquidityAdded" | "LiquidityRemoved") =>
+        (await amm.queryFilter(amm.filters[event](), fromBlock)).length;
+      expect(await count("SwapExecuted")).to.equal(pool.swaps);
+      expect(await count("LiquidityAdded")).to.equal(pool.adds);
+      expect(await count("LiquidityRemoved")).to.equal(pool.removes);
+    }
+    const total = pools.reduce((sum, p) => sum + p.swaps + p.adds + p.removes, 0);
+    expect(total).to.equal(operations.length);
+  });
+
+  it("should refuse invalid options", async () => {
+    await expect(run({ accounts: 1 })).to.be.rejectedWith("Seed: accounts must be between 2");
+    await expect(run({ blockTime: 0 })).to.be.rejectedWith("Seed: blockTime must be at least 1");
+  });
+
+  it("should reproduce the same market from the same seed", async () => {
+    const shape = ({ operations, pools }: SeedResult) => ({
+      operations: operations.map(({ kind, pool, account }) => [kind, pool, account].join()),
+      reserves: pools.map(({ reserve0, reserve1 }) => [reserve0, reserve1]),
+    });
+
+    // Timestamps follow the wall clock at the start of a run, everything else follows the seed
+    await fresh.restore();
+    const again = await run();
+    expect(shape(again)).to.deep.equal(shape(result));
+    expect(again.pools.map(p => p.address)).to.deep.equal(result.pools.map(p => p.address));
+
+    await fresh.restore();
+    const other = await run({ seed: 8 });
+    expect(shape(other).operations).to.not.deep.equal(shape(result).operations);
+  });
+});
@@ -0,0 +1,343 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  AmmClient,
+  FEE_DENOMINATOR,
+  getAmountOut,
+  getArbitrageTrade,
+  getSlippageCurve,
+  getSpotPrice,
+  parsePriceCsv,
+  PRICE_SCALE,
+  PricePoint,
+  replayTrades,
+  simulate,
+} from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+const HOUR = 3_600;
+
+/** Hourly prices starting at 2000, each up to 2% away from the last; xorshift32 from a fixed seed. */
+const randomWalk = (steps: number): PricePoint[] => {
+  let seed = 0x1234567;
+  const random = (n: number) => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) % n;
+  };
+  let price = toWei(2000);
+  const points: PricePoint[] = [];
+  for (let i = 0; i < steps; i++) {
+    points.push({ timestamp: 1_700_000_000 + i * HOUR, price });
+    price = (price * BigInt(9_800 + random(401))) / 10_000n;
+  }
+  return points;
+};
+
+const options = { reserve0: toWei(1000), reserve1: toWei(2_000_000), swapFee: 30n };
+
+const series = (...prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ timestamp: 1_700_000_000 + i * HOUR, price: toWei(price) }));
+
+describe("Simulator", () => {
+  describe("parsePriceCsv", () => {
+    it("should read columns by header name and parse dates", () => {
+      const csv = "date,open,price\n2024-01-01T00:00:00Z,1,2000.5\n\n2024-01-02T00:00:00Z,1,1999\n";
+      expect(parsePriceCsv(csv)).to.deep.equal([
+        { timestamp: 1_704_067_200, price: toWei("2000.5") },
+        { timestamp: 1_704_153_600, price: toWei(1999) },
+      ]);
+    });
+
+    it("should read headerless timestamp,price lines and skip comments", () => {
+      expect(parsePriceCsv("# ETH/USDC\r\n100,1.5\r\n160,2\r\n")).to.deep.equal([
+        { timestamp: 100, price: toWei("1.5") },
+        { timestamp: 160, price: toWei(2) },
+      ]);
+    });
+
+    it("should scale prices to base units of tokens with other decimals", () => {
+      // 2000 USDC (6 decimals) per WETH (18 decimals)
+      const [{ price }] = parsePriceCsv("100,2000", 18, 6);
+      expect(price).to.equal(2000n * 10n ** 6n);
+    });
+
+    it("should reject malformed rows with their line number", () => {
+      expect(() => parsePriceCsv("timestamp,price\n100,abc")).to.throw(
+        'Simulator: line 2: invalid price "abc"'
+      );
+      expect(() => parsePriceCsv("100,1\nyesterday,1")).to.throw(
+        'Simulator: line 2: invalid timestamp "yesterday"'
+      );
+      expect(() => parsePriceCsv("100,1\n50,1")).to.throw(
+        "Simulator: line 2: timestamps must not decrease"
+      );
+      expect(() => parsePriceCsv("100,0")).to.throw("Simulator: line 1: price must be positive");
+      expect(() => parsePriceCsv("block,price\n1,1")).to.throw(
+        "Simulator: the CSV header has no timestamp column"
+      );
+      expect(() => parsePriceCsv("timestamp,price\n")).to.throw("Simulator: no prices in CSV");
+    });
+  });
+
+  describe("getArbitrageTrade", () => {
+    const reserve0 = toWei(1000);
+    const reserve1 = toWei(2_000_000);
+
+    it("should move the pool price to within the fee of the target", () => {
+      for (const [target, zeroForOne] of [
+        [toWei(2500), false],
+        [toWei(1500), true],
+      ] as const) {
+        const trade = getArbitrageTrade(reserve0, reserve1, target, 30n)!;
+        expect(trade.zeroForOne).to.equal(zeroForOne);
+        expect(trade.profit).to.be.greaterThan(0n);
+
+        const after = zeroForOne
+          ? [reserve0 + trade.amountIn, reserve1 - trade.amountOut]
+          : [reserve0 - trade.amountOut, reserve1 + trade.amountIn];
+        const poolPrice = getSpotPrice(after[0], after[1]);
+        // Within the fee of the target, on the side the pool started on
+        const edge = zeroForOne
+          ? (target * FEE_DENOMINATOR) / (FEE_DENOMINATOR - 30n)
+          : (target * (FEE_DENOMINATOR - 30n)) / FEE_DENOMINATOR;
+        const [low, high] = zeroForOne ? [target, edge] : [edge, target];
+        expect(poolPrice).to.be.within(low, high);
+        // Nothing is left to take
+        expect(getArbitrageTrade(after[0], after[1], target, 30n)?.profit ?? 0n).to.be.lessThan(
+          toWei("0.000001")
+        );
+      }
+    });
+
+    it("should be more profitable than trading a little more or less", () => {
+      const target = toWei(2200);
+      const trade = getArbitrageTrade(reserve0, reserve1, target, 30n)!;
+      const profitOf = (amountIn: bigint) =>
+        (getAmountOut(amountIn, reserve1, reserve0, 30n) * target) / PRICE_SCALE - amountIn;
+      expect(profitOf(trade.amountIn)).to.equal(trade.profit);
+      expect(trade.profit).to.be.at.least(profitOf((trade.amountIn * 99n) / 100n));
+      expect(trade.profit).to.be.at.least(profitOf((trade.amountIn * 101n) / 100n));
+    });
+
+    it("should not trade while the price is within the fee", () => {
+      expect(getArbitrageTrade(reserve0, reserve1, toWei(2000), 30n)).to.be.undefined;
+      expect(getArbitrageTrade(reserve0, reserve1, toWei(2005), 30n)).to.be.undefined;
+      expect(getArbitrageTrade(reserve0, reserve1, toWei(1995), 30n)).to.be.undefined;
+    });
+  });
+
+  describe("simulate", () => {
+    it("should not trade at a constant price", () => {
+      const simulation = simulate(series(2000, 2000, 2000), options);
+      expect(simulation.trades).to.be.empty;
+      expect(simulation.final.impermanentLoss).to.equal(0n);
+      expect(simulation.final.netReturn).to.equal(0n);
+      expect(simulation.final.lpValue).to.equal(toWei(4_000_000));
+    });
+
+    it("should report impermanent loss against HODL", () => {
+      // A doubling costs a constant-product position 2 * sqrt(2) / 3 - 1 = -5.72%
+      const { final } = simulate(series(2000, 4000), options);
+      expect(final.impermanentLoss).to.be.closeTo(toWei("-0.057190958"), toWei("0.000000001"));
+      expect(final.hodlValue).to.equal(toWei(6_000_000));
+
+      // Without fees the pool ends where the formula puts it, less rounding
+      const feeless = simulate(series(2000, 4000), { ...options, swapFee: 0n }).final;
+      expect(feeless.netReturn).to.be.closeTo(feeless.impermanentLoss, 1_000_000n);
+    });
+
+    it("should earn fees on price swings that impermanent loss does not see", () => {
+      const simulation = simulate(series(2000, 2400, 1800, 2200, 2000), options);
+      const { final } = simulation;
+      expect(simulation.trades).to.have.lengthOf(4);
+      expect(simulation.fees0).to.be.greaterThan(0n);
+      expect(simulation.fees1).to.be.greaterThan(0n);
+      for (const { amountIn, fee } of simulation.trades) {
+        // Rounded up as AMM.getAmountOut rounds the input it keeps
+        expect(fee).to.equal(amountIn - (amountIn * (FEE_DENOMINATOR - 30n)) / FEE_DENOMINATOR);
+      }
+      expect(final.feeValue).to.equal(
+        simulation.trades.reduce(
+          (sum, trade, i) =>
+            sum +
+            (trade.zeroForOne
+              ? (trade.fee * simulation.points[i + 1].price) / PRICE_SCALE
+              : trade.fee),
+          0n
+        )
+      );
+      expect(final.impermanentLoss).to.equal(0n);
+      expect(final.netReturn).to.be.greaterThan(0n);
+      // The pool keeps the full input, so fees show up in the LP's value
+      expect(final.lpValue - final.hodlValue).to.be.closeTo(final.feeValue, final.feeValue / 10n);
+      expect(simulation.arbitrageProfit).to.be.greaterThan(0n);
+    });
+
+    it("should record every trade with the reserves after it", () => {
+      const simulation = simulate(randomWalk(100), options);
+      let [reserve0, reserve1] = [options.reserve0, options.reserve1];
+      for (const trade of simulation.trades) {
+        const [reserveIn, reserveOut] = trade.zeroForOne
+          ? [reserve0, reserve1]
+          : [reserve1, reserve0];
+        expect(getAmountOut(trade.amountIn, reserveIn, reserveOut, 30n)).to.equal(trade.amountOut);
+        [reserve0, reserve1] = trade.zeroForOne
+          ? [reserve0 + trade.amountIn, reserve1 - trade.amountOut]
+          : [reserve0 - trade.amountOut, reserve1 + trade.amountIn];
+        expect([trade.reserve0, trade.reserve1]).to.deep.equal([reserve0, reserve1]);
+        expect(simulation.points[trade.step].reserve0).to.equal(reserve0);
+      }
+      expect(simulation.points).to.have.lengthOf(100);
+      expect(simulation.trades.length).to.be.greaterThan(50);
+    });
+
+    it("should skip trades below the minimum profit", () => {
+      const all = simulate(randomWalk(100), options);
+      const minProfit = toWei(50);
+      const filtered = simulate(randomWalk(100), { ...options, minProfit });
+      expect(filtered.trades.length).to.be.lessThan(all.trades.length);
+      expect(filtered.trades.every(trade => trade.profit > minProfit)).to.be.true;
+    });
+
+    it("should reject invalid options", () => {
+      expect(() => simulate([], options)).to.throw("Simulator: no prices to simulate");
+      expect(() => simulate(series(1), { ...options, reserve1: 0n })).to.throw(
+        "Simulator: both initial reserves must be positive"
+      );
+      expect(() => simulate(series(1), { ...options, swapFee: 10_000n })).to.throw(
+        "Simulator: swap fee must be below 10000 bps"
+      );
+    });
+  });
+
+  describe("getSlippageCurve", () => {
+    it("should grow the price impact with the trade size, starting at the fee", () => {
+      const curve = getSlippageCurve(toWei(1000), toWei(2_000_000), 30n, [1n, 100n, 1_000n]);
+      expect(curve.map(point => point.amountIn)).to.deep.equal([
+        toWei("0.1"),
+        toWei(10),
+        toWei(100),
+      ]);
+      // 1 - (1 - fee) / (1 + (1 - fee) * size)
+      expect(curve[0].priceImpact).to.be.closeTo(toWei("0.0030994"), toWei("0.0000001"));
+      expect(curve[1].priceImpact).to.be.closeTo(toWei("0.0128420"), toWei("0.0000001"));
+      expect(curve[2].priceImpact).to.be.closeTo(toWei("0.0933891"), toWei("0.0000001"));
+    });
+  });
+
+  describe("replayTrades", () => {
+    let client: AmmClient;
+
+    beforeEach(async () => {
+      const [owner] = await ethers.getSigners();
+      const TestTokenFactory = await ethers.getContractFactory("TestToken");
+      const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+      const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+      const amm = await (
+        await ethers.getContractFactory("AMM")
+      ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+      for (const token of [tokenA, tokenB]) {
+        await token.mint(owner.address, toWei(100_000_000));
+      }
+      client = await AmmClient.connect(await amm.getAddress(), owner);
+    });
+
+    it("should match the deployed pool to the wei", async () => {
+      const simulation = simulate(randomWalk(40), options);
+      expect(simulation.trades.length).to.be.greaterThan(20);
+      expect(await replayTrades(client, simulation)).to.be.empty;
+
+      const state = await client.getPoolState();
+      expect([state.reserve0, state.reserve1]).to.deep.equal([
+        simulation.final.reserve0,
+        simulation.final.reserve1,
+      ]);
+    });
+
+    it("should report trades the pool executed differently", async () => {
+      const simulation = simulate(randomWalk(10), options);
+      simulation.trades[2] = {
+        ...simulation.trades[2],
+        amountOut: simulation.trades[2].amountOut + 1n,
+      };
+
+      expect(await replayTrades(client, simulation)).to.deep.equal([
+        {
+          trade: 2,
+          field: "amountOut",
+          simulated: simulation.trades[2].amountOut,
+          onChain: simulation.trades[2].amountOut - 1n,
+        },
+      ]);
+    });
+
+    it("should only replay on an empty pool with the same fee", async () => {
+      await expect(
+        replayTrades(client, simulate(series(2000), { ...options, swapFee: 5n }))
+      ).to.be.rejectedWith(`Simulator: ${client.address} charges 30 bps, the simulation 5 bps`);
+
+      await client.addLiquidity(toWei(1), toWei(1));
+      await expect(replayTrades(client, simulate(series(2000), options))).to.be.rejectedWith(
+        `Simulator: ${client.address} already holds liquidity`
+      );
+    });
+  });
+
+  describe("amm:simulate", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "amm-simulator-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should backtest a CSV, validate the trades and write the report", async () => {
+      const csv = path.join(dir, "prices.csv");
+      const out = path.join(dir, "report.json");
+      writeFileSync(
+        csv,
+        [
+          "timestamp,price",
+          ...randomWalk(30).map(p => `${p.timestamp},${ethers.formatEther(p.price)}`),
+        ].join("\n")
+      );
+
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...data: unknown[]) => lines.push(data.join(" "));
+      let result;
+      try {
+        result = await hre.run("amm:simulate", {
+          prices: csv,
+          reserve0: "1000",
+          reserve1: "2000000",
+          validate: true,
+          out,
+        });
+      } finally {
+        console.log = log;
+      }
+
+      const simulation = simulate(randomWalk(30), options);
+      expect(result.prices).to.equal("30");
+      expect(result.trades).to.equal(simulation.trades.length.toString());
+      expect(result.lpValue).to.equal(ethers.formatEther(simulation.final.lpValue));
+      expect(result.validated).to.equal(true);
+      expect(result.mismatches).to.equal("0");
+      expect(result.slippage0For1).to.match(/^0\.1%: [\d.]+% \| 0\.5%: /);
+      expect(lines.join("\n")).to.include("impermanentLoss");
+
+      const report = JSON.parse(readFileSync(out, "utf8"));
+      expect(report.trades).to.have.lengthOf(simulation.trades.length);
+      expect(report.final.reserve0).to.equal(simulation.final.reserve0.toString());
+    });
+  });
+});
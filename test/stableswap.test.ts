@@ -0,0 +1,616 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  AMM,
+  DecimalsToken,
+  LPToken,
+  RebasingToken,
+  StableSwapAMM,
+  TestToken,
+} from "../typechain-types";
+import {
+  AmmClient,
+  getAmountOut,
+  getExecutionPrice,
+  getStableAmountIn,
+  getStableAmountOut,
+  getStableD,
+  getStableRate,
+  getStableSpotPrice,
+  getStableY,
+  MINIMUM_LIQUIDITY,
+  PRICE_SCALE,
+} from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("StableSwapAMM", () => {
+  const SWAP_FEE = 4n;
+  const AMPLIFICATION = 200n;
+
+  let lp: HardhatEthersSigner;
+  let trader: HardhatEthersSigner;
+  let token0: TestToken;
+  let token1: TestToken;
+  let pool: StableSwapAMM;
+  let lpToken: LPToken;
+
+  const deadline = async () => (await time.latest()) + 60;
+
+  const deployStable = async (tokenA: string, tokenB: string, amplification = AMPLIFICATION) =>
+    (await ethers.getContractFactory("StableSwapAMM")).deploy(
+      tokenA,
+      tokenB,
+      SWAP_FEE,
+      amplification
+    );
+
+  /** Funds `users` with both tokens and approves `spender` */
+  const fund = async (
+    tokens: (TestToken | DecimalsToken)[],
+    spender: string,
+    users: HardhatEthersSigner[]
+  ) => {
+    for (const user of users) {
+      for (const token of tokens) {
+        await token.mint(user.address, 10n ** 36n);
+        await token.connect(user).approve(spender, ethers.MaxUint256);
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    [, lp, trader] = await ethers.getSigners();
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Dai Stablecoin", "DAI");
+    const tokenB = await TestTokenFactory.deploy("Tether USD", "USDT");
+    pool = await deployStable(await tokenA.getAddress(), await tokenB.getAddress());
+    token0 = await ethers.getContractAt("TestToken", await pool.token0());
+    token1 = await ethers.getContractAt("TestToken", await pool.token1());
+    lpToken = await ethers.getContractAt("LPToken", await pool.lpToken());
+    await fund([token0, token1], await pool.getAddress(), [lp, trader]);
+  });
+
+  describe("Deployment", () => {
+    it("should sort the tokens and name the LP token after the pair", async () => {
+      expect(BigInt(await pool.token0())).to.be.lt(BigInt(await pool.token1()));
+      expect(await pool.amplification()).to.equal(AMPLIFICATION);
+      expect(await pool.swapFee()).to.equal(SWAP_FEE);
+      expect(await lpToken.amm()).to.equal(await pool.getAddress());
+      const pair = `${await token0.symbol()}-${await token1.symbol()}`;
+      expect(await lpToken.name()).to.equal(`Minimal AMM StableSwap LP ${pair}`);
+      expect(await lpToken.symbol()).to.equal(`MASLP-${pair}`);
+    });
+
+    it("should reject invalid parameters", async () => {
+      const [a, b] = [await token0.getAddress(), await token1.getAddress()];
+      const StableFactory = await ethers.getContractFactory("StableSwapAMM");
+      await expect(StableFactory.deploy(a, a, 4, 100)).to.be.revertedWith(
+        "StableSwapAMM: identical tokens"
+      );
+      await expect(StableFactory.deploy(a, ethers.ZeroAddress, 4, 100)).to.be.revertedWith(
+        "StableSwapAMM: zero address"
+      );
+      await expect(StableFactory.deploy(a, b, 1001, 100)).to.be.revertedWith(
+        "StableSwapAMM: fee too high"
+      );
+      await expect(StableFactory.deploy(a, b, 4, 0)).to.be.revertedWith(
+        "StableSwapAMM: invalid amplification"
+      );
+      await expect(StableFactory.deploy(a, b, 4, 10_001)).to.be.revertedWith(
+        "StableSwapAMM: invalid amplification"
+      );
+
+      const wide = await (
+        await ethers.getContractFactory("DecimalsToken")
+      ).deploy("Wide", "WIDE", 24);
+      await expect(StableFactory.deploy(a, await wide.getAddress(), 4, 100)).to.be.revertedWith(
+        "StableSwapAMM: unsupported decimals"
+      );
+    });
+
+    it("should share the interface and events of AMM", async () => {
+      const amm: Interface = (await ethers.getContractFactory("AMM")).interface;
+      const stable: Interface = pool.interface;
+      for (const name of [
+        "addLiquidity",
+        "addLiquidityWithLimits",
+        "removeLiquidity",
+        "removeLiquidityWithLimits",
+        "removeLiquidityTo",
+        "removeLiquidityWithPermit",
+        "swap",
+        "swapExactTokensForTokens",
+        "swapTokensForExactTokens",
+        "getReserves",
+        "sync",
+        "skim",
+        "token0",
+        "token1",
+        "lpToken",
+        "swapFee",
+      ]) {
+        expect(stable.getFunction(name)?.format("full"), name).to.equal(
+          amm.getFunction(name)?.format("full")
+        );
+      }
+      for (const name of ["LiquidityAdded", "LiquidityRemoved", "SwapExecuted", "Sync"]) {
+        expect(stable.getEvent(name)?.topicHash, name).to.equal(amm.getEvent(name)?.topicHash);
+      }
+    });
+  });
+
+  describe("Invariant", () => {
+    const balances: [bigint, bigint][] = [
+      [toWei(1_000_000), toWei(1_000_000)],
+      [toWei(1_000_000), toWei(10)],
+      [toWei(3), toWei(2_500_000)],
+      [1_000n, 999n],
+      [toWei(123_456) + 789n, toWei(98_765) + 4321n],
+    ];
+
+    it("should solve D and y exactly like the TypeScript reference", async () => {
+      for (const [x, y] of balances) {
+        const d = await pool.getD(x, y);
+        expect(d).to.equal(getStableD(x, y, AMPLIFICATION));
+        expect(await pool.getY(x, d)).to.equal(getStableY(x, d, AMPLIFICATION));
+        expect(getStableY(x, d, AMPLIFICATION)).to.be.closeTo(y, 2n);
+      }
+    });
+
+    it("should price a balanced pool at its total value", () => {
+      expect(getStableD(toWei(500), toWei(500), AMPLIFICATION)).to.equal(toWei(1000));
+      // An imbalanced pool is worth less than the sum, and the closer to x * y = k the lower A
+      const [x, y] = [toWei(900), toWei(100)];
+      const dHigh = getStableD(x, y, 1000n);
+      const dLow = getStableD(x, y, 1n);
+      expect(dHigh).to.be.lt(toWei(1000));
+      expect(dLow).to.be.lt(dHigh);
+      expect(dLow).to.be.gt(toWei(600));
+    });
+
+    it("should quote the marginal price of a trade", () => {
+      expect(getStableSpotPrice(toWei(500), toWei(500), AMPLIFICATION)).to.equal(PRICE_SCALE);
+      for (const [x, y] of balances.slice(0, 3)) {
+        const price = getStableSpotPrice(x, y, AMPLIFICATION);
+        // A fee-free trade of a millionth of the reserve fills at the marginal price
+        const amountIn = x / 1_000_000n;
+        const amountOut = getStableAmountOut(amountIn, x, y, AMPLIFICATION, 0n);
+        expect(getExecutionPrice(amountIn, amountOut)).to.be.closeTo(price, price / 10_000n);
+      }
+    });
+  });
+
+  describe("Liquidity", () => {
+    it("should mint D less the locked minimum for the first deposit", async () => {
+      const d = getStableD(toWei(1000), toWei(1000), AMPLIFICATION);
+      await expect(pool.connect(lp).addLiquidity(toWei(1000), toWei(1000)))
+        .to.emit(pool, "LiquidityAdded")
+        .withArgs(lp.address, toWei(1000), toWei(1000), d - MINIMUM_LIQUIDITY);
+      expect(await lpToken.balanceOf(lp.address)).to.equal(d - MINIMUM_LIQUIDITY);
+      expect(await lpToken.balanceOf(await pool.LIQUIDITY_LOCK())).to.equal(MINIMUM_LIQUIDITY);
+      expect(await pool.getReserves()).to.deep.equal([toWei(1000), toWei(1000)]);
+    });
+
+    it("should take later deposits at the reserve ratio", async () => {
+      await pool.connect(lp).addLiquidity(toWei(1000), toWei(500));
+      const supply = await lpToken.totalSupply();
+
+      await expect(pool.connect(trader).addLiquidity(toWei(100), toWei(100)))
+        .to.emit(pool, "LiquidityAdded")
+        .withArgs(trader.address, toWei(100), toWei(50), supply / 10n);
+      await expect(
+        pool
+          .connect(trader)
+          .addLiquidityWithLimits(toWei(100), toWei(100), 0, toWei(51), await deadline())
+      ).to.be.revertedWith("StableSwapAMM: insufficient amount1");
+    });
+
+    it("should return a proportional share of both reserves", async () => {
+      await pool.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+      await pool.connect(trader).swap(token0, toWei(300));
+      const [reserve0, reserve1] = await pool.getReserves();
+      const liquidity = (await lpToken.balanceOf(lp.address)) / 2n;
+      const supply = await lpToken.totalSupply();
+
+      await expect(pool.connect(lp).removeLiquidity(liquidity))
+        .to.emit(pool, "LiquidityRemoved")
+        .withArgs(
+          lp.address,
+          (liquidity * reserve0) / supply,
+          (liquidity * reserve1) / supply,
+          liquidity,
+          lp.address
+        );
+      await expect(
+        pool.connect(lp).removeLiquidityWithLimits(liquidity / 2n, toWei(1000), 0, await deadline())
+      ).to.be.revertedWith("StableSwapAMM: insufficient amount0");
+    });
+
+    it("should send withdrawals to another address, also with a permit", async () => {
+      const [, , , recipient, relayer] = await ethers.getSigners();
+      await pool.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+      const client = await AmmClient.connect(await pool.getAddress(), lp);
+      const liquidity = (await lpToken.balanceOf(lp.address)) / 4n;
+
+      let quote = await client.quoteRemoveLiquidity(liquidity);
+      await expect(
+        pool.connect(lp).removeLiquidityTo(liquidity, 0, 0, recipient.address, await deadline())
+      )
+        .to.emit(pool, "LiquidityRemoved")
+        .withArgs(lp.address, quote.amount0, quote.amount1, liquidity, recipient.address);
+      expect(await token0.balanceOf(recipient.address)).to.equal(quote.amount0);
+
+      quote = await client.quoteRemoveLiquidity(liquidity);
+      const permit = await client.signRemoveLiquidityPermit(relayer.address, liquidity);
+      await expect(
+        client.withRunner(relayer).removeLiquidityWithPermit(permit, { to: recipient.address })
+      )
+        .to.emit(pool, "LiquidityRemoved")
+        .withArgs(lp.address, quote.amount0, quote.amount1, liquidity, recipient.address);
+      expect(await lpToken.allowance(lp.address, relayer.address)).to.equal(0n);
+    });
+  });
+
+  describe("Swaps", () => {
+    beforeEach(async () => {
+      await pool.connect(lp).addLiquidity(toWei(1_000_000), toWei(1_000_000));
+    });
+
+    it("should pay what the TypeScript reference quotes in both directions", async () => {
+      for (const amountIn of [10_000n, toWei(1), toWei(50_000), toWei(900_000), toWei(5_000_000)]) {
+        for (const [tokenIn, tokenOut] of [
+          [token0, token1],
+          [token1, token0],
+        ]) {
+          const [reserve0, reserve1] = await pool.getReserves();
+          const [reserveIn, reserveOut] =
+            tokenIn === token0 ? [reserve0, reserve1] : [reserve1, reserve0];
+          const quote = getStableAmountOut(
+            amountIn,
+            reserveIn,
+            reserveOut,
+            AMPLIFICATION,
+            SWAP_FEE
+          );
+          expect(await pool.getAmountOut(tokenIn, amountIn)).to.equal(quote);
+
+          await expect(pool.connect(trader).swap(tokenIn, amountIn))
+            .to.emit(pool, "SwapExecuted")
+            .withArgs(
+              trader.address,
+              await tokenIn.getAddress(),
+              amountIn,
+              await tokenOut.getAddress(),
+              quote,
+              trader.address
+            );
+        }
+      }
+    });
+
+    it("should charge what the TypeScript reference quotes for exact outputs", async () => {
+      for (const amountOut of [1n, 10_000n, toWei(1), toWei(50_000), toWei(900_000)]) {
+        for (const [tokenIn, tokenOut] of [
+          [token0, token1],
+          [token1, token0],
+        ]) {
+          const [reserve0, reserve1] = await pool.getReserves();
+          const [reserveIn, reserveOut] =
+            tokenIn === token0 ? [reserve0, reserve1] : [reserve1, reserve0];
+          const amountIn = getStableAmountIn(
+            amountOut,
+            reserveIn,
+            reserveOut,
+            AMPLIFICATION,
+            SWAP_FEE
+          );
+          expect(await pool.getAmountIn(tokenIn, amountOut)).to.equal(amountIn);
+          expect(await pool.getAmountOut(tokenIn, amountIn)).to.be.gte(amountOut);
+
+          await expect(
+            pool
+              .connect(trader)
+              .swapTokensForExactTokens(tokenIn, amountOut, amountIn, await deadline())
+          )
+            .to.emit(pool, "SwapExecuted")
+            .withArgs(
+              trader.address,
+              await tokenIn.getAddress(),
+              amountIn,
+              await tokenOut.getAddress(),
+              amountOut,
+              trader.address
+            );
+        }
+      }
+    });
+
+    it("should enforce the maximum input of exact-output swaps", async () => {
+      const amountIn = await pool.getAmountIn(token0, toWei(100));
+      await expect(
+        pool
+          .connect(trader)
+          .swapTokensForExactTokens(token0, toWei(100), amountIn - 1n, await deadline())
+      ).to.be.revertedWith("StableSwapAMM: excessive input amount");
+      await expect(
+        pool.connect(trader).swapTokensForExactTokens(token0, toWei(100), amountIn, 1)
+      ).to.be.revertedWith("StableSwapAMM: expired");
+      await expect(pool.getAmountIn(token0, toWei(1_000_000))).to.be.revertedWith(
+        "StableSwapAMM: insufficient liquidity"
+      );
+      await expect(pool.getAmountIn(token0, 0)).to.be.revertedWith("StableSwapAMM: invalid amount");
+    });
+
+    it("should never lower D", async () => {
+      let d = await pool.getInvariant();
+      for (const [tokenIn, amountIn] of [
+        [token0, toWei(10)],
+        [token0, toWei(700_000)],
+        [token1, toWei(1_500_000)],
+        [token1, 3n],
+        [token0, 12_345_678_901n],
+      ] as const) {
+        await pool.connect(trader).swap(tokenIn, amountIn);
+        const next = await pool.getInvariant();
+        expect(next).to.be.gte(d);
+        d = next;
+      }
+    });
+
+    it("should enforce the minimum output, deadline and token", async () => {
+      const quote = await pool.getAmountOut(token0, toWei(100));
+      await expect(
+        pool
+          .connect(trader)
+          .swapExactTokensForTokens(token0, toWei(100), quote + 1n, await deadline())
+      ).to.be.revertedWith("StableSwapAMM: insufficient output amount");
+      await expect(
+        pool.connect(trader).swapExactTokensForTokens(token0, toWei(100), quote, 1)
+      ).to.be.revertedWith("StableSwapAMM: expired");
+      await expect(pool.connect(trader).swap(await lpToken.getAddress(), 1)).to.be.revertedWith(
+        "StableSwapAMM: unsupported token"
+      );
+      await expect(pool.connect(trader).swap(token0, 0)).to.be.revertedWith(
+        "StableSwapAMM: invalid amount"
+      );
+      // The fee and rounding leave nothing to pay out for a single wei
+      await expect(pool.getAmountOut(token0, 1)).to.be.revertedWith(
+        "StableSwapAMM: insufficient output"
+      );
+    });
+  });
+
+  describe("Slippage against constant product", () => {
+    let amm: AMM;
+
+    beforeEach(async () => {
+      amm = await (
+        await ethers.getContractFactory("AMM")
+      ).deploy(await token0.getAddress(), await token1.getAddress(), SWAP_FEE);
+      await fund([token0, token1], await amm.getAddress(), [lp, trader]);
+      await amm.connect(lp).addLiquidity(toWei(1_000_000), toWei(1_000_000));
+      await pool.connect(lp).addLiquidity(toWei(1_000_000), toWei(1_000_000));
+    });
+
+    /** Shortfall of the output from the input, in basis points, fee included */
+    const slippageBps = (amountIn: bigint, amountOut: bigint) =>
+      ((amountIn - amountOut) * 10_000n) / amountIn;
+
+    it("should fill trades near the peg far closer to 1:1", async () => {
+      for (const [size, stableMaxBps, constantMinBps] of [
+        [1_000, 4n, 13n],
+        [10_000, 5n, 100n],
+        [100_000, 7n, 900n],
+        [500_000, 25n, 3_300n],
+      ] as const) {
+        const amountIn = toWei(size);
+        const stableOut = await pool.getAmountOut(token0, amountIn);
+        const constantOut = await amm.getAmountOut(amountIn, toWei(1_000_000), toWei(1_000_000));
+        expect(constantOut).to.equal(
+          getAmountOut(amountIn, toWei(1_000_000), toWei(1_000_000), SWAP_FEE)
+        );
+
+        expect(stableOut, `${size}`).to.be.gt(constantOut);
+        expect(slippageBps(amountIn, stableOut), `${size}`).to.be.lte(stableMaxBps);
+        expect(slippageBps(amountIn, constantOut), `${size}`).to.be.gte(constantMinBps);
+      }
+    });
+
+    it("should execute the same trade with less slippage on-chain", async () => {
+      const amountIn = toWei(100_000);
+      const stableBefore = await token1.balanceOf(trader.address);
+      await pool.connect(trader).swap(token0, amountIn);
+      const stableOut = (await token1.balanceOf(trader.address)) - stableBefore;
+
+      const constantBefore = await token1.balanceOf(trader.address);
+      await amm.connect(trader).swap(token0, amountIn);
+      const constantOut = (await token1.balanceOf(trader.address)) - constantBefore;
+
+      expect(stableOut - constantOut).to.be.gt(toWei(8_000));
+    });
+
+    it("should flatten the curve as the amplification rises", async () => {
+      let previous = 0n;
+      for (const amplification of [1n, 10n, 100n, 1000n]) {
+        const out = getStableAmountOut(
+          toWei(100_000),
+          toWei(1_000_000),
+          toWei(1_000_000),
+          amplification,
+          SWAP_FEE
+        );
+        expect(out).to.be.gt(previous);
+        previous = out;
+      }
+    });
+
+    it("should approach constant product as the pool drains", () => {
+      // Past the flat region the stable pool also charges rising prices for each further unit
+      const [reserveIn, reserveOut] = [toWei(1_900_000), toWei(100_000)];
+      const stableOut = getStableAmountOut(
+        toWei(100_000),
+        reserveIn,
+        reserveOut,
+        AMPLIFICATION,
+        SWAP_FEE
+      );
+      expect(slippageBps(toWei(100_000), stableOut)).to.be.gt(1_000n);
+    });
+  });
+
+  describe("Tokens with different decimals", () => {
+    let usdc: DecimalsToken;
+    let dai: DecimalsToken;
+    let mixed: StableSwapAMM;
+
+    beforeEach(async () => {
+      const DecimalsFactory = await ethers.getContractFactory("DecimalsToken");
+      usdc = await DecimalsFactory.deploy("USD Coin", "USDC", 6);
+      dai = await DecimalsFactory.deploy("Dai Stablecoin", "DAI", 18);
+      mixed = await deployStable(await usdc.getAddress(), await dai.getAddress());
+      await fund([usdc, dai], await mixed.getAddress(), [lp, trader]);
+      await mixed
+        .connect(lp)
+        .addLiquidity(
+          ...((await mixed.token0()) === (await usdc.getAddress())
+            ? [1_000_000n * 10n ** 6n, toWei(1_000_000)]
+            : [toWei(1_000_000), 1_000_000n * 10n ** 6n])
+        );
+    });
+
+    it("should value the pool in 18-decimal units", async () => {
+      expect(await mixed.getInvariant()).to.equal(toWei(2_000_000));
+    });
+
+    it("should trade the two at par, scaled by their decimals", async () => {
+      const usdcIn = 1_000n * 10n ** 6n;
+      const daiOut = await mixed.getAmountOut(usdc, usdcIn);
+      expect(daiOut).to.equal(
+        getStableAmountOut(
+          usdcIn,
+          1_000_000n * 10n ** 6n,
+          toWei(1_000_000),
+          AMPLIFICATION,
+          SWAP_FEE,
+          getStableRate(6),
+          getStableRate(18)
+        )
+      );
+      expect(daiOut).to.be.closeTo(toWei("999.6"), toWei("0.01"));
+
+      const usdcOut = await mixed.getAmountOut(dai, toWei(1_000));
+      expect(usdcOut).to.be.closeTo(999_600_000n, 10_000n);
+
+      const before = await usdc.balanceOf(trader.address);
+      await mixed.connect(trader).swap(dai, toWei(1_000));
+      expect((await usdc.balanceOf(trader.address)) - before).to.equal(usdcOut);
+    });
+
+    it("should quote exact outputs and prices scaled by their decimals", async () => {
+      const [usdcReserve, daiReserve] =
+        (await mixed.token0()) === (await usdc.getAddress())
+          ? await mixed.getReserves()
+          : [...(await mixed.getReserves())].reverse();
+      const [usdcRate, daiRate] = [getStableRate(6), getStableRate(18)];
+
+      const daiOut = toWei("999.5");
+      const usdcIn = await mixed.getAmountIn(usdc, daiOut);
+      expect(usdcIn).to.equal(
+        getStableAmountIn(
+          daiOut,
+          usdcReserve,
+          daiReserve,
+          AMPLIFICATION,
+          SWAP_FEE,
+          usdcRate,
+          daiRate
+        )
+      );
+      expect(await mixed.getAmountOut(usdc, usdcIn)).to.be.gte(daiOut);
+
+      const usdcOut = 999_500_000n;
+      const daiIn = await mixed.getAmountIn(dai, usdcOut);
+      expect(daiIn).to.equal(
+        getStableAmountIn(
+          usdcOut,
+          daiReserve,
+          usdcReserve,
+          AMPLIFICATION,
+          SWAP_FEE,
+          daiRate,
+          usdcRate
+        )
+      );
+      expect(await mixed.getAmountOut(dai, daiIn)).to.be.gte(usdcOut);
+
+      // One USDC unit (10^-6 USDC) is worth 10^12 DAI units at par
+      expect(
+        getStableSpotPrice(usdcReserve, daiReserve, AMPLIFICATION, usdcRate, daiRate)
+      ).to.equal(PRICE_SCALE * 10n ** 12n);
+    });
+  });
+
+  describe("Rebasing tokens", () => {
+    let rebasing: RebasingToken;
+    let plain: TestToken;
+    let rebasingPool: StableSwapAMM;
+    let recipient: HardhatEthersSigner;
+
+    /** Reserve and pool balance of the rebasing token and of the plain one. */
+    const poolState = async () => {
+      const [reserve0, reserve1] = await rebasingPool.getReserves();
+      const rebasingIs0 = (await rebasingPool.token0()) === (await rebasing.getAddress());
+      return {
+        reserve: rebasingIs0 ? reserve0 : reserve1,
+        reservePlain: rebasingIs0 ? reserve1 : reserve0,
+        balance: await rebasing.balanceOf(rebasingPool),
+        balancePlain: await plain.balanceOf(rebasingPool),
+      };
+    };
+
+    beforeEach(async () => {
+      [, , , recipient] = await ethers.getSigners();
+      rebasing = await (await ethers.getContractFactory("RebasingToken")).deploy("Rebasing", "RBT");
+      plain = await (await ethers.getContractFactory("TestToken")).deploy("Plain", "PLN");
+      rebasingPool = await deployStable(await rebasing.getAddress(), await plain.getAddress());
+      await fund([rebasing, plain], await rebasingPool.getAddress(), [lp, trader]);
+      await rebasingPool.connect(lp).addLiquidity(toWei(1000), toWei(1000));
+    });
+
+    it("should let anyone skim a positive rebase before it is synced", async () => {
+      await rebasing.rebase(toWei(2));
+      await rebasingPool.skim(recipient.address);
+
+      expect(await rebasing.balanceOf(recipient.address)).to.be.closeTo(toWei(1000), 1n);
+      const state = await poolState();
+      expect(state.reserve).to.equal(toWei(1000));
+      expect(state.balance).to.be.closeTo(toWei(1000), 1n);
+    });
+
+    it("should need a sync before swapping or depositing after a negative rebase", async () => {
+      await rebasing.rebase(toWei("0.5"));
+      // The deposit only refills part of the shortfall
+      await expect(rebasingPool.connect(trader).swap(rebasing, toWei(10))).to.be.revertedWith(
+        "StableSwapAMM: insufficient input amount"
+      );
+      await expect(
+        rebasingPool.connect(trader).addLiquidity(toWei(10), toWei(10))
+      ).to.be.revertedWith("StableSwapAMM: insufficient input amount");
+
+      // Skimming has nothing to take from a shortfall
+      await rebasingPool.skim(recipient.address);
+      expect(await rebasing.balanceOf(recipient.address)).to.equal(0);
+
+      await expect(rebasingPool.sync()).to.emit(rebasingPool, "Sync");
+      expect((await poolState()).reserve).to.equal(toWei(500));
+      await rebasingPool.connect(trader).swap(rebasing, toWei(10));
+      const state = await poolState();
+      expect(state.reserve).to.equal(state.balance);
+      expect(state.reservePlain).to.equal(state.balancePlain);
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AMM, LPToken, StakingRewards, TestToken } from "../typechain-types";
+import { signPermit } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+const DAY = 24n * 60n * 60n;
+const DURATION = 7n * DAY;
+const ONE = 10n ** 18n;
+
+/** Mirror of the contract's reward accounting, rounding the same way. */
+class RewardModel {
+  rate = 0n;
+  finish = 0n;
+  lastUpdate = 0n;
+  stored = 0n;
+  supply = 0n;
+  balances: Record<string, bigint> = {};
+  paid: Record<string, bigint> = {};
+  rewards: Record<string, bigint> = {};
+
+  rewardPerToken(now: bigint): bigint {
+    const applicable = now < this.finish ? now : this.finish;
+    return this.supply === 0n
+      ? this.stored
+      : this.stored + ((applicable - this.lastUpdate) * this.rate * ONE) / this.supply;
+  }
+
+  earned(account: string, now: bigint): bigint {
+    return (
+      (this.rewards[account] ?? 0n) +
+      ((this.balances[account] ?? 0n) * (this.rewardPerToken(now) - (this.paid[account] ?? 0n))) /
+        ONE
+    );
+  }
+
+  update(account: string | undefined, now: bigint) {
+    this.stored = this.rewardPerToken(now);
+    this.lastUpdate = now < this.finish ? now : this.finish;
+    if (account) {
+      this.rewards[account] = this.earned(account, now);
+      this.paid[account] = this.stored;
+    }
+  }
+
+  notify(reward: bigint, now: bigint) {
+    this.update(undefined, now);
+    const unreleased = now < this.finish ? (this.finish - now) * this.rate : 0n;
+    this.rate = (reward + unreleased) / DURATION;
+    this.lastUpdate = now;
+    this.finish = now + DURATION;
+  }
+
+  stake(account: string, amount: bigint, now: bigint) {
+    this.update(account, now);
+    this.supply += amount;
+    this.balances[account] = (this.balances[account] ?? 0n) + amount;
+  }
+
+  withdraw(account: string, amount: bigint, now: bigint) {
+    this.update(account, now);
+    this.supply -= amount;
+    this.balances[account] -= amount;
+  }
+
+  claim(account: string, now: bigint): bigint {
+    this.update(account, now);
+    const reward = this.rewards[account];
+    this.rewards[account] = 0n;
+    return reward;
+  }
+}
+
+describe("StakingRewards", () => {
+  let admin: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let amm: AMM;
+  let lpToken: LPToken;
+  let rewardToken: TestToken;
+  let staking: StakingRewards;
+  let stakingAddress: string;
+
+  beforeEach(async () => {
+    [admin, alice, bob, carol] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+    rewardToken = await TestTokenFactory.deploy("Reward", "RWD");
+
+    staking = await (
+      await ethers.getContractFactory("StakingRewards")
+    ).deploy(await lpToken.getAddress(), await rewardToken.getAddress(), DURATION);
+    stakingAddress = await staking.getAddress();
+
+    for (const user of [alice, bob, carol]) {
+      for (const token of [tokenA, tokenB]) {
+        await token.mint(user.address, toWei(10_000));
+        await token.connect(user).approve(await amm.getAddress(), ethers.MaxUint256);
+      }
+      await amm.connect(user).addLiquidity(toWei(1000), toWei(1000));
+      await lpToken.connect(user).approve(stakingAddress, ethers.MaxUint256);
+    }
+    await rewardToken.mint(admin.address, toWei(1_000_000));
+    await rewardToken.approve(stakingAddress, ethers.MaxUint256);
+  });
+
+  /** Runs `action` in a block mined at `timestamp` */
+  const at = async <T>(timestamp: bigint, action: () => Promise<T>): Promise<T> => {
+    await time.setNextBlockTimestamp(timestamp);
+    return action();
+  };
+
+  const rewardBalance = (user: HardhatEthersSigner) => rewardToken.balanceOf(user.address);
+
+  describe("Deployment", () => {
+    it("should record the tokens, duration and admin", async () => {
+      expect(await staking.stakingToken()).to.equal(await lpToken.getAddress());
+      expect(await staking.rewardsToken()).to.equal(await rewardToken.getAddress());
+      expect(await staking.rewardsDuration()).to.equal(DURATION);
+      expect(await staking.rewardsDistributor()).to.equal(admin.address);
+      expect(await staking.periodFinish()).to.equal(0n);
+    });
+
+    it("should reject invalid parameters", async () => {
+      const StakingFactory = await ethers.getContractFactory("StakingRewards");
+      const lpAddress = await lpToken.getAddress();
+      await expect(
+        StakingFactory.deploy(ethers.ZeroAddress, await rewardToken.getAddress(), DURATION)
+      ).to.be.revertedWith("StakingRewards: zero address");
+      await expect(StakingFactory.deploy(lpAddress, lpAddress, DURATION)).to.be.revertedWith(
+        "StakingRewards: identical tokens"
+      );
+      await expect(
+        StakingFactory.deploy(lpAddress, await rewardToken.getAddress(), 0)
+      ).to.be.revertedWith("StakingRewards: zero duration");
+    });
+  });
+
+  describe("Staking", () => {
+    it("should move LP tokens in and out", async () => {
+      const balance = await lpToken.balanceOf(alice.address);
+      await expect(staking.connect(alice).stake(toWei(100)))
+        .to.emit(staking, "Staked")
+        .withArgs(alice.address, toWei(100));
+      expect(await staking.balanceOf(alice.address)).to.equal(toWei(100));
+      expect(await staking.totalSupply()).to.equal(toWei(100));
+      expect(await lpToken.balanceOf(stakingAddress)).to.equal(toWei(100));
+
+      await expect(staking.connect(alice).withdraw(toWei(40)))
+        .to.emit(staking, "Withdrawn")
+        .withArgs(alice.address, toWei(40));
+      expect(await staking.balanceOf(alice.address)).to.equal(toWei(60));
+      expect(await lpToken.balanceOf(alice.address)).to.equal(balance - toWei(60));
+    });
+
+    it("should reject empty stakes and withdrawals beyond the stake", async () => {
+      await expect(staking.connect(alice).stake(0)).to.be.revertedWith(
+        "StakingRewards: zero amount"
+      );
+      await staking.connect(alice).stake(toWei(1));
+      await expect(staking.connect(alice).withdraw(0)).to.be.revertedWith(
+        "StakingRewards: zero amount"
+      );
+      await expect(staking.connect(alice).withdraw(toWei(1) + 1n)).to.be.revertedWith(
+        "StakingRewards: insufficient balance"
+      );
+      await expect(staking.connect(bob).exit()).to.be.revertedWith("StakingRewards: zero amount");
+    });
+
+    it("should stake with a permit instead of an approval", async () => {
+      await lpToken.connect(alice).approve(stakingAddress, 0);
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const permit = await signPermit(lpToken, alice, stakingAddress, toWei(5), deadline);
+
+      await expect(
+        staking.connect(alice).stakeWithPermit(toWei(5), deadline, permit.v, permit.r, permit.s)
+      )
+        .to.emit(staking, "Staked")
+        .withArgs(alice.address, toWei(5));
+      expect(await staking.balanceOf(alice.address)).to.equal(toWei(5));
+      expect(await lpToken.allowance(alice.address, stakingAddress)).to.equal(0n);
+
+      // The signature only covers its own signer, amount and deadline
+      await expect(
+        staking.connect(bob).stakeWithPermit(toWei(5), deadline, permit.v, permit.r, permit.s)
+      ).to.be.reverted;
+    });
+  });
+
+  describe("Rewards", () => {
+    it("should stream a funded period to a single staker", async () => {
+      await staking.connect(alice).stake(toWei(100));
+      const reward = toWei(7000);
+      const start = BigInt(await time.latest()) + 10n;
+
+      await expect(at(start, () => staking.notifyRewardAmount(reward)))
+        .to.emit(staking, "RewardAdded")
+        .withArgs(reward, start + DURATION);
+      expect(await staking.rewardRate()).to.equal(reward / DURATION);
+      expect(await staking.getRewardForDuration()).to.equal((reward / DURATION) * DURATION);
+
+      await time.increaseTo(start + DURATION / 2n);
+      expect(await staking.earned(alice.address)).to.equal((reward / DURATION) * (DURATION / 2n));
+
+      // Nothing accrues past the end of the period
+      await time.increaseTo(start + DURATION + DAY);
+      const earned = await staking.earned(alice.address);
+      expect(earned).to.equal((reward / DURATION) * DURATION);
+      await expect(staking.connect(alice).getReward())
+        .to.emit(staking, "RewardPaid")
+        .withArgs(alice.address, earned);
+      expect(await rewardBalance(alice)).to.equal(earned);
+      expect(await staking.earned(alice.address)).to.equal(0n);
+    });
+
+    it("should split rewards pro rata as stakers join and leave mid-period", async () => {
+      const model = new RewardModel();
+      const reward = toWei(10_000);
+      const start = BigInt(await time.latest()) + 10n;
+
+      await at(start, () => staking.connect(alice).stake(toWei(100)));
+      model.stake(alice.address, toWei(100), start);
+      await at(start + 1n, () => staking.notifyRewardAmount(reward));
+      model.notify(reward, start + 1n);
+
+      await at(start + DAY, () => staking.connect(bob).stake(toWei(300)));
+      model.stake(bob.address, toWei(300), start + DAY);
+
+      await at(start + 3n * DAY, () => staking.connect(alice).withdraw(toWei(50)));
+      model.withdraw(alice.address, toWei(50), start + 3n * DAY);
+
+      await at(start + 5n * DAY, () => staking.connect(carol).stake(toWei(150)));
+      model.stake(carol.address, toWei(150), start + 5n * DAY);
+
+      await at(start + 6n * DAY, () => staking.connect(bob).exit());
+      const bobReward = model.claim(bob.address, start + 6n * DAY);
+      model.withdraw(bob.address, toWei(300), start + 6n * DAY);
+      expect(await rewardBalance(bob)).to.equal(bobReward);
+      expect(await staking.balanceOf(bob.address)).to.equal(0n);
+
+      const end = start + 1n + DURATION;
+      await time.increaseTo(end + DAY);
+      for (const user of [alice, carol]) {
+        expect(await staking.earned(user.address)).to.equal(model.earned(user.address, end));
+      }
+
+      // Alice holds 100/100 of the stake, then 100/400, 50/350, 50/500 and 50/200
+      const rate = reward / DURATION;
+      expect(model.earned(alice.address, end)).to.be.closeTo(
+        rate * (DAY - 1n) +
+          (rate * 2n * DAY) / 4n +
+          (rate * 2n * DAY) / 7n +
+          (rate * DAY) / 10n +
+          (rate * (DAY + 1n)) / 4n,
+        toWei("0.000001")
+      );
+      // Bob's 300 against 400 staked, then against 350 and 500
+      expect(bobReward).to.be.closeTo(
+        (rate * 2n * DAY * 3n) / 4n + (rate * 2n * DAY * 6n) / 7n + (rate * DAY * 6n) / 10n,
+        toWei("0.000001")
+      );
+    });
+
+    it("should pay nothing for time with nothing staked", async () => {
+      const reward = toWei(7000);
+      const start = BigInt(await time.latest()) + 10n;
+      await at(start, () => staking.notifyRewardAmount(reward));
+
+      await at(start + DAY, () => staking.connect(alice).stake(toWei(1)));
+      await time.increaseTo(start + DURATION);
+      expect(await staking.earned(alice.address)).to.equal((reward / DURATION) * (DURATION - DAY));
+    });
+
+    it("should let the distributor recover rewards released with nothing staked", async () => {
+      const reward = toWei(7000);
+      const rate = reward / DURATION;
+      const start = BigInt(await time.latest()) + 10n;
+      await at(start, () => staking.notifyRewardAmount(reward));
+
+      // Nothing staked for the first day, nor after alice leaves at the end of the second
+      await at(start + DAY, () => staking.connect(alice).stake(toWei(1)));
+      await at(start + 2n * DAY, () => staking.connect(alice).withdraw(toWei(1)));
+      expect(await staking.unallocatedRewards()).to.equal(rate * DAY);
+      await time.increaseTo(start + DURATION);
+
+      const idle = rate * (DURATION - DAY);
+      await expect(staking.recoverERC20(rewardToken, idle + 1n)).to.be.revertedWith(
+        "StakingRewards: exceeds unallocated rewards"
+      );
+      const before = await rewardBalance(admin);
+      await expect(staking.recoverERC20(rewardToken, idle))
+        .to.emit(staking, "Recovered")
+        .withArgs(await rewardToken.getAddress(), idle);
+      expect((await rewardBalance(admin)) - before).to.equal(idle);
+      expect(await staking.unallocatedRewards()).to.equal(0);
+
+      // What alice earned stays hers
+      await staking.connect(alice).getReward();
+      expect(await rewardBalance(alice)).to.equal(rate * DAY);
+    });
+
+    it("should roll unreleased rewards into a new period", async () => {
+      await staking.connect(alice).stake(toWei(100));
+      const first = toWei(7000);
+      const second = toWei(3500);
+      const start = BigInt(await time.latest()) + 10n;
+      await at(start, () => staking.notifyRewardAmount(first));
+
+      const topUp = start + 2n * DAY;
+      await at(topUp, () => staking.notifyRewardAmount(second));
+      const firstRate = first / DURATION;
+      const unreleased = (start + DURATION - topUp) * firstRate;
+      expect(await staking.rewardRate()).to.equal((second + unreleased) / DURATION);
+      expect(await staking.periodFinish()).to.equal(topUp + DURATION);
+
+      await time.increaseTo(topUp + DURATION);
+      const earned = await staking.earned(alice.address);
+      expect(earned).to.equal(firstRate * 2n * DAY + ((second + unreleased) / DURATION) * DURATION);
+      expect(earned).to.be.lte(first + second);
+      expect(earned).to.be.gt(first + second - 2n * DURATION);
+    });
+
+    it("should never pay out more than it was funded", async () => {
+      const model = new RewardModel();
+      // Odd amounts, so every division has a remainder to round away
+      const funded = [toWei(1234) + 987_654_321n, toWei(77) + 3n, toWei(5) + 1n];
+      const users = [alice, bob, carol];
+      const stakes = [toWei(3) + 7n, 13n, toWei(333) + 1n];
+      let now = BigInt(await time.latest()) + 10n;
+
+      const step = async (seconds: bigint, action: () => Promise<unknown>) => {
+        now += seconds;
+        await at(now, action);
+      };
+
+      for (const [index, user] of users.entries()) {
+        await step(1n, () => staking.connect(user).stake(stakes[index]));
+        model.stake(user.address, stakes[index], now);
+      }
+      for (const [period, amount] of funded.entries()) {
+        await step(1n, () => staking.notifyRewardAmount(amount));
+        model.notify(amount, now);
+
+        for (const [index, user] of users.entries()) {
+          const seconds = 12_345n * BigInt(index + period + 1) + 17n;
+          if ((index + period) % 2 === 0) {
+            const amount = (await staking.balanceOf(user.address)) / 3n + 1n;
+            await step(seconds, () => staking.connect(user).withdraw(amount));
+            model.withdraw(user.address, amount, now);
+          } else {
+            await step(seconds, () => staking.connect(user).stake(stakes[index]));
+            model.stake(user.address, stakes[index], now);
+          }
+          await step(7n, () => staking.connect(user).getReward());
+          model.claim(user.address, now);
+        }
+      }
+
+      await time.increaseTo(model.finish + 1n);
+      let paid = 0n;
+      for (const user of users) {
+        expect(await staking.earned(user.address)).to.equal(
+          model.earned(user.address, model.finish)
+        );
+        await staking.connect(user).exit();
+        paid += await rewardBalance(user);
+      }
+
+      const total = funded.reduce((sum, amount) => sum + amount, 0n);
+      expect(paid).to.be.lte(total);
+      // Each rate rounds away under a wei per second, each update under a wei per staked token
+      expect(paid).to.be.gt(total - 3n * DURATION - 100_000n);
+      expect(await rewardToken.balanceOf(stakingAddress)).to.equal(total - paid);
+    });
+
+    it("should credit what a fee-on-transfer reward token delivers", async () => {
+      const feeToken = await (
+        await ethers.getContractFactory("FeeOnTransferToken")
+      ).deploy("Fee", "FEE", 100);
+      const feeStaking = await (
+        await ethers.getContractFactory("StakingRewards")
+      ).deploy(await lpToken.getAddress(), await feeToken.getAddress(), DURATION);
+      await feeToken.mint(admin.address, toWei(7000));
+      await feeToken.approve(await feeStaking.getAddress(), ethers.MaxUint256);
+
+      await expect(feeStaking.notifyRewardAmount(toWei(7000)))
+        .to.emit(feeStaking, "RewardAdded")
+        .withArgs(toWei(6930), anyValue);
+      expect(await feeStaking.rewardRate()).to.equal(toWei(6930) / DURATION);
+    });
+  });
+
+  describe("Administration", () => {
+    it("should only let the distributor fund periods", async () => {
+      await rewardToken.mint(alice.address, toWei(100));
+      await rewardToken.connect(alice).approve(stakingAddress, ethers.MaxUint256);
+      await expect(staking.connect(alice).notifyRewardAmount(toWei(100))).to.be.revertedWith(
+        "StakingRewards: forbidden"
+      );
+    });
+
+    it("should reject rewards too small to release every second", async () => {
+      await expect(staking.notifyRewardAmount(DURATION - 1n)).to.be.revertedWith(
+        "StakingRewards: reward rate is zero"
+      );
+    });
+
+    it("should only change the duration between periods", async () => {
+      await staking.notifyRewardAmount(toWei(7000));
+      await expect(staking.setRewardsDuration(DAY)).to.be.revertedWith(
+        "StakingRewards: period not finished"
+      );
+
+      await time.increaseTo((await staking.periodFinish()) + 1n);
+      await expect(staking.connect(alice).setRewardsDuration(DAY)).to.be.revertedWith(
+        "StakingRewards: forbidden"
+      );
+      await expect(staking.setRewardsDuration(0)).to.be.revertedWith(
+        "StakingRewards: zero duration"
+      );
+      await expect(staking.setRewardsDuration(DAY))
+        .to.emit(staking, "RewardsDurationUpdated")
+        .withArgs(DAY);
+      await staking.notifyRewardAmount(toWei(100));
+      expect(await staking.periodFinish()).to.equal(BigInt(await time.latest()) + DAY);
+    });
+
+    it("should recover stray tokens but never the staking token", async () => {
+      await staking.connect(alice).stake(toWei(100));
+      const stray = await (await ethers.getContractFactory("TestToken")).deploy("Stray", "STR");
+      await stray.mint(stakingAddress, toWei(5));
+
+      await expect(staking.connect(alice).recoverERC20(stray, toWei(5))).to.be.revertedWith(
+        "StakingRewards: forbidden"
+      );
+      await expect(staking.recoverERC20(lpToken, toWei(1))).to.be.revertedWith(
+        "StakingRewards: cannot recover staking token"
+      );
+      await staking.recoverERC20(stray, toWei(5));
+      expect(await stray.balanceOf(admin.address)).to.equal(toWei(5));
+    });
+
+    it("should hand over the distributor role", async () => {
+      await expect(staking.connect(alice).setRewardsDistributor(alice.address)).to.be.revertedWith(
+        "StakingRewards: forbidden"
+      );
+      await expect(staking.setRewardsDistributor(ethers.ZeroAddress)).to.be.revertedWith(
+        "StakingRewards: zero address"
+      );
+      await expect(staking.setRewardsDistributor(bob.address))
+        .to.emit(staking, "RewardsDistributorUpdated")
+        .withArgs(bob.address);
+      await expect(staking.notifyRewardAmount(toWei(100))).to.be.revertedWith(
+        "StakingRewards: forbidden"
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { AMM, DecimalsToken, StableSwapAMM, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+/** Runs a task with console output captured, returning its result and what it printed. */
+const runTask = async (name: string, args: Record<string, unknown>) => {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...data: unknown[]) => lines.push(data.join(" "));
+  try {
+    const result = await hre.run(name, args);
+    return { result, output: lines.join("\n") };
+  } finally {
+    console.log = log;
+  }
+};
+
+describe("Tasks", () => {
+  let deployer: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+  let tokenA: TestToken;
+  let tokenB: TestToken;
+  let amm: AMM;
+  let pool: string;
+  let client: AmmClient;
+
+  beforeEach(async () => {
+    // Tasks act as the first signer
+    [deployer, other] = await ethers.getSigners();
+
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    tokenA = await TestTokenFactory.deploy("Token A", "TKA");
+    tokenB = await TestTokenFactory.deploy("Token B", "TKB");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+    pool = await amm.getAddress();
+    for (const token of [tokenA, tokenB]) {
+      await token.mint(deployer.address, toWei(100_000));
+    }
+
+    client = await AmmClient.connect(pool, deployer);
+    const a0 = client.token0Address === (await tokenA.getAddress());
+    // 1 TKA = 2 TKB
+    await client.addLiquidity(a0 ? toWei(1000) : toWei(2000), a0 ? toWei(2000) : toWei(1000));
+  });
+
+  describe("amm:reserves", () => {
+    it("should print reserves and prices in whole tokens", async () => {
+      const { result, output } = await runTask("amm:reserves", { pool });
+      const tokenAIs0 = result.token0 === "TKA";
+
+      expect(result[tokenAIs0 ? "reserve0" : "reserve1"]).to.equal("1000.0");
+      expect(result[tokenAIs0 ? "reserve1" : "reserve0"]).to.equal("2000.0");
+      expect(result[tokenAIs0 ? "price0" : "price1"]).to.equal("2.0");
+      expect(result.swapFeeBps).to.equal("30");
+      expect(output).to.match(/^pool +0x/);
+    });
+
+    it("should print a single line of JSON with --json", async () => {
+      const { result, output } = await runTask("amm:reserves", { pool, json: true });
+      expect(JSON.parse(output)).to.deep.equal(result);
+    });
+
+    it("should reject unknown pool names and addresses without a contract", async () => {
+      await expect(runTask("amm:reserves", { pool: "my-pool" })).to.be.rejectedWith(
+        "no pool named my-pool on hardhat"
+      );
+      await expect(runTask("amm:reserves", { pool: other.address })).to.be.rejectedWith(
+        "no contract at"
+      );
+    });
+  });
+
+  describe("amm:quote and amm:swap", () => {
+    it("should quote by token symbol, matching the SDK", async () => {
+      const { result } = await runTask("amm:quote", { pool, tokenIn: "tka", amountIn: "10" });
+      const quote = await client.quoteSwap(await tokenA.getAddress(), toWei(10));
+
+      expect(result.tokenOut).to.equal("TKB");
+      expect(result.amountOut).to.equal(ethers.formatEther(quote.amountOut));
+      expect(result.minAmountOut).to.equal(ethers.formatEther((quote.amountOut * 9950n) / 10_000n));
+    });
+
+    it("should require exactly one of --amount-in and --amount-out", async () => {
+      await expect(runTask("amm:quote", { pool, tokenIn: "TKA" })).to.be.rejectedWith(
+        "pass exactly one of --amount-in and --amount-out"
+      );
+      await expect(
+        runTask("amm:swap", { pool, tokenIn: "TKA", amountIn: "1", amountOut: "1" })
+      ).to.be.rejectedWith("pass exactly one of --amount-in and --amount-out");
+      await expect(
+        runTask("amm:quote", { pool, tokenIn: "WETH", amountIn: "1" })
+      ).to.be.rejectedWith("WETH is not");
+    });
+
+    it("should dry-run a swap without sending transactions", async () => {
+      const tokenAAddress = await tokenA.getAddress();
+      const reserves = await amm.getReserves();
+      expect(await tokenA.allowance(deployer.address, pool)).to.equal(0);
+
+      // Without an approval the pool cannot be simulated, so the off-chain quote is reported
+      const { result } = await runTask("amm:swap", {
+        pool,
+        tokenIn: tokenAAddress,
+        amountIn: "10",
+        dryRun: true,
+      });
+      expect(result.simulated).to.equal(false);
+      expect(result.approvalsRequired).to.equal("TKA");
+      expect(result.txHash).to.equal(undefined);
+      expect(await amm.getReserves()).to.deep.equal(reserves);
+      expect(await tokenA.allowance(deployer.address, pool)).to.equal(0);
+
+      await tokenA.approve(pool, ethers.MaxUint256);
+      const simulated = await runTask("amm:swap", {
+        pool,
+        tokenIn: tokenAAddress,
+        amountIn: "10",
+        dryRun: true,
+      });
+      expect(simulated.result.simulated).to.equal(true);
+      expect(simulated.result.amountOut).to.equal(result.amountOut);
+      expect(await amm.getReserves()).to.deep.equal(reserves);
+    });
+
+    it("should approve and execute exact-input and exact-output swaps", async () => {
+      const before = await tokenB.balanceOf(deployer.address);
+      const { result } = await runTask("amm:swap", { pool, tokenIn: "TKA", amountIn: "10" });
+      expect(result.txHash).to.match(/^0x/);
+      expect(ethers.parseEther(result.amountOut)).to.equal(
+        (await tokenB.balanceOf(deployer.address)) - before
+      );
+
+      const exactOut = await runTask("amm:swap", { pool, tokenIn: "TKB", amountOut: "5" });
+      expect(exactOut.result.amountOut).to.equal("5.0");
+      expect(ethers.parseEther(exactOut.result.amountIn)).to.be.lessThanOrEqual(
+        ethers.parseEther(exactOut.result.maxAmountIn)
+      );
+    });
+  });
+
+  describe("Liquidity tasks", () => {
+    it("should add at the pool ratio, then report and withdraw the position", async () => {
+      const tokenAIs0 = client.token0Address === (await tokenA.getAddress());
+      const lpBefore = await client.lpToken.balanceOf(deployer.address);
+
+      // Offer 100 TKA and 500 TKB; only 200 TKB match
+      const { result } = await runTask("amm:add-liquidity", {
+        pool,
+        amount0: tokenAIs0 ? "100" : "500",
+        amount1: tokenAIs0 ? "500" : "100",
+      });
+      expect(result[tokenAIs0 ? "amount1" : "amount0"]).to.equal("200.0");
+      expect(ethers.parseEther(result.liquidity)).to.equal(
+        (await client.lpToken.balanceOf(deployer.address)) - lpBefore
+      );
+
+      const position = await runTask("amm:position", { pool });
+      expect(position.result.account).to.equal(deployer.address);
+      expect(ethers.parseEther(position.result.liquidity)).to.equal(
+        await client.lpToken.balanceOf(deployer.address)
+      );
+      const empty = await runTask("amm:position", { pool, account: other.address });
+      expect(empty.result.liquidity).to.equal("0.0");
+
+      const dryRun = await runTask("amm:remove-liquidity", {
+        pool,
+        liquidity: "all",
+        dryRun: true,
+      });
+      expect(dryRun.result.simulated).to.equal(true);
+      expect(dryRun.result.amount0).to.equal(position.result.amount0);
+
+      await runTask("amm:remove-liquidity", { pool, liquidity: "all" });
+      expect(await client.lpToken.balanceOf(deployer.address)).to.equal(0);
+    });
+  });
+
+  describe("StableSwap pools", () => {
+    let usdc: DecimalsToken;
+    let dai: DecimalsToken;
+    let stable: StableSwapAMM;
+    let stablePool: string;
+
+    beforeEach(async () => {
+      const DecimalsFactory = await ethers.getContractFactory("DecimalsToken");
+      usdc = await DecimalsFactory.deploy("USD Coin", "USDC", 6);
+      dai = await DecimalsFactory.deploy("Dai Stablecoin", "DAI", 18);
+      stable = await (
+        await ethers.getContractFactory("StableSwapAMM")
+      ).deploy(await usdc.getAddress(), await dai.getAddress(), 4, 200);
+      stablePool = await stable.getAddress();
+      await usdc.mint(deployer.address, 10_000_000n * 10n ** 6n);
+      await dai.mint(deployer.address, toWei(10_000_000));
+
+      // Off balance: 1.2M USDC to 0.8M DAI, where x*y=k would price USDC at 0.67 DAI
+      const stableClient = await AmmClient.connect(stablePool, deployer);
+      const usdcIs0 = stableClient.token0Address === (await usdc.getAddress());
+      const [usdcAmount, daiAmount] = [1_200_000n * 10n ** 6n, toWei(800_000)];
+      await stableClient.addLiquidity(
+        usdcIs0 ? usdcAmount : daiAmount,
+        usdcIs0 ? daiAmount : usdcAmount
+      );
+    });
+
+    it("should report reserves and prices on the stable curve", async () => {
+      const { result } = await runTask("amm:reserves", { pool: stablePool });
+      const usdcIs0 = result.token0 === "USDC";
+
+      expect(result[usdcIs0 ? "reserve0" : "reserve1"]).to.equal("1200000.0");
+      expect(result.amplification).to.equal("200");
+      expect(result.protocolFeeOn).to.equal(false);
+      expect(Number(result[usdcIs0 ? "price0" : "price1"])).to.be.within(0.99, 1);
+      expect(Number(result[usdcIs0 ? "price1" : "price0"])).to.be.within(1, 1.01);
+    });
+
+    it("should quote and swap both ways at the pool's own prices", async () => {
+      const quote = await runTask("amm:quote", {
+        pool: stablePool,
+        tokenIn: "USDC",
+        amountIn: "1000",
+      });
+      expect(ethers.parseEther(quote.result.amountOut)).to.equal(
+        await stable.getAmountOut(usdc, 1000n * 10n ** 6n)
+      );
+      const exactOutQuote = await runTask("amm:quote", {
+        pool: stablePool,
+        tokenIn: "DAI",
+        amountOut: "1000",
+      });
+      expect(ethers.parseEther(exactOutQuote.result.amountIn)).to.equal(
+        await stable.getAmountIn(dai, 1000n * 10n ** 6n)
+      );
+
+      const daiBefore = await dai.balanceOf(deployer.address);
+      const { result } = await runTask("amm:swap", {
+        pool: stablePool,
+        tokenIn: "USDC",
+        amountIn: "1000",
+      });
+      expect(result.amountOut).to.equal(quote.result.amountOut);
+      expect(ethers.parseEther(result.amountOut)).to.equal(
+        (await dai.balanceOf(deployer.address)) - daiBefore
+      );
+
+      // The first swap moved the pool, so the exact-output price moved with it
+      const amountIn = await stable.getAmountIn(dai, 1000n * 10n ** 6n);
+      const [usdcBefore, daiHeld] = await Promise.all([
+        usdc.balanceOf(deployer.address),
+        dai.balanceOf(deployer.address),
+      ]);
+      const exactOut = await runTask("amm:swap", {
+        pool: stablePool,
+        tokenIn: "DAI",
+        amountOut: "1000",
+      });
+      expect(exactOut.result.amountOut).to.equal("1000.0");
+      expect(ethers.parseEther(exactOut.result.amountIn)).to.equal(amountIn);
+      expect((await usdc.balanceOf(deployer.address)) - usdcBefore).to.equal(1000n * 10n ** 6n);
+      expect(daiHeld - (await dai.balanceOf(deployer.address))).to.equal(amountIn);
+    });
+  });
+});
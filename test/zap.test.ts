@@ -0,0 +1,307 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { AMM, AMMZap, LPToken, TestToken } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { AmmClient, ceilDiv, getZapInSwapAmount, ZapInQuote } from "../sdk";
+
+const toWei = (value: string | number) => ethers.parseEther(value.toString());
+
+describe("AMMZap", () => {
+  let lp: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let zap: AMMZap;
+  let token0: TestToken;
+  let token1: TestToken;
+  let amm: AMM;
+  let lpToken: LPToken;
+  let client: AmmClient;
+  let zapAddress: string;
+
+  const deadline = async () => BigInt((await time.latest()) + 60);
+
+  const deployPool = async (swapFee: number, reserve0: bigint, reserve1: bigint) => {
+    const TestTokenFactory = await ethers.getContractFactory("TestToken");
+    const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+    const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+    amm = await (
+      await ethers.getContractFactory("AMM")
+    ).deploy(await tokenA.getAddress(), await tokenB.getAddress(), swapFee);
+    token0 = await ethers.getContractAt("TestToken", await amm.token0());
+    token1 = await ethers.getContractAt("TestToken", await amm.token1());
+    lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+
+    await token0.mint(lp.address, reserve0);
+    await token1.mint(lp.address, reserve1);
+    for (const token of [token0, token1]) {
+      await token.mint(user.address, toWei(1_000_000));
+      await token.connect(user).approve(zapAddress, ethers.MaxUint256);
+    }
+    await lpToken.connect(user).approve(zapAddress, ethers.MaxUint256);
+    await (await AmmClient.connect(await amm.getAddress(), lp)).addLiquidity(reserve0, reserve1);
+    client = await AmmClient.connect(await amm.getAddress(), user);
+  };
+
+  /** Zaps `amountIn` of `tokenIn` and checks the result against the client's quote. */
+  const zapIn = async (tokenIn: TestToken, amountIn: bigint): Promise<ZapInQuote> => {
+    const quote = await client.quoteZapIn(await tokenIn.getAddress(), amountIn);
+    const before0 = await token0.balanceOf(user.address);
+    const before1 = await token1.balanceOf(user.address);
+    const lpBefore = await lpToken.balanceOf(user.address);
+
+    await zap
+      .connect(user)
+      .zapIn(amm, tokenIn, amountIn, quote.liquidity, user.address, await deadline());
+
+    const zeroForOne = tokenIn === token0;
+    expect(await lpToken.balanceOf(user.address)).to.equal(lpBefore + quote.liquidity);
+    expect(before0 - (await token0.balanceOf(user.address))).to.equal(
+      zeroForOne ? amountIn - quote.refund0 : -quote.refund0
+    );
+    expect(before1 - (await token1.balanceOf(user.address))).to.equal(
+      zeroForOne ? -quote.refund1 : amountIn - quote.refund1
+    );
+    for (const token of [token0, token1, lpToken]) {
+      expect(await token.balanceOf(zapAddress)).to.equal(0n);
+    }
+    return quote;
+  };
+
+  /**
+   * Checks a zap's refunds, valued in the input token at the reserves the zap left behind, are
+   * rounding dust: a few wei of whichever token is worth more, plus 1e-17 of the deposit.
+   */
+  const expectDust = async ({ amountIn, refund0, refund1 }: ZapInQuote, zeroForOne: boolean) => {
+    const [reserve0, reserve1] = await amm.getReserves();
+    const [reserveIn, reserveOut] = zeroForOne ? [reserve0, reserve1] : [reserve1, reserve0];
+    const [refundIn, refundOut] = zeroForOne ? [refund0, refund1] : [refund1, refund0];
+    const dust = refundIn + (refundOut * reserveIn) / reserveOut;
+    expect(dust).to.be.lte(10n * ceilDiv(reserveIn, reserveOut) + amountIn / 10n ** 17n);
+  };
+
+  beforeEach(async () => {
+    [, lp, user, recipient] = await ethers.getSigners();
+    zap = await (await ethers.getContractFactory("AMMZap")).deploy();
+    zapAddress = await zap.getAddress();
+  });
+
+  describe("getSwapAmount", () => {
+    it("should match the SDK for every fee tier", async () => {
+      const reserves = [10n ** 6n, toWei(1), toWei(1000), toWei(123_456_789)];
+      const amounts = [1n, 10n ** 9n, toWei(1), toWei(5000), toWei(10_000_000)];
+      for (const fee of [0n, 5n, 30n, 100n, 1000n]) {
+        for (const reserveIn of reserves) {
+          for (const amountIn of amounts) {
+            expect(await zap.getSwapAmount(reserveIn, amountIn, fee)).to.equal(
+              getZapInSwapAmount(amountIn, reserveIn, fee)
+            );
+          }
+        }
+      }
+    });
+
+    it("should swap about half of a small deposit and less of a large one", async () => {
+      const reserveIn = toWei(1000);
+      // With a 0.3% fee, a deposit small against the pool swaps just over half
+      const small = getZapInSwapAmount(toWei(1), reserveIn, 30n);
+      expect(small).to.be.gt(toWei("0.5"));
+      expect(small).to.be.lt(toWei("0.501"));
+      // A deposit equal to the reserve swaps sqrt(2) - 1 of it without a fee
+      const large = getZapInSwapAmount(reserveIn, reserveIn, 0n);
+      expect(large).to.be.closeTo(toWei("414.213562373095048801"), 1n);
+    });
+  });
+
+  describe("zapIn", () => {
+    for (const swapFee of [0, 30, 1000]) {
+      it(`should leave only wei of dust at a ${swapFee} bps fee`, async () => {
+        await deployPool(swapFee, toWei(1000), toWei(4000));
+        for (const amountIn of [10_000n, toWei(1), toWei(50), toWei(1000), toWei(20_000)]) {
+          for (const zeroForOne of [true, false]) {
+            const quote = await zapIn(zeroForOne ? token0 : token1, amountIn);
+            await expectDust(quote, zeroForOne);
+          }
+        }
+      });
+    }
+
+    it("should leave only wei of dust in a pool with a skewed price", async () => {
+      // One token0 is worth 2,500,000 token1
+      await deployPool(30, toWei(4), toWei(10_000_000));
+      for (const amountIn of [toWei("0.001"), toWei(1), toWei(40)]) {
+        const quote = await zapIn(token0, amountIn);
+        await expectDust(quote, true);
+      }
+      for (const amountIn of [toWei(100), toWei(500_000)]) {
+        const quote = await zapIn(token1, amountIn);
+        await expectDust(quote, false);
+      }
+    });
+
+    it("should mint what swapping and depositing separately mints", async () => {
+      await deployPool(30, toWei(1000), toWei(4000));
+      const amountIn = toWei(100);
+      const quote = await client.quoteZapIn(await token0.getAddress(), amountIn);
+
+      const tx = zap
+        .connect(user)
+        .zapIn(amm, token0, amountIn, 0, recipient.address, await deadline());
+      await expect(tx)
+        .to.emit(amm, "SwapExecuted")
+        .withArgs(
+          zapAddress,
+          await token0.getAddress(),
+          quote.swapAmount,
+          await token1.getAddress(),
+          quote.swapAmountOut,
+          zapAddress
+        );
+      await expect(tx)
+        .to.emit(amm, "LiquidityAdded")
+        .withArgs(zapAddress, quote.amount0, quote.amount1, quote.liquidity);
+      expect(await lpToken.balanceOf(recipient.address)).to.equal(quote.liquidity);
+    });
+
+    it("should beat swapping half of the deposit", async () => {
+      await deployPool(30, toWei(1000), toWei(4000));
+      const amountIn = toWei(500);
+      const state = await client.getPoolState();
+      const half = await client.quoteSwap(await token0.getAddress(), amountIn / 2n, state);
+      const naive = await client.quoteAddLiquidity(amountIn / 2n, half.amountOut, {
+        ...state,
+        reserve0: state.reserve0 + amountIn / 2n,
+        reserve1: state.reserve1 - half.amountOut,
+      });
+
+      const quote = await zapIn(token0, amountIn);
+      expect(quote.liquidity).to.be.gt(naive.liquidity);
+    });
+
+    it("should quote the protocol fee minted before the deposit", async () => {
+      const factory = await (await ethers.getContractFactory("AMMFactory")).deploy();
+      await factory.setFeeTo(recipient.address);
+      const TestTokenFactory = await ethers.getContractFactory("TestToken");
+      const tokenA = await TestTokenFactory.deploy("Token0", "TK0");
+      const tokenB = await TestTokenFactory.deploy("Token1", "TK1");
+      await factory.createPool(await tokenA.getAddress(), await tokenB.getAddress(), 30);
+      amm = await ethers.getContractAt(
+        "AMM",
+        await factory.getPool(await tokenA.getAddress(), await tokenB.getAddress())
+      );
+      token0 = await ethers.getContractAt("TestToken", await amm.token0());
+      token1 = await ethers.getContractAt("TestToken", await amm.token1());
+      lpToken = await ethers.getContractAt("LPToken", await amm.lpToken());
+      for (const token of [token0, token1]) {
+        await token.mint(user.address, toWei(100_000));
+        await token.connect(user).approve(zapAddress, ethers.MaxUint256);
+      }
+      client = await AmmClient.connect(await amm.getAddress(), user);
+      await client.addLiquidity(toWei(1000), toWei(1000));
+      // Fees accrue to k, so the next deposit mints the protocol's share first
+      await client.swap(await token0.getAddress(), toWei(200));
+      await client.swap(await token1.getAddress(), toWei(300));
+
+      await zapIn(token1, toWei(250));
+      expect(await lpToken.balanceOf(recipient.address)).to.be.gt(0n);
+    });
+
+    it("should enforce the minimum liquidity, deadline and recipient", async () => {
+      await deployPool(30, toWei(1000), toWei(4000));
+      const amountIn = toWei(10);
+      const { liquidity } = await client.quoteZapIn(await token0.getAddress(), amountIn);
+
+      await expect(
+        zap
+          .connect(user)
+          .zapIn(amm, token0, amountIn, liquidity + 1n, user.address, await deadline())
+      ).to.be.revertedWith("AMMZap: insufficient liquidity minted");
+      await expect(
+        zap.connect(user).zapIn(amm, token0, amountIn, 0, ethers.ZeroAddress, await deadline())
+      ).to.be.revertedWith("AMMZap: zero address");
+      await expect(
+        zap.connect(user).zapIn(amm, token0, amountIn, 0, user.address, await time.latest())
+      ).to.be.revertedWith("AMMZap: expired");
+    });
+
+    it("should reject tokens the pool does not trade", async () => {
+      await deployPool(30, toWei(1000), toWei(4000));
+      await expect(
+        zap.connect(user).zapIn(amm, lpToken, toWei(1), 0, user.address, await deadline())
+      ).to.be.revertedWith("AMMZap: unsupported token");
+    });
+  });
+
+  describe("zapOut", () => {
+    beforeEach(async () => {
+      await deployPool(30, toWei(1000), toWei(4000));
+      await zapIn(token0, toWei(100));
+    });
+
+    for (const zeroForOne of [true, false]) {
+      it(`should withdraw only token${zeroForOne ? 0 : 1}`, async () => {
+        const tokenOut = zeroForOne ? token0 : token1;
+        const other = zeroForOne ? token1 : token0;
+        const liquidity = (await lpToken.balanceOf(user.address)) / 2n;
+        const quote = await client.quoteZapOut(liquidity, await tokenOut.getAddress());
+        const lpBefore = await lpToken.balanceOf(user.address);
+        const otherBefore = await other.balanceOf(user.address);
+
+        await zap
+          .connect(user)
+          .zapOut(amm, liquidity, tokenOut, quote.amountOut, recipient.address, await deadline());
+
+        expect(await tokenOut.balanceOf(recipient.address)).to.equal(quote.amountOut);
+        expect(await other.balanceOf(recipient.address)).to.equal(0n);
+        expect(await lpToken.balanceOf(user.address)).to.equal(lpBefore - liquidity);
+        expect(await other.balanceOf(user.address)).to.equal(otherBefore);
+        for (const token of [token0, token1, lpToken]) {
+          expect(await token.balanceOf(zapAddress)).to.equal(0n);
+        }
+      });
+    }
+
+    it("should quote a withdrawal that pays out an unsynced donation", async () => {
+      await token0.connect(user).transfer(amm, toWei(7));
+      await token1.connect(user).transfer(amm, toWei(3));
+      const liquidity = (await lpToken.balanceOf(user.address)) / 2n;
+      const quote = await client.quoteZapOut(liquidity, await token1.getAddress());
+
+      await zap
+        .connect(user)
+        .zapOut(amm, liquidity, token1, quote.amountOut, recipient.address, await deadline());
+      expect(await token1.balanceOf(recipient.address)).to.equal(quote.amountOut);
+    });
+
+    it("should return close to the deposit, less the fees of both swaps", async () => {
+      const balance = await token0.balanceOf(user.address);
+      const liquidity = await lpToken.balanceOf(user.address);
+      await zap.connect(user).zapOut(amm, liquidity, token0, 0, user.address, await deadline());
+
+      const returned = (await token0.balanceOf(user.address)) - balance;
+      expect(returned).to.be.lt(toWei(100));
+      expect(returned).to.be.gt(toWei("99.5"));
+    });
+
+    it("should enforce the minimum output and deadline", async () => {
+      const liquidity = toWei(10);
+      const { amountOut } = await client.quoteZapOut(liquidity, await token1.getAddress());
+
+      await expect(
+        zap
+          .connect(user)
+          .zapOut(amm, liquidity, token1, amountOut + 1n, user.address, await deadline())
+      ).to.be.revertedWith("AMMZap: insufficient output amount");
+      await expect(
+        zap.connect(user).zapOut(amm, liquidity, token1, 0, user.address, await time.latest())
+      ).to.be.revertedWith("AMMZap: expired");
+    });
+
+    it("should require an LP token allowance", async () => {
+      await lpToken.connect(user).approve(zapAddress, 0);
+      await expect(
+        zap.connect(user).zapOut(amm, toWei(1), token0, 0, user.address, await deadline())
+      ).to.be.revertedWithCustomError(lpToken, "ERC20InsufficientAllowance");
+    });
+  });
+});